@@ -0,0 +1,306 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Connection, Keypair } from "@solana/web3.js";
+import { AccountLayout } from "@solana/spl-token";
+import bs58 from "bs58";
+import { runCli, CliServices } from "../index";
+import { DelegateRegistry } from "../../delegate/registry";
+import { InMemoryTaskStore } from "../../task/store/memory";
+import { BaseDelegateResult } from "../../delegate/types";
+
+const DESTINATION = "So11111111111111111111111111111111111111112";
+const MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+describe("delegate CLI", () => {
+    let directory: string;
+    let signer: Keypair;
+    let store: InMemoryTaskStore;
+    let executeDelegate: jest.Mock<Promise<BaseDelegateResult>, [any, any]>;
+    let stdout: string[];
+    let stderr: string[];
+    let services: Partial<CliServices>;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "delegate-cli-"));
+        signer = Keypair.generate();
+        store = new InMemoryTaskStore();
+        executeDelegate = jest.fn().mockResolvedValue({ success: true, signatures: ["sig1", "sig2"] });
+        stdout = [];
+        stderr = [];
+        services = {
+            createRegistry: (_config, registrySigner) => new DelegateRegistry(
+                { connection: {} as Connection, signerKeypair: registrySigner },
+                { registerBuiltIns: false }
+            ).register("hopper", deps => ({
+                signerKeypair: deps.signerKeypair,
+                connection: deps.connection,
+                executeDelegate,
+                validateOptions: jest.fn(),
+            })),
+            createTaskStore: () => store,
+            onShutdown: () => () => {},
+        };
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    async function writeFile(name: string, contents: unknown): Promise<string> {
+        const filePath = path.join(directory, name);
+        await fs.writeFile(filePath, typeof contents === "string" ? contents : JSON.stringify(contents));
+        return filePath;
+    }
+
+    function cli(argv: string[], env: Record<string, string> = { DELEGATE_PRIVATE_KEY: bs58.encode(signer.secretKey) }): Promise<number> {
+        return runCli(argv, { env, stdout: text => stdout.push(text), stderr: text => stderr.push(text), services });
+    }
+
+    const hopperOptions = { type: "hopper", hopDestination: DESTINATION, numOfHops: "3", numTokens: 1, tokenType: "sol" };
+
+    describe("run", () => {
+        it("should run a delegate from a JSON options file", async () => {
+            const filePath = await writeFile("hopper.json", hopperOptions);
+
+            await expect(cli(["run", filePath])).resolves.toBe(0);
+
+            expect(executeDelegate).toHaveBeenCalledWith(
+                { ...hopperOptions, numOfHops: 3 },
+                expect.objectContaining({ dryRun: false, idempotencyKey: undefined })
+            );
+            expect(stdout).toEqual(["hopper succeeded", "  sig1", "  sig2"]);
+        });
+
+        it("should read YAML options files", async () => {
+            const filePath = await writeFile("hopper.yaml", [
+                "# Daily hop",
+                "type: hopper",
+                `hopDestination: "${DESTINATION}"`,
+                "numOfHops: 2 # Two hops",
+                "numTokens: 0.5",
+                "tokenType: sol",
+            ].join("\n"));
+
+            await expect(cli(["run", filePath, "--idempotency-key", "hop-1"])).resolves.toBe(0);
+
+            expect(executeDelegate).toHaveBeenCalledWith(
+                { type: "hopper", hopDestination: DESTINATION, numOfHops: 2, numTokens: 0.5, tokenType: "sol" },
+                expect.objectContaining({ idempotencyKey: "hop-1" })
+            );
+        });
+
+        it("should reject malformed YAML and exit with 2", async () => {
+            const filePath = await writeFile("hopper.yml", "type: hopper\nnumOfHops: [2");
+
+            await expect(cli(["run", filePath])).resolves.toBe(2);
+
+            expect(executeDelegate).not.toHaveBeenCalled();
+            expect(stderr[0]).toContain(`Cannot parse ${filePath}`);
+        });
+
+        it("should print the plan of a dry run", async () => {
+            executeDelegate.mockResolvedValue({
+                success: true,
+                dryRun: {
+                    transactions: [{ description: "Hop 1 of 3", success: true, computeUnits: 450, fee: 5000, balanceChanges: [], logs: [] }],
+                    balanceChanges: [{ address: DESTINATION, lamports: -1000005000 }],
+                    totalFee: 5000,
+                    totalComputeUnits: 450,
+                    errors: [],
+                    notes: ["Only the first hop is simulated"],
+                },
+            });
+            const filePath = await writeFile("hopper.json", hopperOptions);
+
+            await expect(cli(["run", filePath, "--dry-run"])).resolves.toBe(0);
+
+            expect(executeDelegate).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ dryRun: true }));
+            expect(stdout).toEqual([
+                "Dry run of hopper: would succeed",
+                "Transactions:",
+                "  1. Hop 1 of 3 (fee 5000 lamports, 450 CU)",
+                "Balance changes:",
+                `  ${DESTINATION}  -1.000005 SOL`,
+                "Total fee: 5000 lamports, 450 compute units",
+                "Note: Only the first hop is simulated",
+            ]);
+        });
+
+        it("should print the result as JSON and exit with 1 when the delegate fails", async () => {
+            executeDelegate.mockResolvedValue({ success: false, error: "Insufficient balance" });
+            const filePath = await writeFile("hopper.json", hopperOptions);
+
+            await expect(cli(["run", filePath, "--json"])).resolves.toBe(1);
+
+            expect(JSON.parse(stdout.join("\n"))).toEqual({ success: false, error: "Insufficient balance" });
+        });
+
+        it("should list every invalid option and exit with 2", async () => {
+            const filePath = await writeFile("hopper.json", { ...hopperOptions, numOfHops: 0, speed: "fast" });
+
+            await expect(cli(["run", filePath])).resolves.toBe(2);
+
+            expect(executeDelegate).not.toHaveBeenCalled();
+            expect(stderr).toEqual([
+                `Error [VALIDATION_ERROR]: Invalid options in ${filePath}:\n  speed: Unknown field speed\n  numOfHops: numOfHops must be at least 1`,
+            ]);
+        });
+    });
+
+    describe("keys", () => {
+        it("should refuse keys passed as arguments", async () => {
+            const filePath = await writeFile("hopper.json", hopperOptions);
+
+            await expect(cli(["run", filePath, "--private-key", bs58.encode(signer.secretKey)])).resolves.toBe(2);
+
+            expect(stderr[0]).toContain("--private-key is not accepted");
+            expect(executeDelegate).not.toHaveBeenCalled();
+        });
+
+        it("should load the signer from a keystore file in the Solana CLI format", async () => {
+            const keystore = await writeFile("id.json", `[${Array.from(signer.secretKey).join(",")}]`);
+            await fs.chmod(keystore, 0o600);
+            const filePath = await writeFile("task.json", { name: "Hop", options: hopperOptions });
+
+            await expect(cli(["tasks", "add", filePath, "--keystore", keystore], {})).resolves.toBe(0);
+
+            const [task] = await store.query();
+            expect(task?.owner.address).toBe(signer.publicKey.toBase58());
+            expect(stderr).toEqual([]);
+        });
+
+        it("should warn when the keystore file is readable by other users", async () => {
+            const keystore = await writeFile("id.json", bs58.encode(signer.secretKey));
+            await fs.chmod(keystore, 0o644);
+            const filePath = await writeFile("hopper.json", hopperOptions);
+
+            await expect(cli(["run", filePath], { DELEGATE_KEYSTORE: keystore })).resolves.toBe(0);
+
+            expect(stderr).toEqual([`[warn] Keystore ${keystore} is accessible by other users, restrict it with chmod 600`]);
+        });
+
+        it("should fail without a signer and never echo an invalid key", async () => {
+            const filePath = await writeFile("hopper.json", hopperOptions);
+
+            await expect(cli(["run", filePath], {})).resolves.toBe(1);
+            await expect(cli(["run", filePath], { DELEGATE_PRIVATE_KEY: "not-a-secret-key" })).resolves.toBe(1);
+
+            expect(stderr[0]).toContain("No signer configured");
+            expect(stderr[1]).toBe("Error [CONFIGURATION_ERROR]: Invalid secret key in DELEGATE_PRIVATE_KEY, expected a JSON byte array or base58");
+        });
+    });
+
+    describe("tasks", () => {
+        it("should add, list, run, pause, resume and remove a task", async () => {
+            const filePath = await writeFile("task.json", {
+                id: "daily-hop",
+                name: "Daily hop",
+                schedule: { unit: "days", interval: 1 },
+                options: hopperOptions,
+            });
+
+            await expect(cli(["tasks", "add", filePath])).resolves.toBe(0);
+            expect(stdout.pop()).toMatch(/^Task daily-hop added, next run at /);
+
+            await expect(cli(["tasks", "list"])).resolves.toBe(0);
+            expect(stdout.splice(0)).toEqual([
+                expect.stringMatching(/^ID\s+TYPE\s+STATUS\s+NEXT RUN\s+NAME$/),
+                expect.stringMatching(/^daily-hop\s+hopper\s+new\s+\S+\s+Daily hop$/),
+            ]);
+
+            await expect(cli(["tasks", "run", "daily-hop"])).resolves.toBe(0);
+            expect(stdout.splice(0)).toEqual(["hopper succeeded", "  sig1", "  sig2"]);
+            expect(executeDelegate).toHaveBeenCalledWith(expect.objectContaining({ numOfHops: 3 }), expect.anything());
+
+            await expect(cli(["tasks", "pause", "daily-hop"])).resolves.toBe(0);
+            await expect(cli(["tasks", "list", "--status", "paused", "--json"])).resolves.toBe(0);
+            expect(JSON.parse(stdout.splice(0).slice(1).join("\n"))).toEqual([expect.objectContaining({ id: "daily-hop", status: "paused" })]);
+
+            await expect(cli(["tasks", "resume", "daily-hop"])).resolves.toBe(0);
+            expect((await store.get("daily-hop"))?.status).toBe("completed");
+
+            await expect(cli(["tasks", "remove", "daily-hop"])).resolves.toBe(0);
+            await expect(cli(["tasks", "show", "daily-hop"])).resolves.toBe(1);
+            expect(stderr).toEqual(["[error] Task daily-hop not found"]);
+        });
+
+        it("should report invalid options of a task file under their path", async () => {
+            const filePath = await writeFile("task.json", { name: "Hop", options: { ...hopperOptions, tokenType: "nft" } });
+
+            await expect(cli(["tasks", "add", filePath])).resolves.toBe(2);
+
+            expect(stderr[0]).toContain("  options.tokenType: tokenType must be either 'sol' or 'token'");
+            expect(await store.query()).toEqual([]);
+        });
+    });
+
+    describe("balance", () => {
+        it("should show the SOL and token balances of the signer", async () => {
+            const data = Buffer.alloc(AccountLayout.span);
+            AccountLayout.encode({
+                mint: new Keypair().publicKey,
+                owner: signer.publicKey,
+                amount: BigInt(1234500),
+                delegateOption: 0,
+                delegate: signer.publicKey,
+                state: 1,
+                isNativeOption: 0,
+                isNative: BigInt(0),
+                delegatedAmount: BigInt(0),
+                closeAuthorityOption: 0,
+                closeAuthority: signer.publicKey,
+            }, data);
+            const mint = AccountLayout.decode(data).mint.toBase58();
+            const getWalletTokenData = jest.fn().mockResolvedValue({
+                solAccountInfo: { value: { lamports: 1500000000 } },
+                tokenAccounts: { value: [{ pubkey: MINT, account: { data: [data.toString("base64"), "base64"] } }] },
+            });
+            services.createHeliusClient = () => ({ getWalletTokenData, getTokenInfo: jest.fn().mockResolvedValue({ decimals: 6 }) });
+
+            await expect(cli(["balance"])).resolves.toBe(0);
+
+            expect(getWalletTokenData).toHaveBeenCalledWith(signer.publicKey.toBase58());
+            expect(stdout).toEqual([
+                `Wallet ${signer.publicKey.toBase58()}`,
+                "SOL: 1.5",
+                expect.stringMatching(/^MINT\s+BALANCE\s+TOKEN ACCOUNT$/),
+                expect.stringMatching(new RegExp(`^${mint}\\s+1\\.2345\\s+${MINT}$`)),
+            ]);
+        });
+
+        it("should require a Helius API key", async () => {
+            await expect(cli(["balance", DESTINATION], {})).resolves.toBe(1);
+
+            expect(stderr).toEqual(["Error [CONFIGURATION_ERROR]: Set HELIUS_API_KEY to look up wallet balances"]);
+        });
+    });
+
+    describe("worker", () => {
+        it("should run the scheduler until it is asked to shut down", async () => {
+            let shutdown: (signal: string) => void = () => {};
+            services.onShutdown = listener => {
+                shutdown = listener;
+                return () => {};
+            };
+
+            const exitCode = cli(["worker", "--poll-interval", "60000"]);
+            await new Promise(resolve => setImmediate(resolve));
+            shutdown("SIGTERM");
+
+            await expect(exitCode).resolves.toBe(0);
+            expect(stderr).toEqual([
+                `[info] Worker started, signing as ${signer.publicKey.toBase58()} {"taskStore":"delegate-tasks.json"}`,
+                "[info] Task engine started {\"pollInterval\":60000}",
+                "[info] Received SIGTERM, waiting for runs in progress to finish",
+                "[info] Task engine stopped",
+                "[info] Worker stopped",
+            ]);
+        });
+    });
+
+    it("should print usage for unknown commands", async () => {
+        await expect(cli(["deploy"])).resolves.toBe(2);
+        expect(stderr[0]).toMatch(/^Unknown command: deploy\n\nUsage:/);
+    });
+});
@@ -0,0 +1,101 @@
+import { ValidationError } from "../utils/errors";
+
+/**
+ * Flags a command accepts. Value flags take the next argument or `--flag=value`.
+ */
+export interface FlagSpec {
+    boolean?: string[];
+    value?: string[];
+}
+
+export interface ParsedArgs {
+    positionals: string[];
+    flags: Record<string, string | boolean>;
+}
+
+// Secrets in arguments end up in shell history and process listings
+const SECRET_FLAGS = ["private-key", "secret-key", "key", "api-key", "jwt"];
+
+/**
+ * Parse command-line arguments
+ * @param argv - The arguments after the command name
+ * @param spec - The flags the command accepts
+ * @returns Positional arguments and flag values
+ * @throws ValidationError for unknown flags, missing values and secrets passed as flags
+ */
+export function parseArgs(argv: string[], spec: FlagSpec): ParsedArgs {
+    const booleanFlags = spec.boolean ?? [];
+    const valueFlags = spec.value ?? [];
+    const positionals: string[] = [];
+    const flags: Record<string, string | boolean> = {};
+
+    for (let index = 0; index < argv.length; index++) {
+        const arg = argv[index]!;
+        if (arg === "--") {
+            positionals.push(...argv.slice(index + 1));
+            break;
+        }
+        if (!arg.startsWith("--")) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const [name = "", inlineValue] = splitFlag(arg.slice(2));
+        if (SECRET_FLAGS.includes(name)) {
+            throw new ValidationError(`--${name} is not accepted: pass keys through a keystore file or environment variable`);
+        }
+
+        if (booleanFlags.includes(name)) {
+            if (inlineValue !== undefined) {
+                throw new ValidationError(`--${name} does not take a value`);
+            }
+            flags[name] = true;
+        } else if (valueFlags.includes(name)) {
+            const value = inlineValue ?? argv[++index];
+            if (value === undefined || value === "") {
+                throw new ValidationError(`--${name} requires a value`);
+            }
+            flags[name] = value;
+        } else {
+            throw new ValidationError(`Unknown option --${name}`);
+        }
+    }
+
+    return { positionals, flags };
+}
+
+/**
+ * Get a flag's value as a string
+ * @param args - The parsed arguments
+ * @param name - The flag name
+ * @returns The value, or undefined if the flag was not given
+ */
+export function getStringFlag(args: ParsedArgs, name: string): string | undefined {
+    const value = args.flags[name];
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Get a flag's value as a positive integer
+ * @param args - The parsed arguments
+ * @param name - The flag name
+ * @returns The value, or undefined if the flag was not given
+ * @throws ValidationError if the value is not a positive integer
+ */
+export function getIntegerFlag(args: ParsedArgs, name: string): number | undefined {
+    const value = getStringFlag(args, name);
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new ValidationError(`--${name} must be a positive integer`);
+    }
+    return parsed;
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+    const separator = flag.indexOf("=");
+    return separator === -1 ? [flag, undefined] : [flag.slice(0, separator), flag.slice(separator + 1)];
+}
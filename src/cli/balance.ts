@@ -0,0 +1,104 @@
+import { PublicKey } from "@solana/web3.js";
+import { AccountLayout } from "@solana/spl-token";
+import bs58 from "bs58";
+import { ValidationError } from "../utils/errors";
+import { ParsedArgs } from "./args";
+import { CliContext } from "./context";
+import { formatSol, formatTable, formatTokenAmount } from "./output";
+
+export const BALANCE_USAGE = "delegate balance [address] [--all] [--json]";
+
+export interface TokenBalance {
+    mint: string;
+    tokenAccount: string;
+    amount: string; // Base units
+    decimals: number | null; // Null if the mint could not be looked up
+    uiAmount: string | null;
+}
+
+export interface WalletBalance {
+    address: string;
+    lamports: number;
+    sol: string;
+    tokens: TokenBalance[];
+}
+
+/**
+ * Show the SOL and token balances of a wallet, the signer's by default.
+ * Empty token accounts are left out unless --all is given.
+ * @param args - The command's arguments
+ * @param context - The CLI context
+ * @returns The exit code
+ */
+export async function balanceCommand(args: ParsedArgs, context: CliContext): Promise<number> {
+    if (args.positionals.length > 1) {
+        throw new ValidationError(`Usage: ${BALANCE_USAGE}`);
+    }
+
+    const address = args.positionals[0] ?? (await context.services.loadSigner(context.config, context.logger)).publicKey.toBase58();
+    try {
+        new PublicKey(address);
+    } catch {
+        throw new ValidationError(`Invalid address: ${address}`);
+    }
+
+    const balance = await getWalletBalance(context, address, args.flags["all"] === true);
+    if (context.config.json) {
+        context.printJson(balance);
+        return 0;
+    }
+
+    context.print(`Wallet ${balance.address}`);
+    context.print(`SOL: ${balance.sol}`);
+    if (balance.tokens.length === 0) {
+        context.print("No tokens");
+    } else {
+        const rows = balance.tokens.map(token => [token.mint, token.uiAmount ?? `${token.amount} (raw)`, token.tokenAccount]);
+        formatTable(["MINT", "BALANCE", "TOKEN ACCOUNT"], rows).forEach(line => context.print(line));
+    }
+    return 0;
+}
+
+async function getWalletBalance(context: CliContext, address: string, includeEmpty: boolean): Promise<WalletBalance> {
+    const heliusClient = context.services.createHeliusClient(context.config, context.logger);
+    const walletData = await heliusClient.getWalletTokenData(address);
+
+    const lamports: number = walletData.solAccountInfo?.value?.lamports ?? 0;
+    const accounts: { pubkey: string; account: { data: unknown } }[] = walletData.tokenAccounts?.value ?? [];
+
+    const tokens: TokenBalance[] = [];
+    for (const { pubkey, account } of accounts) {
+        const decoded = AccountLayout.decode(decodeAccountData(account.data));
+        if (decoded.amount === BigInt(0) && !includeEmpty) {
+            continue;
+        }
+
+        const mint = decoded.mint.toBase58();
+        const tokenInfo = await heliusClient.getTokenInfo(mint).catch(error => {
+            context.logger.warn(`Could not look up decimals of ${mint}`, error);
+            return null;
+        });
+        tokens.push({
+            mint,
+            tokenAccount: pubkey,
+            amount: decoded.amount.toString(),
+            decimals: tokenInfo?.decimals ?? null,
+            uiAmount: tokenInfo ? formatTokenAmount(decoded.amount, tokenInfo.decimals) : null,
+        });
+    }
+
+    return { address, lamports, sol: formatSol(lamports), tokens };
+}
+
+/**
+ * Account data arrives as [data, encoding] or, in the legacy binary encoding, as a base58 string
+ */
+function decodeAccountData(data: unknown): Buffer {
+    if (Array.isArray(data) && typeof data[0] === "string") {
+        return data[1] === "base58" ? Buffer.from(bs58.decode(data[0])) : Buffer.from(data[0], "base64");
+    }
+    if (typeof data === "string") {
+        return Buffer.from(bs58.decode(data));
+    }
+    throw new Error("Unsupported token account data encoding");
+}
@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import { runCli } from "./index";
+
+runCli(process.argv.slice(2), {
+    env: process.env,
+    stdout: text => process.stdout.write(`${text}\n`),
+    stderr: text => process.stderr.write(`${text}\n`),
+}).then(code => {
+    // Exit explicitly: open RPC connections would otherwise keep the process alive
+    process.exit(code);
+}).catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+});
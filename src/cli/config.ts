@@ -0,0 +1,142 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { parse as parseYaml } from "yaml";
+import { ConfigurationError, ValidationError } from "../utils/errors";
+import { LogLevel } from "../utils/logger";
+import { Logger } from "../solana/types";
+import { getStringFlag, ParsedArgs } from "./args";
+
+/**
+ * Environment variables the CLI reads. Secrets are only ever read from here
+ * or from a keystore file, never from arguments.
+ */
+export const CLI_ENV = {
+    RPC_URL: "SOLANA_RPC_URL",
+    HELIUS_API_KEY: "HELIUS_API_KEY",
+    PINATA_JWT: "PINATA_JWT",
+    KEYSTORE: "DELEGATE_KEYSTORE", // Path to a keypair file
+    PRIVATE_KEY: "DELEGATE_PRIVATE_KEY", // Base58 secret key or JSON byte array
+    TASK_STORE: "DELEGATE_TASK_STORE",
+    CHECKPOINT_STORE: "DELEGATE_CHECKPOINT_STORE",
+    LOG_LEVEL: "DELEGATE_LOG_LEVEL",
+} as const;
+
+export type CliEnv = Record<string, string | undefined>;
+
+export interface CliConfig {
+    rpcUrl: string;
+    heliusApiKey?: string;
+    pinataJwt?: string;
+    keystorePath?: string;
+    privateKey?: string;
+    taskStorePath: string; // A .db, .sqlite or .sqlite3 file opens a SQLite store; anything else a JSON file
+    checkpointStorePath: string;
+    logLevel: LogLevel;
+    json: boolean; // Print machine-readable output
+}
+
+const DEFAULT_RPC_URL = "https://api.mainnet-beta.solana.com";
+const HELIUS_RPC_URL = "https://mainnet.helius-rpc.com";
+const DEFAULT_TASK_STORE = "delegate-tasks.json";
+const DEFAULT_CHECKPOINT_STORE = "delegate-checkpoints.json";
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Resolve the CLI configuration from global flags and environment variables.
+ * Flags win over the environment.
+ * @param args - The parsed arguments
+ * @param env - The environment variables
+ * @param defaultLogLevel - Log level when none is set, e.g. 'info' for the worker
+ * @returns The configuration
+ */
+export function resolveCliConfig(args: ParsedArgs, env: CliEnv, defaultLogLevel: LogLevel = "warn"): CliConfig {
+    const heliusApiKey = env[CLI_ENV.HELIUS_API_KEY] || undefined;
+    const logLevel = (getStringFlag(args, "log-level") ?? env[CLI_ENV.LOG_LEVEL] ?? defaultLogLevel) as LogLevel;
+    if (!LOG_LEVELS.includes(logLevel)) {
+        throw new ValidationError(`Invalid log level: ${logLevel}, must be one of ${LOG_LEVELS.join(", ")}`);
+    }
+
+    return {
+        rpcUrl: getStringFlag(args, "rpc-url")
+            ?? env[CLI_ENV.RPC_URL]
+            ?? (heliusApiKey ? `${HELIUS_RPC_URL}/?api-key=${heliusApiKey}` : DEFAULT_RPC_URL),
+        heliusApiKey,
+        pinataJwt: env[CLI_ENV.PINATA_JWT] || undefined,
+        keystorePath: getStringFlag(args, "keystore") ?? (env[CLI_ENV.KEYSTORE] || undefined),
+        privateKey: env[CLI_ENV.PRIVATE_KEY] || undefined,
+        taskStorePath: getStringFlag(args, "store") ?? env[CLI_ENV.TASK_STORE] ?? DEFAULT_TASK_STORE,
+        checkpointStorePath: env[CLI_ENV.CHECKPOINT_STORE] ?? DEFAULT_CHECKPOINT_STORE,
+        logLevel,
+        json: args.flags["json"] === true,
+    };
+}
+
+/**
+ * Read a JSON or YAML document
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @returns The parsed document
+ */
+export async function loadDocument(filePath: string): Promise<unknown> {
+    let text: string;
+    try {
+        text = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+        throw new ValidationError(`Cannot read ${filePath}: ${(error as Error).message}`);
+    }
+
+    const extension = path.extname(filePath).toLowerCase();
+    try {
+        return extension === ".yaml" || extension === ".yml" ? parseYaml(text) as unknown : JSON.parse(text);
+    } catch (error) {
+        throw new ValidationError(`Cannot parse ${filePath}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Load the signer's keypair from the keystore file if one is configured,
+ * otherwise from the DELEGATE_PRIVATE_KEY environment variable
+ * @param config - The CLI configuration
+ * @param logger - Warned when the keystore file is readable by other users
+ * @returns The signer
+ */
+export async function loadSignerKeypair(config: CliConfig, logger?: Logger): Promise<Keypair> {
+    if (config.keystorePath) {
+        let stats;
+        let text: string;
+        try {
+            stats = await fs.stat(config.keystorePath);
+            text = await fs.readFile(config.keystorePath, "utf8");
+        } catch (error) {
+            throw new ConfigurationError(`Cannot read keystore ${config.keystorePath}: ${(error as Error).message}`);
+        }
+
+        if (process.platform !== "win32" && (stats.mode & 0o077) !== 0) {
+            logger?.warn(`Keystore ${config.keystorePath} is accessible by other users, restrict it with chmod 600`);
+        }
+        return parseSecretKey(text, `keystore ${config.keystorePath}`);
+    }
+
+    if (config.privateKey) {
+        return parseSecretKey(config.privateKey, CLI_ENV.PRIVATE_KEY);
+    }
+
+    throw new ConfigurationError(`No signer configured: set ${CLI_ENV.KEYSTORE} or pass --keystore with the path of a keypair file, or set ${CLI_ENV.PRIVATE_KEY}`);
+}
+
+/**
+ * Parse a secret key in the Solana CLI keypair format (a JSON byte array) or base58
+ * @param text - The secret key
+ * @param source - Where the key came from, for error messages; the key itself is never included
+ * @returns The keypair
+ */
+export function parseSecretKey(text: string, source: string): Keypair {
+    const trimmed = text.trim();
+    try {
+        const secretKey = trimmed.startsWith("[") ? Uint8Array.from(JSON.parse(trimmed) as number[]) : bs58.decode(trimmed);
+        return Keypair.fromSecretKey(secretKey);
+    } catch {
+        throw new ConfigurationError(`Invalid secret key in ${source}, expected a JSON byte array or base58`);
+    }
+}
@@ -0,0 +1,108 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import { DelegateRegistry } from "../delegate/registry";
+import { JsonFileCheckpointStore } from "../delegate/checkpoint/json-file";
+import { HeliusClient } from "../solana/clients/helius";
+import { PinataClient } from "../solana/clients/metadata/pinata";
+import { Logger } from "../solana/types";
+import { TaskStore } from "../task/store/base";
+import { JsonFileTaskStore } from "../task/store/json-file";
+import { SqliteTaskStore } from "../task/store/sqlite";
+import { ConfigurationError } from "../utils/errors";
+import { LogLevel } from "../utils/logger";
+import { CliConfig, CliEnv, CLI_ENV, loadSignerKeypair } from "./config";
+
+/**
+ * The parts of HeliusClient the CLI uses
+ */
+export type CliHeliusClient = Pick<HeliusClient, "getWalletTokenData" | "getTokenInfo">;
+
+/**
+ * Builds what commands run against. Tests replace these with in-memory
+ * stores and fake clients.
+ */
+export interface CliServices {
+    loadSigner(config: CliConfig, logger: Logger): Promise<Keypair>;
+    createRegistry(config: CliConfig, signer: Keypair, logger: Logger): DelegateRegistry;
+    createTaskStore(config: CliConfig): TaskStore;
+    createHeliusClient(config: CliConfig, logger: Logger): CliHeliusClient;
+    onShutdown(listener: (signal: string) => void): () => void; // Returns a function that removes the listener
+}
+
+/**
+ * Where the CLI reads its environment and writes its output
+ */
+export interface CliEnvironment {
+    env: CliEnv;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    services?: Partial<CliServices>;
+}
+
+/**
+ * Everything a command needs
+ */
+export interface CliContext {
+    config: CliConfig;
+    services: CliServices;
+    logger: Logger;
+    print: (text: string) => void; // Command output, on stdout
+    printJson: (value: unknown) => void;
+}
+
+const SQLITE_EXTENSIONS = [".db", ".sqlite", ".sqlite3"];
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export const defaultCliServices: CliServices = {
+    loadSigner: loadSignerKeypair,
+
+    createRegistry(config, signer, logger) {
+        const heliusClient = config.heliusApiKey ? new HeliusClient({ apiKey: config.heliusApiKey, logger }) : undefined;
+        const metadataClient = config.pinataJwt ? new PinataClient({ jwt: config.pinataJwt, logger }) : undefined;
+
+        return new DelegateRegistry({
+            connection: new Connection(config.rpcUrl, { commitment: "confirmed" }),
+            signerKeypair: signer,
+            heliusClient,
+            metadataClient,
+            checkpointStore: new JsonFileCheckpointStore({ filePath: config.checkpointStorePath }),
+            logger,
+        });
+    },
+
+    createTaskStore(config) {
+        return SQLITE_EXTENSIONS.some(extension => config.taskStorePath.toLowerCase().endsWith(extension))
+            ? new SqliteTaskStore({ filename: config.taskStorePath })
+            : new JsonFileTaskStore({ filePath: config.taskStorePath });
+    },
+
+    createHeliusClient(config, logger) {
+        if (!config.heliusApiKey) {
+            throw new ConfigurationError(`Set ${CLI_ENV.HELIUS_API_KEY} to look up wallet balances`);
+        }
+        return new HeliusClient({ apiKey: config.heliusApiKey, logger });
+    },
+
+    onShutdown(listener) {
+        const signals: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+        signals.forEach(signal => process.once(signal, listener));
+        return () => signals.forEach(signal => process.removeListener(signal, listener));
+    },
+};
+
+/**
+ * Create a logger that writes to stderr, so logs never mix with command output
+ * @param write - Writes a line to stderr
+ * @param minLevel - Entries below this level are dropped
+ * @returns The logger
+ */
+export function createCliLogger(write: (text: string) => void, minLevel: LogLevel): Logger {
+    const log = (level: LogLevel) => (message: string, data?: any) => {
+        if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[minLevel]) {
+            return;
+        }
+        const details = data instanceof Error ? data.message : data === undefined ? "" : JSON.stringify(data);
+        write(`[${level}] ${message}${details ? ` ${details}` : ""}`);
+    };
+
+    return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
@@ -0,0 +1,91 @@
+import { getErrorMessage } from "../utils/error-handling";
+import { FrameworkError, ValidationError } from "../utils/errors";
+import { LogLevel } from "../utils/logger";
+import { FlagSpec, parseArgs, ParsedArgs } from "./args";
+import { resolveCliConfig } from "./config";
+import { CliContext, CliEnvironment, createCliLogger, defaultCliServices } from "./context";
+import { BALANCE_USAGE, balanceCommand } from "./balance";
+import { RUN_USAGE, runDelegateCommand } from "./run";
+import { TASKS_USAGE, tasksCommand } from "./tasks";
+import { WORKER_USAGE, workerCommand } from "./worker";
+
+export type { CliEnvironment, CliServices, CliHeliusClient } from "./context";
+export { CLI_ENV } from "./config";
+
+interface CliCommand {
+    flags: FlagSpec;
+    defaultLogLevel?: LogLevel;
+    run(args: ParsedArgs, context: CliContext): Promise<number>;
+}
+
+const GLOBAL_FLAGS: Required<FlagSpec> = {
+    boolean: ["json", "help"],
+    value: ["log-level", "rpc-url", "keystore", "store"],
+};
+
+const COMMANDS: Record<string, CliCommand> = {
+    run: { flags: { boolean: ["dry-run"], value: ["idempotency-key"] }, run: runDelegateCommand },
+    tasks: { flags: { value: ["status", "type", "limit"] }, run: tasksCommand },
+    balance: { flags: { boolean: ["all"] }, run: balanceCommand },
+    worker: { flags: { value: ["poll-interval"] }, defaultLogLevel: "info", run: workerCommand },
+};
+
+export const USAGE = [
+    "Usage:",
+    `  ${RUN_USAGE}`,
+    ...TASKS_USAGE.map(line => `  ${line}`),
+    `  ${BALANCE_USAGE}`,
+    `  ${WORKER_USAGE}`,
+    "",
+    "Global options:",
+    "  --keystore <path>     Keypair file of the signer (or set DELEGATE_KEYSTORE, or DELEGATE_PRIVATE_KEY)",
+    "  --store <path>        Task store, a .json or .db file (default: delegate-tasks.json)",
+    "  --rpc-url <url>       Solana RPC endpoint (or set SOLANA_RPC_URL)",
+    "  --log-level <level>   debug, info, warn or error",
+    "  --json                Print machine-readable output",
+    "",
+    "Secrets are read from the environment or a keystore file only: HELIUS_API_KEY, PINATA_JWT, DELEGATE_PRIVATE_KEY.",
+].join("\n");
+
+/**
+ * Run the delegate CLI
+ * @param argv - The arguments after the program name
+ * @param environment - Environment variables, output streams and optional service overrides
+ * @returns The exit code: 0 on success, 1 if the command failed, 2 for invalid input
+ */
+export async function runCli(argv: string[], environment: CliEnvironment): Promise<number> {
+    const [commandName, ...rest] = argv;
+    const command = commandName ? COMMANDS[commandName] : undefined;
+
+    if (!command) {
+        const asked = !commandName || commandName === "help" || commandName === "--help";
+        (asked ? environment.stdout : environment.stderr)(asked ? USAGE : `Unknown command: ${commandName}\n\n${USAGE}`);
+        return asked ? 0 : 2;
+    }
+
+    try {
+        const args = parseArgs(rest, {
+            boolean: [...GLOBAL_FLAGS.boolean, ...(command.flags.boolean ?? [])],
+            value: [...GLOBAL_FLAGS.value, ...(command.flags.value ?? [])],
+        });
+        if (args.flags["help"] === true) {
+            environment.stdout(USAGE);
+            return 0;
+        }
+
+        const config = resolveCliConfig(args, environment.env, command.defaultLogLevel);
+        const context: CliContext = {
+            config,
+            services: { ...defaultCliServices, ...environment.services },
+            logger: createCliLogger(environment.stderr, config.logLevel),
+            print: environment.stdout,
+            printJson: value => environment.stdout(JSON.stringify(value, null, 2)),
+        };
+
+        return await command.run(args, context);
+    } catch (error) {
+        const code = error instanceof FrameworkError ? ` [${error.code}]` : "";
+        environment.stderr(`Error${code}: ${getErrorMessage(error)}`);
+        return error instanceof ValidationError ? 2 : 1;
+    }
+}
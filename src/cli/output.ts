@@ -0,0 +1,114 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { BaseDelegateResult, DryRunPlan } from "../delegate/types";
+import { BaseTask } from "../types";
+import { ValidationIssue } from "../utils/errors";
+
+/**
+ * Format a delegate result as lines of text
+ * @param type - The delegate type
+ * @param result - The result to format
+ * @returns The lines to print
+ */
+export function formatDelegateResult(type: string, result: BaseDelegateResult): string[] {
+    if (result.dryRun) {
+        return formatDryRunPlan(type, result.success, result.dryRun);
+    }
+    if (result.aborted) {
+        const progress = result.progress ? ` after ${result.progress.completed} of ${result.progress.total} steps` : "";
+        return [`${type} stopped${progress}: ${result.error ?? "aborted"}`, ...formatSignatures(result.signatures)];
+    }
+    if (!result.success) {
+        return [`${type} failed: ${result.error ?? "unknown error"}`, ...formatSignatures(result.signatures)];
+    }
+    return [`${type} succeeded`, ...formatSignatures(result.signatures)];
+}
+
+/**
+ * Format a dry-run plan as lines of text
+ * @param type - The delegate type
+ * @param success - Whether every simulation succeeded
+ * @param plan - The plan to format
+ * @returns The lines to print
+ */
+export function formatDryRunPlan(type: string, success: boolean, plan: DryRunPlan): string[] {
+    const lines = [`Dry run of ${type}: ${success ? "would succeed" : "would fail"}`, "Transactions:"];
+
+    plan.transactions.forEach((transaction, index) => {
+        const computeUnits = transaction.computeUnits !== undefined ? `, ${transaction.computeUnits} CU` : "";
+        const error = transaction.error ? ` - failed: ${transaction.error}` : "";
+        lines.push(`  ${index + 1}. ${transaction.description} (fee ${transaction.fee} lamports${computeUnits})${error}`);
+    });
+    if (plan.transactions.length === 0) {
+        lines.push("  none");
+    }
+
+    if (plan.balanceChanges.length > 0) {
+        lines.push("Balance changes:");
+        plan.balanceChanges.forEach(change => lines.push(`  ${change.address}  ${formatSol(change.lamports, true)} SOL`));
+    }
+    lines.push(`Total fee: ${plan.totalFee} lamports, ${plan.totalComputeUnits} compute units`);
+    plan.errors.forEach(error => lines.push(`Error: ${error}`));
+    plan.notes.forEach(note => lines.push(`Note: ${note}`));
+
+    return lines;
+}
+
+/**
+ * Format validation issues, one per line
+ * @param issues - The issues to format
+ * @returns The lines to print
+ */
+export function formatIssues(issues: ValidationIssue[]): string[] {
+    return issues.map(issue => `  ${issue.path || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Format tasks as a table
+ * @param tasks - The tasks to list
+ * @returns The lines to print
+ */
+export function formatTaskTable(tasks: BaseTask[]): string[] {
+    const rows = tasks.map(task => [task.id, task.type, task.status, task.nextRun ? task.nextRun.toISOString() : "-", task.name]);
+    return formatTable(["ID", "TYPE", "STATUS", "NEXT RUN", "NAME"], rows);
+}
+
+/**
+ * Format rows as columns padded to their widest cell
+ * @param header - The column names
+ * @param rows - The rows to format
+ * @returns The lines to print
+ */
+export function formatTable(header: string[], rows: string[][]): string[] {
+    const widths = header.map((name, column) => Math.max(name.length, ...rows.map(row => (row[column] ?? "").length)));
+    return [header, ...rows].map(row => row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join("  ").trimEnd());
+}
+
+/**
+ * Format lamports as SOL
+ * @param lamports - The amount in lamports
+ * @param signed - Prefix positive amounts with '+'
+ * @returns The amount in SOL
+ */
+export function formatSol(lamports: number, signed: boolean = false): string {
+    const sol = (lamports / LAMPORTS_PER_SOL).toFixed(9).replace(/\.?0+$/, "");
+    return signed && lamports > 0 ? `+${sol}` : sol;
+}
+
+/**
+ * Format a raw token amount with its decimals, without losing precision
+ * @param amount - The amount in base units
+ * @param decimals - The mint's decimals
+ * @returns The amount in whole tokens
+ */
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+    if (decimals === 0) {
+        return amount.toString();
+    }
+    const digits = amount.toString().padStart(decimals + 1, "0");
+    const fraction = digits.slice(-decimals).replace(/0+$/, "");
+    return fraction ? `${digits.slice(0, -decimals)}.${fraction}` : digits.slice(0, -decimals);
+}
+
+function formatSignatures(signatures: string[] | undefined): string[] {
+    return (signatures ?? []).map(signature => `  ${signature}`);
+}
@@ -0,0 +1,52 @@
+import { parseDelegateOptions } from "../delegate/schemas";
+import { ValidationError } from "../utils/errors";
+import { getStringFlag, ParsedArgs } from "./args";
+import { loadDocument } from "./config";
+import { CliContext } from "./context";
+import { formatDelegateResult, formatIssues } from "./output";
+
+export const RUN_USAGE = "delegate run <options-file> [--dry-run] [--idempotency-key <key>] [--json]";
+
+/**
+ * Run a delegate from a JSON or YAML options file. Ctrl+C stops the run at its
+ * next safe point.
+ * @param args - The command's arguments
+ * @param context - The CLI context
+ * @returns The exit code
+ */
+export async function runDelegateCommand(args: ParsedArgs, context: CliContext): Promise<number> {
+    const [filePath] = args.positionals;
+    if (!filePath || args.positionals.length > 1) {
+        throw new ValidationError(`Usage: ${RUN_USAGE}`);
+    }
+
+    const parsed = parseDelegateOptions(await loadDocument(filePath));
+    if (!parsed.success) {
+        throw new ValidationError(`Invalid options in ${filePath}:\n${formatIssues(parsed.issues).join("\n")}`, { issues: parsed.issues });
+    }
+
+    const options = parsed.value;
+    const signer = await context.services.loadSigner(context.config, context.logger);
+    const registry = context.services.createRegistry(context.config, signer, context.logger);
+
+    const controller = new AbortController();
+    const removeListener = context.services.onShutdown(signal => {
+        context.logger.warn(`Received ${signal}, stopping at the next safe point`);
+        controller.abort(`Interrupted by ${signal}`);
+    });
+
+    try {
+        const dryRun = args.flags["dry-run"] === true;
+        const idempotencyKey = getStringFlag(args, "idempotency-key");
+        const result = await registry.executeDelegate(options, { dryRun, idempotencyKey, signal: controller.signal });
+
+        if (context.config.json) {
+            context.printJson(result);
+        } else {
+            formatDelegateResult(options.type, result).forEach(line => context.print(line));
+        }
+        return result.success ? 0 : 1;
+    } finally {
+        removeListener();
+    }
+}
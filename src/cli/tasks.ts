@@ -0,0 +1,165 @@
+import { Keypair } from "@solana/web3.js";
+import { createTaskFromDefinition, parseTaskDefinition } from "../task/definition";
+import { TaskEngine } from "../task/engine";
+import { serializeTask, TaskQuery } from "../task/store/base";
+import { TASK_STATUSES, TaskStatus } from "../types";
+import { ValidationError } from "../utils/errors";
+import { getIntegerFlag, getStringFlag, ParsedArgs } from "./args";
+import { loadDocument } from "./config";
+import { CliContext } from "./context";
+import { formatDelegateResult, formatIssues, formatTaskTable } from "./output";
+
+export const TASKS_USAGE = [
+    "delegate tasks list [--status <status>] [--type <type>] [--limit <n>] [--json]",
+    "delegate tasks show <id>",
+    "delegate tasks add <task-file> [--json]",
+    "delegate tasks remove <id>",
+    "delegate tasks pause <id>",
+    "delegate tasks resume <id>",
+    "delegate tasks run <id> [--json]",
+];
+
+/**
+ * List and manage the tasks in the task store
+ * @param args - The command's arguments, starting with the subcommand
+ * @param context - The CLI context
+ * @returns The exit code
+ */
+export async function tasksCommand(args: ParsedArgs, context: CliContext): Promise<number> {
+    const [subcommand, ...rest] = args.positionals;
+    const subArgs: ParsedArgs = { positionals: rest, flags: args.flags };
+
+    switch (subcommand) {
+        case "list":
+            return listTasks(subArgs, context);
+        case "show":
+            return showTask(requireTaskId(subArgs, "show"), context);
+        case "add":
+            return addTask(subArgs, context);
+        case "remove":
+            return removeTask(requireTaskId(subArgs, "remove"), context);
+        case "pause":
+        case "resume":
+            return pauseOrResumeTask(subcommand, requireTaskId(subArgs, subcommand), context);
+        case "run":
+            return runTask(requireTaskId(subArgs, "run"), context);
+        default:
+            throw new ValidationError(`Usage:\n${TASKS_USAGE.map(line => `  ${line}`).join("\n")}`);
+    }
+}
+
+async function listTasks(args: ParsedArgs, context: CliContext): Promise<number> {
+    const status = getStringFlag(args, "status");
+    if (status !== undefined && !(TASK_STATUSES as readonly string[]).includes(status)) {
+        throw new ValidationError(`Invalid status: ${status}, must be one of ${TASK_STATUSES.join(", ")}`);
+    }
+
+    const query: TaskQuery = { status: status as TaskStatus | undefined, type: getStringFlag(args, "type"), limit: getIntegerFlag(args, "limit") };
+    const tasks = await context.services.createTaskStore(context.config).query(query);
+
+    if (context.config.json) {
+        context.printJson(tasks.map(serializeTask));
+    } else if (tasks.length === 0) {
+        context.print("No tasks");
+    } else {
+        formatTaskTable(tasks).forEach(line => context.print(line));
+    }
+    return 0;
+}
+
+async function showTask(taskId: string, context: CliContext): Promise<number> {
+    const task = await context.services.createTaskStore(context.config).get(taskId);
+    if (!task) {
+        return taskNotFound(taskId, context);
+    }
+
+    context.printJson(serializeTask(task));
+    return 0;
+}
+
+async function addTask(args: ParsedArgs, context: CliContext): Promise<number> {
+    const [filePath] = args.positionals;
+    if (!filePath || args.positionals.length > 1) {
+        throw new ValidationError("Usage: delegate tasks add <task-file>");
+    }
+
+    // Tasks without a schedule only run through `delegate tasks run`
+    const definition = parseTaskDefinition(await loadDocument(filePath));
+    if (!definition.success) {
+        throw new ValidationError(`Invalid task in ${filePath}:\n${formatIssues(definition.issues).join("\n")}`, { issues: definition.issues });
+    }
+
+    const signer = await context.services.loadSigner(context.config, context.logger);
+    const engine = createEngine(context, signer);
+    const task = await engine.registerTask(createTaskFromDefinition(definition.value, { address: signer.publicKey.toBase58() }));
+
+    if (context.config.json) {
+        context.printJson(serializeTask(task));
+    } else {
+        context.print(task.nextRun
+            ? `Task ${task.id} added, next run at ${task.nextRun.toISOString()}`
+            : `Task ${task.id} added, run it with: delegate tasks run ${task.id}`);
+    }
+    return 0;
+}
+
+async function removeTask(taskId: string, context: CliContext): Promise<number> {
+    if (!await context.services.createTaskStore(context.config).delete(taskId)) {
+        return taskNotFound(taskId, context);
+    }
+
+    context.print(`Task ${taskId} removed`);
+    return 0;
+}
+
+async function pauseOrResumeTask(action: "pause" | "resume", taskId: string, context: CliContext): Promise<number> {
+    const signer = await context.services.loadSigner(context.config, context.logger);
+    const engine = createEngine(context, signer);
+    if (!await engine.getTask(taskId)) {
+        return taskNotFound(taskId, context);
+    }
+
+    const task = action === "pause" ? await engine.pauseTask(taskId) : await engine.resumeTask(taskId);
+    context.print(`Task ${task.id} ${action === "pause" ? "paused" : "resumed"}`);
+    return 0;
+}
+
+async function runTask(taskId: string, context: CliContext): Promise<number> {
+    const signer = await context.services.loadSigner(context.config, context.logger);
+    const engine = createEngine(context, signer);
+    if (!await engine.getTask(taskId)) {
+        return taskNotFound(taskId, context);
+    }
+
+    const outcome = await engine.runTask(taskId);
+    if (context.config.json) {
+        const { task, ...rest } = outcome;
+        context.printJson({ ...rest, task: serializeTask(task) });
+    } else if (outcome.result) {
+        formatDelegateResult(outcome.task.type, outcome.result).forEach(line => context.print(line));
+    } else {
+        context.print(`${outcome.task.type} failed: ${outcome.error}`);
+    }
+    return outcome.success ? 0 : 1;
+}
+
+function createEngine(context: CliContext, signer: Keypair): TaskEngine {
+    return new TaskEngine({
+        registry: context.services.createRegistry(context.config, signer, context.logger),
+        store: context.services.createTaskStore(context.config),
+        logger: context.logger,
+    });
+}
+
+function requireTaskId(args: ParsedArgs, subcommand: string): string {
+    const [taskId] = args.positionals;
+    if (!taskId || args.positionals.length > 1) {
+        throw new ValidationError(`Usage: delegate tasks ${subcommand} <id>`);
+    }
+    return taskId;
+}
+
+function taskNotFound(taskId: string, context: CliContext): number {
+    context.logger.error(`Task ${taskId} not found`);
+    return 1;
+}
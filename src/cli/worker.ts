@@ -0,0 +1,43 @@
+import { TaskEngine } from "../task/engine";
+import { ValidationError } from "../utils/errors";
+import { getIntegerFlag, ParsedArgs } from "./args";
+import { CliContext } from "./context";
+
+export const WORKER_USAGE = "delegate worker [--poll-interval <ms>]";
+
+/**
+ * Run the scheduler until SIGINT or SIGTERM, then wait for runs in progress
+ * to finish before exiting
+ * @param args - The command's arguments
+ * @param context - The CLI context
+ * @returns The exit code
+ */
+export async function workerCommand(args: ParsedArgs, context: CliContext): Promise<number> {
+    if (args.positionals.length > 0) {
+        throw new ValidationError(`Usage: ${WORKER_USAGE}`);
+    }
+
+    const signer = await context.services.loadSigner(context.config, context.logger);
+    const registry = context.services.createRegistry(context.config, signer, context.logger);
+    const engine = new TaskEngine({
+        registry,
+        store: context.services.createTaskStore(context.config),
+        pollInterval: getIntegerFlag(args, "poll-interval"),
+        logger: context.logger,
+    });
+
+    let removeListener = () => {};
+    const shutdown = new Promise<string>(resolve => {
+        removeListener = context.services.onShutdown(resolve);
+    });
+
+    context.logger.info(`Worker started, signing as ${registry.getSignerAddress()}`, { taskStore: context.config.taskStorePath });
+    engine.start();
+
+    const signal = await shutdown;
+    removeListener(); // A second signal while stopping falls through to the default handler and exits at once
+    context.logger.info(`Received ${signal}, waiting for runs in progress to finish`);
+    await engine.stop();
+    context.logger.info("Worker stopped");
+    return 0;
+}
@@ -1,6 +1,10 @@
 import { Connection, Keypair } from "@solana/web3.js";
 import { BaseDelegate } from "../base-delegate";
 import { BaseDelegateOptions, BaseDelegateResult } from "../types";
+import { Logger } from "../../solana/types";
+import { silentLogger, withLogFields } from "../../utils/logger";
+import { RpcError, ValidationError } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
 
 // Mock delegate for testing
 class TestDelegate extends BaseDelegate<BaseDelegateOptions, BaseDelegateResult> {
@@ -81,6 +85,38 @@ describe('BaseDelegate', () => {
             expect(operation).toHaveBeenCalledTimes(3);
         }, 10000); // Increase timeout for retry test
 
+        it('should not retry errors that are not retryable', async () => {
+            const operation = jest.fn().mockRejectedValue(new ValidationError('amount must be positive'));
+
+            await expect(delegate.retryOperation(operation, 3)).rejects.toBeInstanceOf(ValidationError);
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry typed errors that are retryable', async () => {
+            const operation = jest.fn()
+                .mockRejectedValueOnce(new RpcError('HTTP 503: Service Unavailable', { status: 503 }))
+                .mockResolvedValue('success');
+
+            const result = await delegate.retryOperation(operation, 2);
+
+            expect(result).toBe('success');
+            expect(operation).toHaveBeenCalledTimes(2);
+        });
+
+        it('should follow the retry policy set on the delegate', async () => {
+            const sleeps: number[] = [];
+            delegate.setRetryPolicy(new RetryPolicy({ maxAttempts: 4, baseDelayMs: 100, clock: { sleep: async ms => { sleeps.push(ms); } } }));
+            const operation = jest.fn().mockRejectedValue(new Error('RPC unavailable'));
+
+            await expect(delegate.retryOperation(operation)).rejects.toThrow('RPC unavailable');
+            expect(operation).toHaveBeenCalledTimes(4);
+            expect(sleeps).toEqual([100, 200, 400]);
+
+            operation.mockClear();
+            await expect(delegate.retryOperation(operation, 2)).rejects.toThrow('RPC unavailable');
+            expect(operation).toHaveBeenCalledTimes(2);
+        });
+
         it('should use exponential backoff', async () => {
             const operation = jest.fn()
                 .mockRejectedValueOnce(new Error('First failure'))
@@ -98,6 +134,27 @@ describe('BaseDelegate', () => {
             const elapsedTime = endTime - startTime;
             expect(elapsedTime).toBeGreaterThanOrEqual(6000);
         }, 10000);
+
+        it('should not start when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort('Run cancelled');
+            const operation = jest.fn().mockResolvedValue('success');
+
+            await expect(delegate.retryOperation(operation, 3, controller.signal)).rejects.toThrow('Run cancelled');
+            expect(operation).not.toHaveBeenCalled();
+        });
+
+        it('should end the backoff wait early when aborted', async () => {
+            const controller = new AbortController();
+            const operation = jest.fn().mockRejectedValue(new Error('RPC unavailable'));
+            setTimeout(() => controller.abort('Run cancelled'), 50);
+
+            const startTime = Date.now();
+            await expect(delegate.retryOperation(operation, 3, controller.signal)).rejects.toMatchObject({ name: 'AbortError', message: 'Run cancelled' });
+
+            expect(operation).toHaveBeenCalledTimes(1);
+            expect(Date.now() - startTime).toBeLessThan(2000);
+        });
     });
 
     describe('handleError', () => {
@@ -143,6 +200,76 @@ describe('BaseDelegate', () => {
         });
     });
 
+    describe('logger', () => {
+        let logger: jest.Mocked<Logger>;
+
+        beforeEach(() => {
+            logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+            delegate.setLogger(logger);
+        });
+
+        it('should log operations to the injected logger at the given level', () => {
+            const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+
+            delegate.logOperation('test_operation', { requestId: 1 });
+            delegate.logOperation('test_warning', { requestId: 1 }, 'warn');
+
+            expect(logger.info).toHaveBeenCalledWith('[Delegate] test_operation:', expect.objectContaining({ operation: 'test_operation', requestId: 1 }));
+            expect(logger.warn).toHaveBeenCalledWith('[Delegate] test_warning:', expect.objectContaining({ operation: 'test_warning' }));
+            expect(consoleSpy).not.toHaveBeenCalled();
+
+            consoleSpy.mockRestore();
+        });
+
+        it('should log errors once at error level', async () => {
+            await delegate.handleError(new Error('Test error'), { requestId: 2 });
+
+            expect(logger.error).toHaveBeenCalledWith('Delegate operation failed:', expect.objectContaining({
+                operation: 'error_occurred',
+                error: 'Test error',
+                requestId: 2
+            }));
+            expect(logger.info).not.toHaveBeenCalled();
+        });
+
+        it('should add the current run\'s log fields', async () => {
+            await withLogFields({ taskId: 'task-1' }, async () => {
+                await withLogFields({ delegateType: 'test' }, async () => {
+                    delegate.logOperation('test_operation', { requestId: 3 });
+                });
+            });
+            delegate.logOperation('outside_run');
+
+            expect(logger.info).toHaveBeenNthCalledWith(1, '[Delegate] test_operation:', expect.objectContaining({
+                taskId: 'task-1',
+                delegateType: 'test',
+                requestId: 3
+            }));
+            expect(logger.info.mock.calls[1]![1]).not.toHaveProperty('taskId');
+        });
+
+        it('should log retries as warnings', async () => {
+            const operation = jest.fn().mockRejectedValueOnce(new Error('Flaky')).mockResolvedValue('ok');
+            jest.useFakeTimers();
+
+            const promise = delegate.retryOperation(operation, 2);
+            await jest.advanceTimersByTimeAsync(2000);
+
+            await expect(promise).resolves.toBe('ok');
+            expect(logger.warn).toHaveBeenCalledWith('[Delegate] retry_attempt_failed:', expect.objectContaining({ error: 'Flaky', attempt: 1 }));
+            jest.useRealTimers();
+        });
+
+        it('should write nothing with the silent logger', () => {
+            const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+
+            delegate.setLogger(silentLogger).logOperation('test_operation');
+
+            expect(consoleSpy).not.toHaveBeenCalled();
+            consoleSpy.mockRestore();
+        });
+    });
+
     describe('generateRequestId', () => {
         it('should generate sequential request IDs', () => {
             const id1 = delegate['generateRequestId']();
@@ -1,387 +1,409 @@
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
-import { getOrCreateAssociatedTokenAccount, burnChecked, getMint } from "@solana/spl-token";
+import { AccountInfo, Connection, Keypair, PublicKey, Transaction, TransactionInstruction } from "@solana/web3.js";
+import {
+    Account,
+    getAccount,
+    getAssociatedTokenAddressSync,
+    getMint,
+    Mint,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    unpackAccount
+} from "@solana/spl-token";
 import { Burner } from "../burner";
 import { BurnerDelegateOptions } from "../types";
 import { DELEGATE_TYPES } from "../constants";
+import { InsufficientFundsError, TransactionFailedError, ValidationError } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
 
-// Mock SPL token functions
+// Keep the instruction builders real so the transaction can be inspected
 jest.mock("@solana/spl-token", () => ({
-    getOrCreateAssociatedTokenAccount: jest.fn(),
-    burnChecked: jest.fn(),
+    ...jest.requireActual("@solana/spl-token"),
     getMint: jest.fn(),
+    getAccount: jest.fn(),
+    unpackAccount: jest.fn(),
 }));
 
-// Mock bs58
-jest.mock("bs58", () => ({
-    decode: jest.fn(),
-}));
-
-const mockGetOrCreateAssociatedTokenAccount = getOrCreateAssociatedTokenAccount as jest.MockedFunction<typeof getOrCreateAssociatedTokenAccount>;
-const mockBurnChecked = burnChecked as jest.MockedFunction<typeof burnChecked>;
 const mockGetMint = getMint as jest.MockedFunction<typeof getMint>;
-const mockBs58Decode = require("bs58").decode as jest.MockedFunction<any>;
-
-// Helper to flush timers and microtasks until a promise settles
-async function waitForPromiseToSettleWithTimers(promise: Promise<any>, maxIterations = 10) {
-    let settled = false;
-    promise.then(() => { settled = true; }, () => { settled = true; });
-    let i = 0;
-    while (!settled && i < maxIterations) {
-        jest.runOnlyPendingTimers();
-        await Promise.resolve();
-        i++;
-    }
-    return promise;
-}
-
-let logSpy: jest.SpyInstance, errorSpy: jest.SpyInstance, warnSpy: jest.SpyInstance;
-
-beforeAll(() => {
-  logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
-  errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
-  warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
-});
+const mockGetAccount = getAccount as jest.MockedFunction<typeof getAccount>;
+const mockUnpackAccount = unpackAccount as jest.MockedFunction<typeof unpackAccount>;
 
-afterAll(() => {
-  logSpy.mockRestore();
-  errorSpy.mockRestore();
-  warnSpy.mockRestore();
-});
+const BURN_CHECKED = 15;
+const CLOSE_ACCOUNT = 9;
+const APPROVE_CHECKED = 13;
+const REVOKE = 5;
+const ACCOUNT_RENT = 2039280;
 
 describe('Burner', () => {
     let burner: Burner;
-    let connection: Connection;
-    let signerKeypair: Keypair;
-    let testKeypair: Keypair;
-    let testTokenAddress: string;
+    let mockConnection: jest.Mocked<Connection>;
+    let signer: Keypair;
+    let mint: PublicKey;
+    let mintProgram: PublicKey | null;
+    let tokenBalance: bigint | null; // null: the wallet has no token account
+    let tokenAccountState: Partial<Account>;
+    let sent: Transaction[];
+
+    function options(overrides: Partial<BurnerDelegateOptions> = {}): BurnerDelegateOptions {
+        return {
+            type: DELEGATE_TYPES.BURNER,
+            tokenAddress: mint.toBase58(),
+            numTokens: 100,
+            ...overrides,
+        };
+    }
 
-    beforeEach(() => {
-        jest.clearAllMocks();
-        jest.useFakeTimers();
-
-        connection = new Connection('http://localhost:8899');
-        signerKeypair = Keypair.generate();
-        testKeypair = Keypair.generate();
-        testTokenAddress = '11111111111111111111111111111111';
-
-        burner = new Burner(connection, signerKeypair);
-
-        // Setup default mocks
-        mockBs58Decode.mockReturnValue(testKeypair.secretKey);
-        mockGetOrCreateAssociatedTokenAccount.mockResolvedValue({
-            address: testKeypair.publicKey,
-            mint: new PublicKey(testTokenAddress),
-            owner: testKeypair.publicKey,
-            amount: 1000000n,
-            delegate: null,
-            isNative: false,
-            delegatedAmount: 0n,
-            closeAuthority: null,
-            isInitialized: true,
-            isFrozen: false,
-            rentExemptReserve: 1000000n,
-            tlvData: Buffer.alloc(0),
-        });
-        mockGetMint.mockResolvedValue({
-            address: new PublicKey(testTokenAddress),
-            mintAuthority: testKeypair.publicKey,
-            supply: 1000000000n,
-            decimals: 6,
-            isInitialized: true,
-            freezeAuthority: null,
-            tlvData: Buffer.alloc(0),
-        });
-        mockBurnChecked.mockResolvedValue('test-signature-123');
+    function instructionsOf(transaction: Transaction | undefined): TransactionInstruction[] {
+        return transaction?.instructions ?? [];
+    }
+
+    beforeAll(() => {
+        jest.spyOn(Transaction.prototype, 'sign').mockImplementation(function (this: Transaction) { sent.push(this); return this; });
+        jest.spyOn(Transaction.prototype, 'serialize').mockImplementation(() => Buffer.from('tx'));
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
     });
 
-    afterEach(() => {
-        jest.useRealTimers();
+    afterAll(() => {
+        jest.restoreAllMocks();
     });
 
-    describe('constructor', () => {
-        it('should initialize burner delegate', () => {
-            expect(burner.connection).toBe(connection);
-            expect(burner.signerKeypair).toBe(signerKeypair);
-        });
+    beforeEach(() => {
+        signer = Keypair.generate();
+        mint = Keypair.generate().publicKey;
+        mintProgram = TOKEN_PROGRAM_ID;
+        tokenBalance = 1_000_000_000n;
+        tokenAccountState = { delegate: null, delegatedAmount: 0n, closeAuthority: null };
+        sent = [];
+
+        mockConnection = {
+            getAccountInfo: jest.fn(async (address: PublicKey) => {
+                if (address.equals(mint)) {
+                    return mintProgram ? { owner: mintProgram, lamports: 1461600, data: Buffer.alloc(82), executable: false } : null;
+                }
+                return tokenBalance === null ? null : { owner: mintProgram, lamports: ACCOUNT_RENT, data: Buffer.alloc(165), executable: false };
+            }),
+            getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }),
+            sendRawTransaction: jest.fn().mockResolvedValue('burn-sig'),
+            confirmTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } }),
+            simulateTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null, logs: [], accounts: [] } }),
+            getFeeForMessage: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: 5000 }),
+            getMultipleAccountsInfo: jest.fn(async (keys: PublicKey[]) => keys.map(() => null)),
+        } as any;
+
+        mockGetMint.mockReset().mockResolvedValue({ decimals: 6 } as Mint);
+        mockUnpackAccount.mockReset().mockImplementation((address: PublicKey, _info: AccountInfo<Buffer> | null) => ({ ...tokenAccountState, address, amount: tokenBalance ?? 0n } as Account));
+        mockGetAccount.mockReset().mockImplementation(async (_connection, address) => ({ address, amount: 0n } as Account));
+
+        burner = new Burner(mockConnection, signer);
+        burner.setRetryPolicy(new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, clock: { sleep: async () => {} } }));
     });
 
     describe('validateOptions', () => {
-        const validOptions: BurnerDelegateOptions = {
-            type: DELEGATE_TYPES.BURNER,
-            tokenAddress: '11111111111111111111111111111111',
-            numTokens: 100,
-            privateKey: 'test-private-key',
-        };
-
         it('should validate correct options', () => {
-            expect(() => burner.validateOptions(validOptions)).not.toThrow();
+            expect(() => burner.validateOptions(options())).not.toThrow();
         });
 
         it('should throw for missing tokenAddress', () => {
-            const invalidOptions = { ...validOptions, tokenAddress: '' };
-            expect(() => burner.validateOptions(invalidOptions)).toThrow('tokenAddress must be a non-empty string');
+            expect(() => burner.validateOptions(options({ tokenAddress: '' }))).toThrow('tokenAddress is required');
         });
 
         it('should throw for invalid token address format', () => {
-            const invalidOptions = { ...validOptions, tokenAddress: 'invalid-address' };
-            expect(() => burner.validateOptions(invalidOptions)).toThrow('Invalid token address format');
+            expect(() => burner.validateOptions(options({ tokenAddress: 'invalid-address' })))
+                .toThrow('Invalid tokenAddress: invalid-address, must be a valid public key');
         });
 
         it('should throw for negative numTokens', () => {
-            const invalidOptions = { ...validOptions, numTokens: -1 };
-            expect(() => burner.validateOptions(invalidOptions)).toThrow('numTokens must be at least 0');
+            expect(() => burner.validateOptions(options({ numTokens: -1 }))).toThrow('numTokens must be at least 0');
         });
 
-        it('should throw for missing privateKey', () => {
-            const invalidOptions = { ...validOptions, privateKey: '' };
-            expect(() => burner.validateOptions(invalidOptions)).toThrow('privateKey must be a non-empty string');
+        it('should throw for invalid owner format', () => {
+            expect(() => burner.validateOptions(options({ owner: 'invalid-owner' }))).toThrow('Invalid owner: invalid-owner, must be a valid public key');
         });
 
-        it('should throw for invalid private key format', () => {
-            mockBs58Decode.mockImplementation(() => {
-                throw new Error('Invalid base58');
-            });
-            expect(() => burner.validateOptions(validOptions)).toThrow('Invalid private key format');
+        it('should reject private keys in the options', () => {
+            expect(() => burner.validateOptions(options({ privateKey: 'secret' }))).toThrow('privateKey is not accepted');
+        });
+
+        it('should require numTokens in amount mode', () => {
+            expect(() => burner.validateOptions(options({ numTokens: undefined }))).toThrow('numTokens is required');
+            expect(() => burner.validateOptions(options({ mode: 'amount', numTokens: undefined }))).toThrow('numTokens is required');
+        });
+
+        it('should require percentage in percentage mode', () => {
+            expect(() => burner.validateOptions(options({ mode: 'percentage', numTokens: undefined }))).toThrow('percentage is required');
+        });
+
+        it('should reject percentages above 100', () => {
+            expect(() => burner.validateOptions(options({ mode: 'percentage', percentage: 150 }))).toThrow(ValidationError);
+        });
+
+        it('should accept all mode without an amount', () => {
+            expect(() => burner.validateOptions(options({ mode: 'all', numTokens: undefined }))).not.toThrow();
         });
     });
 
     describe('executeDelegate', () => {
-        const validOptions: BurnerDelegateOptions = {
-            type: DELEGATE_TYPES.BURNER,
-            tokenAddress: '11111111111111111111111111111111',
-            numTokens: 100,
-            privateKey: 'test-private-key',
-        };
+        it('should burn a fixed amount with the SPL Token program', async () => {
+            mockGetAccount.mockImplementation(async (_connection, address) => ({ address, amount: 900_000_000n } as Account));
 
-        it('should successfully burn tokens', async () => {
-            const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+            const result = await burner.executeDelegate(options());
 
-            const result = await burner.executeDelegate(validOptions);
+            const tokenAccount = getAssociatedTokenAddressSync(mint, signer.publicKey, true, TOKEN_PROGRAM_ID);
+            const [burn, ...rest] = instructionsOf(sent[0]);
+            expect(rest).toHaveLength(0);
+            expect(burn?.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+            expect(burn?.data[0]).toBe(BURN_CHECKED);
+            expect(burn?.data.readBigUInt64LE(1)).toBe(100_000_000n);
+            expect(burn?.keys[0]?.pubkey.equals(tokenAccount)).toBe(true);
+            expect(sent[0]?.feePayer?.equals(signer.publicKey)).toBe(true);
 
+            expect(mockGetMint).toHaveBeenCalledWith(mockConnection, mint, 'confirmed', TOKEN_PROGRAM_ID);
             expect(result).toEqual({
                 success: true,
-                signatures: ['test-signature-123'],
+                signatures: ['burn-sig'],
                 burnedAmount: '100000000',
-                tokenMint: '11111111111111111111111111111111',
+                tokenMint: mint.toBase58(),
+                tokenProgram: TOKEN_PROGRAM_ID.toBase58(),
+                tokenAccount: tokenAccount.toBase58(),
+                owner: signer.publicKey.toBase58(),
+                burnedViaApproval: false,
+                postBurnBalance: '900000000',
+                accountClosed: false,
+                rentReclaimed: 0,
             });
+        });
 
-            expect(mockBs58Decode).toHaveBeenCalledWith('test-private-key');
-            expect(mockGetOrCreateAssociatedTokenAccount).toHaveBeenCalledWith(
-                connection,
-                testKeypair,
-                new PublicKey(testTokenAddress),
-                testKeypair.publicKey,
-                true
-            );
-            expect(mockGetMint).toHaveBeenCalledWith(connection, new PublicKey(testTokenAddress));
-            expect(mockBurnChecked).toHaveBeenCalledWith(
-                connection,
-                testKeypair,
-                testKeypair.publicKey,
-                new PublicKey(testTokenAddress),
-                testKeypair,
-                expect.any(Object), // BN object
-                6
-            );
+        it('should convert fractional amounts without floating-point error', async () => {
+            mockGetMint.mockResolvedValue({ decimals: 9 } as Mint);
 
-            expect(consoleSpy).toHaveBeenCalledWith(
-                '[Delegate] burner_execution_started:',
-                expect.objectContaining({
-                    operation: 'burner_execution_started',
-                    requestId: 1,
-                })
-            );
+            const result = await burner.executeDelegate(options({ numTokens: 0.1 }));
 
-            expect(consoleSpy).toHaveBeenCalledWith(
-                '[Delegate] burner_execution_completed:',
-                expect.objectContaining({
-                    operation: 'burner_execution_completed',
-                    requestId: 1,
-                    signatures: ['test-signature-123'],
-                    burnedAmount: '100000000',
-                    tokenMint: '11111111111111111111111111111111',
-                })
-            );
+            expect(result.burnedAmount).toBe('100000000');
+        });
 
-            consoleSpy.mockRestore();
-        });
-
-        it('should handle getOrCreateAssociatedTokenAccount failure with retry', async () => {
-            const error = new Error('Token account creation failed');
-            mockGetOrCreateAssociatedTokenAccount
-                .mockRejectedValueOnce(error)
-                .mockRejectedValueOnce(error)
-                .mockResolvedValue({
-                    address: testKeypair.publicKey,
-                    mint: new PublicKey(testTokenAddress),
-                    owner: testKeypair.publicKey,
-                    amount: 1000000n,
-                    delegate: null,
-                    isNative: false,
-                    delegatedAmount: 0n,
-                    closeAuthority: null,
-                    isInitialized: true,
-                    isFrozen: false,
-                    rentExemptReserve: 1000000n,
-                    tlvData: Buffer.alloc(0),
-                });
-
-            const promise = burner.executeDelegate(validOptions);
-            const result = await waitForPromiseToSettleWithTimers(promise, 10);
-
-            expect(result.success).toBe(true);
-            expect(mockGetOrCreateAssociatedTokenAccount).toHaveBeenCalledTimes(3);
-        }, 20000);
-
-        it('should handle getMint failure with retry', async () => {
-            const error = new Error('Failed to get mint info');
-            mockGetMint
-                .mockRejectedValueOnce(error)
-                .mockResolvedValue({
-                    address: new PublicKey(testTokenAddress),
-                    mintAuthority: testKeypair.publicKey,
-                    supply: 1000000000n,
-                    decimals: 6,
-                    isInitialized: true,
-                    freezeAuthority: null,
-                    tlvData: Buffer.alloc(0),
-                });
-
-            const promise = burner.executeDelegate(validOptions);
-            const result = await waitForPromiseToSettleWithTimers(promise, 10);
-
-            expect(result.success).toBe(true);
-            expect(mockGetMint).toHaveBeenCalledTimes(2);
-        }, 20000);
-
-        it('should handle burnChecked failure with retry', async () => {
-            const error = new Error('Burn transaction failed');
-            mockBurnChecked
-                .mockRejectedValueOnce(error)
-                .mockResolvedValue('test-signature-123');
-
-            const promise = burner.executeDelegate(validOptions);
-            const result = await waitForPromiseToSettleWithTimers(promise, 10);
-
-            expect(result.success).toBe(true);
-            expect(mockBurnChecked).toHaveBeenCalledTimes(2);
-        }, 20000);
-
-        it('should throw error when decimals is -1', async () => {
-            mockGetMint.mockResolvedValue({
-                address: new PublicKey(testTokenAddress),
-                mintAuthority: testKeypair.publicKey,
-                supply: 1000000000n,
-                decimals: -1,
-                isInitialized: true,
-                freezeAuthority: null,
-                tlvData: Buffer.alloc(0),
-            });
+        it('should use the Token-2022 program for its mints', async () => {
+            mintProgram = TOKEN_2022_PROGRAM_ID;
 
-            await expect(burner.executeDelegate(validOptions)).rejects.toThrow('Failed to get token decimals');
+            const result = await burner.executeDelegate(options());
+
+            const tokenAccount = getAssociatedTokenAddressSync(mint, signer.publicKey, true, TOKEN_2022_PROGRAM_ID);
+            expect(instructionsOf(sent[0])[0]?.programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+            expect(mockGetAccount).toHaveBeenCalledWith(mockConnection, tokenAccount, 'confirmed', TOKEN_2022_PROGRAM_ID);
+            expect(result.tokenProgram).toBe(TOKEN_2022_PROGRAM_ID.toBase58());
+            expect(result.tokenAccount).toBe(tokenAccount.toBase58());
         });
 
-        it('should handle validation errors', async () => {
-            const invalidOptions = { ...validOptions, tokenAddress: 'invalid-address' };
+        it('should burn a percentage of the balance', async () => {
+            const result = await burner.executeDelegate(options({ mode: 'percentage', percentage: 12.5, numTokens: undefined }));
 
-            await expect(burner.executeDelegate(invalidOptions)).rejects.toThrow('Invalid token address format');
+            expect(instructionsOf(sent[0])[0]?.data.readBigUInt64LE(1)).toBe(125_000_000n);
+            expect(result.burnedAmount).toBe('125000000');
         });
 
-        it('should handle private key decode errors', async () => {
-            mockBs58Decode.mockImplementation(() => {
-                throw new Error('Invalid base58');
+        it('should burn the entire balance and close the account', async () => {
+            const result = await burner.executeDelegate(options({ mode: 'all', numTokens: undefined, closeAccount: true }));
+
+            const [burn, close] = instructionsOf(sent[0]);
+            expect(burn?.data.readBigUInt64LE(1)).toBe(1_000_000_000n);
+            expect(close?.data[0]).toBe(CLOSE_ACCOUNT);
+            expect(close?.keys[1]?.pubkey.equals(signer.publicKey)).toBe(true);
+            expect(close?.keys[2]?.pubkey.equals(signer.publicKey)).toBe(true);
+            expect(mockGetAccount).not.toHaveBeenCalled();
+            expect(result).toMatchObject({
+                burnedAmount: '1000000000',
+                postBurnBalance: '0',
+                accountClosed: true,
+                rentReclaimed: ACCOUNT_RENT,
             });
+        });
+
+        it('should keep the account open when the burn leaves tokens in it', async () => {
+            mockGetAccount.mockImplementation(async (_connection, address) => ({ address, amount: 900_000_000n } as Account));
 
-            await expect(burner.executeDelegate(validOptions)).rejects.toThrow('Invalid private key format');
+            const result = await burner.executeDelegate(options({ closeAccount: true }));
+
+            expect(instructionsOf(sent[0])).toHaveLength(1);
+            expect(result).toMatchObject({ postBurnBalance: '900000000', accountClosed: false, rentReclaimed: 0 });
         });
 
-        it('should handle persistent failures after max retries', async () => {
-            const error = new Error('Persistent failure');
-            mockGetOrCreateAssociatedTokenAccount.mockRejectedValue(error);
+        it('should throw InsufficientFundsError when the amount exceeds the balance', async () => {
+            await expect(burner.executeDelegate(options({ numTokens: 1001 }))).rejects.toThrow(InsufficientFundsError);
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+        });
 
-            const promise = burner.executeDelegate(validOptions);
-            await expect(waitForPromiseToSettleWithTimers(promise, 30)).rejects.toThrow('Persistent failure');
-            expect(mockGetOrCreateAssociatedTokenAccount).toHaveBeenCalledTimes(5);
-        }, 20000);
+        it('should reject a token address that is not a mint', async () => {
+            mintProgram = null;
 
-        it('should calculate burn amount correctly for different decimals', async () => {
-            mockGetMint.mockResolvedValue({
-                address: new PublicKey(testTokenAddress),
-                mintAuthority: testKeypair.publicKey,
-                supply: 1000000000n,
-                decimals: 9, // Different decimals
-                isInitialized: true,
-                freezeAuthority: null,
-                tlvData: Buffer.alloc(0),
-            });
+            await expect(burner.executeDelegate(options())).rejects.toThrow(
+                `Invalid tokenAddress: ${mint.toBase58()} is not a mint of the SPL Token or Token-2022 program`
+            );
+        });
+
+        it('should not create a token account when the wallet has none', async () => {
+            tokenBalance = null;
 
-            const promise = burner.executeDelegate(validOptions);
-            const result = await waitForPromiseToSettleWithTimers(promise, 10);
+            const result = await burner.executeDelegate(options({ mode: 'all', numTokens: undefined, closeAccount: true }));
 
-            expect(result.burnedAmount).toBe('100000000000'); // 100 * 10^9
-        }, 20000);
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+            expect(result).toMatchObject({ signatures: [], burnedAmount: '0', postBurnBalance: '0', accountClosed: false });
+        });
 
-        it('should handle zero tokens to burn', async () => {
-            const zeroOptions = { ...validOptions, numTokens: 0 };
+        it('should close an account that is already empty', async () => {
+            tokenBalance = 0n;
 
-            const result = await burner.executeDelegate(zeroOptions);
+            const result = await burner.executeDelegate(options({ mode: 'all', numTokens: undefined, closeAccount: true }));
 
-            expect(result.burnedAmount).toBe('0');
-            expect(mockBurnChecked).toHaveBeenCalledWith(
-                connection,
-                testKeypair,
-                testKeypair.publicKey,
-                new PublicKey(testTokenAddress),
-                testKeypair,
-                expect.any(Object), // BN object with value 0
-                6
-            );
+            const [close, ...rest] = instructionsOf(sent[0]);
+            expect(rest).toHaveLength(0);
+            expect(close?.data[0]).toBe(CLOSE_ACCOUNT);
+            expect(result).toMatchObject({ burnedAmount: '0', accountClosed: true, rentReclaimed: ACCOUNT_RENT });
+        });
+
+        it('should simulate without sending in a dry run', async () => {
+            const result = await burner.executeDelegate(options({ mode: 'all', numTokens: undefined, closeAccount: true }), { dryRun: true });
+
+            expect(mockConnection.simulateTransaction).toHaveBeenCalledTimes(1);
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+            expect(result.signatures).toEqual([]);
+            expect(result.dryRun?.transactions[0]?.description).toBe(`Burn 1000000000 base units of ${mint.toBase58()} and close the token account`);
         });
-    });
 
-    describe('calculateBurnAmount', () => {
-        it('should calculate burn amount correctly', () => {
-            const result = (burner as any).calculateBurnAmount(100, 6);
-            expect(result.toString()).toBe('100000000'); // 100 * 10^6
+        it('should retry transient send failures', async () => {
+            mockConnection.sendRawTransaction.mockRejectedValueOnce(new Error('fetch failed')).mockResolvedValueOnce('burn-sig');
+
+            const result = await burner.executeDelegate(options());
+
+            expect(mockConnection.sendRawTransaction).toHaveBeenCalledTimes(2);
+            expect(result.signatures).toEqual(['burn-sig']);
         });
 
-        it('should handle zero amount', () => {
-            const result = (burner as any).calculateBurnAmount(0, 6);
-            expect(result.toString()).toBe('0');
+        it('should throw TransactionFailedError when the burn fails on chain', async () => {
+            mockConnection.confirmTransaction.mockResolvedValue({ context: { slot: 1 }, value: { err: { InstructionError: [0, 'Custom'] } } } as any);
+
+            await expect(burner.executeDelegate(options())).rejects.toThrow(TransactionFailedError);
         });
 
-        it('should handle different decimals', () => {
-            const result = (burner as any).calculateBurnAmount(50, 9);
-            expect(result.toString()).toBe('50000000000'); // 50 * 10^9
+        it('should emit transaction events', async () => {
+            const events: string[] = [];
+            burner.events.onAny(event => { events.push(event.event); });
+
+            await burner.executeDelegate(options());
+
+            expect(events).toEqual(['execution_started', 'transaction_built', 'transaction_sent', 'transaction_confirmed', 'execution_completed']);
         });
     });
 
-    describe('error handling', () => {
-        it('should log errors with context', async () => {
-            const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-            const error = new Error('Test error');
-            mockGetOrCreateAssociatedTokenAccount.mockRejectedValue(error);
-
-            const testOptions: BurnerDelegateOptions = {
-                type: DELEGATE_TYPES.BURNER,
-                tokenAddress: '11111111111111111111111111111111',
-                numTokens: 100,
-                privateKey: 'test-private-key',
-            };
-
-            const promise = burner.executeDelegate(testOptions);
-            await expect(waitForPromiseToSettleWithTimers(promise, 30)).rejects.toThrow('Test error');
-
-            expect(consoleErrorSpy).toHaveBeenCalledWith(
-                'Delegate operation failed:',
-                expect.objectContaining({
-                    error: 'Test error',
-                    requestId: 1,
-                    timestamp: expect.any(String)
-                })
+    describe('burning under an approval', () => {
+        let owner: PublicKey;
+
+        beforeEach(() => {
+            owner = Keypair.generate().publicKey;
+            tokenAccountState = { delegate: signer.publicKey, delegatedAmount: 500_000_000n, closeAuthority: null };
+        });
+
+        it('should burn from the owner\'s account with the signer as delegate', async () => {
+            mockGetAccount.mockImplementation(async (_connection, address) => ({ address, amount: 900_000_000n } as Account));
+
+            const result = await burner.executeDelegate(options({ owner: owner.toBase58() }));
+
+            const tokenAccount = getAssociatedTokenAddressSync(mint, owner, true, TOKEN_PROGRAM_ID);
+            const [burn] = instructionsOf(sent[0]);
+            expect(burn?.keys[0]?.pubkey.equals(tokenAccount)).toBe(true);
+            expect(burn?.keys[2]?.pubkey.equals(signer.publicKey)).toBe(true);
+            expect(sent[0]?.feePayer?.equals(signer.publicKey)).toBe(true);
+            expect(result).toMatchObject({ owner: owner.toBase58(), burnedViaApproval: true, tokenAccount: tokenAccount.toBase58(), postBurnBalance: '900000000' });
+        });
+
+        it('should reject a burn the owner has not approved', async () => {
+            tokenAccountState = { delegate: Keypair.generate().publicKey, delegatedAmount: 500_000_000n, closeAuthority: null };
+
+            await expect(burner.executeDelegate(options({ owner: owner.toBase58() }))).rejects.toThrow(
+                `${owner.toBase58()} has not approved ${signer.publicKey.toBase58()} to burn`
             );
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+        });
+
+        it('should reject a burn above the approved amount', async () => {
+            await expect(burner.executeDelegate(options({ owner: owner.toBase58(), numTokens: 501 }))).rejects.toThrow(InsufficientFundsError);
+        });
+
+        it('should keep the account unless the signer is its close authority', async () => {
+            tokenAccountState = { ...tokenAccountState, delegatedAmount: 1_000_000_000n };
+
+            const kept = await burner.executeDelegate(options({ owner: owner.toBase58(), mode: 'all', numTokens: undefined, closeAccount: true }));
+            tokenAccountState = { ...tokenAccountState, closeAuthority: signer.publicKey };
+            const closed = await burner.executeDelegate(options({ owner: owner.toBase58(), mode: 'all', numTokens: undefined, closeAccount: true }));
 
-            consoleErrorSpy.mockRestore();
-        }, 20000);
+            expect(kept.accountClosed).toBe(false);
+            expect(instructionsOf(sent[0])).toHaveLength(1);
+            expect(closed.accountClosed).toBe(true);
+            const close = instructionsOf(sent[1])[1];
+            expect(close?.keys[1]?.pubkey.equals(owner)).toBe(true);
+            expect(close?.keys[2]?.pubkey.equals(signer.publicKey)).toBe(true);
+        });
+    });
+
+    describe('approvals', () => {
+        let owner: PublicKey;
+
+        beforeEach(() => {
+            owner = Keypair.generate().publicKey;
+        });
+
+        it('should report the delegate and allowance of the owner\'s account', async () => {
+            tokenAccountState = { delegate: signer.publicKey, delegatedAmount: 250_000_000n, closeAuthority: null };
+
+            const approval = await burner.getApproval(mint.toBase58(), owner.toBase58());
+
+            expect(approval).toEqual({
+                tokenMint: mint.toBase58(),
+                tokenProgram: TOKEN_PROGRAM_ID.toBase58(),
+                tokenAccount: getAssociatedTokenAddressSync(mint, owner, true, TOKEN_PROGRAM_ID).toBase58(),
+                owner: owner.toBase58(),
+                delegate: signer.publicKey.toBase58(),
+                delegatedAmount: '250000000',
+                approvedForSigner: true,
+            });
+        });
+
+        it('should report no approval for an account without a delegate', async () => {
+            const approval = await burner.getApproval(mint.toBase58(), owner.toBase58());
+
+            expect(approval).toMatchObject({ delegate: null, delegatedAmount: '0', approvedForSigner: false });
+        });
+
+        it('should build an approval for the owner to sign', async () => {
+            mintProgram = TOKEN_2022_PROGRAM_ID;
+
+            const transaction = await burner.createApproveTransaction(mint.toBase58(), owner.toBase58(), 250);
+
+            const [approve] = transaction.instructions;
+            expect(approve?.programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+            expect(approve?.data[0]).toBe(APPROVE_CHECKED);
+            expect(approve?.data.readBigUInt64LE(1)).toBe(250_000_000n);
+            expect(approve?.keys[2]?.pubkey.equals(signer.publicKey)).toBe(true);
+            expect(approve?.keys[3]?.pubkey.equals(owner)).toBe(true);
+            expect(transaction.feePayer?.equals(owner)).toBe(true);
+            expect(transaction.recentBlockhash).toBe('11111111111111111111111111111111');
+            expect(transaction.signatures.every(({ signature }) => signature === null)).toBe(true);
+        });
+
+        it('should build a revocation for the owner to sign', async () => {
+            const transaction = await burner.createRevokeTransaction(mint.toBase58(), owner.toBase58());
+
+            const [revoke] = transaction.instructions;
+            expect(revoke?.data[0]).toBe(REVOKE);
+            expect(revoke?.keys[1]?.pubkey.equals(owner)).toBe(true);
+            expect(transaction.feePayer?.equals(owner)).toBe(true);
+        });
+
+        it('should refuse approvals without a token account or a positive amount', async () => {
+            await expect(burner.createApproveTransaction(mint.toBase58(), owner.toBase58(), 0)).rejects.toThrow('numTokens must be greater than 0');
+
+            tokenBalance = null;
+            await expect(burner.createApproveTransaction(mint.toBase58(), owner.toBase58(), 1)).rejects.toThrow(ValidationError);
+            await expect(burner.createRevokeTransaction(mint.toBase58(), owner.toBase58())).rejects.toThrow(ValidationError);
+        });
     });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,376 @@
+jest.mock("../swap/jupiter");
+jest.mock("../swap/raydium");
+jest.mock("../../solana/clients/helius");
+
+import { AccountInfo, Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, Transaction } from "@solana/web3.js";
+import { Account, getAssociatedTokenAddressSync, getMint, Mint, NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from "@solana/spl-token";
+import { BuybackBurner } from "../buyback-burner";
+import { BuybackBurnerDelegateOptions } from "../types";
+import { InMemoryCheckpointStore } from "../checkpoint/memory";
+import { DELEGATE_TYPES } from "../constants";
+import { HeliusClient } from "../../solana/clients/helius";
+import { JupiterSwap } from "../swap/jupiter";
+import { RaydiumSwap } from "../swap/raydium";
+import { InsufficientFundsError, ProtocolError, TransactionFailedError, TransactionPendingError, ValidationError } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
+
+// Keep the instruction builders real so the burn can be inspected
+jest.mock("@solana/spl-token", () => ({
+    ...jest.requireActual("@solana/spl-token"),
+    getMint: jest.fn(),
+    unpackAccount: jest.fn(),
+}));
+
+const mockGetMint = getMint as jest.MockedFunction<typeof getMint>;
+const mockUnpackAccount = unpackAccount as jest.MockedFunction<typeof unpackAccount>;
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TOKEN_ACCOUNT_RENT = 2039280;
+const FEE = 5000;
+
+describe('BuybackBurner', () => {
+    let buyback: BuybackBurner;
+    let mockConnection: jest.Mocked<Connection>;
+    let mockJupiterSwap: jest.Mocked<JupiterSwap>;
+    let mockRaydiumSwap: jest.Mocked<RaydiumSwap>;
+    let signer: Keypair;
+    let mint: PublicKey;
+    let mintProgram: PublicKey;
+    let swapBalances: [bigint | null, bigint]; // The signer's token balance before and after the swap; null while there is no account
+    let usdcBalance: bigint;
+    let lamportsSpent: number; // What the swap took from the signer's wallet, besides the fee and rent
+    let usdcSpent: bigint;
+    let sent: Transaction[];
+
+    function options(overrides: Partial<BuybackBurnerDelegateOptions> = {}): BuybackBurnerDelegateOptions {
+        return {
+            type: DELEGATE_TYPES.BUYBACK_BURNER,
+            tokenAddress: mint.toBase58(),
+            spendAmount: 0.5,
+            ...overrides,
+        };
+    }
+
+    function usdcAccount(): PublicKey {
+        return getAssociatedTokenAddressSync(new PublicKey(USDC), signer.publicKey, true);
+    }
+
+    beforeAll(() => {
+        jest.spyOn(Transaction.prototype, 'sign').mockImplementation(function (this: Transaction) { sent.push(this); return this; });
+        jest.spyOn(Transaction.prototype, 'serialize').mockImplementation(() => Buffer.from('tx'));
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        signer = Keypair.generate();
+        mint = Keypair.generate().publicKey;
+        mintProgram = TOKEN_PROGRAM_ID;
+        swapBalances = [null, 2_500_000n];
+        usdcBalance = 0n;
+        lamportsSpent = 0.5 * LAMPORTS_PER_SOL;
+        usdcSpent = 0n;
+        sent = [];
+
+        mockConnection = {
+            getAccountInfo: jest.fn(async (address: PublicKey) => {
+                if (address.equals(mint)) {
+                    return { owner: mintProgram, lamports: 1461600, data: Buffer.alloc(82), executable: false };
+                }
+                if (address.equals(usdcAccount())) {
+                    return { owner: TOKEN_PROGRAM_ID, lamports: 2039280, data: Buffer.alloc(165), executable: false };
+                }
+                return null;
+            }),
+            getTransaction: jest.fn(async () => {
+                const entry = (accountIndex: number, tokenMint: string, amount: bigint) => ({ accountIndex, mint: tokenMint, owner: signer.publicKey.toBase58(), uiTokenAmount: { amount: amount.toString() } });
+                const tokenBalance = (amount: bigint | null) => amount === null ? [] : [entry(1, mint.toBase58(), amount)];
+                const rent = swapBalances[0] === null ? TOKEN_ACCOUNT_RENT : 0;
+                return {
+                    transaction: { message: { staticAccountKeys: [signer.publicKey] } },
+                    meta: {
+                        err: null,
+                        fee: FEE,
+                        preBalances: [2 * LAMPORTS_PER_SOL, TOKEN_ACCOUNT_RENT - rent, TOKEN_ACCOUNT_RENT],
+                        postBalances: [2 * LAMPORTS_PER_SOL - lamportsSpent - FEE - rent, TOKEN_ACCOUNT_RENT, TOKEN_ACCOUNT_RENT],
+                        preTokenBalances: [...tokenBalance(swapBalances[0]), entry(2, USDC, usdcBalance)],
+                        postTokenBalances: [...tokenBalance(swapBalances[1]), entry(2, USDC, usdcBalance - usdcSpent)]
+                    }
+                };
+            }),
+            getSignatureStatus: jest.fn(),
+            getBlockHeight: jest.fn(),
+            getBalance: jest.fn().mockResolvedValue(2 * LAMPORTS_PER_SOL),
+            getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }),
+            sendRawTransaction: jest.fn().mockResolvedValue('burn-sig'),
+            confirmTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } }),
+        } as any;
+
+        mockGetMint.mockReset().mockResolvedValue({ decimals: 6 } as Mint);
+        mockUnpackAccount.mockReset().mockImplementation((address: PublicKey, info: AccountInfo<Buffer> | null) => ({
+            address,
+            amount: address.equals(usdcAccount()) ? usdcBalance : BigInt(info?.data.toString() ?? '0'),
+        } as Account));
+
+        mockJupiterSwap = {
+            getQuote: jest.fn().mockResolvedValue({ inputMint: NATIVE_MINT.toBase58(), outputMint: mint.toBase58(), inputAmount: '0.5', outputAmount: '2.5' }),
+            createSwapTransaction: jest.fn().mockResolvedValue({}),
+            executeSwap: jest.fn().mockResolvedValue({ success: true, signature: 'swap-sig' }),
+            isCircuitOpen: jest.fn().mockReturnValue(false),
+            setLogger: jest.fn(),
+            setRetryPolicy: jest.fn(),
+        } as any;
+        mockRaydiumSwap = {
+            getQuote: jest.fn().mockResolvedValue({ inputMint: NATIVE_MINT.toBase58(), outputMint: mint.toBase58(), inputAmount: '0.5', outputAmount: '2.5' }),
+            createSwapTransaction: jest.fn().mockResolvedValue({}),
+            executeSwap: jest.fn().mockResolvedValue({ success: true, signature: 'raydium-sig' }),
+            isCircuitOpen: jest.fn().mockReturnValue(false),
+            setLogger: jest.fn(),
+            setRetryPolicy: jest.fn(),
+        } as any;
+        (JupiterSwap as jest.Mock).mockImplementation(() => mockJupiterSwap);
+        (RaydiumSwap as jest.Mock).mockImplementation(() => mockRaydiumSwap);
+
+        buyback = new BuybackBurner(mockConnection, signer, new HeliusClient({ apiKey: 'test-key' }));
+        buyback.setRetryPolicy(new RetryPolicy({ maxAttempts: 2, baseDelayMs: 1, clock: { sleep: async () => {} } }));
+    });
+
+    describe('validateOptions', () => {
+        it('should validate correct options', () => {
+            expect(() => buyback.validateOptions(options({ spendAsset: 'usdc', slippageBps: 100 }))).not.toThrow();
+        });
+
+        it('should require a positive spendAmount', () => {
+            expect(() => buyback.validateOptions(options({ spendAmount: 0 }))).toThrow(ValidationError);
+        });
+
+        it('should only spend SOL or USDC', () => {
+            expect(() => buyback.validateOptions(options({ spendAsset: 'bonk' as any }))).toThrow(ValidationError);
+        });
+    });
+
+    describe('executeDelegate', () => {
+        it('should buy with SOL and burn exactly the tokens received', async () => {
+            const result = await buyback.executeDelegate(options());
+
+            expect(mockJupiterSwap.getQuote).toHaveBeenCalledWith(NATIVE_MINT.toBase58(), mint.toBase58(), 0.5, 0.5);
+            const [burn] = sent[0]?.instructions ?? [];
+            expect(burn?.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+            expect(burn?.data.readBigUInt64LE(1)).toBe(2_500_000n);
+            expect(burn?.keys[0]?.pubkey.equals(getAssociatedTokenAddressSync(mint, signer.publicKey, true, TOKEN_PROGRAM_ID))).toBe(true);
+            expect(result).toEqual({
+                success: true,
+                signatures: ['swap-sig', 'burn-sig'],
+                tokenMint: mint.toBase58(),
+                tokenProgram: TOKEN_PROGRAM_ID.toBase58(),
+                spendMint: NATIVE_MINT.toBase58(),
+                amountSpent: 0.5,
+                tokensBought: '2500000',
+                tokensBurned: '2500000',
+                effectivePrice: 0.2,
+                protocol: 'Jupiter',
+                swapSignature: 'swap-sig',
+                burnSignature: 'burn-sig',
+            });
+        });
+
+        it('should only burn what the swap added to an existing balance', async () => {
+            swapBalances = [1_000_000n, 1_750_000n];
+
+            const result = await buyback.executeDelegate(options());
+
+            expect(sent[0]?.instructions[0]?.data.readBigUInt64LE(1)).toBe(750_000n);
+            expect(result.tokensBurned).toBe('750000');
+            expect(result.amountSpent).toBe(0.5);
+        });
+
+        it('should report what the swap spent rather than the amount requested', async () => {
+            lamportsSpent = 0.48 * LAMPORTS_PER_SOL;
+
+            const result = await buyback.executeDelegate(options());
+
+            expect(result.amountSpent).toBe(0.48);
+            expect(result.effectivePrice).toBeCloseTo(0.192);
+        });
+
+        it('should spend USDC', async () => {
+            usdcBalance = 10_000_000n;
+            lamportsSpent = 0;
+            usdcSpent = 4_000_000n;
+
+            const result = await buyback.executeDelegate(options({ spendAsset: 'usdc', spendAmount: 5 }));
+
+            expect(mockJupiterSwap.getQuote).toHaveBeenCalledWith(USDC, mint.toBase58(), 5, 0.5);
+            expect(result.spendMint).toBe(USDC);
+            expect(result.amountSpent).toBe(4);
+            expect(result.effectivePrice).toBe(1.6);
+        });
+
+        it('should burn with the Token-2022 program for its mints', async () => {
+            mintProgram = TOKEN_2022_PROGRAM_ID;
+
+            const result = await buyback.executeDelegate(options());
+
+            expect(sent[0]?.instructions[0]?.programId.equals(TOKEN_2022_PROGRAM_ID)).toBe(true);
+            expect(result.tokenProgram).toBe(TOKEN_2022_PROGRAM_ID.toBase58());
+        });
+
+        it('should fall back to Raydium', async () => {
+            mockJupiterSwap.getQuote.mockRejectedValue(new Error('Jupiter failed'));
+
+            const result = await buyback.executeDelegate(options());
+
+            expect(result.protocol).toBe('Raydium');
+            expect(result.signatures).toEqual(['raydium-sig', 'burn-sig']);
+        });
+
+        it('should not swap without the SOL or USDC to spend', async () => {
+            mockConnection.getBalance.mockResolvedValue(0.1 * LAMPORTS_PER_SOL);
+
+            await expect(buyback.executeDelegate(options())).rejects.toThrow(InsufficientFundsError);
+            await expect(buyback.executeDelegate(options({ spendAsset: 'usdc', spendAmount: 5 }))).rejects.toThrow('Cannot spend 5 USDC');
+            expect(mockJupiterSwap.executeSwap).not.toHaveBeenCalled();
+        });
+
+        it('should not burn when both swaps fail', async () => {
+            mockJupiterSwap.executeSwap.mockResolvedValue({ success: false, error: 'slippage' });
+            mockRaydiumSwap.executeSwap.mockResolvedValue({ success: false, error: 'slippage' });
+
+            await expect(buyback.executeDelegate(options())).rejects.toThrow(ProtocolError);
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+        });
+
+        it('should not burn when the swap delivered nothing', async () => {
+            swapBalances = [1_000_000n, 1_000_000n];
+
+            await expect(buyback.executeDelegate(options())).rejects.toThrow('Swap swap-sig delivered no');
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+        });
+
+        it('should read the amount bought from the confirmed swap transaction', async () => {
+            await buyback.executeDelegate(options());
+
+            expect(mockConnection.getTransaction).toHaveBeenCalledWith('swap-sig', { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+        });
+
+        it('should not fall back to Raydium once the Jupiter swap was sent', async () => {
+            mockJupiterSwap.executeSwap.mockImplementation(async (_transaction, onSent) => {
+                await onSent?.({ signature: 'swap-sig', lastValidBlockHeight: 100 });
+                throw new TransactionPendingError('Swap swap-sig was sent but not confirmed', 'swap-sig');
+            });
+
+            await expect(buyback.executeDelegate(options())).rejects.toThrow(TransactionPendingError);
+            expect(mockRaydiumSwap.executeSwap).not.toHaveBeenCalled();
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+        });
+
+        it('should return an aborted result instead of swapping once aborted', async () => {
+            const controller = new AbortController();
+            controller.abort('Buyback cancelled');
+
+            const result = await buyback.executeDelegate(options(), { signal: controller.signal });
+
+            expect(mockJupiterSwap.executeSwap).not.toHaveBeenCalled();
+            expect(result).toMatchObject({ success: false, aborted: true, progress: { completed: 0, total: 2 }, signatures: [], amountSpent: 0, tokensBurned: '0' });
+        });
+
+        it('should reject buying back the asset it spends', async () => {
+            await expect(buyback.executeDelegate(options({ tokenAddress: USDC, spendAsset: 'usdc' }))).rejects.toThrow('Cannot buy back USDC with itself');
+        });
+
+        it('should plan the swap without sending in a dry run', async () => {
+            mockJupiterSwap.getQuote.mockResolvedValue(null);
+
+            const result = await buyback.executeDelegate(options(), { dryRun: true });
+
+            expect(mockJupiterSwap.executeSwap).not.toHaveBeenCalled();
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+            expect(result.signatures).toEqual([]);
+            expect(result.dryRun?.errors).toEqual([`Swap 0.5 SOL to ${mint.toBase58()}: Failed to get Jupiter quote`]);
+            expect(result.dryRun?.notes).toEqual(['The burn is not simulated: it burns whatever the swap delivers']);
+        });
+
+        it('should emit the swap and burn transactions', async () => {
+            const events: string[] = [];
+            buyback.events.onAny(event => { events.push(`${event.event}${'signature' in event ? `:${event.signature}` : ''}`); });
+
+            await buyback.executeDelegate(options());
+
+            expect(events).toEqual([
+                'execution_started',
+                'transaction_built',
+                'transaction_sent:swap-sig',
+                'transaction_confirmed:swap-sig',
+                'transaction_built',
+                'transaction_sent:burn-sig',
+                'transaction_confirmed:burn-sig',
+                'execution_completed',
+            ]);
+        });
+    });
+
+    describe('checkpoints', () => {
+        let checkpointStore: InMemoryCheckpointStore;
+
+        beforeEach(() => {
+            checkpointStore = new InMemoryCheckpointStore();
+        });
+
+        it('should burn on a rerun without buying again when the burn failed', async () => {
+            mockConnection.confirmTransaction.mockResolvedValueOnce({ context: { slot: 1 }, value: { err: { InstructionError: [0, 'InvalidAccountData'] } } });
+            await expect(buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore })).rejects.toThrow(TransactionFailedError);
+
+            mockConnection.getSignatureStatus.mockResolvedValue({ context: { slot: 1 }, value: { slot: 1, confirmations: null, err: { InstructionError: [0, 'InvalidAccountData'] }, confirmationStatus: 'confirmed' } });
+            const result = await buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(mockJupiterSwap.executeSwap).toHaveBeenCalledTimes(1);
+            expect(mockConnection.sendRawTransaction).toHaveBeenCalledTimes(2);
+            expect(sent[1]?.instructions[0]?.data.readBigUInt64LE(1)).toBe(2_500_000n);
+            expect(result).toMatchObject({ signatures: ['swap-sig', 'burn-sig'], tokensBurned: '2500000', protocol: 'Jupiter' });
+        });
+
+        it('should burn what a swap sent by an earlier attempt delivered once it confirms', async () => {
+            mockJupiterSwap.executeSwap.mockImplementationOnce(async (_transaction, onSent) => {
+                await onSent?.({ signature: 'swap-sig', lastValidBlockHeight: 100 });
+                throw new TransactionPendingError('Swap swap-sig was sent but not confirmed', 'swap-sig');
+            });
+            await expect(buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore })).rejects.toThrow(TransactionPendingError);
+
+            mockConnection.getSignatureStatus.mockResolvedValue({ context: { slot: 1 }, value: { slot: 1, confirmations: null, err: null, confirmationStatus: 'confirmed' } });
+            const result = await buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(mockJupiterSwap.executeSwap).toHaveBeenCalledTimes(1);
+            expect(mockConnection.getSignatureStatus).toHaveBeenCalledWith('swap-sig', { searchTransactionHistory: true });
+            expect(result).toMatchObject({ signatures: ['swap-sig', 'burn-sig'], tokensBurned: '2500000' });
+        });
+
+        it('should buy again when a swap sent by an earlier attempt expired', async () => {
+            mockJupiterSwap.executeSwap.mockImplementationOnce(async (_transaction, onSent) => {
+                await onSent?.({ signature: 'lost-sig', lastValidBlockHeight: 100 });
+                throw new TransactionPendingError('Swap lost-sig was sent but not confirmed', 'lost-sig');
+            });
+            await expect(buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore })).rejects.toThrow(TransactionPendingError);
+
+            mockConnection.getSignatureStatus.mockResolvedValue({ context: { slot: 1 }, value: null });
+            mockConnection.getBlockHeight.mockResolvedValue(101);
+            const result = await buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(mockJupiterSwap.executeSwap).toHaveBeenCalledTimes(2);
+            expect(result.signatures).toEqual(['swap-sig', 'burn-sig']);
+        });
+
+        it('should return the saved result of a completed run', async () => {
+            const first = await buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore });
+            const second = await buyback.executeDelegate(options(), { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(second).toEqual(first);
+            expect(mockJupiterSwap.executeSwap).toHaveBeenCalledTimes(1);
+            expect(mockConnection.sendRawTransaction).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,221 @@
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { Deployer } from "../deployer";
+import { DeployerDelegateOptions } from "../types";
+import { DELEGATE_TYPES } from "../constants";
+import { LaunchPlatform } from "../launch/base";
+import { raydiumLaunchlabOptionsSchema } from "../launch/raydium-launchlab";
+import { MetadataClient } from "../../solana/clients/metadata/base";
+import { ProtocolError, ValidationError } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
+import { schema } from "../../utils/schema";
+
+const SET_AUTHORITY = 6;
+const METADATA_URI = 'https://arweave.net/metadata';
+
+describe('Deployer', () => {
+    let deployer: Deployer;
+    let mockConnection: jest.Mocked<Connection>;
+    let metadataClient: jest.Mocked<MetadataClient>;
+    let signer: Keypair;
+
+    function options(overrides: Partial<DeployerDelegateOptions> = {}): DeployerDelegateOptions {
+        return {
+            type: DELEGATE_TYPES.DEPLOYER,
+            platform: 'spl-token',
+            tokenName: 'Test Token',
+            tokenSymbol: 'TEST',
+            ...overrides,
+        };
+    }
+
+    function sentTransaction(index = 0): Transaction {
+        return Transaction.from(mockConnection.sendRawTransaction.mock.calls[index]![0] as Buffer);
+    }
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        signer = Keypair.generate();
+        mockConnection = {
+            getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+            getMinimumBalanceForRentExemption: jest.fn().mockResolvedValue(3000000),
+            sendRawTransaction: jest.fn().mockResolvedValue('launch-sig'),
+            simulateTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null, logs: [], accounts: [] } }),
+            getFeeForMessage: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: 10000 }),
+            getMultipleAccountsInfo: jest.fn(async (keys: PublicKey[]) => keys.map(() => null)),
+        } as any;
+        metadataClient = {
+            uploadImage: jest.fn().mockResolvedValue({ success: true, uri: 'https://arweave.net/image' }),
+            uploadMetadata: jest.fn().mockResolvedValue({ success: true, uri: METADATA_URI }),
+        };
+
+        deployer = new Deployer(mockConnection, signer, metadataClient);
+        deployer.setRetryPolicy(new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, clock: { sleep: async () => {} } }));
+    });
+
+    describe('validateOptions', () => {
+        it('should default to Raydium LaunchLab and validate its options', () => {
+            expect(() => deployer.validateOptions(options({ platform: undefined }))).toThrow('platformOptions.platformId is required');
+            expect(() => deployer.validateOptions(options({
+                platform: undefined,
+                platformOptions: { platformId: Keypair.generate().publicKey.toBase58(), tokenMigrateType: 'amm' },
+                buyAmount: 1,
+            }))).not.toThrow();
+        });
+
+        it('should report invalid platform options under platformOptions', () => {
+            expect(() => deployer.validateOptions(options({ platform: 'raydium-launchlab', platformOptions: { platformId: 'invalid', tokenMigrateType: 'amm' } })))
+                .toThrow('Invalid platformOptions.platformId: invalid, must be a valid public key');
+            expect(() => deployer.validateOptions(options({ platformOptions: { decimals: 1.5 } }))).toThrow('platformOptions.decimals');
+        });
+
+        it('should accept the deprecated top-level Raydium LaunchLab options with a warning', () => {
+            const warn = jest.fn();
+            deployer.setLogger({ debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() });
+            const platformId = Keypair.generate().publicKey.toBase58();
+
+            expect(() => deployer.validateOptions(options({ platform: undefined, platformId, tokenMigrateType: 'cpmm' }))).not.toThrow();
+            expect(() => deployer.validateOptions(options({ platform: undefined, platformId, tokenMigrateType: 'pool' })))
+                .toThrow("platformOptions.tokenMigrateType must be either 'amm' or 'cpmm'");
+            expect(warn).toHaveBeenCalledWith('[Delegate] deployer_deprecated_options:', expect.objectContaining({ fields: ['platformId', 'tokenMigrateType'] }));
+        });
+
+        it('should reject the deprecated top-level options on other platforms', () => {
+            expect(() => deployer.validateOptions(options({ platformId: Keypair.generate().publicKey.toBase58() })))
+                .toThrow('platformId is only supported on raydium-launchlab; use platformOptions');
+        });
+
+        it('should reject unknown platforms', () => {
+            expect(() => deployer.validateOptions(options({ platform: 'pump' }))).toThrow(ValidationError);
+            expect(() => deployer.validateOptions(options({ platform: 'pump' }))).toThrow("Unknown launch platform 'pump', expected one of 'raydium-launchlab', 'spl-token'");
+        });
+
+        it('should reject a buy on platforms that cannot buy at launch', () => {
+            expect(() => deployer.validateOptions(options({ buyAmount: 1 }))).toThrow('buyAmount must be 0 on spl-token');
+            expect(() => deployer.validateOptions(options({ buyAmount: 0 }))).not.toThrow();
+        });
+    });
+
+    describe('spl-token platform', () => {
+        it('should upload the metadata and create the mint with it', async () => {
+            const result = await deployer.executeDelegate(options({ tokenImage: 'data:image/png;base64,aGVsbG8=' }));
+
+            expect(metadataClient.uploadImage).toHaveBeenCalledWith(Buffer.from('hello'));
+            expect(metadataClient.uploadMetadata).toHaveBeenCalledWith(expect.objectContaining({ name: 'Test Token', image: 'https://arweave.net/image' }));
+            expect(result).toMatchObject({ success: true, signatures: ['launch-sig'], metadataUri: METADATA_URI, platform: 'spl-token' });
+
+            const transaction = sentTransaction();
+            expect(transaction.verifySignatures()).toBe(true);
+            expect(transaction.feePayer?.equals(signer.publicKey)).toBe(true);
+            expect(transaction.instructions[0]?.programId.equals(SystemProgram.programId)).toBe(true);
+            expect(transaction.instructions[0]?.keys[1]?.pubkey.toBase58()).toBe(result.tokenMint);
+            expect(transaction.instructions.slice(1).map(instruction => instruction.programId.equals(TOKEN_2022_PROGRAM_ID)))
+                .toEqual([true, true, true, false, true, true]);
+            expect(transaction.instructions[3]?.data.includes(Buffer.from(METADATA_URI))).toBe(true);
+            expect(transaction.instructions[6]?.data[0]).toBe(SET_AUTHORITY);
+        });
+
+        it('should keep the mint authority when asked to', async () => {
+            await deployer.executeDelegate(options({ platformOptions: { revokeMintAuthority: false } }));
+
+            expect(sentTransaction().instructions).toHaveLength(6);
+        });
+
+        it('should fund the mint for its metadata', async () => {
+            await deployer.executeDelegate(options());
+
+            const [size] = mockConnection.getMinimumBalanceForRentExemption.mock.calls[0]!;
+            // Mint with a metadata pointer, then the metadata: header, authorities, strings and no extra fields
+            expect(size).toBe(234 + 4 + 64 + (4 + 10) + (4 + 4) + (4 + METADATA_URI.length) + 4);
+        });
+
+        it('should simulate without uploading or sending in a dry run', async () => {
+            const result = await deployer.executeDelegate(options(), { dryRun: true });
+
+            expect(metadataClient.uploadMetadata).not.toHaveBeenCalled();
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+            expect(mockConnection.simulateTransaction).toHaveBeenCalledTimes(1);
+            expect(result).toMatchObject({ success: true, signatures: [], metadataUri: '', platform: 'spl-token' });
+            expect(result.dryRun?.transactions[0]?.description).toBe(`Launch transaction 1 of 1 for ${result.tokenMint} on spl-token`);
+            expect(result.dryRun?.notes).toContain('Token image and metadata were not uploaded; the simulated token has an empty metadata URI');
+        });
+    });
+
+    describe('registerPlatform', () => {
+        let built: { uri: string; options: unknown }[];
+        let platform: LaunchPlatform<{ curve: string }>;
+        let mint: Keypair;
+
+        beforeEach(() => {
+            built = [];
+            mint = Keypair.generate();
+            platform = {
+                name: 'test-launchpad',
+                optionsSchema: schema.object({ curve: schema.enum(['linear', 'exponential']) }),
+                supportsBuy: true,
+                buildLaunch: jest.fn(async (request, context) => {
+                    built.push({ uri: request.uri, options: request.options });
+                    const transfer = SystemProgram.transfer({ fromPubkey: context.payer, toPubkey: mint.publicKey, lamports: 1 });
+                    return { tokenMint: mint.publicKey, transactions: [new Transaction().add(transfer), new Transaction().add(transfer)], signers: [] };
+                }),
+            };
+            deployer.registerPlatform(platform);
+        });
+
+        it('should launch on the registered platform with the uploaded metadata', async () => {
+            mockConnection.sendRawTransaction.mockResolvedValueOnce('sig-1').mockResolvedValueOnce('sig-2');
+
+            const result = await deployer.executeDelegate(options({ platform: 'test-launchpad', platformOptions: { curve: 'linear' }, buyAmount: 2 }));
+
+            expect(built).toEqual([{ uri: METADATA_URI, options: { curve: 'linear' } }]);
+            expect(result).toMatchObject({ signatures: ['sig-1', 'sig-2'], tokenMint: mint.publicKey.toBase58(), platform: 'test-launchpad' });
+        });
+
+        it("should validate options with the platform's schema", () => {
+            expect(() => deployer.validateOptions(options({ platform: 'test-launchpad', platformOptions: { curve: 'flat' } })))
+                .toThrow("platformOptions.curve must be either 'linear' or 'exponential'");
+        });
+
+        it('should emit an event per transaction without waiting for confirmation', async () => {
+            const events: string[] = [];
+            deployer.events.onAny(event => { events.push(event.event); });
+
+            await deployer.executeDelegate(options({ platform: 'test-launchpad', platformOptions: { curve: 'linear' } }));
+
+            expect(events).toEqual(['execution_started', 'transaction_built', 'transaction_sent', 'transaction_built', 'transaction_sent', 'execution_completed']);
+        });
+
+        it('should launch saved tasks with the deprecated top-level options on Raydium LaunchLab', async () => {
+            const platformId = Keypair.generate().publicKey.toBase58();
+            deployer.registerPlatform({
+                name: 'raydium-launchlab',
+                optionsSchema: raydiumLaunchlabOptionsSchema,
+                supportsBuy: true,
+                buildLaunch: async request => {
+                    built.push({ uri: request.uri, options: request.options });
+                    return { tokenMint: mint.publicKey, transactions: [], signers: [] };
+                },
+            });
+
+            await deployer.executeDelegate(options({ platform: undefined, platformId, tokenMigrateType: 'amm', platformOptions: { tokenMigrateType: 'cpmm' } }));
+
+            expect(built).toEqual([{ uri: METADATA_URI, options: { platformId, tokenMigrateType: 'cpmm' } }]);
+        });
+
+        it('should not build the launch when the metadata upload fails', async () => {
+            metadataClient.uploadMetadata.mockResolvedValue({ success: false, error: 'quota exceeded' });
+
+            await expect(deployer.executeDelegate(options({ platform: 'test-launchpad', platformOptions: { curve: 'linear' } }))).rejects.toThrow(ProtocolError);
+            expect(platform.buildLaunch).not.toHaveBeenCalled();
+        });
+    });
+});
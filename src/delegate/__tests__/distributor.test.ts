@@ -46,7 +46,7 @@ jest.mock("../../solana/clients/helius", () => ({
 }));
 
 // Helper to flush all timers and microtasks
-async function flushAllTimersAndMicrotasks(maxIterations = 20) {
+async function flushAllTimersAndMicrotasks(maxIterations = 50) {
     for (let i = 0; i < maxIterations; i++) {
         jest.runOnlyPendingTimers();
         await Promise.resolve();
@@ -141,7 +141,7 @@ describe("Distributor", () => {
                 numTokens: 100
             };
 
-            expect(() => distributor.validateOptions(options)).toThrow("singleAddress is required for single distribution");
+            expect(() => distributor.validateOptions(options)).toThrow("singleAddress is required when distributionType is single");
         });
 
         it("should throw error for missing multipleAddresses in multi distribution", () => {
@@ -151,7 +151,7 @@ describe("Distributor", () => {
                 numTokens: 100
             };
 
-            expect(() => distributor.validateOptions(options)).toThrow("multipleAddresses array is required for multi distribution");
+            expect(() => distributor.validateOptions(options)).toThrow("multipleAddresses is required when distributionType is multi");
         });
 
         it("should throw error for missing distributionMethod in holders distribution", () => {
@@ -161,7 +161,7 @@ describe("Distributor", () => {
                 numTokens: 100
             };
 
-            expect(() => distributor.validateOptions(options)).toThrow("distributionMethod is required for holders distribution");
+            expect(() => distributor.validateOptions(options)).toThrow("distributionMethod is required when distributionType is holders");
         });
 
         it("should throw error for missing topX in topx distribution", () => {
@@ -173,7 +173,7 @@ describe("Distributor", () => {
                 holderOfWhichToken: mockTokenAddress
             };
 
-            expect(() => distributor.validateOptions(options)).toThrow("topX must be greater than 0 for topx distribution method");
+            expect(() => distributor.validateOptions(options)).toThrow("topX is required when distributionMethod is topx");
         });
 
         it("should throw error for negative numTokens", () => {
@@ -365,7 +365,7 @@ describe("Distributor", () => {
                 numTokens: 1
             };
 
-            await expect(distributor.executeDelegate(options)).rejects.toThrow("Invalid distribution type");
+            await expect(distributor.executeDelegate(options)).rejects.toThrow("distributionType must be one of 'single', 'multi' or 'holders'");
         });
     });
 
@@ -0,0 +1,95 @@
+import { Connection, Keypair, SystemProgram, Transaction } from "@solana/web3.js";
+import { addToDryRunPlan, createDryRunPlan, simulateTransaction } from "../dry-run";
+
+describe('dry run', () => {
+    const payer = Keypair.generate().publicKey;
+    const recipient = Keypair.generate().publicKey;
+    let mockConnection: jest.Mocked<Connection>;
+    let transaction: Transaction;
+
+    beforeEach(() => {
+        mockConnection = {
+            getMultipleAccountsInfo: jest.fn().mockResolvedValue([{ lamports: 5000000 }, null]),
+            simulateTransaction: jest.fn().mockResolvedValue({
+                context: { slot: 1 },
+                value: {
+                    err: null,
+                    logs: ['Program 11111111111111111111111111111111 success'],
+                    accounts: [{ lamports: 3995000 }, { lamports: 1000000 }],
+                    unitsConsumed: 150
+                }
+            }),
+            getFeeForMessage: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: 5000 }),
+        } as any;
+
+        transaction = new Transaction().add(SystemProgram.transfer({ fromPubkey: payer, toPubkey: recipient, lamports: 1000000 }));
+        transaction.feePayer = payer;
+        transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    });
+
+    describe('simulateTransaction', () => {
+        it('should report balance changes of writable accounts, compute units and the fee', async () => {
+            const simulated = await simulateTransaction(mockConnection, transaction, 'Pay recipient');
+
+            expect(simulated).toEqual({
+                description: 'Pay recipient',
+                success: true,
+                computeUnits: 150,
+                fee: 5000,
+                balanceChanges: [
+                    { address: payer.toBase58(), lamports: -1005000 },
+                    { address: recipient.toBase58(), lamports: 1000000 }
+                ],
+                logs: ['Program 11111111111111111111111111111111 success']
+            });
+            expect(mockConnection.simulateTransaction).toHaveBeenCalledWith(expect.anything(), {
+                sigVerify: false,
+                replaceRecentBlockhash: true,
+                accounts: { encoding: 'base64', addresses: [payer.toBase58(), recipient.toBase58()] }
+            });
+        });
+
+        it('should report simulation errors without balance changes', async () => {
+            mockConnection.simulateTransaction.mockResolvedValue({
+                context: { slot: 1 },
+                value: { err: { InstructionError: [0, { Custom: 1 }] }, logs: null, accounts: null }
+            });
+
+            const simulated = await simulateTransaction(mockConnection, transaction, 'Pay recipient');
+
+            expect(simulated.success).toBe(false);
+            expect(simulated.error).toBe('{"InstructionError":[0,{"Custom":1}]}');
+            expect(simulated.balanceChanges).toEqual([]);
+            expect(simulated.logs).toEqual([]);
+        });
+    });
+
+    describe('addToDryRunPlan', () => {
+        it('should sum fees, compute units and balance changes and collect errors', () => {
+            const plan = createDryRunPlan();
+
+            addToDryRunPlan(plan, {
+                description: 'First',
+                success: true,
+                computeUnits: 100,
+                fee: 5000,
+                balanceChanges: [{ address: 'a', lamports: -10 }, { address: 'b', lamports: 10 }],
+                logs: []
+            });
+            addToDryRunPlan(plan, {
+                description: 'Second',
+                success: false,
+                error: 'InsufficientFundsForFee',
+                fee: 5000,
+                balanceChanges: [{ address: 'a', lamports: -5 }],
+                logs: []
+            });
+
+            expect(plan.transactions).toHaveLength(2);
+            expect(plan.totalFee).toBe(10000);
+            expect(plan.totalComputeUnits).toBe(100);
+            expect(plan.balanceChanges).toEqual([{ address: 'a', lamports: -15 }, { address: 'b', lamports: 10 }]);
+            expect(plan.errors).toEqual(['Second: InsufficientFundsForFee']);
+        });
+    });
+});
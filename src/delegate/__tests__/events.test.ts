@@ -0,0 +1,77 @@
+import { DelegateEventEmitter, DelegateEventMap } from "../events";
+
+function completedEvent(requestId: number): DelegateEventMap['execution_completed'] {
+    return {
+        event: 'execution_completed',
+        delegateType: 'burner',
+        requestId,
+        timestamp: new Date(),
+        result: { success: true, signatures: [] }
+    };
+}
+
+describe('DelegateEventEmitter', () => {
+    let emitter: DelegateEventEmitter;
+    let onListenerError: jest.Mock;
+
+    beforeEach(() => {
+        onListenerError = jest.fn();
+        emitter = new DelegateEventEmitter(onListenerError);
+    });
+
+    it('should deliver events to their listeners and to listeners of every event', () => {
+        const completed = jest.fn();
+        const failed = jest.fn();
+        const any = jest.fn();
+        emitter.on('execution_completed', completed);
+        emitter.on('execution_failed', failed);
+        emitter.onAny(any);
+
+        const event = completedEvent(1);
+        emitter.emit(event);
+
+        expect(completed).toHaveBeenCalledWith(event);
+        expect(failed).not.toHaveBeenCalled();
+        expect(any).toHaveBeenCalledWith(event);
+    });
+
+    it('should remove listeners', () => {
+        const listener = jest.fn();
+        const any = jest.fn();
+        const unsubscribe = emitter.on('execution_completed', listener);
+        const unsubscribeAny = emitter.onAny(any);
+
+        unsubscribe();
+        unsubscribeAny();
+        emitter.emit(completedEvent(1));
+
+        expect(listener).not.toHaveBeenCalled();
+        expect(any).not.toHaveBeenCalled();
+    });
+
+    it('should call once listeners a single time', () => {
+        const listener = jest.fn();
+        emitter.once('execution_completed', listener);
+
+        emitter.emit(completedEvent(1));
+        emitter.emit(completedEvent(2));
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(expect.objectContaining({ requestId: 1 }));
+    });
+
+    it('should report failing listeners without stopping the others', async () => {
+        const next = jest.fn();
+        emitter.on('execution_completed', () => { throw new Error('Listener broke'); });
+        emitter.on('execution_completed', async () => { throw new Error('Listener rejected'); });
+        emitter.on('execution_completed', next);
+
+        const event = completedEvent(1);
+        expect(() => emitter.emit(event)).not.toThrow();
+        await Promise.resolve();
+
+        expect(next).toHaveBeenCalled();
+        expect(onListenerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Listener broke' }), event);
+        expect(onListenerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Listener rejected' }), event);
+    });
+});
@@ -4,6 +4,7 @@ import { Hopper } from "../hopper";
 import { HopperDelegateOptions } from "../types";
 import { DELEGATE_TYPES } from "../constants";
 import { HeliusClient } from "../../solana/clients/helius";
+import { InMemoryCheckpointStore } from "../checkpoint/memory";
 
 // Mock SPL token functions
 jest.mock("@solana/spl-token", () => ({
@@ -37,6 +38,11 @@ describe('Hopper', () => {
             getLatestBlockhash: jest.fn(),
             sendTransaction: jest.fn(),
             confirmTransaction: jest.fn(),
+            getSignatureStatus: jest.fn(),
+            getBlockHeight: jest.fn(),
+            getMultipleAccountsInfo: jest.fn(),
+            simulateTransaction: jest.fn(),
+            getFeeForMessage: jest.fn(),
         } as any;
 
         mockHeliusClient = {
@@ -230,6 +236,33 @@ describe('Hopper', () => {
             expect(result.totalHops).toBe(2);
         });
 
+        it('should stop between hops when aborted and report completed hops', async () => {
+            const options: HopperDelegateOptions = {
+                type: DELEGATE_TYPES.HOPPER,
+                hopDestination: '11111111111111111111111111111111',
+                numOfHops: 3,
+                numTokens: 1.0,
+                tokenType: 'sol'
+            };
+            const controller = new AbortController();
+
+            mockHeliusClient.getBalance.mockResolvedValue(1000000000);
+            mockConnection.sendTransaction.mockImplementationOnce(async () => {
+                controller.abort('Hopper run cancelled');
+                return 'first-signature';
+            });
+
+            const result = await hopper.executeDelegate(options, { signal: controller.signal });
+
+            expect(result.success).toBe(false);
+            expect(result.aborted).toBe(true);
+            expect(result.error).toBe('Hopper run cancelled after 1 of 3 steps');
+            expect(result.progress).toEqual({ completed: 1, total: 3 });
+            expect(result.signatures).toEqual(['first-signature']);
+            expect(result.hopMap).toHaveLength(1);
+            expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(1);
+        });
+
         it('should throw error for missing tokenAddress in token hopper', async () => {
             const options: HopperDelegateOptions = {
                 type: DELEGATE_TYPES.HOPPER,
@@ -287,6 +320,162 @@ describe('Hopper', () => {
         });
     });
 
+    describe('dry run', () => {
+        it('should simulate the first hop and send nothing', async () => {
+            const options: HopperDelegateOptions = {
+                type: DELEGATE_TYPES.HOPPER,
+                hopDestination: '11111111111111111111111111111111',
+                numOfHops: 3,
+                numTokens: 1.0,
+                tokenType: 'sol'
+            };
+            mockConnection.getLatestBlockhash.mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1000 });
+            mockConnection.getMultipleAccountsInfo.mockResolvedValue([{ lamports: 2000000000 } as any, null]);
+            mockConnection.simulateTransaction.mockResolvedValue({
+                context: { slot: 1 },
+                value: { err: null, logs: [], accounts: [{ lamports: 1002084720 } as any, { lamports: 997910720 } as any], unitsConsumed: 150 }
+            });
+            mockConnection.getFeeForMessage.mockResolvedValue({ context: { slot: 1 }, value: 5000 });
+
+            const result = await hopper.executeDelegate(options, { dryRun: true });
+
+            expect(result.success).toBe(true);
+            expect(result.signatures).toEqual([]);
+            expect(result.dryRun?.transactions).toHaveLength(1);
+            expect(result.dryRun?.transactions[0]?.description).toMatch(/^Hop 1 of 3 to /);
+            expect(result.dryRun?.balanceChanges[0]).toEqual({ address: keypair.publicKey.toBase58(), lamports: -997915280 });
+            expect(result.dryRun?.totalFee).toBe(5000);
+            expect(result.dryRun?.notes).toEqual(['Hops 2 to 3 move funds between generated wallets and can only be simulated once hop 1 has landed']);
+            expect(mockConnection.sendTransaction).not.toHaveBeenCalled();
+        });
+
+        it('should fail when the simulation does', async () => {
+            const options: HopperDelegateOptions = {
+                type: DELEGATE_TYPES.HOPPER,
+                hopDestination: '11111111111111111111111111111111',
+                numOfHops: 1,
+                numTokens: 1.0,
+                tokenType: 'sol'
+            };
+            mockConnection.getLatestBlockhash.mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1000 });
+            mockConnection.getMultipleAccountsInfo.mockResolvedValue([null, null]);
+            mockConnection.simulateTransaction.mockResolvedValue({
+                context: { slot: 1 },
+                value: { err: 'AccountNotFound', logs: null, accounts: null }
+            });
+            mockConnection.getFeeForMessage.mockResolvedValue({ context: { slot: 1 }, value: 5000 });
+
+            const result = await hopper.executeDelegate(options, { dryRun: true });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toBe('1 of 1 simulated transactions failed');
+            expect(result.dryRun?.errors).toEqual(['Hop 1 of 1 to 11111111111111111111111111111111: AccountNotFound']);
+        });
+    });
+
+    describe('checkpoints', () => {
+        const options: HopperDelegateOptions = {
+            type: DELEGATE_TYPES.HOPPER,
+            hopDestination: '11111111111111111111111111111111',
+            numOfHops: 3,
+            numTokens: 1.0,
+            tokenType: 'sol'
+        };
+        let checkpointStore: InMemoryCheckpointStore;
+
+        beforeEach(() => {
+            checkpointStore = new InMemoryCheckpointStore();
+            mockConnection.getLatestBlockhash.mockResolvedValue({
+                blockhash: 'test-blockhash',
+                lastValidBlockHeight: 1000
+            });
+            mockConnection.confirmTransaction.mockResolvedValue({
+                context: { slot: 1000 },
+                value: { err: null }
+            });
+            mockHeliusClient.getBalance.mockResolvedValue(1000000000);
+        });
+
+        it('should resume a failed run from the last confirmed hop with the same wallets', async () => {
+            mockConnection.sendTransaction
+                .mockResolvedValueOnce('sig-1')
+                .mockRejectedValue(new Error('Transaction failed'));
+
+            await expect(hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore })).rejects.toThrow('Transaction failed');
+
+            const failed = await checkpointStore.get('run-1');
+            expect(failed).toMatchObject({ status: 'failed', step: 1, signatures: ['sig-1'], error: 'Transaction failed' });
+            expect(failed?.state['hopMap']).toHaveLength(2);
+
+            mockConnection.sendTransaction.mockReset();
+            mockConnection.sendTransaction.mockResolvedValueOnce('sig-2').mockResolvedValueOnce('sig-3');
+
+            const result = await hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(result.success).toBe(true);
+            expect(result.signatures).toEqual(['sig-1', 'sig-2', 'sig-3']);
+            expect(result.hopMap.slice(0, 2)).toEqual(failed?.state['hopMap']);
+            expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(2);
+            expect(await checkpointStore.get('run-1')).toMatchObject({ status: 'completed', step: 3, result });
+        });
+
+        it('should count a pending transaction that landed instead of sending it again', async () => {
+            mockConnection.sendTransaction.mockResolvedValueOnce('sig-1');
+            mockConnection.confirmTransaction.mockRejectedValue(new Error('Confirmation timed out'));
+
+            await expect(hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore })).rejects.toThrow('Confirmation timed out');
+            expect(await checkpointStore.get('run-1')).toMatchObject({ step: 0, pending: { signature: 'sig-1', lastValidBlockHeight: 1000 } });
+
+            mockConnection.confirmTransaction.mockResolvedValue({ context: { slot: 1000 }, value: { err: null } });
+            mockConnection.getSignatureStatus.mockResolvedValue({
+                context: { slot: 1001 },
+                value: { slot: 1000, confirmations: 1, err: null, confirmationStatus: 'confirmed' }
+            });
+            mockConnection.sendTransaction.mockResolvedValueOnce('sig-2').mockResolvedValueOnce('sig-3');
+
+            const result = await hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(result.signatures).toEqual(['sig-1', 'sig-2', 'sig-3']);
+            expect(mockConnection.getSignatureStatus).toHaveBeenCalledWith('sig-1', { searchTransactionHistory: true });
+        });
+
+        it('should refuse to resume while a pending transaction may still land', async () => {
+            mockConnection.sendTransaction.mockResolvedValueOnce('sig-1');
+            mockConnection.confirmTransaction.mockRejectedValue(new Error('Confirmation timed out'));
+            await expect(hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore })).rejects.toThrow('Confirmation timed out');
+
+            mockConnection.getSignatureStatus.mockResolvedValue({ context: { slot: 1001 }, value: null });
+            mockConnection.getBlockHeight.mockResolvedValue(999);
+
+            await expect(hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore }))
+                .rejects.toThrow('Transaction sig-1 may still land, retry after block height 1000');
+            expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(1);
+        });
+
+        it('should return the saved result when a completed run is repeated', async () => {
+            mockConnection.sendTransaction.mockResolvedValue('test-signature');
+            const first = await hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore });
+
+            const second = await hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore });
+
+            expect(second).toEqual(first);
+            expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(3);
+        });
+
+        it('should reject a reused idempotency key with different options', async () => {
+            mockConnection.sendTransaction.mockResolvedValue('test-signature');
+            await hopper.executeDelegate(options, { idempotencyKey: 'run-1', checkpointStore });
+
+            await expect(hopper.executeDelegate({ ...options, numOfHops: 4 }, { idempotencyKey: 'run-1', checkpointStore }))
+                .rejects.toThrow('Idempotency key run-1 was already used with different options');
+        });
+
+        it('should require a checkpoint store for an idempotency key', async () => {
+            await expect(hopper.executeDelegate(options, { idempotencyKey: 'run-1' }))
+                .rejects.toThrow('An idempotency key requires a checkpoint store');
+        });
+    });
+
     describe('private methods', () => {
         it('should calculate amount to transfer correctly', () => {
             const hopperAny = hopper as any;
@@ -42,12 +42,14 @@ describe('Liquidator', () => {
             getQuote: jest.fn(),
             createSwapTransaction: jest.fn(),
             executeSwap: jest.fn(),
+            isCircuitOpen: jest.fn().mockReturnValue(false),
         } as any;
 
         mockRaydiumSwap = {
             getQuote: jest.fn(),
             createSwapTransaction: jest.fn(),
             executeSwap: jest.fn(),
+            isCircuitOpen: jest.fn().mockReturnValue(false),
         } as any;
 
         (JupiterSwap as jest.Mock).mockImplementation(() => mockJupiterSwap);
@@ -300,6 +302,40 @@ describe('Liquidator', () => {
             expect(result.totalLiquidated).toBe(1);
         });
 
+        it('should skip Jupiter while its circuit breaker is open', async () => {
+            const options: LiquidatorDelegateOptions = {
+                type: DELEGATE_TYPES.LIQUIDATOR,
+                delegateAddress: Keypair.generate().publicKey.toBase58(),
+                tokenAddress: Keypair.generate().publicKey.toBase58(),
+            };
+
+            const tokenAccount = {
+                mint: Keypair.generate().publicKey.toBase58(),
+                amount: 1000000,
+                frozen: false,
+            };
+
+            mockHeliusClient.getTokenAccounts.mockResolvedValue({ value: [tokenAccount] });
+            (getMint as jest.Mock).mockResolvedValue({ decimals: 6 });
+            mockJupiterSwap.isCircuitOpen.mockReturnValue(true);
+            mockRaydiumSwap.getQuote.mockResolvedValue({
+                inputMint: tokenAccount.mint,
+                outputMint: options.tokenAddress,
+                inputAmount: '1000000',
+                outputAmount: '2000000',
+                swapUsdValue: 10,
+            });
+            mockRaydiumSwap.createSwapTransaction.mockResolvedValue({} as any);
+            mockRaydiumSwap.executeSwap.mockResolvedValue({ success: true, signature: 'raydium-signature' });
+
+            const result = await liquidator.executeDelegate(options);
+
+            expect(result.success).toBe(true);
+            expect(result.signatures).toEqual(['raydium-signature']);
+            expect(mockJupiterSwap.getQuote).not.toHaveBeenCalled();
+            expect(mockJupiterSwap.executeSwap).not.toHaveBeenCalled();
+        });
+
         it('should handle errors gracefully and continue processing', async () => {
             const options: LiquidatorDelegateOptions = {
                 type: DELEGATE_TYPES.LIQUIDATOR,
@@ -0,0 +1,229 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import { DelegateRegistry, DelegateDependencies } from "../registry";
+import { DELEGATE_TYPES } from "../constants";
+import { Deployer } from "../deployer";
+import { Burner } from "../burner";
+import { Allocator } from "../allocator";
+import { Distributor } from "../distributor";
+import { Hopper } from "../hopper";
+import { Liquidator } from "../liquidator";
+import { Sweeper } from "../sweeper";
+import { CustomDelegate, CustomDelegateOptions, CustomDelegateResult } from "../example";
+import { BurnerDelegateResult, HopperDelegateOptions } from "../types";
+import { ERROR_CODES } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
+import { HeliusClient } from "../../solana/clients/helius";
+import { MetadataClient } from "../../solana/clients/metadata/base";
+import { InMemoryCheckpointStore } from "../checkpoint/memory";
+import { getLogFields, silentLogger } from "../../utils/logger";
+
+jest.mock("../../solana/clients/helius");
+
+let logSpy: jest.SpyInstance, errorSpy: jest.SpyInstance, warnSpy: jest.SpyInstance;
+
+beforeAll(() => {
+  logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  logSpy.mockRestore();
+  errorSpy.mockRestore();
+  warnSpy.mockRestore();
+});
+
+const burnResult: BurnerDelegateResult = {
+    success: true,
+    signatures: [],
+    burnedAmount: '1',
+    tokenMint: '11111111111111111111111111111111',
+    tokenProgram: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+    tokenAccount: '11111111111111111111111111111111',
+    owner: '11111111111111111111111111111111',
+    burnedViaApproval: false,
+    postBurnBalance: '0',
+    accountClosed: false,
+    rentReclaimed: 0,
+};
+
+describe('DelegateRegistry', () => {
+    let dependencies: DelegateDependencies;
+    let registry: DelegateRegistry;
+
+    beforeEach(() => {
+        const metadataClient: MetadataClient = {
+            uploadMetadata: jest.fn(),
+            uploadImage: jest.fn(),
+        };
+
+        dependencies = {
+            connection: new Connection('http://localhost:8899'),
+            signerKeypair: Keypair.generate(),
+            heliusClient: new HeliusClient({ apiKey: 'test-key' }),
+            metadataClient,
+        };
+        registry = new DelegateRegistry(dependencies);
+    });
+
+    describe('built-in delegates', () => {
+        it('should register every DELEGATE_TYPES entry', () => {
+            expect(registry.getTypes().sort()).toEqual(Object.values(DELEGATE_TYPES).sort());
+        });
+
+        it('should build each delegate with its dependencies', () => {
+            expect(registry.get(DELEGATE_TYPES.DEPLOYER)).toBeInstanceOf(Deployer);
+            expect(registry.get(DELEGATE_TYPES.BURNER)).toBeInstanceOf(Burner);
+            expect(registry.get(DELEGATE_TYPES.ALLOCATOR)).toBeInstanceOf(Allocator);
+            expect(registry.get(DELEGATE_TYPES.DISTRIBUTOR)).toBeInstanceOf(Distributor);
+            expect(registry.get(DELEGATE_TYPES.HOPPER)).toBeInstanceOf(Hopper);
+            expect(registry.get(DELEGATE_TYPES.LIQUIDATOR)).toBeInstanceOf(Liquidator);
+            expect(registry.get(DELEGATE_TYPES.SWEEPER)).toBeInstanceOf(Sweeper);
+
+            const burner = registry.get(DELEGATE_TYPES.BURNER);
+            expect(burner.connection).toBe(dependencies.connection);
+            expect(burner.signerKeypair).toBe(dependencies.signerKeypair);
+        });
+
+        it('should reuse delegate instances', () => {
+            expect(registry.get(DELEGATE_TYPES.HOPPER)).toBe(registry.get(DELEGATE_TYPES.HOPPER));
+        });
+
+        it('should report missing dependencies when the delegate is built', () => {
+            const bare = new DelegateRegistry({
+                connection: dependencies.connection,
+                signerKeypair: dependencies.signerKeypair,
+            });
+
+            expect(() => bare.get(DELEGATE_TYPES.HOPPER)).toThrow('Delegate type hopper requires a heliusClient');
+            expect(() => bare.get(DELEGATE_TYPES.DEPLOYER)).toThrow('Delegate type deployer requires a metadataClient');
+            expect(bare.get(DELEGATE_TYPES.BURNER)).toBeInstanceOf(Burner);
+        });
+
+        it('should skip built-ins when asked', () => {
+            const empty = new DelegateRegistry(dependencies, { registerBuiltIns: false });
+
+            expect(empty.getTypes()).toEqual([]);
+        });
+    });
+
+    describe('register', () => {
+        it('should register custom delegate types', async () => {
+            registry.register<CustomDelegateOptions, CustomDelegateResult>(
+                'custom',
+                deps => new CustomDelegate(deps.connection, deps.signerKeypair)
+            );
+            const delegate = registry.get('custom');
+            const execute = jest.spyOn(delegate, 'executeDelegate').mockResolvedValue({ success: true, customResult: 'done' });
+
+            const result = await registry.executeDelegate({ type: 'custom', customField: 'tokens', amount: 5 });
+
+            expect(registry.has('custom')).toBe(true);
+            expect(delegate).toBeInstanceOf(CustomDelegate);
+            expect(execute).toHaveBeenCalledWith({ type: 'custom', customField: 'tokens', amount: 5 }, {});
+            expect(result).toEqual({ success: true, customResult: 'done' });
+        });
+
+        it('should refuse to replace a type unless asked', () => {
+            const factory = () => new CustomDelegate(dependencies.connection, dependencies.signerKeypair);
+
+            expect(() => registry.register(DELEGATE_TYPES.BURNER, factory)).toThrow('Delegate type burner is already registered');
+
+            const original = registry.get(DELEGATE_TYPES.BURNER);
+            registry.register(DELEGATE_TYPES.BURNER, factory, true);
+
+            expect(registry.get(DELEGATE_TYPES.BURNER)).not.toBe(original);
+            expect(registry.get(DELEGATE_TYPES.BURNER)).toBeInstanceOf(CustomDelegate);
+        });
+
+        it('should unregister types', () => {
+            expect(registry.unregister(DELEGATE_TYPES.BURNER)).toBe(true);
+            expect(registry.has(DELEGATE_TYPES.BURNER)).toBe(false);
+            expect(registry.unregister(DELEGATE_TYPES.BURNER)).toBe(false);
+        });
+    });
+
+    describe('executeDelegate', () => {
+        it('should dispatch by options.type', async () => {
+            const hopper = registry.get(DELEGATE_TYPES.HOPPER);
+            const execute = jest.spyOn(hopper, 'executeDelegate').mockResolvedValue({
+                success: true,
+                signatures: ['sig'],
+                hopMap: [],
+                finalDestination: 'dest',
+                totalHops: 1,
+            });
+            const options: HopperDelegateOptions = {
+                type: DELEGATE_TYPES.HOPPER,
+                hopDestination: '11111111111111111111111111111111',
+                numOfHops: 1,
+                numTokens: 1,
+                tokenType: 'sol',
+            };
+
+            const result = await registry.executeDelegate(options);
+
+            expect(execute).toHaveBeenCalledWith(options, {});
+            expect(result.totalHops).toBe(1);
+        });
+
+        it('should pass its checkpoint store to runs that bring none', async () => {
+            const checkpointStore = new InMemoryCheckpointStore();
+            const ownStore = new InMemoryCheckpointStore();
+            registry = new DelegateRegistry({ ...dependencies, checkpointStore });
+            const execute = jest.spyOn(registry.get(DELEGATE_TYPES.BURNER), 'executeDelegate').mockResolvedValue(burnResult);
+            const options = { type: DELEGATE_TYPES.BURNER, tokenAddress: '11111111111111111111111111111111', numTokens: 1 };
+
+            await registry.executeDelegate(options, { idempotencyKey: 'run-1' });
+            await registry.executeDelegate(options, { idempotencyKey: 'run-2', checkpointStore: ownStore });
+
+            expect(execute).toHaveBeenNthCalledWith(1, options, { idempotencyKey: 'run-1', checkpointStore });
+            expect(execute).toHaveBeenNthCalledWith(2, options, { idempotencyKey: 'run-2', checkpointStore: ownStore });
+            expect(registry.hasCheckpointStore()).toBe(true);
+            expect(new DelegateRegistry(dependencies).hasCheckpointStore()).toBe(false);
+        });
+
+        it('should give its logger to delegates and tag their logs with the delegate type', async () => {
+            const logger = { ...silentLogger, info: jest.fn() };
+            registry = new DelegateRegistry({ ...dependencies, logger });
+            const burner = registry.get(DELEGATE_TYPES.BURNER);
+            let fields = {};
+            jest.spyOn(burner, 'executeDelegate').mockImplementation(async () => {
+                fields = getLogFields();
+                (burner as Burner).logOperation('test_operation');
+                return burnResult;
+            });
+
+            await registry.executeDelegate({ type: DELEGATE_TYPES.BURNER, tokenAddress: '11111111111111111111111111111111', numTokens: 1 });
+
+            expect(fields).toEqual({ delegateType: DELEGATE_TYPES.BURNER });
+            expect(logger.info).toHaveBeenCalledWith('[Delegate] test_operation:', expect.objectContaining({ delegateType: DELEGATE_TYPES.BURNER }));
+        });
+
+        it('should give its retry policy to delegates', async () => {
+            const retryPolicy = new RetryPolicy({ maxAttempts: 1 });
+            registry = new DelegateRegistry({ ...dependencies, retryPolicy });
+            const burner = registry.get(DELEGATE_TYPES.BURNER) as Burner;
+            const operation = jest.fn().mockRejectedValue(new Error('RPC unavailable'));
+
+            await expect(burner.retryOperation(operation)).rejects.toThrow('RPC unavailable');
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it('should forward delegate events to its own events', async () => {
+            const burner = registry.get(DELEGATE_TYPES.BURNER);
+            const listener = jest.fn();
+            registry.events.on('execution_started', listener);
+
+            (burner as Burner).events.emit({ event: 'execution_started', delegateType: DELEGATE_TYPES.BURNER, requestId: 1, timestamp: new Date(), dryRun: false });
+
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({ delegateType: DELEGATE_TYPES.BURNER, requestId: 1 }));
+        });
+
+        it('should reject unknown or missing types', async () => {
+            await expect(registry.executeDelegate({ type: 'unknown' })).rejects.toThrow('No delegate registered for type: unknown');
+            await expect(registry.executeDelegate({} as any)).rejects.toThrow('Delegate options must include a type');
+            await expect(registry.executeDelegate({ type: 'unknown' })).rejects.toMatchObject({ code: ERROR_CODES.CONFIGURATION, retryable: false });
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { DELEGATE_OPTIONS_SCHEMAS, getDelegateOptionsJsonSchema, parseDelegateOptions, sweeperOptionsSchema } from "../schemas";
+import { DELEGATE_TYPES } from "../constants";
+
+describe("Delegate option schemas", () => {
+    it("should have a schema for every built-in delegate type", () => {
+        expect(Object.keys(DELEGATE_OPTIONS_SCHEMAS).sort()).toEqual(Object.values(DELEGATE_TYPES).sort());
+    });
+
+    it("should export the options of every built-in delegate as JSON Schema", () => {
+        for (const type of Object.values(DELEGATE_TYPES)) {
+            const jsonSchema = getDelegateOptionsJsonSchema(type);
+
+            expect(jsonSchema).toMatchObject({
+                $schema: "http://json-schema.org/draft-07/schema#",
+                title: `${type} delegate options`,
+                type: "object",
+            });
+            expect(JSON.parse(JSON.stringify(jsonSchema))).toEqual(jsonSchema);
+        }
+    });
+
+    it("should leave options that are not JSON out of the deployer's JSON Schema", () => {
+        const jsonSchema = getDelegateOptionsJsonSchema(DELEGATE_TYPES.DEPLOYER);
+        const properties = jsonSchema["properties"] as Record<string, unknown>;
+
+        expect(properties).not.toHaveProperty("extraSigners");
+        expect(properties).not.toHaveProperty("platformOptions");
+        expect(properties["platform"]).toMatchObject({ type: "string" });
+    });
+
+    it("should describe the sweeper's hop wallets and their mutually exclusive sources", () => {
+        expect(getDelegateOptionsJsonSchema(DELEGATE_TYPES.SWEEPER)).toMatchObject({
+            required: ["type", "destination"],
+            allOf: [{ oneOf: [{ required: ["hopMap"] }, { required: ["checkpointKey"] }] }],
+        });
+        expect(sweeperOptionsSchema.validate({
+            type: DELEGATE_TYPES.SWEEPER,
+            destination: "So11111111111111111111111111111111111111112",
+            hopMap: [{ publicKey: "not-a-key", privateKey: "secret" }],
+        })).toEqual([{ path: "hopMap[0].publicKey", message: "Invalid hopMap[0].publicKey: not-a-key, must be a valid public key" }]);
+    });
+
+    describe("parseDelegateOptions", () => {
+        const TOKEN = "So11111111111111111111111111111111111111112";
+
+        it("should narrow the options by their type", () => {
+            const result = parseDelegateOptions(JSON.stringify({ type: "hopper", hopDestination: TOKEN, numOfHops: "3", numTokens: "1.5", tokenType: "sol" }));
+
+            expect(result).toEqual({
+                success: true,
+                value: { type: "hopper", hopDestination: TOKEN, numOfHops: 3, numTokens: 1.5, tokenType: "sol" },
+            });
+            if (result.success && result.value.type === DELEGATE_TYPES.HOPPER) {
+                const numOfHops: number = result.value.numOfHops;
+                expect(numOfHops).toBe(3);
+            }
+        });
+
+        it("should list every issue with the options of a known type", () => {
+            expect(parseDelegateOptions({ type: "burner", tokenAddress: "not-a-key", numTokens: "-1", dryRun: true })).toEqual({
+                success: false,
+                issues: [
+                    { path: "dryRun", message: "Unknown field dryRun" },
+                    { path: "tokenAddress", message: "Invalid tokenAddress: not-a-key, must be a valid public key" },
+                    { path: "numTokens", message: "numTokens must be at least 0" },
+                ],
+            });
+        });
+
+        it("should reject options of an unknown or missing type", () => {
+            expect(parseDelegateOptions({ type: "minter" })).toMatchObject({
+                success: false,
+                issues: [{ path: "type", message: expect.stringContaining("type must be one of 'deployer', 'burner'") }],
+            });
+            expect(parseDelegateOptions([])).toEqual({ success: false, issues: [{ path: "", message: "value must be an object" }] });
+        });
+
+        it("should reject invalid JSON", () => {
+            expect(parseDelegateOptions("{ type: ")).toMatchObject({
+                success: false,
+                issues: [{ path: "", message: expect.stringContaining("Invalid JSON") }],
+            });
+        });
+    });
+});
@@ -52,6 +52,7 @@ describe('Swapper', () => {
       getQuote: jest.fn(),
       createSwapTransaction: jest.fn(),
       executeSwap: jest.fn(),
+      isCircuitOpen: jest.fn().mockReturnValue(false),
     } as any;
     (JupiterSwap as jest.MockedClass<typeof JupiterSwap>).mockImplementation(() => mockJupiterSwap);
     
@@ -60,6 +61,7 @@ describe('Swapper', () => {
       getQuote: jest.fn(),
       createSwapTransaction: jest.fn(),
       executeSwap: jest.fn(),
+      isCircuitOpen: jest.fn().mockReturnValue(false),
     } as any;
     (RaydiumSwap as jest.MockedClass<typeof RaydiumSwap>).mockImplementation(() => mockRaydiumSwap);
     
@@ -0,0 +1,221 @@
+import { Connection, Keypair, PublicKey, Transaction } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import bs58 from "bs58";
+import { Sweeper } from "../sweeper";
+import { SweeperDelegateOptions } from "../types";
+import { DELEGATE_TYPES } from "../constants";
+import { InMemoryCheckpointStore } from "../checkpoint/memory";
+import { DelegateEvent } from "../events";
+
+function toHop(keypair: Keypair) {
+    return { publicKey: keypair.publicKey.toBase58(), privateKey: bs58.encode(keypair.secretKey) };
+}
+
+describe('Sweeper', () => {
+    let sweeper: Sweeper;
+    let mockConnection: jest.Mocked<Connection>;
+    let signer: Keypair;
+    let hops: Keypair[];
+    let balances: Map<string, number[]>;
+    const destination = Keypair.generate().publicKey.toBase58();
+    const mint = Keypair.generate().publicKey;
+    const tokenAccount = Keypair.generate().publicKey;
+
+    beforeAll(() => {
+        jest.spyOn(Transaction.prototype, 'sign').mockImplementation(function (this: Transaction) { return this; });
+        jest.spyOn(Transaction.prototype, 'serialize').mockImplementation(() => Buffer.from('tx'));
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        signer = Keypair.generate();
+        hops = [Keypair.generate(), Keypair.generate()];
+        // Balances each wallet reports on successive getBalance calls
+        balances = new Map();
+
+        let sent = 0;
+        mockConnection = {
+            getBalance: jest.fn(async (publicKey: PublicKey) => balances.get(publicKey.toBase58())?.shift() ?? 0),
+            getParsedTokenAccountsByOwner: jest.fn(async () => ({ context: { slot: 1 }, value: [] })),
+            getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: '11111111111111111111111111111111', lastValidBlockHeight: 100 }),
+            sendRawTransaction: jest.fn(async () => `sig-${++sent}`),
+            confirmTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } }),
+            getMultipleAccountsInfo: jest.fn(async (keys: PublicKey[]) => keys.map(() => null)),
+            simulateTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null, logs: [], accounts: [] } }),
+            getFeeForMessage: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: 5000 }),
+        } as any;
+
+        sweeper = new Sweeper(mockConnection, signer);
+    });
+
+    describe('validateOptions', () => {
+        it('should require exactly one source of wallets', () => {
+            const options = { type: DELEGATE_TYPES.SWEEPER, destination } as SweeperDelegateOptions;
+
+            expect(() => sweeper.validateOptions(options)).toThrow('Exactly one of hopMap or checkpointKey is required');
+            expect(() => sweeper.validateOptions({ ...options, hopMap: [], checkpointKey: 'run-1' })).toThrow('Exactly one of hopMap or checkpointKey is required');
+            expect(() => sweeper.validateOptions({ ...options, hopMap: [] })).not.toThrow();
+        });
+
+        it('should reject an invalid destination', () => {
+            expect(() => sweeper.validateOptions({ type: DELEGATE_TYPES.SWEEPER, destination: 'invalid', hopMap: [] })).toThrow('Invalid destination');
+        });
+    });
+
+    describe('executeDelegate', () => {
+        it('should move tokens, close their accounts and sweep the remaining SOL', async () => {
+            balances.set(hops[0]!.publicKey.toBase58(), [5000000, 5000000]);
+            mockConnection.getParsedTokenAccountsByOwner.mockImplementation(async (owner: PublicKey, filter: any) => ({
+                context: { slot: 1 },
+                value: owner.equals(hops[0]!.publicKey) && filter.programId.equals(TOKEN_PROGRAM_ID)
+                    ? [{
+                        pubkey: tokenAccount,
+                        account: {
+                            lamports: 2039280,
+                            data: { parsed: { info: { mint: mint.toBase58(), tokenAmount: { amount: '1500000', decimals: 6 } } } }
+                        }
+                    }] as any
+                    : []
+            }));
+
+            const result = await sweeper.executeDelegate({
+                type: DELEGATE_TYPES.SWEEPER,
+                destination,
+                hopMap: hops.map(toHop)
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.signatures).toEqual(['sig-1', 'sig-2']);
+            expect(result.wallets[0]).toEqual({
+                publicKey: hops[0]!.publicKey.toBase58(),
+                lamportsFound: 5000000,
+                lamportsRecovered: 7039280,
+                tokenAccounts: [{
+                    tokenAccount: tokenAccount.toBase58(),
+                    mint: mint.toBase58(),
+                    amount: '1500000',
+                    decimals: 6,
+                    closed: true,
+                    rentReclaimed: 2039280,
+                    signature: 'sig-1'
+                }],
+                signatures: ['sig-1', 'sig-2']
+            });
+            expect(result.wallets[1]).toMatchObject({ lamportsFound: 0, lamportsRecovered: 0, signatures: [] });
+            expect(result.totalLamportsRecovered).toBe(7039280);
+        });
+
+        it('should sweep the wallets of a saved Hopper checkpoint', async () => {
+            const checkpointStore = new InMemoryCheckpointStore();
+            const now = new Date();
+            await checkpointStore.save({
+                key: 'run-1',
+                type: DELEGATE_TYPES.HOPPER,
+                optionsHash: 'hash',
+                status: 'failed',
+                step: 1,
+                signatures: ['hop-sig'],
+                state: { hopMap: hops.map(toHop) },
+                createdAt: now,
+                updatedAt: now
+            });
+            balances.set(hops[1]!.publicKey.toBase58(), [1000000, 1000000]);
+
+            const result = await sweeper.executeDelegate(
+                { type: DELEGATE_TYPES.SWEEPER, destination, checkpointKey: 'run-1' },
+                { checkpointStore }
+            );
+
+            expect(result.wallets.map(wallet => wallet.publicKey)).toEqual(hops.map(hop => hop.publicKey.toBase58()));
+            expect(result.totalLamportsRecovered).toBe(1000000);
+        });
+
+        it('should reject checkpoints that are missing or not Hopper runs', async () => {
+            const checkpointStore = new InMemoryCheckpointStore();
+            const options: SweeperDelegateOptions = { type: DELEGATE_TYPES.SWEEPER, destination, checkpointKey: 'run-1' };
+
+            await expect(sweeper.executeDelegate(options)).rejects.toThrow('checkpointKey requires a checkpoint store');
+            await expect(sweeper.executeDelegate(options, { checkpointStore })).rejects.toThrow('No checkpoint found for key run-1');
+        });
+
+        it('should report wallets that could not be swept and continue with the rest', async () => {
+            balances.set(hops[0]!.publicKey.toBase58(), [1000000, 1000000]);
+            balances.set(hops[1]!.publicKey.toBase58(), [2000000, 2000000]);
+            mockConnection.confirmTransaction
+                .mockResolvedValueOnce({ context: { slot: 1 }, value: { err: { InstructionError: [0, 'Custom'] } } });
+
+            const result = await sweeper.executeDelegate({ type: DELEGATE_TYPES.SWEEPER, destination, hopMap: hops.map(toHop) });
+
+            expect(result.success).toBe(false);
+            expect(result.error).toBe('1 of 2 wallets could not be swept completely');
+            expect(result.wallets[0]!.error).toContain('Transaction sig-1 failed');
+            expect(result.wallets[1]).toMatchObject({ lamportsRecovered: 2000000, signatures: ['sig-2'] });
+        });
+
+        it('should emit lifecycle events for each transaction and failed wallet', async () => {
+            balances.set(hops[0]!.publicKey.toBase58(), [1000000, 1000000]);
+            balances.set(hops[1]!.publicKey.toBase58(), [2000000, 2000000]);
+            mockConnection.confirmTransaction
+                .mockResolvedValueOnce({ context: { slot: 1 }, value: { err: { InstructionError: [0, 'Custom'] } } });
+            const events: DelegateEvent[] = [];
+            sweeper.events.onAny(event => { events.push(event); });
+
+            await sweeper.executeDelegate({ type: DELEGATE_TYPES.SWEEPER, destination, hopMap: hops.map(toHop) });
+
+            expect(events.map(event => event.event)).toEqual([
+                'execution_started',
+                'transaction_built',
+                'transaction_sent',
+                'item_failed',
+                'transaction_built',
+                'transaction_sent',
+                'transaction_confirmed',
+                'execution_completed'
+            ]);
+            expect(events.every(event => event.delegateType === DELEGATE_TYPES.SWEEPER && event.requestId === 1)).toBe(true);
+            expect(events[3]).toMatchObject({ index: 0, item: hops[0]!.publicKey.toBase58() });
+            expect(events[6]).toMatchObject({ signature: 'sig-2', description: `Sweep 2000000 lamports from ${hops[1]!.publicKey.toBase58()}` });
+            expect(events[7]).toMatchObject({ result: { success: false } });
+        });
+
+        it('should simulate the sweep in a dry run without sending', async () => {
+            balances.set(hops[0]!.publicKey.toBase58(), [3000000]);
+
+            const result = await sweeper.executeDelegate(
+                { type: DELEGATE_TYPES.SWEEPER, destination, hopMap: hops.map(toHop) },
+                { dryRun: true }
+            );
+
+            expect(result.success).toBe(true);
+            expect(result.signatures).toEqual([]);
+            expect(result.wallets[0]).toMatchObject({ lamportsFound: 3000000, lamportsRecovered: 0 });
+            expect(result.dryRun?.transactions.map(transaction => transaction.description))
+                .toEqual([`Sweep 3000000 lamports from ${hops[0]!.publicKey.toBase58()}`]);
+            expect(mockConnection.sendRawTransaction).not.toHaveBeenCalled();
+        });
+
+        it('should stop between wallets when aborted', async () => {
+            const controller = new AbortController();
+            balances.set(hops[0]!.publicKey.toBase58(), [1000000, 1000000]);
+            mockConnection.sendRawTransaction.mockImplementationOnce(async () => {
+                controller.abort('Sweep cancelled');
+                return 'sig-1';
+            });
+
+            const result = await sweeper.executeDelegate(
+                { type: DELEGATE_TYPES.SWEEPER, destination, hopMap: hops.map(toHop) },
+                { signal: controller.signal }
+            );
+
+            expect(result.aborted).toBe(true);
+            expect(result.progress).toEqual({ completed: 1, total: 2 });
+            expect(result.wallets).toHaveLength(1);
+            expect(result.totalLamportsRecovered).toBe(1000000);
+        });
+    });
+});
@@ -113,11 +113,11 @@ describe('Delegate Types', () => {
         it('should extend BaseDelegateOptions with deployer-specific fields', () => {
             const deployerOptions: DeployerDelegateOptions = {
                 type: DELEGATE_TYPES.DEPLOYER,
-                platformId: '11111111111111111111111111111111',
+                platform: 'raydium-launchlab',
+                platformOptions: { platformId: '11111111111111111111111111111111', tokenMigrateType: 'amm' },
                 tokenName: 'Test Token',
                 tokenSymbol: 'TEST',
                 tokenDescription: 'A test token',
-                tokenMigrateType: 'amm',
                 buyAmount: 1000000,
                 buySlippageBps: 500,
                 extraSigners: [Keypair.generate()],
@@ -131,20 +131,19 @@ describe('Delegate Types', () => {
             
             expect(deployerOptions.type).toBe(DELEGATE_TYPES.DEPLOYER);
             expect(deployerOptions.tokenName).toBe('Test Token');
-            expect(deployerOptions.tokenMigrateType).toBe('amm');
+            expect(deployerOptions.platformOptions).toEqual({ platformId: '11111111111111111111111111111111', tokenMigrateType: 'amm' });
             expect(deployerOptions.buyAmount).toBe(1000000);
         });
 
         it('should allow optional fields to be undefined', () => {
             const minimalOptions: DeployerDelegateOptions = {
                 type: DELEGATE_TYPES.DEPLOYER,
-                platformId: '11111111111111111111111111111111',
                 tokenName: 'Test Token',
-                tokenSymbol: 'TEST',
-                tokenMigrateType: 'cpmm',
-                buyAmount: 1000000
+                tokenSymbol: 'TEST'
             };
             
+            expect(minimalOptions.platform).toBeUndefined();
+            expect(minimalOptions.buyAmount).toBeUndefined();
             expect(minimalOptions.tokenDescription).toBeUndefined();
             expect(minimalOptions.buySlippageBps).toBeUndefined();
             expect(minimalOptions.extraSigners).toBeUndefined();
@@ -222,10 +221,8 @@ describe('Delegate Types', () => {
         it('should allow DeployerDelegateOptions to be assigned to BaseDelegateOptions', () => {
             const deployerOptions: DeployerDelegateOptions = {
                 type: DELEGATE_TYPES.DEPLOYER,
-                platformId: '11111111111111111111111111111111',
                 tokenName: 'Test Token',
                 tokenSymbol: 'TEST',
-                tokenMigrateType: 'amm',
                 buyAmount: 1000000
             };
             
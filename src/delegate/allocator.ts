@@ -1,15 +1,27 @@
 import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { getOrCreateAssociatedTokenAccount } from "@solana/spl-token";
-import { AllocatorDelegateOptions, AllocatorDelegateResult } from "./types";
+import { AllocatorCheckpointState, AllocatorDelegateOptions, AllocatorDelegateResult } from "./types";
 import { BaseDelegate } from "./base-delegate";
+import { DelegateExecutionContext } from "./base";
+import { DelegateCheckpoint } from "./checkpoint/base";
+import { createDryRunPlan } from "./dry-run";
+import { DELEGATE_TYPES } from "./constants";
 import { HeliusClient } from "../solana/clients/helius";
+import { Logger } from "../solana/types";
+import { RetryPolicy } from "../utils/retry";
 import { JupiterSwap } from "./swap/jupiter";
 import { RaydiumSwap } from "./swap/raydium";
+import { SwapRoute } from "./swap/base-protocol";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { InsufficientFundsError, ProtocolError, ValidationError } from "../utils/errors";
+import { allocatorOptionsSchema } from "./schemas";
 
 export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.ALLOCATOR;
     private readonly heliusClient: HeliusClient;
     private readonly jupiterSwap: JupiterSwap;
     private readonly raydiumSwap: RaydiumSwap;
+    private readonly swapRoutes: SwapRoute[];
 
     constructor(
         connection: Connection, 
@@ -23,36 +35,79 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
         // Initialize swap protocols
         this.jupiterSwap = new JupiterSwap(signerKeypair, connection, { heliusClient });
         this.raydiumSwap = new RaydiumSwap(signerKeypair, { heliusClient });
+        this.swapRoutes = [{ name: 'Jupiter', protocol: this.jupiterSwap }, { name: 'Raydium', protocol: this.raydiumSwap }];
     }
 
-    async executeDelegate(delegateOptions: AllocatorDelegateOptions): Promise<AllocatorDelegateResult> {
+    /**
+     * Replace the logger of the delegate and its swap protocols
+     * @param logger - The logger to write to
+     * @returns This delegate, for chaining
+     */
+    override setLogger(logger: Logger): this {
+        super.setLogger(logger);
+        this.jupiterSwap.setLogger(logger);
+        this.raydiumSwap.setLogger(logger);
+        return this;
+    }
+
+    /**
+     * Replace the retry policy of the delegate and its swap protocols
+     * @param retryPolicy - The policy for operations of this delegate
+     * @returns This delegate, for chaining
+     */
+    override setRetryPolicy(retryPolicy: RetryPolicy): this {
+        super.setRetryPolicy(retryPolicy);
+        this.jupiterSwap.setRetryPolicy(retryPolicy);
+        this.raydiumSwap.setRetryPolicy(retryPolicy);
+        return this;
+    }
+
+    async executeDelegate(delegateOptions: AllocatorDelegateOptions, context: DelegateExecutionContext = {}): Promise<AllocatorDelegateResult> {
         const requestId = this.generateRequestId();
+        let checkpoint: DelegateCheckpoint<AllocatorCheckpointState> | null = null;
         
         try {
             this.logOperation('allocator_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
             
             this.validateOptions(delegateOptions);
 
             const { allocations, slippageBps = 50, costBuffer = 0.005 } = delegateOptions;
             
             if (!allocations || allocations.length === 0) {
-                throw new Error("Allocations are required");
+                throw new ValidationError("Allocations are required");
+            }
+
+            if (context.dryRun) {
+                return this.completeExecution(requestId, await this.planAllocations(delegateOptions, requestId));
+            }
+
+            checkpoint = await this.openCheckpoint(delegateOptions, context, () => ({ balance: 0, results: [] }));
+            if (checkpoint.status === 'completed' && checkpoint.result) {
+                this.logOperation('allocator_execution_replayed', { requestId, key: checkpoint.key });
+                return this.completeExecution(requestId, checkpoint.result as AllocatorDelegateResult);
             }
+            checkpoint.status = 'running';
 
-            // Get sender's SOL balance
-            const senderBalance = await this.heliusClient.getBalance(this.signerKeypair.publicKey);
-            const solBalanceInSol = senderBalance / LAMPORTS_PER_SOL;
+            // Get sender's SOL balance. Later attempts keep the first balance so
+            // the remaining allocations get the same amounts as before.
+            if (checkpoint.step === 0) {
+                const senderBalance = await this.heliusClient.getBalance(this.signerKeypair.publicKey);
+                checkpoint.state.balance = senderBalance / LAMPORTS_PER_SOL;
+            }
+            const solBalanceInSol = checkpoint.state.balance;
+            const { results } = checkpoint.state;
             
             this.logOperation('balance_retrieved', { 
                 requestId, 
                 balance: solBalanceInSol 
             });
 
-            const signatures: string[] = [];
-            const allocationResults: AllocatorDelegateResult['allocations'] = [];
+            // Process each allocation; each step is one allocation. A swap that was
+            // sent but not confirmed fails its allocation rather than being sent again.
+            for (let i = checkpoint.step; i < allocations.length; i++) {
+                throwIfAborted(context.signal);
 
-            // Process each allocation
-            for (let i = 0; i < allocations.length; i++) {
                 const allocation = allocations[i];
                 
                 if (!allocation) {
@@ -61,6 +116,8 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
                         reason: 'undefined_allocation',
                         index: i
                     });
+                    this.emitEvent('item_skipped', { requestId, index: i, reason: 'undefined_allocation', operation: 'allocation_skipped' });
+                    await this.recordStep(checkpoint, context);
                     continue;
                 }
                 
@@ -71,11 +128,13 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
                         costBuffer, 
                         slippageBps,
                         i + 1,
-                        allocations.length
+                        allocations.length,
+                        requestId,
+                        context.signal
                     );
                     
-                    signatures.push(result.signature);
-                    allocationResults.push(result);
+                    results.push(result);
+                    await this.recordStep(checkpoint, context, result.signature);
                     
                     this.logOperation('allocation_processed', { 
                         requestId, 
@@ -84,6 +143,11 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
                         signature: result.signature 
                     });
                 } catch (error) {
+                    if (isAbortError(error)) {
+                        throw error;
+                    }
+
+                    this.emitEvent('item_failed', { requestId, index: i, item: allocation.contractAddress, error: error instanceof Error ? error.message : String(error) });
                     await this.handleError(error instanceof Error ? error : new Error(String(error)), { 
                         requestId, 
                         contractAddress: allocation.contractAddress 
@@ -95,59 +159,44 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
                         contractAddress: allocation.contractAddress,
                         error: error instanceof Error ? error.message : String(error)
                     });
+                    await this.recordStep(checkpoint, context);
                     continue;
                 }
             }
 
+            const { signatures } = checkpoint;
             this.logOperation('allocator_execution_completed', { requestId, signatures });
             
-            return {
+            const result: AllocatorDelegateResult = {
                 success: true,
                 signatures,
-                allocations: allocationResults
+                allocations: results
             };
+            await this.finishCheckpoint(checkpoint, context, 'completed', { result });
+            return this.completeExecution(requestId, result);
             
         } catch (error) {
+            if (checkpoint && isAbortError(error)) {
+                this.logOperation('allocator_execution_aborted', { requestId, signatures: checkpoint.signatures });
+                const result = this.buildAbortedResult({
+                    signatures: checkpoint.signatures,
+                    allocations: checkpoint.state.results
+                }, checkpoint.state.results.length, delegateOptions.allocations.length, context.signal);
+                await this.finishCheckpoint(checkpoint, context, 'aborted', { error: result.error });
+                return this.completeExecution(requestId, result);
+            }
+
+            if (checkpoint) {
+                await this.finishCheckpoint(checkpoint, context, 'failed', { error: error instanceof Error ? error.message : String(error) });
+            }
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
             await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
             throw error;
         }
     }
 
     validateOptions(delegateOptions: AllocatorDelegateOptions): void {
-        if (!delegateOptions.allocations || !Array.isArray(delegateOptions.allocations)) {
-            throw new Error("allocations must be a non-empty array");
-        }
-
-        if (delegateOptions.allocations.length === 0) {
-            throw new Error("At least one allocation is required");
-        }
-
-        let totalPercentage = 0;
-        for (const allocation of delegateOptions.allocations) {
-            if (!allocation.contractAddress) {
-                throw new Error("contractAddress is required for each allocation");
-            }
-            
-            this.validatePublicKey(allocation.contractAddress, 'contractAddress');
-            
-            if (typeof allocation.percentage !== 'number' || allocation.percentage <= 0) {
-                throw new Error("percentage must be a positive number for each allocation");
-            }
-            
-            totalPercentage += allocation.percentage;
-        }
-
-        if (totalPercentage > 100) {
-            throw new Error("Total allocation percentage cannot exceed 100%");
-        }
-
-        if (delegateOptions.slippageBps !== undefined) {
-            this.validateNumberField(delegateOptions.slippageBps, 'slippageBps', 0, 10000);
-        }
-
-        if (delegateOptions.costBuffer !== undefined) {
-            this.validateNumberField(delegateOptions.costBuffer, 'costBuffer', 0);
-        }
+        allocatorOptionsSchema.assert(delegateOptions);
     }
 
     private async processAllocation(
@@ -156,7 +205,9 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
         costBuffer: number,
         slippageBps: number,
         currentIndex: number,
-        totalAllocations: number
+        totalAllocations: number,
+        requestId: number,
+        signal?: AbortSignal
     ): Promise<AllocatorDelegateResult['allocations'][0]> {
         const { contractAddress, percentage } = allocation;
         
@@ -164,7 +215,7 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
         const amountToAllocate = (solBalanceInSol * (percentage / 100)) - costBuffer;
         
         if (amountToAllocate <= 0) {
-            throw new Error(`Insufficient balance for allocation: ${amountToAllocate} SOL`);
+            throw new InsufficientFundsError(`Insufficient balance for allocation: ${amountToAllocate} SOL`);
         }
 
         this.logOperation('allocation_calculation', {
@@ -185,18 +236,21 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
                 this.signerKeypair.publicKey,
                 true
             );
-        }, 3);
+        });
 
         // Execute swap from SOL to target token
         const swapResult = await this.executeSwapWithFallback(
+            this.swapRoutes,
             "So11111111111111111111111111111111111111112", // SOL
             contractAddress,
             amountToAllocate,
-            slippageBps / 100 // Convert basis points to percentage
+            slippageBps / 100, // Convert basis points to percentage
+            requestId,
+            { signal }
         );
 
         if (!swapResult.success || !swapResult.signature) {
-            throw new Error(`Swap failed for ${contractAddress}: ${swapResult.error}`);
+            throw new ProtocolError(`Swap failed for ${contractAddress}: ${swapResult.error}`, "swap");
         }
 
         return {
@@ -207,95 +261,30 @@ export class Allocator extends BaseDelegate<AllocatorDelegateOptions, AllocatorD
         };
     }
 
-    private async executeSwapWithFallback(
-        fromAsset: string,
-        toAsset: string,
-        amount: number,
-        slippage: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
-        // Try Jupiter first
-        try {
-            const result = await this.retryOperation(
-                () => this.executeJupiterSwap(fromAsset, toAsset, amount, slippage),
-                3
-            );
-            
-            if (result.success) {
-                return { ...result, signature: result.signature };
-            }
-        } catch (error) {
-            this.logOperation('jupiter_swap_failed', {
-                fromAsset,
-                toAsset,
-                amount,
-                error: error instanceof Error ? error.message : String(error)
-            });
-        }
-
-        // Fallback to Raydium
-        try {
-            const result = await this.retryOperation(
-                () => this.executeRaydiumSwap(fromAsset, toAsset, amount, slippage),
-                3
-            );
-            
-            if (result.success) {
-                return { ...result, signature: result.signature };
-            }
-        } catch (error) {
-            this.logOperation('raydium_swap_failed', {
-                fromAsset,
-                toAsset,
-                amount,
-                error: error instanceof Error ? error.message : String(error)
-            });
-        }
-
-        return {
-            success: false,
-            error: "Both Jupiter and Raydium swaps failed"
-        };
-    }
+    /**
+     * Simulate each allocation's swap without sending anything. Only Jupiter
+     * returns a transaction that can be simulated before it is signed, so the
+     * Raydium fallback is not part of the plan.
+     */
+    private async planAllocations(delegateOptions: AllocatorDelegateOptions, requestId: number): Promise<AllocatorDelegateResult> {
+        const { allocations, slippageBps = 50, costBuffer = 0.005 } = delegateOptions;
+        const plan = createDryRunPlan();
+        const senderBalance = await this.heliusClient.getBalance(this.signerKeypair.publicKey);
+        const solBalanceInSol = senderBalance / LAMPORTS_PER_SOL;
 
-    private async executeJupiterSwap(
-        fromAsset: string,
-        toAsset: string,
-        amount: number,
-        slippage: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
-        // Get quote
-        const quote = await this.jupiterSwap.getQuote(fromAsset, toAsset, amount, slippage);
-        if (!quote) {
-            throw new Error("Failed to get Jupiter quote");
-        }
+        for (const { contractAddress, percentage } of allocations) {
+            const amountToAllocate = (solBalanceInSol * (percentage / 100)) - costBuffer;
+            const description = `Swap ${amountToAllocate} SOL to ${contractAddress}`;
 
-        // Create transaction
-        const transaction = await this.jupiterSwap.createSwapTransaction(quote);
-        
-        // Execute swap
-        const result = await this.jupiterSwap.executeSwap(transaction);
-        
-        return result;
-    }
+            if (amountToAllocate <= 0) {
+                plan.errors.push(`${description}: Insufficient balance for allocation`);
+                continue;
+            }
 
-    private async executeRaydiumSwap(
-        fromAsset: string,
-        toAsset: string,
-        amount: number,
-        slippage: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
-        // Get quote
-        const quote = await this.raydiumSwap.getQuote(fromAsset, toAsset, amount, slippage);
-        if (!quote) {
-            throw new Error("Failed to get Raydium quote");
+            await this.planSwap(plan, { name: 'Jupiter', protocol: this.jupiterSwap }, "So11111111111111111111111111111111111111112", contractAddress, amountToAllocate, slippageBps / 100, description);
         }
 
-        // Create transaction
-        const transaction = await this.raydiumSwap.createSwapTransaction(quote);
-        
-        // Execute swap
-        const result = await this.raydiumSwap.executeSwap(transaction);
-        
-        return result;
+        this.logOperation('allocator_dry_run_completed', { requestId, transactions: plan.transactions.length, errors: plan.errors.length });
+        return this.buildDryRunResult({ signatures: [], allocations: [] }, plan);
     }
-}
\ No newline at end of file
+}
@@ -1,6 +1,18 @@
-import { Connection, Keypair } from "@solana/web3.js";
-import { Delegate, DelegateUtilities } from "./base";
-import { BaseDelegateOptions, BaseDelegateResult } from "./types";
+import { randomUUID } from "crypto";
+import { Connection, Keypair, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { Delegate, DelegateExecutionContext, DelegateUtilities } from "./base";
+import { BaseDelegateOptions, BaseDelegateResult, DryRunPlan, SimulatedTransaction, SwapResult } from "./types";
+import { addToDryRunPlan, simulateTransaction } from "./dry-run";
+import { DelegateEventEmitter, DelegateEventInput, DelegateEventMap, DelegateEventName } from "./events";
+import { CheckpointStatus, DelegateCheckpoint, hashDelegateOptions, PendingTransaction } from "./checkpoint/base";
+import { SwapRoute, SwapSentCallback } from "./swap/base-protocol";
+import { createAbortError, isAbortError } from "../utils/abort";
+import { ConfigurationError, ProtocolError, TransactionPendingError, ValidationError } from "../utils/errors";
+import { consoleLogger, getLogFields, LogLevel } from "../utils/logger";
+import { RetryPolicy } from "../utils/retry";
+import { Logger } from "../solana/types";
+
+const DEFAULT_DELEGATE_RETRY_POLICY = new RetryPolicy({ baseDelayMs: 2000 });
 
 export abstract class BaseDelegate<T extends BaseDelegateOptions = BaseDelegateOptions, R extends BaseDelegateResult = BaseDelegateResult> 
     implements Delegate<T, R>, DelegateUtilities {
@@ -8,7 +20,12 @@ export abstract class BaseDelegate<T extends BaseDelegateOptions = BaseDelegateO
     public readonly signerKeypair: Keypair;
     public readonly connection: Connection;
     public readonly feeTakerKeypair?: Keypair;
+    public readonly events = new DelegateEventEmitter((error, payload) =>
+        this.logOperation('event_listener_failed', { requestId: payload.requestId, event: payload.event, error: error.message }, 'warn'));
+    protected readonly delegateType: string = this.constructor.name; // Built-in delegates use their DELEGATE_TYPES entry
     protected requestId = 0;
+    protected logger: Logger = consoleLogger;
+    protected retryPolicy: RetryPolicy = DEFAULT_DELEGATE_RETRY_POLICY;
 
     constructor(connection: Connection, signerKeypair: Keypair, feeTakerKeypair?: Keypair) {
         this.connection = connection;
@@ -16,35 +33,47 @@ export abstract class BaseDelegate<T extends BaseDelegateOptions = BaseDelegateO
         this.feeTakerKeypair = feeTakerKeypair;
     }
 
-    abstract executeDelegate(delegateOptions: T): Promise<R>;
+    abstract executeDelegate(delegateOptions: T, context?: DelegateExecutionContext): Promise<R>;
     abstract validateOptions(delegateOptions: T): void;
 
-    async retryOperation<U>(operation: () => Promise<U>, maxRetries: number = 3): Promise<U> {
-        let lastError: Error;
-        
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-            try {
-                return await operation();
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-                
-                this.logOperation('retry_attempt_failed', {
-                    error: lastError.message,
-                    attempt,
-                    maxRetries
-                });
-
-                if (attempt === maxRetries) {
-                    throw lastError;
-                }
+    /**
+     * Replace the logger, which defaults to the console
+     * @param logger - The logger to write to, e.g. silentLogger in tests
+     * @returns This delegate, for chaining
+     */
+    setLogger(logger: Logger): this {
+        this.logger = logger;
+        return this;
+    }
 
-                // Exponential backoff: wait 2^attempt seconds
-                const delay = Math.pow(2, attempt) * 1000;
-                await new Promise(resolve => setTimeout(resolve, delay));
-            }
-        }
+    /**
+     * Replace the retry policy, which waits 2s then 4s between three attempts
+     * @param retryPolicy - The policy for operations of this delegate
+     * @returns This delegate, for chaining
+     */
+    setRetryPolicy(retryPolicy: RetryPolicy): this {
+        this.retryPolicy = retryPolicy;
+        return this;
+    }
 
-        throw lastError!;
+    /**
+     * Run an operation under the delegate's retry policy
+     * @param operation - The operation to run
+     * @param maxRetries - Maximum number of attempts, overriding the policy for this operation
+     * @param signal - Optional signal; once aborted no further attempt starts and the backoff wait ends early
+     * @returns The operation's result
+     */
+    retryOperation<U>(operation: () => Promise<U>, maxRetries?: number, signal?: AbortSignal): Promise<U> {
+        return this.retryPolicy.execute(operation, {
+            maxAttempts: maxRetries,
+            signal,
+            onFailedAttempt: ({ error, attempt, maxAttempts, retryable }) => {
+                // Aborts and failures such as invalid input or slippage fail the same way every time
+                if (retryable) {
+                    this.logOperation('retry_attempt_failed', { error: error.message, attempt, maxRetries: maxAttempts }, 'warn');
+                }
+            },
+        });
     }
 
     async handleError(error: Error, context?: Record<string, any>): Promise<void> {
@@ -55,21 +84,353 @@ export abstract class BaseDelegate<T extends BaseDelegateOptions = BaseDelegateO
             ...context
         };
 
-        this.logOperation('error_occurred', errorContext);
-        
-        // Could be extended to send to external logging service
-        console.error('Delegate operation failed:', errorContext);
+        this.logger.error('Delegate operation failed:', this.buildLogData('error_occurred', errorContext));
     }
 
-    logOperation(operation: string, data?: Record<string, any>): void {
-        const logData = {
+    /**
+     * Log an operation with the signer and the current run's log fields
+     * @param operation - Name of the operation
+     * @param data - Structured fields, e.g. the request id
+     * @param level - Log level, info by default
+     */
+    logOperation(operation: string, data?: Record<string, any>, level: LogLevel = 'info'): void {
+        this.logger[level](`[Delegate] ${operation}:`, this.buildLogData(operation, data));
+    }
+
+    private buildLogData(operation: string, data?: Record<string, any>): Record<string, any> {
+        return {
             operation,
             timestamp: new Date().toISOString(),
             signer: this.signerKeypair.publicKey.toBase58(),
+            ...getLogFields(),
             ...data
         };
+    }
+
+    /**
+     * Emit a lifecycle event to the listeners of this delegate's events
+     * @param event - The event name
+     * @param payload - Event fields; the delegate type and timestamp are added
+     */
+    protected emitEvent<K extends DelegateEventName>(event: K, payload: DelegateEventInput<K>): void {
+        this.events.emit({ ...payload, event, delegateType: this.delegateType, timestamp: new Date() } as DelegateEventMap[K]);
+    }
+
+    /**
+     * Emit execution_completed for a result and return it
+     * @param requestId - The run's request id
+     * @param result - The result the run returns
+     * @returns The same result
+     */
+    protected completeExecution<U extends R>(requestId: number, result: U): U {
+        this.emitEvent('execution_completed', { requestId, result });
+        return result;
+    }
+
+    /**
+     * Build the result for a run stopped by its abort signal
+     * @param partial - Delegate-specific fields describing what was completed
+     * @param completed - Steps completed before the abort
+     * @param total - Steps the run would have taken
+     * @param signal - The aborted signal
+     * @returns An unsuccessful result marked as aborted
+     */
+    protected buildAbortedResult(partial: Omit<R, 'success'>, completed: number, total: number, signal?: AbortSignal): R {
+        return {
+            ...partial,
+            success: false,
+            aborted: true,
+            error: `${createAbortError(signal).message} after ${completed} of ${total} steps`,
+            progress: { completed, total }
+        } as R;
+    }
+
+    /**
+     * Simulate a transaction for a dry run and add it to the plan. Legacy
+     * transactions default to the signer as fee payer and get a recent blockhash.
+     * @param plan - The dry-run plan to add to
+     * @param transaction - The transaction that would have been sent
+     * @param description - What the transaction does
+     * @returns The simulation outcome
+     */
+    protected async simulate(plan: DryRunPlan, transaction: Transaction | VersionedTransaction, description: string): Promise<SimulatedTransaction> {
+        if (transaction instanceof Transaction) {
+            transaction.feePayer = transaction.feePayer ?? this.signerKeypair.publicKey;
+            if (!transaction.recentBlockhash) {
+                transaction.recentBlockhash = (await this.retryOperation(async () => this.connection.getLatestBlockhash())).blockhash;
+            }
+        }
+
+        const simulated = await this.retryOperation(async () => simulateTransaction(this.connection, transaction, description));
+        addToDryRunPlan(plan, simulated);
 
-        console.log(`[Delegate] ${operation}:`, logData);
+        this.logOperation('transaction_simulated', {
+            description,
+            success: simulated.success,
+            error: simulated.error,
+            fee: simulated.fee,
+            computeUnits: simulated.computeUnits
+        });
+        return simulated;
+    }
+
+    /**
+     * Swap through the first route that succeeds, skipping those whose circuit
+     * breaker is open. Once a route has sent its transaction the swap is never
+     * sent again, through it or the next route, since that transaction may still land.
+     * @param routes - The swap protocols to try, in order
+     * @param fromAsset - Mint to sell
+     * @param toAsset - Mint to buy
+     * @param amount - Amount to sell, in whole tokens
+     * @param slippage - Slippage tolerance in percent
+     * @param requestId - The run's request id
+     * @param options - The run's abort signal, and a callback for the sent transaction, e.g. to checkpoint it
+     * @returns The confirmed swap and the name of its route, or an unsuccessful result if no route sent one
+     * @throws TransactionPendingError if the sent transaction was not confirmed
+     */
+    protected async executeSwapWithFallback(
+        routes: SwapRoute[],
+        fromAsset: string,
+        toAsset: string,
+        amount: number,
+        slippage: number,
+        requestId: number,
+        options: { signal?: AbortSignal; onSent?: SwapSentCallback } = {}
+    ): Promise<SwapResult> {
+        for (const { name, protocol } of routes) {
+            const protocolName = name.toLowerCase();
+            if (protocol.isCircuitOpen()) {
+                this.logOperation(`${protocolName}_swap_skipped`, { requestId, fromAsset, toAsset, amount, reason: 'circuit_open' }, 'warn');
+                continue;
+            }
+
+            const description = `${name} swap of ${amount} ${fromAsset} to ${toAsset}`;
+            let sent = false;
+            const reportSent = (signature: string) => {
+                sent = true;
+                this.emitEvent('transaction_sent', { requestId, description, signature });
+            };
+
+            try {
+                // Only the quote and the transaction are retried; sending is up to the protocol
+                const transaction = await this.retryOperation(async () => {
+                    const quote = await protocol.getQuote(fromAsset, toAsset, amount, slippage);
+                    if (!quote) {
+                        throw new ProtocolError(`Failed to get ${name} quote`, protocolName);
+                    }
+                    return await protocol.createSwapTransaction(quote);
+                }, 3, options.signal);
+                this.emitEvent('transaction_built', { requestId, description });
+
+                const result = await protocol.executeSwap(transaction, async pending => {
+                    reportSent(pending.signature);
+                    await options.onSent?.(pending);
+                });
+                // Protocols that do not report the send only return the signature once confirmed
+                if (result.signature && !sent) {
+                    reportSent(result.signature);
+                }
+                if (result.success && result.signature) {
+                    this.emitEvent('transaction_confirmed', { requestId, description, signature: result.signature });
+                }
+                if (result.success || sent) {
+                    return { ...result, protocol: name };
+                }
+                this.logOperation(`${protocolName}_swap_failed`, { requestId, fromAsset, toAsset, amount, error: result.error });
+            } catch (error) {
+                if (sent || isAbortError(error)) {
+                    throw error;
+                }
+                this.logOperation(`${protocolName}_swap_failed`, {
+                    requestId,
+                    fromAsset,
+                    toAsset,
+                    amount,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+
+        return {
+            success: false,
+            error: `Swaps through ${routes.map(({ name }) => name).join(' and ')} failed`
+        };
+    }
+
+    /**
+     * Simulate a swap for a dry run. Only protocols that return a transaction
+     * that can be simulated before it is signed, such as Jupiter, can be planned.
+     * A failure is added to the plan's errors rather than thrown.
+     */
+    protected async planSwap(
+        plan: DryRunPlan,
+        route: SwapRoute,
+        fromAsset: string,
+        toAsset: string,
+        amount: number,
+        slippage: number,
+        description: string
+    ): Promise<void> {
+        try {
+            const quote = await route.protocol.getQuote(fromAsset, toAsset, amount, slippage);
+            if (!quote) {
+                throw new ProtocolError(`Failed to get ${route.name} quote`, route.name.toLowerCase());
+            }
+
+            const transaction = await route.protocol.createSwapTransaction(quote);
+            if (!(transaction instanceof VersionedTransaction)) {
+                throw new ProtocolError(`${route.name} swap transaction cannot be simulated`, route.name.toLowerCase());
+            }
+            await this.simulate(plan, transaction, description);
+        } catch (error) {
+            plan.errors.push(`${description}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Build the result of a dry run. It succeeds only if every simulation did.
+     * @param partial - Delegate-specific fields; nothing was sent, so there are no signatures
+     * @param plan - The completed dry-run plan
+     * @returns The result carrying the plan
+     */
+    protected buildDryRunResult(partial: Omit<R, 'success' | 'dryRun'>, plan: DryRunPlan): R {
+        return {
+            ...partial,
+            success: plan.errors.length === 0,
+            ...(plan.errors.length > 0 ? { error: `${plan.errors.length} of ${plan.transactions.length} simulated transactions failed` } : {}),
+            dryRun: plan
+        } as R;
+    }
+
+    /**
+     * Load the checkpoint of an earlier run with the same idempotency key, or
+     * start a new one. Without a key every run starts from scratch.
+     * @param delegateOptions - The options the run was started with
+     * @param context - The execution context carrying the key and store
+     * @param createState - Builds the delegate-specific state for a new run
+     * @returns The checkpoint to continue from
+     */
+    protected async openCheckpoint<S extends Record<string, any>>(
+        delegateOptions: T,
+        context: DelegateExecutionContext,
+        createState: () => S
+    ): Promise<DelegateCheckpoint<S>> {
+        const { idempotencyKey, checkpointStore } = context;
+        if (idempotencyKey !== undefined && !checkpointStore) {
+            throw new ConfigurationError("An idempotency key requires a checkpoint store");
+        }
+
+        const optionsHash = hashDelegateOptions(delegateOptions);
+        const existing = idempotencyKey !== undefined ? await checkpointStore!.get(idempotencyKey) : null;
+        if (existing) {
+            if (existing.type !== delegateOptions.type || existing.optionsHash !== optionsHash) {
+                throw new ValidationError(`Idempotency key ${idempotencyKey} was already used with different options`);
+            }
+
+            this.logOperation('checkpoint_loaded', { key: existing.key, status: existing.status, step: existing.step });
+            return existing as DelegateCheckpoint<S>;
+        }
+
+        const now = new Date();
+        return {
+            key: idempotencyKey ?? randomUUID(),
+            type: delegateOptions.type,
+            optionsHash,
+            status: 'running',
+            step: 0,
+            signatures: [],
+            state: createState(),
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    /**
+     * Save a checkpoint to the context's store, if it has one
+     */
+    protected async saveCheckpoint(checkpoint: DelegateCheckpoint, context: DelegateExecutionContext): Promise<void> {
+        checkpoint.updatedAt = new Date();
+        await context.checkpointStore?.save(checkpoint);
+    }
+
+    /**
+     * Record a transaction that was sent for the current step, before waiting for its confirmation
+     */
+    protected async recordPendingTransaction(checkpoint: DelegateCheckpoint, context: DelegateExecutionContext, pending: PendingTransaction): Promise<void> {
+        checkpoint.pending = pending;
+        await this.saveCheckpoint(checkpoint, context);
+    }
+
+    /**
+     * Mark the current step as finished
+     * @param signature - The confirmed transaction of the step, if it sent one
+     */
+    protected async recordStep(checkpoint: DelegateCheckpoint, context: DelegateExecutionContext, signature?: string): Promise<void> {
+        checkpoint.step++;
+        if (signature) {
+            checkpoint.signatures.push(signature);
+        }
+        delete checkpoint.pending;
+        await this.saveCheckpoint(checkpoint, context);
+    }
+
+    /**
+     * Find out whether the transaction an earlier attempt sent before it
+     * stopped was confirmed. Throws while the transaction could still land,
+     * so the step is never sent twice.
+     * @param checkpoint - The loaded checkpoint; its pending transaction is cleared
+     * @returns The signature if the transaction was confirmed, or null if the step must be redone
+     */
+    protected async resolvePendingTransaction(checkpoint: DelegateCheckpoint): Promise<string | null> {
+        const pending = checkpoint.pending;
+        if (!pending) {
+            return null;
+        }
+
+        const { value: status } = await this.retryOperation(async () => {
+            return await this.connection.getSignatureStatus(pending.signature, { searchTransactionHistory: true });
+        });
+
+        let confirmed = false;
+        if (status && !status.err) {
+            if (status.confirmationStatus === 'processed') {
+                throw new TransactionPendingError(`Transaction ${pending.signature} is still being confirmed`, pending.signature);
+            }
+            confirmed = true;
+        } else if (!status) {
+            const blockHeight = await this.retryOperation(async () => this.connection.getBlockHeight());
+            if (blockHeight <= pending.lastValidBlockHeight) {
+                throw new TransactionPendingError(`Transaction ${pending.signature} may still land, retry after block height ${pending.lastValidBlockHeight}`, pending.signature);
+            }
+        }
+
+        delete checkpoint.pending;
+        this.logOperation('pending_transaction_resolved', { key: checkpoint.key, signature: pending.signature, confirmed });
+        return confirmed ? pending.signature : null;
+    }
+
+    /**
+     * Save the final state of a run. A failed save is logged rather than
+     * thrown, so it never hides the run's own result or error.
+     */
+    protected async finishCheckpoint(
+        checkpoint: DelegateCheckpoint,
+        context: DelegateExecutionContext,
+        status: Exclude<CheckpointStatus, 'running'>,
+        outcome: { result?: BaseDelegateResult; error?: string } = {}
+    ): Promise<void> {
+        checkpoint.status = status;
+        checkpoint.result = outcome.result;
+        checkpoint.error = outcome.error;
+
+        try {
+            await this.saveCheckpoint(checkpoint, context);
+        } catch (error) {
+            this.logOperation('checkpoint_save_failed', {
+                key: checkpoint.key,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
     }
 
     protected generateRequestId(): number {
@@ -80,34 +441,34 @@ export abstract class BaseDelegate<T extends BaseDelegateOptions = BaseDelegateO
         try {
             new (require("@solana/web3.js").PublicKey)(publicKeyString);
         } catch (error) {
-            throw new Error(`Invalid ${fieldName}: ${publicKeyString}, must be a valid public key`);
+            throw new ValidationError(`Invalid ${fieldName}: ${publicKeyString}, must be a valid public key`);
         }
     }
 
     protected validateRequiredField(value: any, fieldName: string): void {
         if (!value) {
-            throw new Error(`${fieldName} is required`);
+            throw new ValidationError(`${fieldName} is required`);
         }
     }
 
     protected validateStringField(value: string, fieldName: string, minLength: number = 1): void {
         if (typeof value !== 'string') {
-            throw new Error(`${fieldName} must be a non-empty string`);
+            throw new ValidationError(`${fieldName} must be a non-empty string`);
         }
         if (value.length < minLength) {
-            throw new Error(`${fieldName} must be a non-empty string`);
+            throw new ValidationError(`${fieldName} must be a non-empty string`);
         }
     }
 
     protected validateNumberField(value: number, fieldName: string, min?: number, max?: number): void {
         if (typeof value !== 'number' || isNaN(value)) {
-            throw new Error(`${fieldName} must be a valid number`);
+            throw new ValidationError(`${fieldName} must be a valid number`);
         }
         if (min !== undefined && value < min) {
-            throw new Error(`${fieldName} must be at least ${min}`);
+            throw new ValidationError(`${fieldName} must be at least ${min}`);
         }
         if (max !== undefined && value > max) {
-            throw new Error(`${fieldName} must be at most ${max}`);
+            throw new ValidationError(`${fieldName} must be at most ${max}`);
         }
     }
 } 
\ No newline at end of file
@@ -1,16 +1,28 @@
 import { Connection, Keypair } from "@solana/web3.js";
 import { BaseDelegateOptions, BaseDelegateResult } from "./types";
+import { CheckpointStore } from "./checkpoint/base";
+import { LogLevel } from "../utils/logger";
+
+/**
+ * Per-call settings for a delegate execution
+ */
+export interface DelegateExecutionContext {
+    signal?: AbortSignal; // Stops the run at the next safe point between transactions
+    idempotencyKey?: string; // Rerunning with the same key continues from the last checkpoint
+    checkpointStore?: CheckpointStore; // Where multi-transaction delegates save their progress
+    dryRun?: boolean; // Build and simulate transactions without sending them; checkpoints are not used
+}
 
 export interface Delegate<T extends BaseDelegateOptions = BaseDelegateOptions, R extends BaseDelegateResult = BaseDelegateResult> {
     signerKeypair: Keypair;
     connection: Connection;
     feeTakerKeypair?: Keypair;
-    executeDelegate(delegateOptions: T): Promise<R>;
+    executeDelegate(delegateOptions: T, context?: DelegateExecutionContext): Promise<R>;
     validateOptions(delegateOptions: T): void;
 }
 
 export interface DelegateUtilities {
-    retryOperation<T>(operation: () => Promise<T>, maxRetries?: number): Promise<T>;
+    retryOperation<T>(operation: () => Promise<T>, maxRetries?: number, signal?: AbortSignal): Promise<T>;
     handleError(error: Error, context?: Record<string, any>): Promise<void>;
-    logOperation(operation: string, data?: Record<string, any>): void;
+    logOperation(operation: string, data?: Record<string, any>, level?: LogLevel): void;
 }
\ No newline at end of file
@@ -1,104 +1,382 @@
-import { Keypair, PublicKey } from "@solana/web3.js";
-import { getOrCreateAssociatedTokenAccount, burnChecked, getMint } from "@solana/spl-token";
-import { BurnerDelegateOptions, BurnerDelegateResult } from "./types";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import {
+    createApproveCheckedInstruction,
+    createBurnCheckedInstruction,
+    createCloseAccountInstruction,
+    createRevokeInstruction,
+    getAccount,
+    getAssociatedTokenAddressSync,
+    getMint,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    unpackAccount
+} from "@solana/spl-token";
+import { BurnApproval, BurnerDelegateOptions, BurnerDelegateResult } from "./types";
 import { BaseDelegate } from "./base-delegate";
-import bs58 from "bs58";
+import { DelegateExecutionContext } from "./base";
+import { createDryRunPlan } from "./dry-run";
+import { DELEGATE_TYPES } from "./constants";
+import { InsufficientFundsError, TransactionFailedError, ValidationError } from "../utils/errors";
+import { burnerOptionsSchema } from "./schemas";
 
-const BN = require("bn.js");
+/**
+ * The wallet's token account for the mint, as found before the burn
+ */
+interface BurnAccount {
+    address: PublicKey;
+    programId: PublicKey;
+    decimals: number;
+    balance: bigint;
+    lamports: number; // Rent held by the account; 0 if it does not exist
+    exists: boolean;
+    delegate: PublicKey | null;
+    delegatedAmount: bigint;
+    closeAuthority: PublicKey | null;
+}
 
+/**
+ * Burns tokens from a wallet's associated token account: a fixed amount, a
+ * percentage of the balance or all of it. Mints of the SPL Token and
+ * Token-2022 programs are both supported, and an account the burn empties
+ * can be closed to reclaim its rent. No token account is ever created.
+ *
+ * The signer burns its own tokens, or those of an owner that approved it as
+ * the token account's delegate, so the owner's key is never needed.
+ */
 export class Burner extends BaseDelegate<BurnerDelegateOptions, BurnerDelegateResult> {
-    async executeDelegate(delegateOptions: BurnerDelegateOptions): Promise<BurnerDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.BURNER;
+    private static readonly TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+    private static readonly PERCENTAGE_PRECISION = 1_000_000n; // Percentages are applied to 4 decimal places
+
+    async executeDelegate(delegateOptions: BurnerDelegateOptions, context: DelegateExecutionContext = {}): Promise<BurnerDelegateResult> {
         const requestId = this.generateRequestId();
-        
+
         try {
             this.logOperation('burner_execution_started', { requestId });
-            
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
+
             this.validateOptions(delegateOptions);
 
-            const senderKeypair = Keypair.fromSecretKey(bs58.decode(delegateOptions.privateKey));
+            const signer = this.signerKeypair.publicKey;
             const mint = new PublicKey(delegateOptions.tokenAddress);
+            const owner = delegateOptions.owner ? new PublicKey(delegateOptions.owner) : signer;
+            const viaApproval = !owner.equals(signer);
+            const account = await this.getBurnAccount(mint, owner);
+            const amountToBurn = this.calculateBurnAmount(delegateOptions, account);
+
+            if (amountToBurn > account.balance) {
+                throw new InsufficientFundsError(`Cannot burn ${amountToBurn} of ${mint.toBase58()}, the balance is ${account.balance}`);
+            }
+            if (viaApproval && amountToBurn > 0n) {
+                this.assertApproved(account, owner, amountToBurn);
+            }
+
+            const remaining = account.balance - amountToBurn;
+            // Only the owner or the account's close authority may close it; an approval does not allow it
+            const mayClose = !viaApproval || !!account.closeAuthority?.equals(signer);
+            const closeAccount = !!delegateOptions.closeAccount && account.exists && remaining === 0n && mayClose;
+            if (delegateOptions.closeAccount && !closeAccount) {
+                this.logOperation('token_account_kept', { requestId, tokenAccount: account.address.toBase58(), remaining: remaining.toString(), mayClose });
+            }
+
+            this.logOperation('burner_setup', {
+                requestId,
+                mode: delegateOptions.mode ?? 'amount',
+                owner: owner.toBase58(),
+                viaApproval,
+                tokenProgram: account.programId.toBase58(),
+                balance: account.balance.toString(),
+                amountToBurn: amountToBurn.toString(),
+                closeAccount
+            });
+
+            const description = this.describeBurn(amountToBurn, mint, closeAccount);
+            const transaction = this.buildBurnTransaction(owner, mint, account, amountToBurn, closeAccount);
+
+            if (context.dryRun) {
+                const plan = createDryRunPlan();
+                if (transaction.instructions.length > 0) {
+                    await this.simulate(plan, transaction, description);
+                } else {
+                    plan.notes.push('Nothing to burn');
+                }
+
+                this.logOperation('burner_dry_run_completed', { requestId, errors: plan.errors.length });
+                return this.completeExecution(requestId, this.buildDryRunResult(
+                    this.buildResult(mint, owner, account, amountToBurn, remaining, closeAccount, []),
+                    plan
+                ));
+            }
 
-            // Get or create associated token account with retry
-            const senderTokenAccount = await this.retryOperation(async () => {
-                const account = await getOrCreateAssociatedTokenAccount(
-                    this.connection,
-                    senderKeypair,
-                    mint,
-                    senderKeypair.publicKey,
-                    true
-                );
-                return account;
-            }, 5);
-
-            // Get token decimals with retry
-            const decimals = await this.retryOperation(async () => {
-                const mintInfo = await getMint(this.connection, mint);
-                return mintInfo.decimals;
-            }, 3);
-
-            if (decimals === -1) {
-                throw new Error("Failed to get token decimals");
+            const signatures: string[] = [];
+            if (transaction.instructions.length > 0) {
+                signatures.push(await this.sendTransaction(transaction, requestId, description));
+            } else {
+                this.logOperation('burner_nothing_to_burn', { requestId, tokenMint: mint.toBase58() });
             }
 
-            // Calculate amount to burn
-            const amountToBurn = this.calculateBurnAmount(delegateOptions.numTokens, decimals);
-
-            // Execute burn transaction with retry
-            const burnSignature = await this.retryOperation(async () => {
-                const signature = await burnChecked(
-                    this.connection,
-                    senderKeypair,
-                    senderTokenAccount.address,
-                    mint,
-                    senderKeypair,
-                    amountToBurn,
-                    decimals
-                );
-                return signature;
-            }, 3);
-
-            this.logOperation('burner_execution_completed', { 
-                requestId, 
-                signatures: [burnSignature],
-                burnedAmount: amountToBurn.toString(),
-                tokenMint: mint.toBase58()
+            // Report the balance the chain holds now, not the one computed before the burn
+            const postBurnBalance = closeAccount || !account.exists ? 0n : await this.getBalance(account);
+            const result = this.buildResult(mint, owner, account, amountToBurn, postBurnBalance, closeAccount, signatures);
+
+            this.logOperation('burner_execution_completed', {
+                requestId,
+                signatures,
+                burnedAmount: result.burnedAmount,
+                postBurnBalance: result.postBurnBalance,
+                accountClosed: result.accountClosed,
+                tokenMint: result.tokenMint
             });
-            
-            return {
-                success: true,
-                signatures: [burnSignature],
-                burnedAmount: amountToBurn.toString(),
-                tokenMint: mint.toBase58()
-            };
-            
+
+            return this.completeExecution(requestId, result);
+
         } catch (error) {
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
             await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
             throw error;
         }
     }
 
     validateOptions(delegateOptions: BurnerDelegateOptions): void {
-        this.validateStringField(delegateOptions.tokenAddress, 'tokenAddress');
-        this.validateNumberField(delegateOptions.numTokens, 'numTokens', 0);
-        this.validateStringField(delegateOptions.privateKey, 'privateKey');
-        
-        // Validate token address format
-        try {
-            new PublicKey(delegateOptions.tokenAddress);
-        } catch (error) {
-            throw new Error("Invalid token address format");
+        // Ignoring it would burn the signer's tokens instead of the key holder's
+        if ('privateKey' in delegateOptions) {
+            throw new ValidationError('privateKey is not accepted: the signer burns its own tokens, or set owner to a wallet that approved the signer');
         }
+        burnerOptionsSchema.assert(delegateOptions);
+    }
 
-        // Validate private key format
-        try {
-            bs58.decode(delegateOptions.privateKey);
-        } catch (error) {
-            throw new Error("Invalid private key format");
+    /**
+     * Inspect the approval an owner's token account holds
+     * @param tokenAddress - The mint
+     * @param owner - The wallet holding the tokens
+     * @returns The account's delegate and remaining allowance
+     */
+    async getApproval(tokenAddress: string, owner: string): Promise<BurnApproval> {
+        const mint = new PublicKey(tokenAddress);
+        const ownerKey = new PublicKey(owner);
+        const account = await this.getBurnAccount(mint, ownerKey);
+
+        return {
+            tokenMint: mint.toBase58(),
+            tokenProgram: account.programId.toBase58(),
+            tokenAccount: account.address.toBase58(),
+            owner: ownerKey.toBase58(),
+            delegate: account.delegate?.toBase58() ?? null,
+            delegatedAmount: account.delegatedAmount.toString(),
+            approvedForSigner: !!account.delegate?.equals(this.signerKeypair.publicKey)
+        };
+    }
+
+    /**
+     * Build a transaction approving this Burner's signer to burn an owner's
+     * tokens. The owner signs and sends it, e.g. from their wallet; it
+     * replaces any earlier approval of the account.
+     * @param tokenAddress - The mint
+     * @param owner - The wallet holding the tokens, which pays the fee
+     * @param numTokens - The allowance, in whole tokens
+     * @returns The unsigned transaction, with a recent blockhash
+     */
+    async createApproveTransaction(tokenAddress: string, owner: string, numTokens: number): Promise<Transaction> {
+        if (!Number.isFinite(numTokens) || numTokens <= 0) {
+            throw new ValidationError('numTokens must be greater than 0');
+        }
+
+        const mint = new PublicKey(tokenAddress);
+        const ownerKey = new PublicKey(owner);
+        const account = await this.getBurnAccount(mint, ownerKey);
+        if (!account.exists) {
+            throw new ValidationError(`${owner} has no token account for ${tokenAddress}`);
         }
+
+        const amount = toBaseUnits(numTokens, account.decimals);
+        const transaction = new Transaction().add(createApproveCheckedInstruction(
+            account.address, mint, this.signerKeypair.publicKey, ownerKey, amount, account.decimals, [], account.programId
+        ));
+
+        this.logOperation('burn_approval_built', { tokenMint: tokenAddress, owner, delegate: this.signerKeypair.publicKey.toBase58(), amount: amount.toString() });
+        return this.prepareOwnerTransaction(transaction, ownerKey);
     }
 
-    private calculateBurnAmount(numTokens: number, decimals: number): typeof BN {
-        const multiplier = new BN(10).pow(new BN(decimals));
-        return new BN(numTokens).mul(multiplier);
+    /**
+     * Build a transaction revoking whatever approval an owner's token account holds
+     * @param tokenAddress - The mint
+     * @param owner - The wallet holding the tokens, which signs and pays the fee
+     * @returns The unsigned transaction, with a recent blockhash
+     */
+    async createRevokeTransaction(tokenAddress: string, owner: string): Promise<Transaction> {
+        const mint = new PublicKey(tokenAddress);
+        const ownerKey = new PublicKey(owner);
+        const account = await this.getBurnAccount(mint, ownerKey);
+        if (!account.exists) {
+            throw new ValidationError(`${owner} has no token account for ${tokenAddress}`);
+        }
+
+        const transaction = new Transaction().add(createRevokeInstruction(account.address, ownerKey, [], account.programId));
+
+        this.logOperation('burn_approval_revoke_built', { tokenMint: tokenAddress, owner });
+        return this.prepareOwnerTransaction(transaction, ownerKey);
     }
-}
\ No newline at end of file
+
+    /**
+     * Find the program of the mint and the wallet's token account for it
+     */
+    private async getBurnAccount(mint: PublicKey, owner: PublicKey): Promise<BurnAccount> {
+        const mintAccount = await this.retryOperation(async () => this.connection.getAccountInfo(mint));
+        const programId = Burner.TOKEN_PROGRAMS.find(program => mintAccount?.owner.equals(program));
+        if (!mintAccount || !programId) {
+            throw new ValidationError(`Invalid tokenAddress: ${mint.toBase58()} is not a mint of the SPL Token or Token-2022 program`);
+        }
+
+        const { decimals } = await this.retryOperation(async () => getMint(this.connection, mint, 'confirmed', programId));
+        const address = getAssociatedTokenAddressSync(mint, owner, true, programId);
+        const accountInfo = await this.retryOperation(async () => this.connection.getAccountInfo(address, 'confirmed'));
+        const tokenAccount = accountInfo ? unpackAccount(address, accountInfo, programId) : null;
+
+        return {
+            address,
+            programId,
+            decimals,
+            balance: tokenAccount?.amount ?? 0n,
+            lamports: accountInfo?.lamports ?? 0,
+            exists: !!tokenAccount,
+            delegate: tokenAccount?.delegate ?? null,
+            delegatedAmount: tokenAccount?.delegatedAmount ?? 0n,
+            closeAuthority: tokenAccount?.closeAuthority ?? null
+        };
+    }
+
+    /**
+     * Check that the owner approved the signer to burn the amount
+     */
+    private assertApproved(account: BurnAccount, owner: PublicKey, amount: bigint): void {
+        const signer = this.signerKeypair.publicKey;
+        if (!account.delegate?.equals(signer)) {
+            throw new ValidationError(`${owner.toBase58()} has not approved ${signer.toBase58()} to burn from ${account.address.toBase58()}`);
+        }
+        if (amount > account.delegatedAmount) {
+            throw new InsufficientFundsError(`Cannot burn ${amount} from ${account.address.toBase58()}, the approved amount is ${account.delegatedAmount}`);
+        }
+    }
+
+    private async getBalance(account: BurnAccount): Promise<bigint> {
+        const tokenAccount = await this.retryOperation(async () => getAccount(this.connection, account.address, 'confirmed', account.programId));
+        return tokenAccount.amount;
+    }
+
+    /**
+     * Work out the amount to burn in base units
+     */
+    private calculateBurnAmount(delegateOptions: BurnerDelegateOptions, account: BurnAccount): bigint {
+        switch (delegateOptions.mode ?? 'amount') {
+            case 'all':
+                return account.balance;
+            case 'percentage': {
+                const share = BigInt(Math.round((delegateOptions.percentage ?? 0) * Number(Burner.PERCENTAGE_PRECISION) / 100));
+                return account.balance * share / Burner.PERCENTAGE_PRECISION;
+            }
+            case 'amount':
+                return toBaseUnits(delegateOptions.numTokens ?? 0, account.decimals);
+        }
+    }
+
+    /**
+     * Burn as the signer, which is the owner or its delegate, and close the
+     * account with its rent going back to the owner
+     */
+    private buildBurnTransaction(owner: PublicKey, mint: PublicKey, account: BurnAccount, amount: bigint, closeAccount: boolean): Transaction {
+        const signer = this.signerKeypair.publicKey;
+        const transaction = new Transaction();
+        transaction.feePayer = signer;
+
+        if (amount > 0n) {
+            transaction.add(createBurnCheckedInstruction(account.address, mint, signer, amount, account.decimals, [], account.programId));
+        }
+        if (closeAccount) {
+            transaction.add(createCloseAccountInstruction(account.address, owner, signer, [], account.programId));
+        }
+
+        return transaction;
+    }
+
+    private async prepareOwnerTransaction(transaction: Transaction, owner: PublicKey): Promise<Transaction> {
+        const { blockhash, lastValidBlockHeight } = await this.retryOperation(async () => {
+            return await this.connection.getLatestBlockhash();
+        });
+
+        transaction.feePayer = owner;
+        transaction.recentBlockhash = blockhash;
+        transaction.lastValidBlockHeight = lastValidBlockHeight;
+        return transaction;
+    }
+
+    /**
+     * Send a transaction signed and paid for by the signer
+     */
+    private async sendTransaction(transaction: Transaction, requestId: number, description: string): Promise<string> {
+        const { blockhash, lastValidBlockHeight } = await this.retryOperation(async () => {
+            return await this.connection.getLatestBlockhash();
+        });
+
+        transaction.recentBlockhash = blockhash;
+        transaction.sign(this.signerKeypair);
+        this.emitEvent('transaction_built', { requestId, description });
+
+        const signature = await this.retryOperation(async () => {
+            return await this.connection.sendRawTransaction(transaction.serialize(), {
+                skipPreflight: false,
+                maxRetries: 3,
+            });
+        });
+        this.emitEvent('transaction_sent', { requestId, description, signature });
+
+        const { value } = await this.retryOperation(async () => {
+            return await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        });
+        if (value.err) {
+            throw new TransactionFailedError(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`, { signature });
+        }
+        this.emitEvent('transaction_confirmed', { requestId, description, signature });
+
+        return signature;
+    }
+
+    private describeBurn(amount: bigint, mint: PublicKey, closeAccount: boolean): string {
+        const burn = `Burn ${amount} base units of ${mint.toBase58()}`;
+        return closeAccount ? `${burn} and close the token account` : burn;
+    }
+
+    private buildResult(
+        mint: PublicKey,
+        owner: PublicKey,
+        account: BurnAccount,
+        burned: bigint,
+        postBurnBalance: bigint,
+        closeAccount: boolean,
+        signatures: string[]
+    ): BurnerDelegateResult {
+        return {
+            success: true,
+            signatures,
+            burnedAmount: burned.toString(),
+            tokenMint: mint.toBase58(),
+            tokenProgram: account.programId.toBase58(),
+            tokenAccount: account.address.toBase58(),
+            owner: owner.toBase58(),
+            burnedViaApproval: !owner.equals(this.signerKeypair.publicKey) && burned > 0n,
+            postBurnBalance: postBurnBalance.toString(),
+            accountClosed: closeAccount,
+            rentReclaimed: closeAccount ? account.lamports : 0
+        };
+    }
+}
+
+/**
+ * Convert whole tokens to base units without floating-point error
+ * @param amount - The amount in whole tokens
+ * @param decimals - The mint's decimals
+ * @returns The amount in base units
+ */
+function toBaseUnits(amount: number, decimals: number): bigint {
+    const [whole = '0', fraction = ''] = amount.toFixed(decimals).split('.');
+    return BigInt(whole + fraction);
+}
@@ -0,0 +1,443 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, TokenBalance, Transaction } from "@solana/web3.js";
+import {
+    createBurnCheckedInstruction,
+    getAssociatedTokenAddressSync,
+    getMint,
+    NATIVE_MINT,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    unpackAccount
+} from "@solana/spl-token";
+import { BuybackBurnerCheckpointState, BuybackBurnerDelegateOptions, BuybackBurnerDelegateResult } from "./types";
+import { BaseDelegate } from "./base-delegate";
+import { DelegateExecutionContext } from "./base";
+import { DelegateCheckpoint, PendingTransaction } from "./checkpoint/base";
+import { createDryRunPlan } from "./dry-run";
+import { DELEGATE_TYPES } from "./constants";
+import { HeliusClient } from "../solana/clients/helius";
+import { Logger } from "../solana/types";
+import { RetryPolicy } from "../utils/retry";
+import { JupiterSwap } from "./swap/jupiter";
+import { RaydiumSwap } from "./swap/raydium";
+import { SwapRoute } from "./swap/base-protocol";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { InsufficientFundsError, ProtocolError, RpcError, TransactionFailedError, ValidationError } from "../utils/errors";
+import { buybackBurnerOptionsSchema } from "./schemas";
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const USDC_DECIMALS = 6;
+
+/**
+ * The signer's token account for the bought mint
+ */
+interface BuybackAccount {
+    address: PublicKey;
+    programId: PublicKey;
+    decimals: number;
+}
+
+/**
+ * Buys a token with SOL or USDC through Jupiter, falling back to Raydium, and
+ * burns exactly what the swap delivered in a follow-up transaction. The
+ * amounts spent and bought come from the balances the confirmed swap
+ * transaction recorded. With an idempotency key the buy is checkpointed before the burn,
+ * so a rerun burns the bought tokens instead of buying again.
+ */
+export class BuybackBurner extends BaseDelegate<BuybackBurnerDelegateOptions, BuybackBurnerDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.BUYBACK_BURNER;
+    private static readonly TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+    private static readonly SPEND_MINTS = { sol: NATIVE_MINT.toBase58(), usdc: USDC_MINT } as const;
+    private static readonly SPEND_UNITS = { sol: LAMPORTS_PER_SOL, usdc: 10 ** USDC_DECIMALS } as const;
+    private readonly jupiterSwap: JupiterSwap;
+    private readonly raydiumSwap: RaydiumSwap;
+    private readonly swapRoutes: SwapRoute[];
+
+    constructor(
+        connection: Connection,
+        signerKeypair: Keypair,
+        heliusClient: HeliusClient,
+        feeTakerKeypair?: Keypair
+    ) {
+        super(connection, signerKeypair, feeTakerKeypair);
+
+        // Initialize swap protocols
+        this.jupiterSwap = new JupiterSwap(signerKeypair, connection, { heliusClient });
+        this.raydiumSwap = new RaydiumSwap(signerKeypair, { heliusClient });
+        this.swapRoutes = [{ name: 'Jupiter', protocol: this.jupiterSwap }, { name: 'Raydium', protocol: this.raydiumSwap }];
+    }
+
+    /**
+     * Replace the logger of the delegate and its swap protocols
+     * @param logger - The logger to write to
+     * @returns This delegate, for chaining
+     */
+    override setLogger(logger: Logger): this {
+        super.setLogger(logger);
+        this.jupiterSwap.setLogger(logger);
+        this.raydiumSwap.setLogger(logger);
+        return this;
+    }
+
+    /**
+     * Replace the retry policy of the delegate and its swap protocols
+     * @param retryPolicy - The policy for operations of this delegate
+     * @returns This delegate, for chaining
+     */
+    override setRetryPolicy(retryPolicy: RetryPolicy): this {
+        super.setRetryPolicy(retryPolicy);
+        this.jupiterSwap.setRetryPolicy(retryPolicy);
+        this.raydiumSwap.setRetryPolicy(retryPolicy);
+        return this;
+    }
+
+    async executeDelegate(delegateOptions: BuybackBurnerDelegateOptions, context: DelegateExecutionContext = {}): Promise<BuybackBurnerDelegateResult> {
+        const requestId = this.generateRequestId();
+        let checkpoint: DelegateCheckpoint<BuybackBurnerCheckpointState> | null = null;
+        let account: BuybackAccount | undefined;
+
+        try {
+            this.logOperation('buyback_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
+
+            this.validateOptions(delegateOptions);
+
+            const { tokenAddress, spendAsset = 'sol', spendAmount, slippageBps = 50 } = delegateOptions;
+            const spendMint = BuybackBurner.SPEND_MINTS[spendAsset];
+            if (tokenAddress === spendMint) {
+                throw new ValidationError(`Cannot buy back ${spendAsset.toUpperCase()} with itself`);
+            }
+
+            const mint = new PublicKey(tokenAddress);
+            account = await this.getBuybackAccount(mint);
+            const description = `Swap ${spendAmount} ${spendAsset.toUpperCase()} to ${tokenAddress}`;
+
+            this.logOperation('buyback_setup', {
+                requestId,
+                tokenMint: tokenAddress,
+                tokenProgram: account.programId.toBase58(),
+                spendMint,
+                spendAmount,
+                slippageBps
+            });
+
+            if (context.dryRun) {
+                const plan = createDryRunPlan();
+                await this.planSwap(plan, { name: 'Jupiter', protocol: this.jupiterSwap }, spendMint, tokenAddress, spendAmount, slippageBps / 100, description);
+                plan.notes.push('The burn is not simulated: it burns whatever the swap delivers');
+
+                this.logOperation('buyback_dry_run_completed', { requestId, errors: plan.errors.length });
+                return this.completeExecution(requestId, this.buildDryRunResult(
+                    this.buildResult(mint, account, spendMint, 0, 0n, 0n, []),
+                    plan
+                ));
+            }
+
+            checkpoint = await this.openCheckpoint(delegateOptions, context, () => ({}));
+            if (checkpoint.status === 'completed' && checkpoint.result) {
+                this.logOperation('buyback_execution_replayed', { requestId, key: checkpoint.key });
+                return this.completeExecution(requestId, checkpoint.result as BuybackBurnerDelegateResult);
+            }
+            checkpoint.status = 'running';
+
+            // A swap or burn sent just before an earlier attempt stopped may have landed
+            const confirmedSignature = await this.resolvePendingTransaction(checkpoint);
+            if (confirmedSignature) {
+                this.emitEvent('transaction_confirmed', { requestId, description: 'Transaction sent by an earlier attempt', signature: confirmedSignature });
+                if (checkpoint.step === 0) {
+                    await this.recordSwap(checkpoint, context, confirmedSignature, mint, spendMint);
+                } else {
+                    await this.recordStep(checkpoint, context, confirmedSignature);
+                }
+            }
+
+            if (checkpoint.step === 0) {
+                await this.assertSpendable(spendAsset, spendAmount);
+                throwIfAborted(context.signal);
+                await this.buy(checkpoint, context, spendMint, mint, spendAmount, slippageBps, requestId);
+            } else {
+                this.logOperation('buyback_swap_resumed', {
+                    requestId,
+                    key: checkpoint.key,
+                    swapSignature: checkpoint.signatures[0],
+                    amountSpent: checkpoint.state.amountSpent,
+                    tokensBought: checkpoint.state.tokensBought
+                });
+            }
+
+            // The swap is confirmed, so from here on the run finishes even if aborted
+            const tokensBought = BigInt(checkpoint.state.tokensBought ?? '0');
+            if (checkpoint.step === 1) {
+                const run = checkpoint;
+                const tokenAccount = account;
+                try {
+                    const signature = await this.burn(mint, tokenAccount, tokensBought, requestId, pending => this.recordPendingTransaction(run, context, pending));
+                    await this.recordStep(checkpoint, context, signature);
+                } catch (error) {
+                    this.logOperation('buyback_burn_failed', {
+                        requestId,
+                        key: checkpoint.key,
+                        swapSignature: checkpoint.signatures[0],
+                        tokensBought: tokensBought.toString(),
+                        error: error instanceof Error ? error.message : String(error)
+                    }, 'error');
+                    throw error;
+                }
+            }
+
+            const result = this.buildRunResult(checkpoint, delegateOptions, account);
+            this.logOperation('buyback_execution_completed', {
+                requestId,
+                signatures: result.signatures,
+                tokensBurned: result.tokensBurned,
+                effectivePrice: result.effectivePrice
+            });
+
+            await this.finishCheckpoint(checkpoint, context, 'completed', { result });
+            return this.completeExecution(requestId, result);
+
+        } catch (error) {
+            if (checkpoint && account && isAbortError(error)) {
+                this.logOperation('buyback_execution_aborted', { requestId, signatures: checkpoint.signatures });
+                const result = this.buildAbortedResult(this.buildRunResult(checkpoint, delegateOptions, account), checkpoint.step, 2, context.signal);
+                await this.finishCheckpoint(checkpoint, context, 'aborted', { error: result.error });
+                return this.completeExecution(requestId, result);
+            }
+
+            if (checkpoint) {
+                await this.finishCheckpoint(checkpoint, context, 'failed', { error: error instanceof Error ? error.message : String(error) });
+            }
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
+            await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
+            throw error;
+        }
+    }
+
+    validateOptions(delegateOptions: BuybackBurnerDelegateOptions): void {
+        buybackBurnerOptionsSchema.assert(delegateOptions);
+    }
+
+    /**
+     * Find the program of the mint and the signer's token account for it
+     */
+    private async getBuybackAccount(mint: PublicKey): Promise<BuybackAccount> {
+        const mintAccount = await this.retryOperation(async () => this.connection.getAccountInfo(mint));
+        const programId = BuybackBurner.TOKEN_PROGRAMS.find(program => mintAccount?.owner.equals(program));
+        if (!mintAccount || !programId) {
+            throw new ValidationError(`Invalid tokenAddress: ${mint.toBase58()} is not a mint of the SPL Token or Token-2022 program`);
+        }
+
+        const { decimals } = await this.retryOperation(async () => getMint(this.connection, mint, 'confirmed', programId));
+        return {
+            address: getAssociatedTokenAddressSync(mint, this.signerKeypair.publicKey, true, programId),
+            programId,
+            decimals
+        };
+    }
+
+    /**
+     * Swap for the token and record the buy, checkpointing the swap
+     * transaction as soon as it is sent
+     */
+    private async buy(
+        checkpoint: DelegateCheckpoint<BuybackBurnerCheckpointState>,
+        context: DelegateExecutionContext,
+        spendMint: string,
+        mint: PublicKey,
+        spendAmount: number,
+        slippageBps: number,
+        requestId: number
+    ): Promise<void> {
+        const tokenAddress = mint.toBase58();
+        const swap = await this.executeSwapWithFallback(this.swapRoutes, spendMint, tokenAddress, spendAmount, slippageBps / 100, requestId, {
+            signal: context.signal,
+            onSent: pending => this.recordPendingTransaction(checkpoint, context, pending)
+        });
+        if (!swap.success || !swap.signature) {
+            throw new ProtocolError(`Swap to ${tokenAddress} failed: ${swap.error}`, "swap");
+        }
+
+        checkpoint.state.protocol = swap.protocol;
+        await this.recordSwap(checkpoint, context, swap.signature, mint, spendMint);
+        this.logOperation('buyback_swap_completed', {
+            requestId,
+            protocol: swap.protocol,
+            signature: swap.signature,
+            amountSpent: checkpoint.state.amountSpent,
+            tokensBought: checkpoint.state.tokensBought
+        });
+    }
+
+    /**
+     * Finish the buy step with what the confirmed swap spent and delivered,
+     * so that a later attempt burns it instead of buying again
+     */
+    private async recordSwap(
+        checkpoint: DelegateCheckpoint<BuybackBurnerCheckpointState>,
+        context: DelegateExecutionContext,
+        signature: string,
+        mint: PublicKey,
+        spendMint: string
+    ): Promise<void> {
+        const { spent, bought } = await this.getSwapAmounts(signature, mint, spendMint);
+        if (bought <= 0n) {
+            throw new ProtocolError(`Swap ${signature} delivered no ${mint.toBase58()}`, "swap");
+        }
+
+        checkpoint.state.amountSpent = spent.toString();
+        checkpoint.state.tokensBought = bought.toString();
+        await this.recordStep(checkpoint, context, signature);
+    }
+
+    /**
+     * Base units a swap spent and delivered, from the balances its confirmed
+     * transaction recorded. Unlike a balance read after the swap, these do
+     * not depend on the RPC node having caught up with it. SOL spent is what
+     * left the signer's wallet and wrapped SOL account, less the fee and the
+     * rent of a token account the swap opened for the bought tokens.
+     */
+    private async getSwapAmounts(signature: string, mint: PublicKey, spendMint: string): Promise<{ spent: bigint; bought: bigint }> {
+        const { meta, transaction } = await this.retryOperation(async () => {
+            const response = await this.connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+            if (!response?.meta) {
+                throw new RpcError(`Transaction ${signature} is not available yet`);
+            }
+            return { meta: response.meta, transaction: response.transaction };
+        });
+        if (meta.err) {
+            throw new TransactionFailedError(`Swap ${signature} failed: ${JSON.stringify(meta.err)}`, { signature });
+        }
+
+        const owner = this.signerKeypair.publicKey.toBase58();
+        const entries = (balances: TokenBalance[] | null | undefined, tokenMint: string) => (balances ?? [])
+            .filter(entry => entry.mint === tokenMint && entry.owner === owner);
+        const balance = (balances: TokenBalance[] | null | undefined, tokenMint: string) => entries(balances, tokenMint)
+            .reduce((total, entry) => total + BigInt(entry.uiTokenAmount.amount), 0n);
+        const bought = balance(meta.postTokenBalances, mint.toBase58()) - balance(meta.preTokenBalances, mint.toBase58());
+        const tokensSpent = balance(meta.preTokenBalances, spendMint) - balance(meta.postTokenBalances, spendMint);
+        if (spendMint !== NATIVE_MINT.toBase58()) {
+            return { spent: tokensSpent, bought };
+        }
+
+        const signerIndex = transaction.message.staticAccountKeys.findIndex(key => key.equals(this.signerKeypair.publicKey));
+        const lamportsSpent = signerIndex < 0 ? 0n : BigInt((meta.preBalances[signerIndex] ?? 0) - (meta.postBalances[signerIndex] ?? 0));
+        const fee = signerIndex === 0 ? BigInt(meta.fee) : 0n;
+        const opened = entries(meta.postTokenBalances, mint.toBase58())
+            .filter(entry => !meta.preTokenBalances?.some(previous => previous.accountIndex === entry.accountIndex));
+        const rent = opened.reduce((total, entry) => total + BigInt(meta.postBalances[entry.accountIndex] ?? 0), 0n);
+        return { spent: lamportsSpent + tokensSpent - fee - rent, bought };
+    }
+
+    private async assertSpendable(spendAsset: 'sol' | 'usdc', spendAmount: number): Promise<void> {
+        const owner = this.signerKeypair.publicKey;
+
+        if (spendAsset === 'sol') {
+            const lamports = await this.retryOperation(async () => this.connection.getBalance(owner, 'confirmed'));
+            if (lamports < Math.round(spendAmount * LAMPORTS_PER_SOL)) {
+                throw new InsufficientFundsError(`Cannot spend ${spendAmount} SOL, the balance is ${lamports / LAMPORTS_PER_SOL} SOL`);
+            }
+            return;
+        }
+
+        const address = getAssociatedTokenAddressSync(new PublicKey(USDC_MINT), owner, true);
+        const accountInfo = await this.retryOperation(async () => this.connection.getAccountInfo(address, 'confirmed'));
+        const balance = accountInfo ? unpackAccount(address, accountInfo).amount : 0n;
+        if (balance < BigInt(Math.round(spendAmount * 10 ** USDC_DECIMALS))) {
+            throw new InsufficientFundsError(`Cannot spend ${spendAmount} USDC, the balance is ${Number(balance) / 10 ** USDC_DECIMALS} USDC`);
+        }
+    }
+
+    /**
+     * Burn the bought tokens, signed and paid for by the signer
+     * @param onSent - Records the sent transaction before its confirmation is awaited
+     */
+    private async burn(
+        mint: PublicKey,
+        account: BuybackAccount,
+        amount: bigint,
+        requestId: number,
+        onSent: (pending: PendingTransaction) => Promise<void>
+    ): Promise<string> {
+        const transaction = new Transaction().add(
+            createBurnCheckedInstruction(account.address, mint, this.signerKeypair.publicKey, amount, account.decimals, [], account.programId)
+        );
+        const description = `Burn ${amount} base units of ${mint.toBase58()}`;
+        transaction.feePayer = this.signerKeypair.publicKey;
+
+        const { blockhash, lastValidBlockHeight } = await this.retryOperation(async () => {
+            return await this.connection.getLatestBlockhash();
+        });
+
+        transaction.recentBlockhash = blockhash;
+        transaction.sign(this.signerKeypair);
+        this.emitEvent('transaction_built', { requestId, description });
+
+        const signature = await this.retryOperation(async () => {
+            return await this.connection.sendRawTransaction(transaction.serialize(), {
+                skipPreflight: false,
+                maxRetries: 3,
+            });
+        });
+        this.emitEvent('transaction_sent', { requestId, description, signature });
+        await onSent({ signature, lastValidBlockHeight });
+
+        const { value } = await this.retryOperation(async () => {
+            return await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        });
+        if (value.err) {
+            throw new TransactionFailedError(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`, { signature });
+        }
+        this.emitEvent('transaction_confirmed', { requestId, description, signature });
+
+        return signature;
+    }
+
+    /**
+     * Build the result from what the checkpointed run has done so far
+     */
+    private buildRunResult(
+        checkpoint: DelegateCheckpoint<BuybackBurnerCheckpointState>,
+        delegateOptions: BuybackBurnerDelegateOptions,
+        account: BuybackAccount
+    ): BuybackBurnerDelegateResult {
+        const { tokenAddress, spendAsset = 'sol' } = delegateOptions;
+        const { protocol, amountSpent = '0', tokensBought = '0' } = checkpoint.state;
+        const [swapSignature, burnSignature] = checkpoint.signatures;
+        return {
+            ...this.buildResult(
+                new PublicKey(tokenAddress),
+                account,
+                BuybackBurner.SPEND_MINTS[spendAsset],
+                Number(amountSpent) / BuybackBurner.SPEND_UNITS[spendAsset],
+                BigInt(tokensBought),
+                burnSignature ? BigInt(tokensBought) : 0n,
+                checkpoint.signatures
+            ),
+            ...(protocol && { protocol }),
+            ...(swapSignature && { swapSignature }),
+            ...(burnSignature && { burnSignature })
+        };
+    }
+
+    private buildResult(
+        mint: PublicKey,
+        account: BuybackAccount,
+        spendMint: string,
+        amountSpent: number,
+        tokensBought: bigint,
+        tokensBurned: bigint,
+        signatures: string[]
+    ): BuybackBurnerDelegateResult {
+        const wholeTokens = Number(tokensBought) / 10 ** account.decimals;
+        return {
+            success: true,
+            signatures,
+            tokenMint: mint.toBase58(),
+            tokenProgram: account.programId.toBase58(),
+            spendMint,
+            amountSpent,
+            tokensBought: tokensBought.toString(),
+            tokensBurned: tokensBurned.toString(),
+            effectivePrice: wholeTokens > 0 ? amountSpent / wholeTokens : 0
+        };
+    }
+}
@@ -0,0 +1,121 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CheckpointStore, DelegateCheckpoint, hashDelegateOptions } from "../base";
+import { InMemoryCheckpointStore } from "../memory";
+import { JsonFileCheckpointStore } from "../json-file";
+
+function createCheckpoint(overrides: Partial<DelegateCheckpoint> = {}): DelegateCheckpoint {
+    const createdAt = new Date('2025-01-01T00:00:00.000Z');
+    return {
+        key: 'run-1',
+        type: 'hopper',
+        optionsHash: 'hash',
+        status: 'running',
+        step: 2,
+        pending: { signature: 'sig-3', lastValidBlockHeight: 150 },
+        signatures: ['sig-1', 'sig-2'],
+        state: { hopMap: [{ publicKey: 'hop-1', privateKey: 'secret-1' }] },
+        createdAt,
+        updatedAt: createdAt,
+        ...overrides,
+    };
+}
+
+let tempDir: string;
+
+beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-store-'));
+});
+
+afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+const backends: [string, () => CheckpointStore][] = [
+    ['InMemoryCheckpointStore', () => new InMemoryCheckpointStore()],
+    ['JsonFileCheckpointStore', () => new JsonFileCheckpointStore({ filePath: path.join(tempDir, `${Math.random()}.json`) })],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+    let store: CheckpointStore;
+
+    beforeEach(() => {
+        store = createStore();
+    });
+
+    it('should round-trip checkpoints including dates', async () => {
+        const checkpoint = createCheckpoint();
+
+        await store.save(checkpoint);
+        const fetched = await store.get('run-1');
+
+        expect(fetched).toEqual(checkpoint);
+        expect(fetched?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return copies that do not change the stored checkpoint', async () => {
+        await store.save(createCheckpoint());
+
+        const fetched = await store.get('run-1');
+        fetched!.signatures.push('sig-3');
+
+        expect((await store.get('run-1'))?.signatures).toEqual(['sig-1', 'sig-2']);
+    });
+
+    it('should replace a checkpoint saved under the same key', async () => {
+        await store.save(createCheckpoint());
+        await store.save(createCheckpoint({ step: 3, status: 'completed' }));
+
+        expect(await store.get('run-1')).toMatchObject({ step: 3, status: 'completed' });
+        expect(await store.list()).toHaveLength(1);
+    });
+
+    it('should return null for unknown keys', async () => {
+        expect(await store.get('missing')).toBeNull();
+    });
+
+    it('should list checkpoints by type and status', async () => {
+        await store.save(createCheckpoint({ key: 'run-1' }));
+        await store.save(createCheckpoint({ key: 'run-2', status: 'aborted' }));
+        await store.save(createCheckpoint({ key: 'run-3', type: 'distributor', status: 'failed' }));
+
+        expect((await store.list({ type: 'hopper' })).map(checkpoint => checkpoint.key)).toEqual(['run-1', 'run-2']);
+        expect((await store.list({ status: ['aborted', 'failed'] })).map(checkpoint => checkpoint.key)).toEqual(['run-2', 'run-3']);
+        expect(await store.list({ type: 'hopper', status: 'completed' })).toEqual([]);
+    });
+
+    it('should delete checkpoints', async () => {
+        await store.save(createCheckpoint());
+
+        expect(await store.delete('run-1')).toBe(true);
+        expect(await store.delete('run-1')).toBe(false);
+        expect(await store.get('run-1')).toBeNull();
+    });
+});
+
+describe('JsonFileCheckpointStore', () => {
+    it('should persist checkpoints across instances in a file only its owner can read', async () => {
+        const filePath = path.join(tempDir, 'persisted.json');
+        await new JsonFileCheckpointStore({ filePath }).save(createCheckpoint());
+
+        const reopened = new JsonFileCheckpointStore({ filePath });
+
+        expect(await reopened.get('run-1')).toEqual(createCheckpoint());
+        if (process.platform !== 'win32') {
+            expect((await fs.stat(filePath)).mode & 0o777).toBe(0o600);
+        }
+    });
+});
+
+describe('hashDelegateOptions', () => {
+    it('should not depend on key order', () => {
+        expect(hashDelegateOptions({ type: 'hopper', numOfHops: 3, numTokens: 1 } as any))
+            .toBe(hashDelegateOptions({ numTokens: 1, numOfHops: 3, type: 'hopper' } as any));
+    });
+
+    it('should change when an option changes', () => {
+        expect(hashDelegateOptions({ type: 'hopper', numOfHops: 3 } as any))
+            .not.toBe(hashDelegateOptions({ type: 'hopper', numOfHops: 4 } as any));
+    });
+});
@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { BaseDelegateOptions, BaseDelegateResult } from "../types";
+
+export type CheckpointStatus = 'running' | 'aborted' | 'failed' | 'completed';
+
+/**
+ * A transaction that was sent but whose confirmation was not recorded
+ */
+export interface PendingTransaction {
+    signature: string;
+    lastValidBlockHeight: number; // After this block height the transaction can no longer land
+}
+
+/**
+ * Progress of a multi-transaction delegate run. What counts as a step
+ * depends on the delegate: a hop transaction, a recipient or an allocation.
+ */
+export interface DelegateCheckpoint<S extends Record<string, any> = Record<string, any>> {
+    key: string; // The run's idempotency key
+    type: string; // Delegate type
+    optionsHash: string; // Fingerprint of the options the run started with
+    status: CheckpointStatus;
+    step: number; // Steps finished so far
+    pending?: PendingTransaction; // Sent for the current step but not yet confirmed
+    signatures: string[];
+    state: S; // Delegate-specific progress, e.g. generated hop keys
+    result?: BaseDelegateResult; // Saved once the run completes
+    error?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Filter for listing checkpoints. All set fields must match.
+ */
+export interface CheckpointQuery {
+    type?: string;
+    status?: CheckpointStatus | CheckpointStatus[];
+}
+
+/**
+ * Persistence for delegate checkpoints. Checkpoints can hold the secret keys
+ * of generated wallets, so stores must be kept as private as a keystore.
+ */
+export interface CheckpointStore {
+    save(checkpoint: DelegateCheckpoint): Promise<void>;
+    get(key: string): Promise<DelegateCheckpoint | null>;
+    list(query?: CheckpointQuery): Promise<DelegateCheckpoint[]>;
+    delete(key: string): Promise<boolean>;
+}
+
+/**
+ * JSON-safe representation of a checkpoint
+ */
+export type SerializedCheckpoint = Omit<DelegateCheckpoint, 'createdAt' | 'updatedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+};
+
+/**
+ * Convert a checkpoint to its JSON-safe representation
+ * @param checkpoint - The checkpoint to serialize
+ * @returns Serialized checkpoint with ISO date strings
+ */
+export function serializeCheckpoint(checkpoint: DelegateCheckpoint): SerializedCheckpoint {
+    return JSON.parse(JSON.stringify({
+        ...checkpoint,
+        createdAt: checkpoint.createdAt.toISOString(),
+        updatedAt: checkpoint.updatedAt.toISOString(),
+    }));
+}
+
+/**
+ * Restore a checkpoint from its JSON-safe representation
+ * @param data - The serialized checkpoint
+ * @returns Checkpoint with Date fields restored
+ */
+export function deserializeCheckpoint(data: SerializedCheckpoint): DelegateCheckpoint {
+    return {
+        ...JSON.parse(JSON.stringify(data)),
+        createdAt: new Date(data.createdAt),
+        updatedAt: new Date(data.updatedAt),
+    };
+}
+
+/**
+ * Check whether a checkpoint matches a query
+ * @param checkpoint - The checkpoint to check
+ * @param query - The query to match against
+ * @returns True if every set field of the query matches
+ */
+export function matchesCheckpointQuery(checkpoint: DelegateCheckpoint, query: CheckpointQuery = {}): boolean {
+    if (query.type !== undefined && checkpoint.type !== query.type) {
+        return false;
+    }
+    if (query.status !== undefined) {
+        const statuses = Array.isArray(query.status) ? query.status : [query.status];
+        if (!statuses.includes(checkpoint.status)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Fingerprint delegate options so a reused idempotency key can be checked
+ * against the options its run started with. Key order does not matter.
+ * @param options - The delegate options
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashDelegateOptions(options: BaseDelegateOptions): string {
+    return createHash('sha256').update(stableStringify(options)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const json = (value as { toJSON?: () => unknown }).toJSON;
+        if (typeof json === 'function') {
+            return stableStringify(json.call(value));
+        }
+        const entries = Object.entries(value)
+            .filter(([, item]) => item !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,90 @@
+import { readJsonFile, writeFileAtomic } from "../../utils/atomic-file";
+import { CheckpointQuery, CheckpointStore, DelegateCheckpoint, deserializeCheckpoint, matchesCheckpointQuery, SerializedCheckpoint, serializeCheckpoint } from "./base";
+
+/**
+ * Configuration interface for JsonFileCheckpointStore
+ */
+export interface JsonFileCheckpointStoreConfig {
+    filePath: string;
+    pretty?: boolean;
+}
+
+interface CheckpointFile {
+    version: 1;
+    checkpoints: SerializedCheckpoint[];
+}
+
+/**
+ * Checkpoint store backed by a single JSON file, readable only by its owner
+ * since checkpoints hold the secret keys of generated wallets. Every change
+ * rewrites the file atomically. Writes are serialized within the process;
+ * the file must not be shared by several processes.
+ */
+export class JsonFileCheckpointStore implements CheckpointStore {
+    private static readonly FILE_MODE = 0o600;
+
+    private readonly filePath: string;
+    private readonly pretty: boolean;
+    private checkpoints: Map<string, SerializedCheckpoint> | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(config: JsonFileCheckpointStoreConfig) {
+        this.filePath = config.filePath;
+        this.pretty = config.pretty ?? true;
+    }
+
+    async save(checkpoint: DelegateCheckpoint): Promise<void> {
+        return this.withLock(async checkpoints => {
+            const next = new Map(checkpoints).set(checkpoint.key, serializeCheckpoint(checkpoint));
+            await this.persist(next);
+        });
+    }
+
+    async get(key: string): Promise<DelegateCheckpoint | null> {
+        return this.withLock(async checkpoints => {
+            const serialized = checkpoints.get(key);
+            return serialized ? deserializeCheckpoint(serialized) : null;
+        });
+    }
+
+    async list(query: CheckpointQuery = {}): Promise<DelegateCheckpoint[]> {
+        return this.withLock(async checkpoints => Array.from(checkpoints.values(), deserializeCheckpoint)
+            .filter(checkpoint => matchesCheckpointQuery(checkpoint, query)));
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.withLock(async checkpoints => {
+            if (!checkpoints.has(key)) {
+                return false;
+            }
+
+            const next = new Map(checkpoints);
+            next.delete(key);
+            await this.persist(next);
+            return true;
+        });
+    }
+
+    /**
+     * Run an operation after every previously queued one has finished
+     */
+    private withLock<T>(operation: (checkpoints: Map<string, SerializedCheckpoint>) => Promise<T>): Promise<T> {
+        const run = this.queue.then(async () => operation(await this.load()));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async load(): Promise<Map<string, SerializedCheckpoint>> {
+        if (!this.checkpoints) {
+            const file = await readJsonFile<CheckpointFile>(this.filePath, { version: 1, checkpoints: [] });
+            this.checkpoints = new Map(file.checkpoints.map(checkpoint => [checkpoint.key, checkpoint]));
+        }
+        return this.checkpoints;
+    }
+
+    private async persist(checkpoints: Map<string, SerializedCheckpoint>): Promise<void> {
+        const file: CheckpointFile = { version: 1, checkpoints: Array.from(checkpoints.values()) };
+        await writeFileAtomic(this.filePath, JSON.stringify(file, null, this.pretty ? 2 : undefined), JsonFileCheckpointStore.FILE_MODE);
+        this.checkpoints = checkpoints;
+    }
+}
@@ -0,0 +1,27 @@
+import { CheckpointQuery, CheckpointStore, DelegateCheckpoint, deserializeCheckpoint, matchesCheckpointQuery, SerializedCheckpoint, serializeCheckpoint } from "./base";
+
+/**
+ * Non-persistent checkpoint store. Runs can be resumed within the process,
+ * but generated wallets are lost when it exits.
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+    private readonly checkpoints = new Map<string, SerializedCheckpoint>();
+
+    async save(checkpoint: DelegateCheckpoint): Promise<void> {
+        this.checkpoints.set(checkpoint.key, serializeCheckpoint(checkpoint));
+    }
+
+    async get(key: string): Promise<DelegateCheckpoint | null> {
+        const serialized = this.checkpoints.get(key);
+        return serialized ? deserializeCheckpoint(serialized) : null;
+    }
+
+    async list(query: CheckpointQuery = {}): Promise<DelegateCheckpoint[]> {
+        return Array.from(this.checkpoints.values(), deserializeCheckpoint)
+            .filter(checkpoint => matchesCheckpointQuery(checkpoint, query));
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.checkpoints.delete(key);
+    }
+}
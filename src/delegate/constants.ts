@@ -5,6 +5,8 @@ export const DELEGATE_TYPES = {
     DISTRIBUTOR: 'distributor',
     HOPPER: 'hopper',
     LIQUIDATOR: 'liquidator',
+    SWEEPER: 'sweeper',
+    BUYBACK_BURNER: 'buyback_burner',
 } as const;
 
 // Solana constants
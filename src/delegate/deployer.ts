@@ -1,27 +1,42 @@
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
-import { NATIVE_MINT } from "@solana/spl-token";
-import { DeployerDelegateOptions, RaydiumLaunchpadTokenParams, TokenMetadata, RaydiumLaunchpadTokenComputeBudgetConfig, DeployerDelegateResult } from "./types";
+import { Connection, Keypair, VersionedTransaction } from "@solana/web3.js";
+import { DeployerDelegateOptions, TokenMetadata, DeployerDelegateResult } from "./types";
 import { MetadataClient } from "../solana/clients/metadata/base";
-import { getPdaLaunchpadConfigId, LAUNCHPAD_PROGRAM, LaunchpadConfig, Raydium, TxVersion } from "@raydium-io/raydium-sdk-v2";
 import { BaseDelegate } from "./base-delegate";
-
-const BN = require("bn.js");
+import { DelegateExecutionContext } from "./base";
+import { createDryRunPlan } from "./dry-run";
+import { DELEGATE_TYPES } from "./constants";
+import { ProtocolError, ValidationError, ValidationIssue } from "../utils/errors";
+import { deployerOptionsSchema } from "./schemas";
+import { LaunchBuild, LaunchPlatform, LaunchRequest } from "./launch/base";
+import { RaydiumLaunchlabPlatform } from "./launch/raydium-launchlab";
+import { SplTokenLaunchPlatform } from "./launch/spl-token";
 
 export class Deployer extends BaseDelegate<DeployerDelegateOptions, DeployerDelegateResult> {
+    private static readonly DEFAULT_PLATFORM = 'raydium-launchlab';
+    // Top-level options from before launch platforms, now Raydium LaunchLab's platformOptions
+    private static readonly LEGACY_PLATFORM = 'raydium-launchlab';
+    private static readonly LEGACY_OPTIONS = ['platformId', 'tokenMigrateType'] as const;
+
+    protected override readonly delegateType = DELEGATE_TYPES.DEPLOYER;
     private readonly metadataClient: MetadataClient;
+    private readonly platforms = new Map<string, LaunchPlatform<unknown>>();
 
     constructor(connection: Connection, signerKeypair: Keypair, metadataClient: MetadataClient, feeTakerKeypair?: Keypair) {
         super(connection, signerKeypair, feeTakerKeypair);
         this.metadataClient = metadataClient;
+        this.registerPlatform(new RaydiumLaunchlabPlatform());
+        this.registerPlatform(new SplTokenLaunchPlatform());
     }
 
-    async executeDelegate(delegateOptions: DeployerDelegateOptions): Promise<DeployerDelegateResult> {
+    async executeDelegate(delegateOptions: DeployerDelegateOptions, context: DelegateExecutionContext = {}): Promise<DeployerDelegateResult> {
         const requestId = this.generateRequestId();
         
         try {
             this.logOperation('deployer_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
             
             this.validateOptions(delegateOptions);
+            const platform = this.getPlatform(delegateOptions.platform);
 
             const metadata: TokenMetadata = {
                 name: delegateOptions.tokenName,
@@ -36,189 +51,192 @@ export class Deployer extends BaseDelegate<DeployerDelegateOptions, DeployerDele
             };
 
             let metadataUri = '';
+            const plan = context.dryRun ? createDryRunPlan() : null;
             
-            // Upload metadata with retry
-            try {
-                if (delegateOptions.tokenImage) {
-                    const imageResult = await this.retryOperation(async () => {
-                        const base64Data = delegateOptions.tokenImage!.replace(/^data:image\/[a-z]+;base64,/, '');
-                        const imageBuffer = Buffer.from(base64Data, 'base64');
+            // Upload metadata with retry. Uploads are published, so a dry run skips them.
+            if (plan) {
+                plan.notes.push('Token image and metadata were not uploaded; the simulated token has an empty metadata URI');
+            } else {
+                try {
+                    if (delegateOptions.tokenImage) {
+                        const imageResult = await this.retryOperation(async () => {
+                            const base64Data = delegateOptions.tokenImage!.replace(/^data:image\/[a-z]+;base64,/, '');
+                            const imageBuffer = Buffer.from(base64Data, 'base64');
                         
-                        const result = await this.metadataClient.uploadImage(imageBuffer);
+                            const result = await this.metadataClient.uploadImage(imageBuffer);
+                            if (!result.success) {
+                                throw new ProtocolError(`Failed to upload token image: ${result.error}`, "metadata", { retryable: true });
+                            }
+                            return result;
+                        });
+                    
+                        metadata.image = imageResult.uri;
+                    }
+
+                    const metadataResult = await this.retryOperation(async () => {
+                        const result = await this.metadataClient.uploadMetadata(metadata);
                         if (!result.success) {
-                            throw new Error(`Failed to upload token image: ${result.error}`);
+                            throw new ProtocolError(`Failed to upload token metadata: ${result.error}`, "metadata", { retryable: true });
                         }
                         return result;
-                    }, 3);
-                    
-                    metadata.image = imageResult.uri;
-                }
-
-                const metadataResult = await this.retryOperation(async () => {
-                    const result = await this.metadataClient.uploadMetadata(metadata);
-                    if (!result.success) {
-                        throw new Error(`Failed to upload token metadata: ${result.error}`);
-                    }
-                    return result;
-                }, 3);
+                    });
                 
-                metadataUri = metadataResult.uri || '';
+                    metadataUri = metadataResult.uri || '';
                 
-                this.logOperation('metadata_upload_completed', { requestId, metadataUri });
-            } catch (error) {
-                await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
-                throw new Error(`Failed to upload token metadata: ${error}`);
+                    this.logOperation('metadata_upload_completed', { requestId, metadataUri });
+                } catch (error) {
+                    await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
+                    throw new ProtocolError(`Failed to upload token metadata: ${error}`, "metadata", { cause: error });
+                }
             }
 
-            const tokenParams: RaydiumLaunchpadTokenParams = {
+            const request: LaunchRequest<unknown> = {
                 name: delegateOptions.tokenName,
                 symbol: delegateOptions.tokenSymbol,
-                decimals: 6,
-                supply: 1000000000,
-                migrateType: delegateOptions.tokenMigrateType,
                 uri: metadataUri,
-                txVersion: TxVersion.V0,
-                buyAmount: new BN(delegateOptions.buyAmount ?? 0),
-                createOnly: delegateOptions.buyAmount === 0,
-                extraSigners: delegateOptions.extraSigners || [],
-                platformId: delegateOptions.platformId,
+                buyAmount: delegateOptions.buyAmount ?? 0,
                 slippageBps: delegateOptions.buySlippageBps || 100,
+                extraSigners: delegateOptions.extraSigners || [],
+                options: this.getPlatformOptions(delegateOptions, platform),
             };
 
-            const raydiumComputeBudgetConfig: RaydiumLaunchpadTokenComputeBudgetConfig = {
-                units: 200000,
-                microLamports: 1000000,
-            };
-
-            const result = await this.retryOperation(async () => {
-                return await this.raydiumCreateLaunchlabToken(tokenParams, raydiumComputeBudgetConfig);
+            const launch = await this.retryOperation(async () => {
+                return await platform.buildLaunch(request, {
+                    connection: this.connection,
+                    payer: this.signerKeypair.publicKey,
+                    retryOperation: operation => this.retryOperation(operation),
+                });
             }, 2);
+            const tokenMint = launch.tokenMint.toBase58();
+            const describe = (index: number) => `Launch transaction ${index + 1} of ${launch.transactions.length} for ${tokenMint} on ${platform.name}`;
 
-            this.logOperation('deployer_execution_completed', { requestId, signatures: result.signatures });
+            if (plan) {
+                for (const [index, tx] of launch.transactions.entries()) {
+                    await this.simulate(plan, tx, describe(index));
+                }
+                this.logOperation('deployer_dry_run_completed', { requestId, transactions: plan.transactions.length, errors: plan.errors.length });
+                return this.completeExecution(requestId, this.buildDryRunResult({ signatures: [], metadataUri, tokenMint, platform: platform.name }, plan));
+            }
+
+            const signatures = await this.sendLaunch(launch, describe, requestId);
+
+            this.logOperation('deployer_execution_completed', { requestId, signatures, tokenMint, platform: platform.name });
             
-            return {
+            return this.completeExecution(requestId, {
                 success: true,
-                signatures: result.signatures,
-                metadataUri
-            };
+                signatures,
+                tokenMint,
+                metadataUri,
+                platform: platform.name
+            });
             
         } catch (error) {
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
             await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
             throw error;
         }
     }
 
+    /**
+     * Add a platform tokens can be launched on, or replace the one with the same name
+     * @param platform - The platform, selected by its name through the platform option
+     * @returns The deployer, for chaining
+     */
+    registerPlatform<P>(platform: LaunchPlatform<P>): this {
+        // The platform only ever receives options its own schema validated
+        this.platforms.set(platform.name, platform as LaunchPlatform<unknown>);
+        return this;
+    }
+
     validateOptions(delegateOptions: DeployerDelegateOptions): void {
-        this.validateStringField(delegateOptions.tokenName, 'tokenName');
-        this.validateStringField(delegateOptions.tokenSymbol, 'tokenSymbol');
-        this.validateStringField(delegateOptions.tokenMigrateType, 'tokenMigrateType');
-        this.validateNumberField(delegateOptions.buyAmount, 'buyAmount', 0);
-        this.validateNumberField(delegateOptions.buySlippageBps || 100, 'buySlippageBps', 0, 10000);
-        
-        this.validatePublicKey(delegateOptions.platformId, 'platformId');
+        deployerOptionsSchema.assert(delegateOptions);
+
+        const platform = this.getPlatform(delegateOptions.platform);
+        const issues: ValidationIssue[] = [];
+        const legacyFields = Deployer.LEGACY_OPTIONS.filter(field => delegateOptions[field] !== undefined);
+        if (legacyFields.length > 0 && platform.name !== Deployer.LEGACY_PLATFORM) {
+            issues.push(...legacyFields.map(field => ({ path: field, message: `${field} is only supported on ${Deployer.LEGACY_PLATFORM}; use platformOptions` })));
+        } else if (legacyFields.length > 0) {
+            this.logOperation('deployer_deprecated_options', { fields: legacyFields, replacement: 'platformOptions' }, 'warn');
+        }
+        platform.optionsSchema.check(this.getPlatformOptions(delegateOptions, platform), 'platformOptions', issues);
+        if (!platform.supportsBuy && (delegateOptions.buyAmount ?? 0) > 0) {
+            issues.push({ path: 'buyAmount', message: `buyAmount must be 0 on ${platform.name}, which cannot buy at launch` });
+        }
+        if (issues.length > 0) {
+            throw new ValidationError(issues.map(issue => issue.message).join('; '), { issues, details: { issues } });
+        }
+    }
 
-        if (delegateOptions.tokenMigrateType !== "amm" && delegateOptions.tokenMigrateType !== "cpmm") {
-            throw new Error("Invalid token migrate type, must be amm or cpmm");
+    /**
+     * The platform's options, with the deprecated top-level Raydium LaunchLab
+     * fields moved in unless platformOptions sets them
+     */
+    private getPlatformOptions(delegateOptions: DeployerDelegateOptions, platform: LaunchPlatform<unknown>): Record<string, unknown> {
+        const platformOptions = delegateOptions.platformOptions ?? {};
+        if (platform.name !== Deployer.LEGACY_PLATFORM) {
+            return platformOptions;
         }
 
-        if (delegateOptions.tokenImage) {
-            const base64Data = delegateOptions.tokenImage.replace(/^data:image\/[a-z]+;base64,/, '');
-            if (!base64Data) {
-                throw new Error("Invalid token image, must be a valid base64 data URI");
+        const legacyOptions: Record<string, unknown> = {};
+        for (const field of Deployer.LEGACY_OPTIONS) {
+            if (delegateOptions[field] !== undefined) {
+                legacyOptions[field] = delegateOptions[field];
             }
         }
+        return { ...legacyOptions, ...platformOptions };
     }
 
-    private async raydiumCreateLaunchlabToken(tokenParams: RaydiumLaunchpadTokenParams, computeBudgetConfig: RaydiumLaunchpadTokenComputeBudgetConfig): Promise<DeployerDelegateResult> {
-        try {
-            const raydium = await Raydium.load({
-                connection: this.connection,
-                owner: this.signerKeypair.publicKey,
+    private getPlatform(name: string = Deployer.DEFAULT_PLATFORM): LaunchPlatform<unknown> {
+        const platform = this.platforms.get(name);
+        if (!platform) {
+            throw new ValidationError(`Unknown launch platform '${name}', expected one of ${[...this.platforms.keys()].map(known => `'${known}'`).join(', ')}`, {
+                issues: [{ path: 'platform', message: `Unknown launch platform '${name}'` }],
             });
-            
-            const newTokenKeypair = Keypair.generate();
-            const newTokenMint = newTokenKeypair.publicKey;
-
-            const configId = getPdaLaunchpadConfigId(
-                LAUNCHPAD_PROGRAM,
-                NATIVE_MINT,
-                0,
-                0,
-            ).publicKey;
-            
-            const configData = await this.retryOperation(async () => {
-                const data = await raydium.connection.getAccountInfo(configId);
-                if (!data) {
-                    throw new Error("Launchpad config not found");
-                }
-                return data;
-            }, 3);
-
-            const configInfo = LaunchpadConfig.decode(configData.data);
-            const baseTokenInfo = await raydium.token.getTokenInfo(configInfo.mintB);
-
-            const { transactions }: { transactions: any } = await raydium.launchpad.createLaunchpad({
-                programId: LAUNCHPAD_PROGRAM,
-                mintA: newTokenMint,
-                decimals: tokenParams.decimals,
-                name: tokenParams.name,
-                symbol: tokenParams.symbol,
-                migrateType: tokenParams.migrateType,
-                uri: tokenParams.uri,
-                feePayer: this.signerKeypair.publicKey,
-                configId: new PublicKey(configId.toBase58()),
-                configInfo,
-                mintBDecimals: baseTokenInfo.decimals,
-                platformId: new PublicKey(tokenParams.platformId),
-                txVersion: tokenParams.txVersion || TxVersion.V0,
-                slippage: new BN(tokenParams.slippageBps ?? 100),
-                buyAmount: tokenParams.createOnly ? new BN(1) : (tokenParams.buyAmount instanceof BN ? tokenParams.buyAmount : new BN(tokenParams.buyAmount || 0)),
-                createOnly: tokenParams.createOnly,
-                extraSigners: [newTokenKeypair, ...tokenParams.extraSigners],
-                supply: new BN(tokenParams.supply * 10 ** tokenParams.decimals),
-                computeBudgetConfig,
-            });
-
-            const blockhash = await this.retryOperation(async () => {
-                return (await this.connection.getLatestBlockhash()).blockhash;
-            }, 3);
+        }
+        return platform;
+    }
 
-            transactions.forEach((tx: any) => {
+    /**
+     * Sign and send the launch transactions in order
+     * @returns The signatures, in the order the transactions were sent
+     */
+    private async sendLaunch(launch: LaunchBuild, describe: (index: number) => string, requestId: number): Promise<string[]> {
+        const blockhash = await this.retryOperation(async () => {
+            return (await this.connection.getLatestBlockhash()).blockhash;
+        });
+        const signers = [this.signerKeypair, ...launch.signers];
+
+        for (const tx of launch.transactions) {
+            if (tx instanceof VersionedTransaction) {
                 tx.message.recentBlockhash = blockhash;
-                tx.sign([newTokenKeypair, ...tokenParams.extraSigners]);
-            });
+                tx.sign(signers);
+            } else {
+                tx.feePayer = this.signerKeypair.publicKey;
+                tx.recentBlockhash = blockhash;
+                tx.sign(...signers);
+            }
+        }
 
-            const signatures: string[] = [];
+        const signatures: string[] = [];
 
-            for (const tx of transactions) {
-                const signature = await this.retryOperation(async () => {
-                    if ('message' in tx) {
-                        tx.sign([newTokenKeypair, ...tokenParams.extraSigners]);
-                        return await this.connection.sendTransaction(tx, {
-                            skipPreflight: false,
-                            maxRetries: 3,
-                        });
-                    } else {
-                        tx.sign([newTokenKeypair, ...tokenParams.extraSigners]);
-                        return await this.connection.sendTransaction(tx, [newTokenKeypair, ...tokenParams.extraSigners], {
-                            skipPreflight: false,
-                            maxRetries: 3,
-                        });
-                    }
-                }, 3);
-                
-                signatures.push(signature);
-            }
+        // Launch transactions are sent without waiting for confirmation,
+        // so they emit no transaction_confirmed event
+        for (const [index, tx] of launch.transactions.entries()) {
+            const description = describe(index);
+            this.emitEvent('transaction_built', { requestId, description });
 
-            return {
-                success: true,
-                signatures,
-                tokenMint: newTokenMint.toBase58()
-            };
-        } catch (e: any) {
-            throw new Error(
-                `Failed to create Raydium Launchpad token: ${e instanceof Error ? e.message : String(e)}`,
-            );
+            const signature = await this.retryOperation(async () => {
+                return await this.connection.sendRawTransaction(tx.serialize(), {
+                    skipPreflight: false,
+                    maxRetries: 3,
+                });
+            });
+
+            this.emitEvent('transaction_sent', { requestId, description, signature });
+            signatures.push(signature);
         }
+
+        return signatures;
     }
-}
\ No newline at end of file
+}
@@ -1,10 +1,24 @@
 import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL, Transaction, SystemProgram } from "@solana/web3.js";
-import { getOrCreateAssociatedTokenAccount, Account, createTransferCheckedInstruction } from "@solana/spl-token";
-import { DistributorDelegateOptions, DistributorDelegateResult } from "./types";
+import {
+    getOrCreateAssociatedTokenAccount,
+    Account,
+    createTransferCheckedInstruction,
+    createAssociatedTokenAccountIdempotentInstruction,
+    getAssociatedTokenAddressSync
+} from "@solana/spl-token";
+import { DistributorCheckpointState, DistributorDelegateOptions, DistributorDelegateResult } from "./types";
 import { BaseDelegate } from "./base-delegate";
+import { DelegateExecutionContext } from "./base";
+import { DelegateCheckpoint, PendingTransaction } from "./checkpoint/base";
+import { createDryRunPlan } from "./dry-run";
+import { DELEGATE_TYPES } from "./constants";
 import { HeliusClient } from "../solana/clients/helius";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { isRetryableError, RpcError, ValidationError } from "../utils/errors";
+import { distributorOptionsSchema } from "./schemas";
 
 export class Distributor extends BaseDelegate<DistributorDelegateOptions, DistributorDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.DISTRIBUTOR;
     private readonly heliusClient: HeliusClient;
 
     constructor(connection: Connection, signerKeypair: Keypair, heliusClient: HeliusClient, feeTakerKeypair?: Keypair) {
@@ -12,23 +26,48 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
         this.heliusClient = heliusClient;
     }
 
-    async executeDelegate(delegateOptions: DistributorDelegateOptions): Promise<DistributorDelegateResult> {
+    async executeDelegate(delegateOptions: DistributorDelegateOptions, context: DelegateExecutionContext = {}): Promise<DistributorDelegateResult> {
         const requestId = this.generateRequestId();
+        let checkpoint: DelegateCheckpoint<DistributorCheckpointState> | null = null;
         
         try {
             this.logOperation('distributor_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
             
             this.validateOptions(delegateOptions);
 
+            if (context.dryRun) {
+                return this.completeExecution(requestId, await this.planDistribution(delegateOptions, requestId));
+            }
+
+            checkpoint = await this.openCheckpoint(delegateOptions, context, () => ({ recipients: [], results: [] }));
+            if (checkpoint.status === 'completed' && checkpoint.result) {
+                this.logOperation('distributor_execution_replayed', { requestId, key: checkpoint.key });
+                return this.completeExecution(requestId, checkpoint.result as DistributorDelegateResult);
+            }
+            checkpoint.status = 'running';
+
             // Get recipients based on distribution type
-            const recipients = await this.getRecipients(delegateOptions);
+            if (checkpoint.step === 0 && !checkpoint.pending) {
+                checkpoint.state.recipients = await this.getRecipients(delegateOptions);
+            }
+            const { recipients, results } = checkpoint.state;
             
             if (recipients.length === 0) {
-                throw new Error("No recipients found for distribution");
+                throw new ValidationError("No recipients found for distribution");
             }
 
-            const signatures: string[] = [];
-            const recipientResults: DistributorDelegateResult['recipients'] = [];
+            // A transfer sent just before the previous attempt stopped may have landed
+            const confirmedSignature = await this.resolvePendingTransaction(checkpoint);
+            if (confirmedSignature) {
+                this.emitEvent('transaction_confirmed', { requestId, description: 'Transaction sent by an earlier attempt', signature: confirmedSignature });
+                results.push({
+                    address: recipients[checkpoint.step]!,
+                    amount: delegateOptions.numTokens / recipients.length,
+                    signature: confirmedSignature
+                });
+                await this.recordStep(checkpoint, context, confirmedSignature);
+            }
 
             // Setup token account if needed
             let senderTokenAccount: Account | null = null;
@@ -44,15 +83,20 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                         this.signerKeypair.publicKey, 
                         true
                     );
-                }, 3);
+                });
             }
 
-            // Process each recipient
-            for (let i = 0; i < recipients.length; i++) {
+            // Process each recipient; each step is one recipient
+            for (let i = checkpoint.step; i < recipients.length; i++) {
+                // Each recipient is a single transaction, so stopping between them is safe
+                throwIfAborted(context.signal);
+
                 const recipientAddress = recipients[i];
                 
                 if (!recipientAddress) {
                     this.logOperation('recipient_skipped', { requestId, reason: 'undefined_address' });
+                    this.emitEvent('item_skipped', { requestId, index: i, reason: 'undefined_address', operation: 'recipient_skipped' });
+                    await this.recordStep(checkpoint, context);
                     continue;
                 }
                 
@@ -62,11 +106,13 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                         delegateOptions, 
                         recipients.length, 
                         mint, 
-                        senderTokenAccount
+                        senderTokenAccount,
+                        requestId,
+                        pending => this.recordPendingTransaction(checkpoint!, context, pending)
                     );
                     
-                    signatures.push(result.signature);
-                    recipientResults.push(result);
+                    results.push(result);
+                    await this.recordStep(checkpoint, context, result.signature);
                     
                     this.logOperation('recipient_processed', { 
                         requestId, 
@@ -74,6 +120,7 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                         signature: result.signature 
                     });
                 } catch (error) {
+                    this.emitEvent('item_failed', { requestId, index: i, item: recipientAddress, error: error instanceof Error ? error.message : String(error) });
                     await this.handleError(error instanceof Error ? error : new Error(String(error)), { 
                         requestId, 
                         recipientAddress 
@@ -82,6 +129,7 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                     // For multi distribution, continue with next recipient
                     if (delegateOptions.distributionType === 'multi') {
                         this.logOperation('recipient_skipped', { requestId, recipientAddress });
+                        await this.recordStep(checkpoint, context);
                         continue;
                     } else {
                         // For single and holders distribution, throw error
@@ -90,93 +138,70 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                 }
             }
 
+            const { signatures } = checkpoint;
             this.logOperation('distributor_execution_completed', { requestId, signatures });
             
-            return {
+            const result: DistributorDelegateResult = {
                 success: true,
                 signatures,
-                recipients: recipientResults
+                recipients: results
             };
+            await this.finishCheckpoint(checkpoint, context, 'completed', { result });
+            return this.completeExecution(requestId, result);
             
         } catch (error) {
+            if (checkpoint && isAbortError(error)) {
+                this.logOperation('distributor_execution_aborted', { requestId, signatures: checkpoint.signatures });
+                const result = this.buildAbortedResult({
+                    signatures: checkpoint.signatures,
+                    recipients: checkpoint.state.results
+                }, checkpoint.state.results.length, checkpoint.state.recipients.length, context.signal);
+                await this.finishCheckpoint(checkpoint, context, 'aborted', { error: result.error });
+                return this.completeExecution(requestId, result);
+            }
+
+            if (checkpoint) {
+                await this.finishCheckpoint(checkpoint, context, 'failed', { error: error instanceof Error ? error.message : String(error) });
+            }
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
             await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
             throw error;
         }
     }
 
     validateOptions(delegateOptions: DistributorDelegateOptions): void {
-        this.validateNumberField(delegateOptions.numTokens, 'numTokens', 0);
-
-        if (delegateOptions.tokenAddress) {
-            this.validatePublicKey(delegateOptions.tokenAddress, 'tokenAddress');
-        }
-
-        switch (delegateOptions.distributionType) {
-            case 'single':
-                if (!delegateOptions.singleAddress) {
-                    throw new Error("singleAddress is required for single distribution");
-                }
-                this.validatePublicKey(delegateOptions.singleAddress, 'singleAddress');
-                break;
-                
-            case 'multi':
-                if (!delegateOptions.multipleAddresses || delegateOptions.multipleAddresses.length === 0) {
-                    throw new Error("multipleAddresses array is required for multi distribution");
-                }
-                for (const address of delegateOptions.multipleAddresses) {
-                    this.validatePublicKey(address, 'multipleAddresses');
-                }
-                break;
-                
-            case 'holders':
-                if (!delegateOptions.distributionMethod) {
-                    throw new Error("distributionMethod is required for holders distribution");
-                }
-                if (delegateOptions.distributionMethod === 'topx') {
-                    if (!delegateOptions.topX || delegateOptions.topX <= 0) {
-                        throw new Error("topX must be greater than 0 for topx distribution method");
-                    }
-                    if (!delegateOptions.holderOfWhichToken) {
-                        throw new Error("holderOfWhichToken is required for holders distribution");
-                    }
-                    this.validatePublicKey(delegateOptions.holderOfWhichToken, 'holderOfWhichToken');
-                }
-                break;
-                
-            default:
-                throw new Error(`Invalid distribution type: ${delegateOptions.distributionType}`);
-        }
+        distributorOptionsSchema.assert(delegateOptions);
     }
 
     private async getRecipients(delegateOptions: DistributorDelegateOptions): Promise<string[]> {
         switch (delegateOptions.distributionType) {
             case 'single':
                 if (!delegateOptions.singleAddress) {
-                    throw new Error("singleAddress is required for single distribution");
+                    throw new ValidationError("singleAddress is required for single distribution");
                 }
                 return [delegateOptions.singleAddress];
                 
             case 'multi':
                 if (!delegateOptions.multipleAddresses) {
-                    throw new Error("multipleAddresses is required for multi distribution");
+                    throw new ValidationError("multipleAddresses is required for multi distribution");
                 }
                 return delegateOptions.multipleAddresses;
                 
             case 'holders':
                 if (delegateOptions.distributionMethod === 'topx') {
                     if (!delegateOptions.holderOfWhichToken) {
-                        throw new Error("holderOfWhichToken is required for holders distribution");
+                        throw new ValidationError("holderOfWhichToken is required for holders distribution");
                     }
                     if (!delegateOptions.topX) {
-                        throw new Error("topX is required for topx distribution method");
+                        throw new ValidationError("topX is required for topx distribution method");
                     }
                     return await this.getTopHolders(delegateOptions.holderOfWhichToken, delegateOptions.topX);
                 } else {
-                    throw new Error("Distribution method 'all' not yet implemented");
+                    throw new ValidationError("Distribution method 'all' not yet implemented");
                 }
                 
             default:
-                throw new Error(`Invalid distribution type: ${delegateOptions.distributionType}`);
+                throw new ValidationError(`Invalid distribution type: ${delegateOptions.distributionType}`);
         }
     }
 
@@ -184,10 +209,10 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
         try {
             const holdersData = await this.retryOperation(async () => {
                 return await this.heliusClient.getTopHolders(tokenAddress);
-            }, 3);
+            });
 
             if (!holdersData || !Array.isArray(holdersData)) {
-                throw new Error("Invalid response from getTopHolders");
+                throw new RpcError("Invalid response from getTopHolders", { retryable: false });
             }
 
             // Extract owner addresses from the largest accounts
@@ -199,7 +224,7 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                     // Get the owner of this token account using Helius API
                     const owner = await this.retryOperation(async () => {
                         return await this.heliusClient.getTokenAccountOwner(holder.address);
-                    }, 3);
+                    });
 
                     if (owner) {
                         ownerAddresses.push(owner);
@@ -213,7 +238,7 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
                 tokenAddress, 
                 error: error instanceof Error ? error.message : String(error) 
             });
-            throw new Error(`Failed to get top holders for token ${tokenAddress}: ${error}`);
+            throw new RpcError(`Failed to get top holders for token ${tokenAddress}: ${error}`, { cause: error, retryable: isRetryableError(error) });
         }
     }
 
@@ -222,31 +247,112 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
         delegateOptions: DistributorDelegateOptions,
         numRecipients: number,
         mint: PublicKey | null,
-        senderTokenAccount: Account | null
+        senderTokenAccount: Account | null,
+        requestId: number,
+        onSent?: (pending: PendingTransaction) => Promise<void>
     ): Promise<DistributorDelegateResult['recipients'][0]> {
+        const description = `Transfer to ${recipientAddress}`;
         const recipientPubkey = new PublicKey(recipientAddress);
+        const transaction = await this.buildTransferTransaction(
+            recipientPubkey,
+            delegateOptions,
+            numRecipients,
+            mint,
+            senderTokenAccount?.address ?? null,
+            false
+        );
+
+        transaction.feePayer = this.signerKeypair.publicKey;
+        
+        const { blockhash, lastValidBlockHeight } = await this.retryOperation(async () => {
+            return await this.connection.getLatestBlockhash();
+        });
+        
+        transaction.recentBlockhash = blockhash;
+        transaction.sign(this.signerKeypair);
+        this.emitEvent('transaction_built', { requestId, description });
+
+        const signature = await this.retryOperation(async () => {
+            return await this.connection.sendTransaction(transaction, [this.signerKeypair], {
+                skipPreflight: false,
+                maxRetries: 3,
+            });
+        });
+
+        this.emitEvent('transaction_sent', { requestId, description, signature });
+        await onSent?.({ signature, lastValidBlockHeight });
+
+        // Wait for confirmation
+        await this.retryOperation(async () => {
+            const latestBlockhash = await this.connection.getLatestBlockhash();
+            await this.connection.confirmTransaction({
+                blockhash: latestBlockhash.blockhash,
+                lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+                signature
+            });
+            return true;
+        });
+        this.emitEvent('transaction_confirmed', { requestId, description, signature });
+
+        const amount = delegateOptions.tokenAddress 
+            ? delegateOptions.numTokens / numRecipients
+            : delegateOptions.numTokens / numRecipients;
+
+        return {
+            address: recipientAddress,
+            amount,
+            signature
+        };
+    }
+
+    /**
+     * Build the transfer of one recipient's share
+     * @param dryRun - Instead of creating the recipient's token account first, create it within the transaction
+     */
+    private async buildTransferTransaction(
+        recipientPubkey: PublicKey,
+        delegateOptions: DistributorDelegateOptions,
+        numRecipients: number,
+        mint: PublicKey | null,
+        senderTokenAddress: PublicKey | null,
+        dryRun: boolean
+    ): Promise<Transaction> {
         const transaction = new Transaction();
 
-        if (delegateOptions.tokenAddress && mint && senderTokenAccount) {
+        if (delegateOptions.tokenAddress && mint && senderTokenAddress) {
             // Token transfer
-            const receivingTokenAccount = await this.retryOperation(async () => {
-                return await getOrCreateAssociatedTokenAccount(
-                    this.connection, 
-                    this.signerKeypair, 
-                    mint, 
-                    recipientPubkey, 
-                    true
+            let receivingTokenAddress: PublicKey;
+            if (dryRun) {
+                receivingTokenAddress = getAssociatedTokenAddressSync(mint, recipientPubkey, true);
+                transaction.add(
+                    createAssociatedTokenAccountIdempotentInstruction(
+                        this.signerKeypair.publicKey,
+                        receivingTokenAddress,
+                        recipientPubkey,
+                        mint
+                    )
                 );
-            }, 3);
+            } else {
+                const receivingTokenAccount = await this.retryOperation(async () => {
+                    return await getOrCreateAssociatedTokenAccount(
+                        this.connection, 
+                        this.signerKeypair, 
+                        mint, 
+                        recipientPubkey, 
+                        true
+                    );
+                });
+                receivingTokenAddress = receivingTokenAccount.address;
+            }
 
             const decimals = await this.getTokenDecimals(delegateOptions.tokenAddress);
             const amountToTransfer = Math.floor(this.calculateAmountToTransfer(delegateOptions.numTokens, numRecipients, decimals));
 
             transaction.add(
                 createTransferCheckedInstruction(
-                    senderTokenAccount.address,
+                    senderTokenAddress,
                     mint,
-                    receivingTokenAccount.address,
+                    receivingTokenAddress,
                     this.signerKeypair.publicKey,
                     amountToTransfer,
                     decimals
@@ -265,42 +371,43 @@ export class Distributor extends BaseDelegate<DistributorDelegateOptions, Distri
             );
         }
 
-        transaction.feePayer = this.signerKeypair.publicKey;
-        
-        const blockhash = await this.retryOperation(async () => {
-            return (await this.connection.getLatestBlockhash()).blockhash;
-        }, 3);
-        
-        transaction.recentBlockhash = blockhash;
-        transaction.sign(this.signerKeypair);
+        return transaction;
+    }
 
-        const signature = await this.retryOperation(async () => {
-            return await this.connection.sendTransaction(transaction, [this.signerKeypair], {
-                skipPreflight: false,
-                maxRetries: 3,
-            });
-        }, 3);
+    /**
+     * Simulate every transfer without sending anything. Token accounts that
+     * do not exist yet are created within each simulated transaction.
+     */
+    private async planDistribution(delegateOptions: DistributorDelegateOptions, requestId: number): Promise<DistributorDelegateResult> {
+        const plan = createDryRunPlan();
+        const recipients = await this.getRecipients(delegateOptions);
 
-        // Wait for confirmation
-        await this.retryOperation(async () => {
-            const latestBlockhash = await this.connection.getLatestBlockhash();
-            await this.connection.confirmTransaction({
-                blockhash: latestBlockhash.blockhash,
-                lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
-                signature
-            });
-            return true;
-        }, 3);
+        if (recipients.length === 0) {
+            throw new ValidationError("No recipients found for distribution");
+        }
 
-        const amount = delegateOptions.tokenAddress 
-            ? delegateOptions.numTokens / numRecipients
-            : delegateOptions.numTokens / numRecipients;
+        const mint = delegateOptions.tokenAddress ? new PublicKey(delegateOptions.tokenAddress) : null;
+        const senderTokenAddress = mint ? getAssociatedTokenAddressSync(mint, this.signerKeypair.publicKey, true) : null;
+        const amount = delegateOptions.numTokens / recipients.length;
 
-        return {
-            address: recipientAddress,
-            amount,
-            signature
-        };
+        for (const recipientAddress of recipients) {
+            if (!recipientAddress) {
+                continue;
+            }
+
+            const transaction = await this.buildTransferTransaction(
+                new PublicKey(recipientAddress),
+                delegateOptions,
+                recipients.length,
+                mint,
+                senderTokenAddress,
+                true
+            );
+            await this.simulate(plan, transaction, `Transfer ${amount} ${delegateOptions.tokenAddress ?? 'SOL'} to ${recipientAddress}`);
+        }
+
+        this.logOperation('distributor_dry_run_completed', { requestId, transactions: plan.transactions.length, errors: plan.errors.length });
+        return this.buildDryRunResult({ signatures: [], recipients: [] }, plan);
     }
 
     private async getTokenDecimals(_: string): Promise<number> {
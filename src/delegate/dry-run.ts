@@ -0,0 +1,88 @@
+import { Connection, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { BalanceChange, DryRunPlan, SimulatedTransaction } from "./types";
+
+/**
+ * Start an empty dry-run plan
+ */
+export function createDryRunPlan(): DryRunPlan {
+    return {
+        transactions: [],
+        balanceChanges: [],
+        totalFee: 0,
+        totalComputeUnits: 0,
+        errors: [],
+        notes: []
+    };
+}
+
+/**
+ * Add a simulated transaction to a plan and update its totals
+ * @param plan - The plan to add to
+ * @param simulated - The simulated transaction
+ */
+export function addToDryRunPlan(plan: DryRunPlan, simulated: SimulatedTransaction): void {
+    plan.transactions.push(simulated);
+    plan.totalFee += simulated.fee;
+    plan.totalComputeUnits += simulated.computeUnits ?? 0;
+
+    if (simulated.error) {
+        plan.errors.push(`${simulated.description}: ${simulated.error}`);
+    }
+
+    for (const change of simulated.balanceChanges) {
+        const existing = plan.balanceChanges.find(item => item.address === change.address);
+        if (existing) {
+            existing.lamports += change.lamports;
+        } else {
+            plan.balanceChanges.push({ ...change });
+        }
+    }
+}
+
+/**
+ * Simulate a transaction without signing or sending it. Balance changes
+ * compare the writable accounts before and after the simulation.
+ * @param connection - Connection to simulate with
+ * @param transaction - A legacy transaction with its fee payer and blockhash set, or a versioned transaction
+ * @param description - What the transaction does, for the plan
+ * @returns The simulation outcome
+ */
+export async function simulateTransaction(
+    connection: Connection,
+    transaction: Transaction | VersionedTransaction,
+    description: string
+): Promise<SimulatedTransaction> {
+    const message = transaction instanceof VersionedTransaction ? transaction.message : transaction.compileMessage();
+    const versioned = transaction instanceof VersionedTransaction ? transaction : new VersionedTransaction(message);
+
+    // Accounts loaded through lookup tables are not known without fetching the tables
+    const writable = message.staticAccountKeys.filter((_, index) => message.isAccountWritable(index));
+    const before = await connection.getMultipleAccountsInfo(writable);
+
+    const { value } = await connection.simulateTransaction(versioned, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        accounts: { encoding: 'base64', addresses: writable.map(key => key.toBase58()) }
+    });
+    const { value: fee } = await connection.getFeeForMessage(message);
+
+    const balanceChanges: BalanceChange[] = [];
+    if (!value.err) {
+        writable.forEach((address: PublicKey, index) => {
+            const lamports = (value.accounts?.[index]?.lamports ?? 0) - (before[index]?.lamports ?? 0);
+            if (lamports !== 0) {
+                balanceChanges.push({ address: address.toBase58(), lamports });
+            }
+        });
+    }
+
+    return {
+        description,
+        success: !value.err,
+        ...(value.err ? { error: typeof value.err === 'string' ? value.err : JSON.stringify(value.err) } : {}),
+        ...(value.unitsConsumed !== undefined ? { computeUnits: value.unitsConsumed } : {}),
+        fee: fee ?? 0,
+        balanceChanges,
+        logs: value.logs ?? []
+    };
+}
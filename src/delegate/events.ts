@@ -0,0 +1,125 @@
+import { BaseDelegateResult } from "./types";
+
+/**
+ * Fields every delegate event carries
+ */
+export interface DelegateEventBase<K extends string = string> {
+    event: K;
+    delegateType: string;
+    requestId: number; // Matches the requestId of the run's log entries
+    timestamp: Date;
+}
+
+/**
+ * Payloads of delegate lifecycle events, keyed by event name. A run emits
+ * execution_started, then either execution_completed (also for aborted and
+ * unsuccessful results) or execution_failed when it throws.
+ */
+export interface DelegateEventMap {
+    execution_started: DelegateEventBase<'execution_started'> & { dryRun: boolean };
+    transaction_built: DelegateEventBase<'transaction_built'> & { description: string };
+    transaction_sent: DelegateEventBase<'transaction_sent'> & { description: string; signature: string };
+    transaction_confirmed: DelegateEventBase<'transaction_confirmed'> & { description: string; signature: string };
+    item_skipped: DelegateEventBase<'item_skipped'> & { index: number; item?: string; reason: string; operation: string }; // operation as logged, e.g. 'allocation_skipped'
+    item_failed: DelegateEventBase<'item_failed'> & { index: number; item?: string; error: string };
+    execution_completed: DelegateEventBase<'execution_completed'> & { result: BaseDelegateResult };
+    execution_failed: DelegateEventBase<'execution_failed'> & { error: string };
+}
+
+export type DelegateEventName = keyof DelegateEventMap;
+
+/**
+ * Any delegate event; narrow it by its event field
+ */
+export type DelegateEvent = DelegateEventMap[DelegateEventName];
+
+/**
+ * Fields a delegate supplies when emitting; the emitter adds the rest
+ */
+export type DelegateEventInput<K extends DelegateEventName> = Omit<DelegateEventMap[K], 'event' | 'delegateType' | 'timestamp'>;
+
+export type DelegateEventListener<K extends DelegateEventName> = (payload: DelegateEventMap[K]) => void | Promise<void>;
+export type DelegateAnyEventListener = (payload: DelegateEvent) => void | Promise<void>;
+
+/**
+ * Typed emitter for delegate lifecycle events. Listeners run synchronously
+ * in registration order and are not awaited; a listener that throws or
+ * rejects is reported to onListenerError and never fails the delegate run.
+ */
+export class DelegateEventEmitter {
+    private readonly listeners = new Map<DelegateEventName, Set<DelegateEventListener<any>>>();
+    private readonly anyListeners = new Set<DelegateAnyEventListener>();
+    private readonly onListenerError?: (error: Error, payload: DelegateEvent) => void;
+
+    constructor(onListenerError?: (error: Error, payload: DelegateEvent) => void) {
+        this.onListenerError = onListenerError;
+    }
+
+    /**
+     * Subscribe to an event
+     * @param event - The event name
+     * @param listener - Called with each payload
+     * @returns A function that removes the listener
+     */
+    public on<K extends DelegateEventName>(event: K, listener: DelegateEventListener<K>): () => void {
+        const listeners = this.listeners.get(event) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(event, listeners);
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Subscribe to the next occurrence of an event only
+     * @param event - The event name
+     * @param listener - Called with the payload
+     * @returns A function that removes the listener
+     */
+    public once<K extends DelegateEventName>(event: K, listener: DelegateEventListener<K>): () => void {
+        const wrapper: DelegateEventListener<K> = payload => {
+            this.off(event, wrapper);
+            return listener(payload);
+        };
+        return this.on(event, wrapper);
+    }
+
+    /**
+     * Remove a listener added with on
+     * @param event - The event name
+     * @param listener - The listener to remove
+     */
+    public off<K extends DelegateEventName>(event: K, listener: DelegateEventListener<K>): void {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    /**
+     * Subscribe to every event
+     * @param listener - Called with each payload
+     * @returns A function that removes the listener
+     */
+    public onAny(listener: DelegateAnyEventListener): () => void {
+        this.anyListeners.add(listener);
+        return () => this.anyListeners.delete(listener);
+    }
+
+    /**
+     * Deliver an event to its listeners, then to listeners of every event
+     * @param payload - The complete event payload
+     */
+    public emit(payload: DelegateEvent): void {
+        const listeners = [...(this.listeners.get(payload.event) ?? []), ...this.anyListeners];
+        for (const listener of listeners) {
+            try {
+                const result = listener(payload);
+                if (result instanceof Promise) {
+                    result.catch(error => this.reportListenerError(error, payload));
+                }
+            } catch (error) {
+                this.reportListenerError(error, payload);
+            }
+        }
+    }
+
+    private reportListenerError(error: unknown, payload: DelegateEvent): void {
+        this.onListenerError?.(error instanceof Error ? error : new Error(String(error)), payload);
+    }
+}
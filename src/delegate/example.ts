@@ -4,6 +4,7 @@ import { BaseDelegateOptions, BaseDelegateResult, DeployerDelegateOptions } from
 import { Deployer } from "./deployer";
 import { IrysClient } from "../solana/clients/metadata/irys";
 import { DELEGATE_TYPES } from "./constants";
+import { DelegateRegistry } from "./registry";
 
 // Example of how to create and use delegates with the framework
 
@@ -25,11 +26,14 @@ export class ExampleUsage {
             
             const deployOptions: DeployerDelegateOptions = {
                 type: DELEGATE_TYPES.DEPLOYER,
-                platformId: "your-platform-id",
+                platform: "raydium-launchlab",
+                platformOptions: {
+                    platformId: "your-platform-id",
+                    tokenMigrateType: "amm",
+                },
                 tokenName: "My Token",
                 tokenSymbol: "MTK",
                 tokenDescription: "A great token",
-                tokenMigrateType: "amm",
                 buyAmount: 1000000, // 1 SOL in lamports
                 buySlippageBps: 500, // 5%
                 tokenImage: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
@@ -51,6 +55,37 @@ export class ExampleUsage {
     }
 }
 
+// Example of registering a custom delegate type alongside the built-in ones
+export class RegistryExample {
+
+    static createRegistry(): DelegateRegistry {
+        const connection = new Connection("https://api.mainnet-beta.solana.com");
+        const signerKeypair = Keypair.generate(); // In real usage, load from secure storage
+        const metadataClient = new IrysClient({
+            privateKey: "your-private-key-here"
+        });
+
+        const registry = new DelegateRegistry({ connection, signerKeypair, metadataClient });
+        registry.register<CustomDelegateOptions, CustomDelegateResult>(
+            "custom",
+            deps => new CustomDelegate(deps.connection, deps.signerKeypair, deps.feeTakerKeypair)
+        );
+
+        return registry;
+    }
+
+    static async executeCustomExample(): Promise<CustomDelegateResult> {
+        const registry = this.createRegistry();
+
+        // Dispatches to CustomDelegate based on options.type
+        return await registry.executeDelegate({
+            type: "custom",
+            customField: "tokens",
+            amount: 5
+        }) as CustomDelegateResult;
+    }
+}
+
 // Example of creating a custom delegate by extending BaseDelegate
 export interface CustomDelegateOptions extends BaseDelegateOptions {
     type: "custom";
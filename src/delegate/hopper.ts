@@ -1,12 +1,26 @@
 import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL, Transaction, SystemProgram } from "@solana/web3.js";
-import { getOrCreateAssociatedTokenAccount, Account, createTransferCheckedInstruction, getMint } from "@solana/spl-token";
-import { HopperDelegateOptions, HopperDelegateResult } from "./types";
+import {
+    getOrCreateAssociatedTokenAccount,
+    Account,
+    createTransferCheckedInstruction,
+    createAssociatedTokenAccountIdempotentInstruction,
+    getAssociatedTokenAddressSync,
+    getMint
+} from "@solana/spl-token";
+import { HopperCheckpointState, HopperDelegateOptions, HopperDelegateResult } from "./types";
 import { BaseDelegate } from "./base-delegate";
+import { DelegateExecutionContext } from "./base";
+import { DelegateCheckpoint, PendingTransaction } from "./checkpoint/base";
+import { createDryRunPlan } from "./dry-run";
 import { HeliusClient } from "../solana/clients/helius";
-import { TOKEN_ACCOUNT_RENT, FEE_WALLET_ADDRESS } from "./constants";
+import { DELEGATE_TYPES, TOKEN_ACCOUNT_RENT, FEE_WALLET_ADDRESS } from "./constants";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { InsufficientFundsError, RpcError, TransactionFailedError, ValidationError } from "../utils/errors";
+import { hopperOptionsSchema } from "./schemas";
 import bs58 from "bs58";
 
 export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.HOPPER;
     private readonly heliusClient: HeliusClient;
 
     constructor(
@@ -19,118 +33,144 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
         this.heliusClient = heliusClient;
     }
 
-    async executeDelegate(delegateOptions: HopperDelegateOptions): Promise<HopperDelegateResult> {
+    async executeDelegate(delegateOptions: HopperDelegateOptions, context: DelegateExecutionContext = {}): Promise<HopperDelegateResult> {
         const requestId = this.generateRequestId();
+        let checkpoint: DelegateCheckpoint<HopperCheckpointState> | null = null;
         
         try {
             this.logOperation('hopper_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
             
             this.validateOptions(delegateOptions);
 
             const { hopDestination, numOfHops, numTokens, tokenType, tokenAddress } = delegateOptions;
+
+            if (context.dryRun) {
+                return this.completeExecution(requestId, await this.planHopping(delegateOptions, requestId));
+            }
             
+            checkpoint = await this.openCheckpoint(delegateOptions, context, () => ({ hopMap: [] }));
+            if (checkpoint.status === 'completed' && checkpoint.result) {
+                this.logOperation('hopper_execution_replayed', { requestId, key: checkpoint.key });
+                return this.completeExecution(requestId, checkpoint.result as HopperDelegateResult);
+            }
+            checkpoint.status = 'running';
+
             const hopDestinationPubkey = new PublicKey(hopDestination);
-            const hopMap: { publicKey: string; privateKey: string }[] = [];
-            const signatures: string[] = [];
 
             this.logOperation('hopper_setup', { 
                 requestId, 
                 numOfHops, 
                 tokenType, 
-                destination: hopDestination 
+                destination: hopDestination,
+                checkpointKey: checkpoint.key,
+                resumeFromStep: checkpoint.step
             });
 
+            // A transaction sent just before the previous attempt stopped may have landed
+            const confirmedSignature = await this.resolvePendingTransaction(checkpoint);
+            if (confirmedSignature) {
+                this.emitEvent('transaction_confirmed', { requestId, description: 'Transaction sent by an earlier attempt', signature: confirmedSignature });
+                await this.recordStep(checkpoint, context, confirmedSignature);
+            }
+
             if (tokenType === 'sol') {
                 // Native SOL hopper logic
-                const result = await this.executeSolHopping(
+                await this.executeSolHopping(
                     numOfHops, 
                     numTokens, 
                     hopDestinationPubkey, 
-                    hopMap, 
+                    checkpoint,
+                    context,
                     requestId
                 );
-                signatures.push(...result.signatures);
             } else {
                 // Token hopper logic
                 if (!tokenAddress) {
-                    throw new Error("tokenAddress is required when tokenType is 'token'");
+                    throw new ValidationError("tokenAddress is required when tokenType is 'token'");
                 }
                 
-                const result = await this.executeTokenHopping(
+                await this.executeTokenHopping(
                     numOfHops, 
                     numTokens, 
                     tokenAddress, 
                     hopDestinationPubkey, 
-                    hopMap, 
+                    checkpoint,
+                    context,
                     requestId
                 );
-                signatures.push(...result.signatures);
             }
 
+            const { signatures } = checkpoint;
             this.logOperation('hopper_execution_completed', { 
                 requestId, 
                 signatures, 
                 totalHops: numOfHops 
             });
             
-            return {
+            const result: HopperDelegateResult = {
                 success: true,
                 signatures,
-                hopMap,
+                hopMap: checkpoint.state.hopMap,
                 finalDestination: hopDestination,
                 totalHops: numOfHops
             };
+            await this.finishCheckpoint(checkpoint, context, 'completed', { result });
+            return this.completeExecution(requestId, result);
             
         } catch (error) {
+            if (checkpoint && isAbortError(error)) {
+                // Funds stop in the last wallet of hopMap, whose key is returned with the result
+                const completedHops = this.getCompletedHops(checkpoint, delegateOptions.tokenType);
+                this.logOperation('hopper_execution_aborted', { requestId, completedHops });
+                const result = this.buildAbortedResult({
+                    signatures: checkpoint.signatures,
+                    hopMap: checkpoint.state.hopMap,
+                    finalDestination: delegateOptions.hopDestination,
+                    totalHops: delegateOptions.numOfHops
+                }, completedHops, delegateOptions.numOfHops, context.signal);
+                await this.finishCheckpoint(checkpoint, context, 'aborted', { error: result.error });
+                return this.completeExecution(requestId, result);
+            }
+
+            if (checkpoint) {
+                await this.finishCheckpoint(checkpoint, context, 'failed', { error: error instanceof Error ? error.message : String(error) });
+            }
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
             await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
             throw error;
         }
     }
 
     validateOptions(delegateOptions: HopperDelegateOptions): void {
-        this.validateRequiredField(delegateOptions.hopDestination, 'hopDestination');
-        this.validatePublicKey(delegateOptions.hopDestination, 'hopDestination');
-        
-        this.validateNumberField(delegateOptions.numOfHops, 'numOfHops', 1, 100);
-        this.validateNumberField(delegateOptions.numTokens, 'numTokens', 0);
-        
-        if (delegateOptions.tokenType !== 'sol' && delegateOptions.tokenType !== 'token') {
-            throw new Error("tokenType must be either 'sol' or 'token'");
-        }
-        
-        if (delegateOptions.tokenType === 'token') {
-            this.validateRequiredField(delegateOptions.tokenAddress, 'tokenAddress');
-            this.validatePublicKey(delegateOptions.tokenAddress!, 'tokenAddress');
-        }
+        hopperOptionsSchema.assert(delegateOptions);
     }
 
     private async executeSolHopping(
         numOfHops: number,
         numTokens: number,
         hopDestination: PublicKey,
-        hopMap: { publicKey: string; privateKey: string }[],
+        checkpoint: DelegateCheckpoint<HopperCheckpointState>,
+        context: DelegateExecutionContext,
         requestId: number
-    ): Promise<{ signatures: string[] }> {
-        const signatures: string[] = [];
+    ): Promise<void> {
         const rentAndMinBalance = TOKEN_ACCOUNT_RENT + 50000; // Rent + minimum balance
         const costBuffer = Math.max(rentAndMinBalance, 50000); // Ensure we always leave at least rent
         const initialBalance = numTokens * LAMPORTS_PER_SOL;
-        let lastHopKeypair = this.signerKeypair;
 
-        for (let i = 0; i < numOfHops; i++) {
+        // Each step is one hop transaction
+        for (let i = checkpoint.step; i < numOfHops; i++) {
+            throwIfAborted(context.signal);
+
             this.logOperation('sol_hop_progress', { 
                 requestId, 
                 currentHop: i + 1, 
                 totalHops: numOfHops 
             });
 
+            const lastHopKeypair = this.getHopKeypair(checkpoint, i - 1);
             const senderBalance = i === 0 ? initialBalance : await this.heliusClient.getBalance(lastHopKeypair.publicKey);
-            const newHopKeypair = Keypair.generate();
-            
-            hopMap.push({
-                publicKey: newHopKeypair.publicKey.toBase58(),
-                privateKey: bs58.encode(newHopKeypair.secretKey)
-            });
+            const newHopKeypair = await this.prepareHopWallet(checkpoint, context, i);
 
             const transaction = new Transaction();
             transaction.add(
@@ -141,13 +181,10 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
                 })
             );
 
-            const signature = await this.executeTransaction(transaction, lastHopKeypair, requestId);
-            signatures.push(signature);
-            
-            lastHopKeypair = newHopKeypair;
+            const description = `Hop ${i + 1} of ${numOfHops}`;
+            const signature = await this.executeTransaction(transaction, lastHopKeypair, requestId, description, pending => this.recordPendingTransaction(checkpoint, context, pending));
+            await this.recordStep(checkpoint, context, signature);
         }
-
-        return { signatures };
     }
 
     private async executeTokenHopping(
@@ -155,19 +192,21 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
         numTokens: number,
         tokenAddress: string,
         hopDestination: PublicKey,
-        hopMap: { publicKey: string; privateKey: string }[],
+        checkpoint: DelegateCheckpoint<HopperCheckpointState>,
+        context: DelegateExecutionContext,
         requestId: number
-    ): Promise<{ signatures: string[] }> {
-        const signatures: string[] = [];
+    ): Promise<void> {
         const mint = new PublicKey(tokenAddress);
         const decimals = await this.getTokenDecimals(tokenAddress);
         const amountToTransfer = Math.floor(this.calculateAmountToTransfer(numTokens, 1, decimals));
         
         if (decimals === -1) {
-            throw new Error("Failed to get token decimals");
+            throw new RpcError("Failed to get token decimals");
         }
 
-        let lastHopKeypair = this.signerKeypair;
+        // Each hop takes two steps: the token transfer, then the SOL the next wallet needs for fees
+        const firstHop = Math.floor(checkpoint.step / 2);
+        let lastHopKeypair = this.getHopKeypair(checkpoint, firstHop - 1);
         let lastHopTokenAccount: Account | null = null;
 
         // Get or create initial token account
@@ -182,26 +221,25 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
         }, 5);
 
         if (!lastHopTokenAccount) {
-            throw new Error("Failed to get last hop token account");
+            throw new RpcError("Failed to get last hop token account");
         }
 
-        for (let i = 0; i < numOfHops; i++) {
+        for (let i = firstHop; i < numOfHops; i++) {
+            const tokenSent = checkpoint.step > 2 * i;
+
+            // Stopping between the two transactions would leave tokens in a wallet
+            // with no SOL to move them, so the only safe place to stop is between hops
+            if (!tokenSent) {
+                throwIfAborted(context.signal);
+            }
+
             this.logOperation('token_hop_progress', { 
                 requestId, 
                 currentHop: i + 1, 
                 totalHops: numOfHops 
             });
 
-            const initialBalance = await this.getTokenBalance(lastHopTokenAccount.address.toBase58());
-            if (initialBalance < amountToTransfer) {
-                throw new Error(`Insufficient token balance. Required: ${amountToTransfer}, Available: ${initialBalance}`);
-            }
-
-            const newHopKeypair = Keypair.generate();
-            hopMap.push({
-                publicKey: newHopKeypair.publicKey.toBase58(),
-                privateKey: bs58.encode(newHopKeypair.secretKey)
-            });
+            const newHopKeypair = await this.prepareHopWallet(checkpoint, context, i);
 
             const newHopAddress = (i === numOfHops - 1) ? hopDestination : newHopKeypair.publicKey;
             const newHopTokenAccount = await this.retryOperation(async () => {
@@ -215,29 +253,36 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
             }, 5);
 
             if (!newHopTokenAccount) {
-                throw new Error("Failed to get new hop token account");
+                throw new RpcError("Failed to get new hop token account");
             }
 
-            // Transfer tokens
-            const tokenTransaction = new Transaction();
-            tokenTransaction.add(
-                createTransferCheckedInstruction(
-                    lastHopTokenAccount.address,
-                    mint,
-                    newHopTokenAccount.address,
-                    lastHopKeypair.publicKey,
-                    amountToTransfer,
-                    decimals
-                )
-            );
+            if (!tokenSent) {
+                const initialBalance = await this.getTokenBalance(lastHopTokenAccount.address.toBase58());
+                if (initialBalance < amountToTransfer) {
+                    throw new InsufficientFundsError(`Insufficient token balance. Required: ${amountToTransfer}, Available: ${initialBalance}`);
+                }
+
+                // Transfer tokens
+                const tokenTransaction = new Transaction();
+                tokenTransaction.add(
+                    createTransferCheckedInstruction(
+                        lastHopTokenAccount.address,
+                        mint,
+                        newHopTokenAccount.address,
+                        lastHopKeypair.publicKey,
+                        amountToTransfer,
+                        decimals
+                    )
+                );
 
-            const tokenSignature = await this.executeTransaction(tokenTransaction, lastHopKeypair, requestId);
-            signatures.push(tokenSignature);
+                const tokenSignature = await this.executeTransaction(tokenTransaction, lastHopKeypair, requestId, `Hop ${i + 1} of ${numOfHops}: tokens`, pending => this.recordPendingTransaction(checkpoint, context, pending));
+                await this.recordStep(checkpoint, context, tokenSignature);
 
-            // Verify transfer
-            const newBalance = await this.getTokenBalance(newHopTokenAccount.address.toBase58());
-            if (newBalance < amountToTransfer) {
-                throw new Error("Token transfer may have failed - balance not updated");
+                // Verify transfer
+                const newBalance = await this.getTokenBalance(newHopTokenAccount.address.toBase58());
+                if (newBalance < amountToTransfer) {
+                    throw new TransactionFailedError("Token transfer may have failed - balance not updated");
+                }
             }
 
             // Transfer SOL for fees
@@ -256,42 +301,154 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
                 })
             );
 
-            const solSignature = await this.executeTransaction(solTransaction, lastHopKeypair, requestId);
-            signatures.push(solSignature);
+            const solSignature = await this.executeTransaction(solTransaction, lastHopKeypair, requestId, `Hop ${i + 1} of ${numOfHops}: SOL for fees`, pending => this.recordPendingTransaction(checkpoint, context, pending));
+            await this.recordStep(checkpoint, context, solSignature);
 
             lastHopKeypair = newHopKeypair;
             lastHopTokenAccount = newHopTokenAccount;
         }
+    }
+
+    /**
+     * Simulate the first hop, which the signer funds. Later hops spend funds
+     * that only exist once earlier hops have landed, so they are not simulated.
+     */
+    private async planHopping(delegateOptions: HopperDelegateOptions, requestId: number): Promise<HopperDelegateResult> {
+        const { hopDestination, numOfHops, numTokens, tokenType, tokenAddress } = delegateOptions;
+        const plan = createDryRunPlan();
+        const destination = new PublicKey(hopDestination);
+        const firstHop = numOfHops === 1 ? destination : Keypair.generate().publicKey;
+        const description = `Hop 1 of ${numOfHops} to ${firstHop.toBase58()}`;
+
+        if (tokenType === 'sol') {
+            const costBuffer = Math.max(TOKEN_ACCOUNT_RENT + 50000, 50000);
+            const transaction = new Transaction().add(
+                SystemProgram.transfer({
+                    fromPubkey: this.signerKeypair.publicKey,
+                    toPubkey: firstHop,
+                    lamports: numTokens * LAMPORTS_PER_SOL - costBuffer
+                })
+            );
+            await this.simulate(plan, transaction, description);
+        } else {
+            if (!tokenAddress) {
+                throw new ValidationError("tokenAddress is required when tokenType is 'token'");
+            }
+
+            const mint = new PublicKey(tokenAddress);
+            const decimals = await this.getTokenDecimals(tokenAddress);
+            const receivingTokenAddress = getAssociatedTokenAddressSync(mint, firstHop, true);
+            const tokenTransaction = new Transaction().add(
+                createAssociatedTokenAccountIdempotentInstruction(this.signerKeypair.publicKey, receivingTokenAddress, firstHop, mint),
+                createTransferCheckedInstruction(
+                    getAssociatedTokenAddressSync(mint, this.signerKeypair.publicKey, true),
+                    mint,
+                    receivingTokenAddress,
+                    this.signerKeypair.publicKey,
+                    Math.floor(this.calculateAmountToTransfer(numTokens, 1, decimals)),
+                    decimals
+                )
+            );
+            await this.simulate(plan, tokenTransaction, `${description}: tokens`);
 
-        return { signatures };
+            const senderBalance = await this.heliusClient.getBalance(this.signerKeypair.publicKey);
+            const costBuffer = TOKEN_ACCOUNT_RENT * 1.5;
+            const solTransaction = new Transaction().add(
+                SystemProgram.transfer({
+                    fromPubkey: this.signerKeypair.publicKey,
+                    toPubkey: numOfHops === 1 ? new PublicKey(FEE_WALLET_ADDRESS) : firstHop,
+                    lamports: senderBalance > 0.01 * LAMPORTS_PER_SOL
+                        ? (numOfHops * 0.01 * LAMPORTS_PER_SOL) - costBuffer
+                        : senderBalance - costBuffer
+                })
+            );
+            await this.simulate(plan, solTransaction, `${description}: SOL for fees`);
+        }
+
+        if (numOfHops > 1) {
+            plan.notes.push(`Hops 2 to ${numOfHops} move funds between generated wallets and can only be simulated once hop 1 has landed`);
+        }
+
+        this.logOperation('hopper_dry_run_completed', { requestId, transactions: plan.transactions.length, errors: plan.errors.length });
+        return this.buildDryRunResult({
+            signatures: [],
+            hopMap: [],
+            finalDestination: hopDestination,
+            totalHops: numOfHops
+        }, plan);
+    }
+
+    /**
+     * Get the wallet for a hop, generating and saving it first if this is the
+     * hop's first attempt. The key is saved before the wallet receives funds
+     * and reused on retries, so the funds can always be recovered.
+     */
+    private async prepareHopWallet(
+        checkpoint: DelegateCheckpoint<HopperCheckpointState>,
+        context: DelegateExecutionContext,
+        hopIndex: number
+    ): Promise<Keypair> {
+        const { hopMap } = checkpoint.state;
+        if (hopMap.length <= hopIndex) {
+            const keypair = Keypair.generate();
+            hopMap.push({
+                publicKey: keypair.publicKey.toBase58(),
+                privateKey: bs58.encode(keypair.secretKey)
+            });
+            await this.saveCheckpoint(checkpoint, context);
+        }
+
+        return this.getHopKeypair(checkpoint, hopIndex);
+    }
+
+    /**
+     * Get the keypair of a generated hop wallet; index -1 is the signer
+     */
+    private getHopKeypair(checkpoint: DelegateCheckpoint<HopperCheckpointState>, hopIndex: number): Keypair {
+        const hop = checkpoint.state.hopMap[hopIndex];
+        if (hopIndex < 0 || !hop) {
+            return this.signerKeypair;
+        }
+        return Keypair.fromSecretKey(bs58.decode(hop.privateKey));
+    }
+
+    private getCompletedHops(checkpoint: DelegateCheckpoint<HopperCheckpointState>, tokenType: HopperDelegateOptions['tokenType']): number {
+        return tokenType === 'token' ? Math.floor(checkpoint.step / 2) : checkpoint.step;
     }
 
     private async executeTransaction(
         transaction: Transaction, 
         signer: Keypair, 
-        requestId: number
+        requestId: number,
+        description: string,
+        onSent?: (pending: PendingTransaction) => Promise<void>
     ): Promise<string> {
         transaction.feePayer = signer.publicKey;
         
-        const blockhash = await this.retryOperation(async () => {
-            return (await this.connection.getLatestBlockhash()).blockhash;
-        }, 3);
+        const { blockhash, lastValidBlockHeight } = await this.retryOperation(async () => {
+            return await this.connection.getLatestBlockhash();
+        });
         
         transaction.recentBlockhash = blockhash;
         transaction.sign(signer);
+        this.emitEvent('transaction_built', { requestId, description });
 
         const signature = await this.retryOperation(async () => {
             return await this.connection.sendTransaction(transaction, [signer], {
                 skipPreflight: false,
                 maxRetries: 3,
             });
-        }, 3);
+        });
+
+        this.emitEvent('transaction_sent', { requestId, description, signature });
+        await onSent?.({ signature, lastValidBlockHeight });
 
         await this.retryOperation(async () => {
             await this.connection.confirmTransaction(signature, 'confirmed');
-        }, 3);
+        });
 
         this.logOperation('transaction_confirmed', { requestId, signature });
+        this.emitEvent('transaction_confirmed', { requestId, description, signature });
         return signature;
     }
 
@@ -304,7 +461,7 @@ export class Hopper extends BaseDelegate<HopperDelegateOptions, HopperDelegateRe
         const mint = new PublicKey(tokenAddress);
         const mintInfo = await this.retryOperation(async () => {
             return await getMint(this.connection, mint);
-        }, 3);
+        });
         return mintInfo.decimals;
     }
 
@@ -0,0 +1,52 @@
+import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { Schema } from "../../utils/schema";
+
+/**
+ * What the Deployer asks a launch platform to create
+ */
+export interface LaunchRequest<P> {
+    name: string;
+    symbol: string;
+    uri: string; // Uploaded metadata; empty in a dry run
+    buyAmount: number; // SOL to buy at launch, 0 to only create the token
+    slippageBps: number;
+    extraSigners: Keypair[];
+    options: P; // The validated platformOptions
+}
+
+/**
+ * What a launch platform needs from the Deployer to build its transactions
+ */
+export interface LaunchContext {
+    connection: Connection;
+    payer: PublicKey; // Pays the fees and rent, and signs every transaction
+    retryOperation: <T>(operation: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * The transactions that launch a token, in the order they are sent
+ */
+export interface LaunchBuild {
+    tokenMint: PublicKey;
+    transactions: (Transaction | VersionedTransaction)[];
+    signers: Keypair[]; // Signers besides the payer, e.g. the new mint
+}
+
+/**
+ * A place tokens can be launched on, such as a bonding-curve launchpad. A
+ * platform only builds the launch transactions; the Deployer uploads the
+ * metadata, simulates, signs and sends them.
+ */
+export interface LaunchPlatform<P = unknown> {
+    readonly name: string; // Selected through DeployerDelegateOptions.platform
+    readonly optionsSchema: Schema<P>; // Validates DeployerDelegateOptions.platformOptions
+    readonly supportsBuy: boolean; // Whether buyAmount can buy the token at launch
+
+    /**
+     * Build the transactions that create the token
+     * @param request - The token and the platform's options
+     * @param context - The connection and payer to build with
+     * @returns The new mint, the unsigned transactions and their extra signers
+     */
+    buildLaunch(request: LaunchRequest<P>, context: LaunchContext): Promise<LaunchBuild>;
+}
@@ -0,0 +1,108 @@
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { NATIVE_MINT } from "@solana/spl-token";
+import { getPdaLaunchpadConfigId, LAUNCHPAD_PROGRAM, LaunchpadConfig, Raydium, TxVersion } from "@raydium-io/raydium-sdk-v2";
+import { LaunchBuild, LaunchContext, LaunchPlatform, LaunchRequest } from "./base";
+import { RaydiumLaunchpadTokenComputeBudgetConfig, RaydiumLaunchpadTokenParams } from "../types";
+import { ProtocolError } from "../../utils/errors";
+import { Infer, schema } from "../../utils/schema";
+
+const BN = require("bn.js");
+
+export const raydiumLaunchlabOptionsSchema = schema.object({
+    platformId: schema.string({ format: "publicKey" }).describe("Raydium LaunchLab platform"),
+    tokenMigrateType: schema.enum(["amm", "cpmm"]).describe("Pool the token migrates to once the bonding curve completes"),
+});
+
+export type RaydiumLaunchlabOptions = Infer<typeof raydiumLaunchlabOptionsSchema>;
+
+const COMPUTE_BUDGET_CONFIG: RaydiumLaunchpadTokenComputeBudgetConfig = {
+    units: 200000,
+    microLamports: 1000000,
+};
+
+/**
+ * Launches tokens on the Raydium LaunchLab bonding curve, optionally buying
+ * some in the same transaction
+ */
+export class RaydiumLaunchlabPlatform implements LaunchPlatform<RaydiumLaunchlabOptions> {
+    readonly name = 'raydium-launchlab';
+    readonly optionsSchema = raydiumLaunchlabOptionsSchema;
+    readonly supportsBuy = true;
+
+    async buildLaunch(request: LaunchRequest<RaydiumLaunchlabOptions>, context: LaunchContext): Promise<LaunchBuild> {
+        const newTokenKeypair = Keypair.generate();
+        const tokenParams: RaydiumLaunchpadTokenParams = {
+            name: request.name,
+            symbol: request.symbol,
+            decimals: 6,
+            supply: 1000000000,
+            migrateType: request.options.tokenMigrateType,
+            uri: request.uri,
+            txVersion: TxVersion.V0,
+            buyAmount: new BN(request.buyAmount),
+            createOnly: request.buyAmount === 0,
+            extraSigners: request.extraSigners,
+            platformId: request.options.platformId,
+            slippageBps: request.slippageBps,
+        };
+
+        try {
+            const raydium = await Raydium.load({
+                connection: context.connection,
+                owner: context.payer,
+            });
+
+            const configId = getPdaLaunchpadConfigId(
+                LAUNCHPAD_PROGRAM,
+                NATIVE_MINT,
+                0,
+                0,
+            ).publicKey;
+
+            const configData = await context.retryOperation(async () => {
+                const data = await raydium.connection.getAccountInfo(configId);
+                if (!data) {
+                    throw new ProtocolError("Launchpad config not found", "raydium-launchpad");
+                }
+                return data;
+            });
+
+            const configInfo = LaunchpadConfig.decode(configData.data);
+            const baseTokenInfo = await raydium.token.getTokenInfo(configInfo.mintB);
+
+            const { transactions }: { transactions: any } = await raydium.launchpad.createLaunchpad({
+                programId: LAUNCHPAD_PROGRAM,
+                mintA: newTokenKeypair.publicKey,
+                decimals: tokenParams.decimals,
+                name: tokenParams.name,
+                symbol: tokenParams.symbol,
+                migrateType: tokenParams.migrateType,
+                uri: tokenParams.uri,
+                feePayer: context.payer,
+                configId: new PublicKey(configId.toBase58()),
+                configInfo,
+                mintBDecimals: baseTokenInfo.decimals,
+                platformId: new PublicKey(tokenParams.platformId),
+                txVersion: tokenParams.txVersion,
+                slippage: new BN(tokenParams.slippageBps),
+                buyAmount: tokenParams.createOnly ? new BN(1) : tokenParams.buyAmount,
+                createOnly: tokenParams.createOnly,
+                extraSigners: [newTokenKeypair, ...tokenParams.extraSigners],
+                supply: new BN(tokenParams.supply * 10 ** tokenParams.decimals),
+                computeBudgetConfig: COMPUTE_BUDGET_CONFIG,
+            });
+
+            return {
+                tokenMint: newTokenKeypair.publicKey,
+                transactions,
+                signers: [newTokenKeypair, ...tokenParams.extraSigners],
+            };
+        } catch (e: any) {
+            throw new ProtocolError(
+                `Failed to create Raydium Launchpad token: ${e instanceof Error ? e.message : String(e)}`,
+                "raydium-launchpad",
+                { cause: e },
+            );
+        }
+    }
+}
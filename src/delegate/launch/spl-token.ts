@@ -0,0 +1,118 @@
+import { PublicKey, SystemProgram, Transaction, TransactionInstruction, Keypair } from "@solana/web3.js";
+import {
+    AuthorityType,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createInitializeMetadataPointerInstruction,
+    createInitializeMint2Instruction,
+    createMintToInstruction,
+    createSetAuthorityInstruction,
+    ExtensionType,
+    getAssociatedTokenAddressSync,
+    getMintLen,
+    LENGTH_SIZE,
+    TOKEN_2022_PROGRAM_ID,
+    TYPE_SIZE,
+} from "@solana/spl-token";
+import { LaunchBuild, LaunchContext, LaunchPlatform, LaunchRequest } from "./base";
+import { Infer, schema } from "../../utils/schema";
+
+export const splTokenLaunchOptionsSchema = schema.object({
+    decimals: schema.number({ min: 0, max: 9, integer: true }).optional().describe("Default 6"),
+    supply: schema.number({ greaterThan: 0, integer: true }).optional().describe("Whole tokens minted to the signer. Default 1,000,000,000"),
+    revokeMintAuthority: schema.boolean().optional().describe("Revoke the mint authority once the supply is minted, fixing it. Default true"),
+});
+
+export type SplTokenLaunchOptions = Infer<typeof splTokenLaunchOptionsSchema>;
+
+// sha256('spl_token_metadata_interface:initialize_account'), truncated to 8 bytes
+const INITIALIZE_METADATA_DISCRIMINATOR = Buffer.from([210, 225, 30, 162, 88, 184, 77, 141]);
+
+/**
+ * Creates a plain Token-2022 mint that stores its metadata on the mint itself,
+ * and mints the whole supply to the signer. There is no market, so nothing
+ * can be bought at launch.
+ */
+export class SplTokenLaunchPlatform implements LaunchPlatform<SplTokenLaunchOptions> {
+    readonly name = 'spl-token';
+    readonly optionsSchema = splTokenLaunchOptionsSchema;
+    readonly supportsBuy = false;
+
+    async buildLaunch(request: LaunchRequest<SplTokenLaunchOptions>, context: LaunchContext): Promise<LaunchBuild> {
+        const decimals = request.options.decimals ?? 6;
+        const supply = BigInt(request.options.supply ?? 1000000000) * 10n ** BigInt(decimals);
+        const mintKeypair = Keypair.generate();
+        const mint = mintKeypair.publicKey;
+        const payer = context.payer;
+
+        // The metadata is written into the mint after it is created, so the
+        // account is funded for it up front but allocated without it
+        const mintLen = getMintLen([ExtensionType.MetadataPointer]);
+        const metadataLen = TYPE_SIZE + LENGTH_SIZE + getMetadataLength(request, mint, payer);
+        const lamports = await context.retryOperation(async () => context.connection.getMinimumBalanceForRentExemption(mintLen + metadataLen));
+
+        const tokenAccount = getAssociatedTokenAddressSync(mint, payer, false, TOKEN_2022_PROGRAM_ID);
+        const transaction = new Transaction().add(
+            SystemProgram.createAccount({
+                fromPubkey: payer,
+                newAccountPubkey: mint,
+                space: mintLen,
+                lamports,
+                programId: TOKEN_2022_PROGRAM_ID,
+            }),
+            createInitializeMetadataPointerInstruction(mint, payer, mint, TOKEN_2022_PROGRAM_ID),
+            createInitializeMint2Instruction(mint, decimals, payer, null, TOKEN_2022_PROGRAM_ID),
+            createInitializeMetadataInstruction(request, mint, payer),
+            createAssociatedTokenAccountIdempotentInstruction(payer, tokenAccount, payer, mint, TOKEN_2022_PROGRAM_ID),
+            createMintToInstruction(mint, tokenAccount, payer, supply, [], TOKEN_2022_PROGRAM_ID),
+        );
+
+        if (request.options.revokeMintAuthority ?? true) {
+            transaction.add(createSetAuthorityInstruction(mint, payer, AuthorityType.MintTokens, null, [], TOKEN_2022_PROGRAM_ID));
+        }
+
+        return {
+            tokenMint: mint,
+            transactions: [transaction],
+            signers: [mintKeypair],
+        };
+    }
+}
+
+/**
+ * Size of the packed token metadata: both authorities, the three strings and
+ * an empty list of additional fields
+ */
+function getMetadataLength(request: LaunchRequest<unknown>, mint: PublicKey, updateAuthority: PublicKey): number {
+    return updateAuthority.toBytes().length + mint.toBytes().length
+        + [request.name, request.symbol, request.uri].reduce((length, value) => length + 4 + Buffer.byteLength(value, 'utf8'), 0)
+        + 4;
+}
+
+/**
+ * Token metadata interface's initialize instruction, which @solana/spl-token
+ * does not export
+ */
+function createInitializeMetadataInstruction(request: LaunchRequest<unknown>, mint: PublicKey, authority: PublicKey): TransactionInstruction {
+    const encodeString = (value: string): Buffer => {
+        const bytes = Buffer.from(value, 'utf8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(bytes.length);
+        return Buffer.concat([length, bytes]);
+    };
+
+    return new TransactionInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        keys: [
+            { pubkey: mint, isSigner: false, isWritable: true }, // The metadata lives on the mint
+            { pubkey: authority, isSigner: false, isWritable: false }, // Update authority
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: authority, isSigner: true, isWritable: false }, // Mint authority
+        ],
+        data: Buffer.concat([
+            INITIALIZE_METADATA_DISCRIMINATOR,
+            encodeString(request.name),
+            encodeString(request.symbol),
+            encodeString(request.uri),
+        ]),
+    });
+}
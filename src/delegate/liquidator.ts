@@ -1,15 +1,26 @@
-import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import { Connection, Keypair, PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { getMint } from "@solana/spl-token";
 import { LiquidatorDelegateOptions, LiquidatorDelegateResult } from "./types";
 import { BaseDelegate } from "./base-delegate";
+import { DelegateExecutionContext } from "./base";
+import { createDryRunPlan } from "./dry-run";
+import { DELEGATE_TYPES } from "./constants";
 import { HeliusClient } from "../solana/clients/helius";
+import { Logger } from "../solana/types";
+import { RetryPolicy } from "../utils/retry";
 import { JupiterSwap } from "./swap/jupiter";
 import { RaydiumSwap } from "./swap/raydium";
+import { SwapRoute } from "./swap/base-protocol";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { ProtocolError, RpcError } from "../utils/errors";
+import { liquidatorOptionsSchema } from "./schemas";
 
 export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, LiquidatorDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.LIQUIDATOR;
     private readonly heliusClient: HeliusClient;
     private readonly jupiterSwap: JupiterSwap;
     private readonly raydiumSwap: RaydiumSwap;
+    private readonly swapRoutes: SwapRoute[];
 
     constructor(
         connection: Connection, 
@@ -23,13 +34,43 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
         // Initialize swap protocols
         this.jupiterSwap = new JupiterSwap(signerKeypair, connection, { heliusClient });
         this.raydiumSwap = new RaydiumSwap(signerKeypair, { heliusClient });
+        this.swapRoutes = [{ name: 'Jupiter', protocol: this.jupiterSwap }, { name: 'Raydium', protocol: this.raydiumSwap }];
     }
 
-    async executeDelegate(delegateOptions: LiquidatorDelegateOptions): Promise<LiquidatorDelegateResult> {
+    /**
+     * Replace the logger of the delegate and its swap protocols
+     * @param logger - The logger to write to
+     * @returns This delegate, for chaining
+     */
+    override setLogger(logger: Logger): this {
+        super.setLogger(logger);
+        this.jupiterSwap.setLogger(logger);
+        this.raydiumSwap.setLogger(logger);
+        return this;
+    }
+
+    /**
+     * Replace the retry policy of the delegate and its swap protocols
+     * @param retryPolicy - The policy for operations of this delegate
+     * @returns This delegate, for chaining
+     */
+    override setRetryPolicy(retryPolicy: RetryPolicy): this {
+        super.setRetryPolicy(retryPolicy);
+        this.jupiterSwap.setRetryPolicy(retryPolicy);
+        this.raydiumSwap.setRetryPolicy(retryPolicy);
+        return this;
+    }
+
+    async executeDelegate(delegateOptions: LiquidatorDelegateOptions, context: DelegateExecutionContext = {}): Promise<LiquidatorDelegateResult> {
         const requestId = this.generateRequestId();
+        const signatures: string[] = [];
+        const liquidatedTokens: LiquidatorDelegateResult['liquidatedTokens'] = [];
+        let tokenAccounts: any[] = [];
+        let processed = 0;
         
         try {
             this.logOperation('liquidator_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
             
             this.validateOptions(delegateOptions);
 
@@ -43,24 +84,29 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
             });
 
             // Get all token accounts for the delegate address
-            const tokenAccounts = await this.getTokenAccounts(delegateAddress);
+            tokenAccounts = await this.getTokenAccounts(delegateAddress);
             
+            if (context.dryRun) {
+                return this.completeExecution(requestId, await this.planLiquidation(tokenAccounts, tokenAddress, minUsdValue, requestId));
+            }
+
             if (!tokenAccounts || tokenAccounts.length === 0) {
                 this.logOperation('no_token_accounts_found', { requestId, delegateAddress });
-                return {
+                return this.completeExecution(requestId, {
                     success: true,
                     signatures: [],
                     liquidatedTokens: [],
                     totalLiquidated: 0
-                };
+                });
             }
 
-            const signatures: string[] = [];
-            const liquidatedTokens: LiquidatorDelegateResult['liquidatedTokens'] = [];
             let totalLiquidated = 0;
 
             // Process each token account
             for (let i = 0; i < tokenAccounts.length; i++) {
+                throwIfAborted(context.signal);
+                processed = i;
+
                 const tokenAccount = tokenAccounts[i];
                 
                 if (!tokenAccount) {
@@ -69,6 +115,7 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                         reason: 'undefined_account',
                         index: i
                     });
+                    this.emitEvent('item_skipped', { requestId, index: i, reason: 'undefined_account', operation: 'token_account_skipped' });
                     continue;
                 }
 
@@ -79,6 +126,7 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                         mint: tokenAccount.mint,
                         reason: 'frozen_account'
                     });
+                    this.emitEvent('item_skipped', { requestId, index: i, item: tokenAccount.mint, reason: 'frozen_account', operation: 'token_account_skipped' });
                     continue;
                 }
 
@@ -89,6 +137,7 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                         mint: tokenAccount.mint,
                         reason: 'usdc_excluded'
                     });
+                    this.emitEvent('item_skipped', { requestId, index: i, item: tokenAccount.mint, reason: 'usdc_excluded', operation: 'token_account_skipped' });
                     continue;
                 }
 
@@ -99,7 +148,8 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                         minUsdValue,
                         i + 1,
                         tokenAccounts.length,
-                        requestId
+                        requestId,
+                        context.signal
                     );
                     
                     if (result.success && result.signature) {
@@ -110,6 +160,10 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                             signature: result.signature
                         });
                         totalLiquidated++;
+                    } else if (result.skipped) {
+                        this.emitEvent('item_skipped', { requestId, index: i, item: tokenAccount.mint, reason: 'low_value', operation: 'liquidation_skipped_low_value' });
+                    } else {
+                        this.emitEvent('item_failed', { requestId, index: i, item: tokenAccount.mint, error: result.error ?? 'Liquidation failed' });
                     }
                     
                     this.logOperation('token_liquidation_processed', { 
@@ -120,6 +174,11 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                         signature: result.signature 
                     });
                 } catch (error) {
+                    if (isAbortError(error)) {
+                        throw error;
+                    }
+
+                    this.emitEvent('item_failed', { requestId, index: i, item: tokenAccount.mint, error: error instanceof Error ? error.message : String(error) });
                     await this.handleError(error instanceof Error ? error : new Error(String(error)), { 
                         requestId, 
                         mint: tokenAccount.mint 
@@ -141,29 +200,31 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                 totalLiquidated 
             });
             
-            return {
+            return this.completeExecution(requestId, {
                 success: true,
                 signatures,
                 liquidatedTokens,
                 totalLiquidated
-            };
+            });
             
         } catch (error) {
+            if (isAbortError(error)) {
+                this.logOperation('liquidator_execution_aborted', { requestId, signatures });
+                return this.completeExecution(requestId, this.buildAbortedResult({
+                    signatures,
+                    liquidatedTokens,
+                    totalLiquidated: liquidatedTokens.length
+                }, processed, tokenAccounts.length, context.signal));
+            }
+
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
             await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
             throw error;
         }
     }
 
     validateOptions(delegateOptions: LiquidatorDelegateOptions): void {
-        this.validateRequiredField(delegateOptions.delegateAddress, 'delegateAddress');
-        this.validatePublicKey(delegateOptions.delegateAddress, 'delegateAddress');
-        
-        this.validateRequiredField(delegateOptions.tokenAddress, 'tokenAddress');
-        this.validatePublicKey(delegateOptions.tokenAddress, 'tokenAddress');
-        
-        if (delegateOptions.minUsdValue !== undefined) {
-            this.validateNumberField(delegateOptions.minUsdValue, 'minUsdValue', 0);
-        }
+        liquidatorOptionsSchema.assert(delegateOptions);
     }
 
     private async getTokenAccounts(delegateAddress: string): Promise<any[]> {
@@ -185,8 +246,9 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
         minUsdValue: number,
         currentIndex: number,
         totalAccounts: number,
-        requestId: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
+        requestId: number,
+        signal?: AbortSignal
+    ): Promise<{ success: boolean; signature?: string; error?: string; skipped?: boolean }> {
         const { mint: tokenMint, amount: tokenAmount } = tokenAccount;
         
         this.logOperation('liquidation_progress', { 
@@ -200,28 +262,30 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
         // Get token decimals
         const decimals = await this.getTokenDecimals(tokenMint);
         if (decimals === -1) {
-            throw new Error(`Failed to get decimals for token ${tokenMint}`);
+            throw new RpcError(`Failed to get decimals for token ${tokenMint}`);
         }
 
         // Calculate token amount in human readable format
         const tokenAmountInUnits = tokenAmount / Math.pow(10, decimals);
 
-        // Try to get quote from Jupiter first
+        // Try to get quote from Jupiter first, unless its circuit breaker is open
         let quote = null;
-        try {
-            quote = await this.jupiterSwap.getQuote(tokenMint, targetTokenAddress, tokenAmountInUnits, 0.5);
-        } catch (error) {
-            this.logOperation('jupiter_quote_failed', {
-                requestId,
-                fromToken: tokenMint,
-                toToken: targetTokenAddress,
-                amount: tokenAmountInUnits,
-                error: error instanceof Error ? error.message : String(error)
-            });
+        if (!this.jupiterSwap.isCircuitOpen()) {
+            try {
+                quote = await this.jupiterSwap.getQuote(tokenMint, targetTokenAddress, tokenAmountInUnits, 0.5);
+            } catch (error) {
+                this.logOperation('jupiter_quote_failed', {
+                    requestId,
+                    fromToken: tokenMint,
+                    toToken: targetTokenAddress,
+                    amount: tokenAmountInUnits,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
         }
 
         // If Jupiter quote failed or price is too low, try Raydium
-        if (!quote || (quote.swapUsdValue && quote.swapUsdValue < minUsdValue)) {
+        if ((!quote || (quote.swapUsdValue && quote.swapUsdValue < minUsdValue)) && !this.raydiumSwap.isCircuitOpen()) {
             try {
                 quote = await this.raydiumSwap.getQuote(tokenMint, targetTokenAddress, tokenAmountInUnits, 0.5);
             } catch (error) {
@@ -243,110 +307,63 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
                 usdValue: quote?.swapUsdValue || 0,
                 minUsdValue
             });
-            return { success: false, error: 'Price too low or no quote available' };
+            return { success: false, skipped: true, error: 'Price too low or no quote available' };
         }
 
         // Execute swap with fallback
         const swapResult = await this.executeSwapWithFallback(
+            this.swapRoutes,
             tokenMint,
             targetTokenAddress,
             tokenAmountInUnits,
-            0.5 // 0.5% slippage
+            0.5, // 0.5% slippage
+            requestId,
+            { signal }
         );
 
         return swapResult;
     }
 
-    private async executeSwapWithFallback(
-        fromAsset: string,
-        toAsset: string,
-        amount: number,
-        slippage: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
-        // Try Jupiter first
-        try {
-            const result = await this.retryOperation(
-                () => this.executeJupiterSwap(fromAsset, toAsset, amount, slippage),
-                3
-            );
-            
-            if (result.success) {
-                return { ...result, signature: result.signature };
-            }
-        } catch (error) {
-            this.logOperation('jupiter_swap_failed', {
-                fromAsset,
-                toAsset,
-                amount,
-                error: error instanceof Error ? error.message : String(error)
-            });
-        }
+    /**
+     * Simulate the swap of every token account that would be liquidated,
+     * without sending anything. Only Jupiter returns a transaction that can
+     * be simulated before it is signed, so Raydium quotes are not used.
+     */
+    private async planLiquidation(tokenAccounts: any[], targetTokenAddress: string, minUsdValue: number, requestId: number): Promise<LiquidatorDelegateResult> {
+        const plan = createDryRunPlan();
 
-        // Fallback to Raydium
-        try {
-            const result = await this.retryOperation(
-                () => this.executeRaydiumSwap(fromAsset, toAsset, amount, slippage),
-                3
-            );
-            
-            if (result.success) {
-                return { ...result, signature: result.signature };
+        for (const tokenAccount of tokenAccounts) {
+            if (!tokenAccount || tokenAccount.frozen || tokenAccount.mint === "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v") {
+                continue;
             }
-        } catch (error) {
-            this.logOperation('raydium_swap_failed', {
-                fromAsset,
-                toAsset,
-                amount,
-                error: error instanceof Error ? error.message : String(error)
-            });
-        }
 
-        return {
-            success: false,
-            error: "Both Jupiter and Raydium swaps failed"
-        };
-    }
+            const { mint: tokenMint, amount: tokenAmount } = tokenAccount;
+            const description = `Swap ${tokenAmount} of ${tokenMint} to ${targetTokenAddress}`;
 
-    private async executeJupiterSwap(
-        fromAsset: string,
-        toAsset: string,
-        amount: number,
-        slippage: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
-        // Get quote
-        const quote = await this.jupiterSwap.getQuote(fromAsset, toAsset, amount, slippage);
-        if (!quote) {
-            throw new Error("Failed to get Jupiter quote");
-        }
+            try {
+                const decimals = await this.getTokenDecimals(tokenMint);
+                if (decimals === -1) {
+                    throw new RpcError(`Failed to get decimals for token ${tokenMint}`);
+                }
 
-        // Create transaction
-        const transaction = await this.jupiterSwap.createSwapTransaction(quote);
-        
-        // Execute swap
-        const result = await this.jupiterSwap.executeSwap(transaction);
-        
-        return result;
-    }
+                const quote = await this.jupiterSwap.getQuote(tokenMint, targetTokenAddress, tokenAmount / Math.pow(10, decimals), 0.5);
+                if (!quote || (quote.swapUsdValue && quote.swapUsdValue < minUsdValue)) {
+                    plan.notes.push(`${description}: skipped, price too low or no quote available`);
+                    continue;
+                }
 
-    private async executeRaydiumSwap(
-        fromAsset: string,
-        toAsset: string,
-        amount: number,
-        slippage: number
-    ): Promise<{ success: boolean; signature?: string; error?: string }> {
-        // Get quote
-        const quote = await this.raydiumSwap.getQuote(fromAsset, toAsset, amount, slippage);
-        if (!quote) {
-            throw new Error("Failed to get Raydium quote");
+                const transaction = await this.jupiterSwap.createSwapTransaction(quote);
+                if (!(transaction instanceof VersionedTransaction)) {
+                    throw new ProtocolError("Jupiter swap transaction cannot be simulated", "jupiter");
+                }
+                await this.simulate(plan, transaction, description);
+            } catch (error) {
+                plan.errors.push(`${description}: ${error instanceof Error ? error.message : String(error)}`);
+            }
         }
 
-        // Create transaction
-        const transaction = await this.raydiumSwap.createSwapTransaction(quote);
-        
-        // Execute swap
-        const result = await this.raydiumSwap.executeSwap(transaction);
-        
-        return result;
+        this.logOperation('liquidator_dry_run_completed', { requestId, transactions: plan.transactions.length, errors: plan.errors.length });
+        return this.buildDryRunResult({ signatures: [], liquidatedTokens: [], totalLiquidated: 0 }, plan);
     }
 
     private async getTokenDecimals(tokenAddress: string): Promise<number> {
@@ -354,7 +371,7 @@ export class Liquidator extends BaseDelegate<LiquidatorDelegateOptions, Liquidat
             const mint = new PublicKey(tokenAddress);
             const mintInfo = await this.retryOperation(async () => {
                 return await getMint(this.connection, mint);
-            }, 3);
+            });
             return mintInfo.decimals;
         } catch (error) {
             this.logOperation('get_token_decimals_failed', {
@@ -0,0 +1,260 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import { Delegate, DelegateExecutionContext } from "./base";
+import { CheckpointStore } from "./checkpoint/base";
+import { DelegateEventEmitter } from "./events";
+import { DELEGATE_TYPES } from "./constants";
+import {
+    AllocatorDelegateOptions,
+    AllocatorDelegateResult,
+    BaseDelegateOptions,
+    BaseDelegateResult,
+    BurnerDelegateOptions,
+    BurnerDelegateResult,
+    BuybackBurnerDelegateOptions,
+    BuybackBurnerDelegateResult,
+    DeployerDelegateOptions,
+    DeployerDelegateResult,
+    DistributorDelegateOptions,
+    DistributorDelegateResult,
+    HopperDelegateOptions,
+    HopperDelegateResult,
+    LiquidatorDelegateOptions,
+    LiquidatorDelegateResult,
+    SweeperDelegateOptions,
+    SweeperDelegateResult,
+} from "./types";
+import { Deployer } from "./deployer";
+import { Burner } from "./burner";
+import { Allocator } from "./allocator";
+import { Distributor } from "./distributor";
+import { Hopper } from "./hopper";
+import { Liquidator } from "./liquidator";
+import { Sweeper } from "./sweeper";
+import { BuybackBurner } from "./buyback-burner";
+import { HeliusClient } from "../solana/clients/helius";
+import { MetadataClient } from "../solana/clients/metadata/base";
+import { throwIfAborted } from "../utils/abort";
+import { ConfigurationError, ValidationError } from "../utils/errors";
+import { withLogFields } from "../utils/logger";
+import { RetryPolicy } from "../utils/retry";
+import { Logger } from "../solana/types";
+
+/**
+ * Shared dependencies handed to every delegate factory
+ */
+export interface DelegateDependencies {
+    connection: Connection;
+    signerKeypair: Keypair;
+    feeTakerKeypair?: Keypair;
+    heliusClient?: HeliusClient;
+    metadataClient?: MetadataClient;
+    checkpointStore?: CheckpointStore; // Used when a run's context brings none
+    logger?: Logger; // Given to delegates that accept one; they log to the console otherwise
+    retryPolicy?: RetryPolicy; // Given to delegates that accept one; they keep their own default otherwise
+}
+
+/**
+ * Options and result types of the built-in delegates, keyed by type
+ */
+export interface DelegateTypeMap {
+    [DELEGATE_TYPES.DEPLOYER]: { options: DeployerDelegateOptions; result: DeployerDelegateResult };
+    [DELEGATE_TYPES.BURNER]: { options: BurnerDelegateOptions; result: BurnerDelegateResult };
+    [DELEGATE_TYPES.ALLOCATOR]: { options: AllocatorDelegateOptions; result: AllocatorDelegateResult };
+    [DELEGATE_TYPES.DISTRIBUTOR]: { options: DistributorDelegateOptions; result: DistributorDelegateResult };
+    [DELEGATE_TYPES.HOPPER]: { options: HopperDelegateOptions; result: HopperDelegateResult };
+    [DELEGATE_TYPES.LIQUIDATOR]: { options: LiquidatorDelegateOptions; result: LiquidatorDelegateResult };
+    [DELEGATE_TYPES.SWEEPER]: { options: SweeperDelegateOptions; result: SweeperDelegateResult };
+    [DELEGATE_TYPES.BUYBACK_BURNER]: { options: BuybackBurnerDelegateOptions; result: BuybackBurnerDelegateResult };
+}
+
+export type DelegateFactory<T extends BaseDelegateOptions = BaseDelegateOptions, R extends BaseDelegateResult = BaseDelegateResult> =
+    (dependencies: DelegateDependencies) => Delegate<T, R>;
+
+/**
+ * Configuration interface for DelegateRegistry
+ */
+export interface DelegateRegistryConfig {
+    registerBuiltIns?: boolean; // Default: true
+}
+
+/**
+ * Builds delegates by type and dispatches executeDelegate by options.type.
+ * Delegates are created lazily and reused, so each type shares one instance
+ * (and one request counter) per registry. Lifecycle events of every delegate
+ * built from BaseDelegate are forwarded to the registry's events.
+ */
+export class DelegateRegistry {
+    public readonly events = new DelegateEventEmitter((error, payload) =>
+        this.dependencies.logger?.warn('Delegate event listener failed', { event: payload.event, delegateType: payload.delegateType, error: error.message }));
+    private readonly dependencies: DelegateDependencies;
+    private readonly factories = new Map<string, DelegateFactory<any, any>>();
+    private readonly instances = new Map<string, Delegate<any, any>>();
+
+    constructor(dependencies: DelegateDependencies, config: DelegateRegistryConfig = {}) {
+        this.dependencies = dependencies;
+
+        if (config.registerBuiltIns ?? true) {
+            this.registerBuiltIns();
+        }
+    }
+
+    /**
+     * Register a delegate factory for a type
+     * @param type - The delegate type, matched against options.type
+     * @param factory - Builds the delegate from the shared dependencies
+     * @param replace - Allow replacing an existing registration
+     * @returns This registry, for chaining
+     */
+    public register<T extends BaseDelegateOptions, R extends BaseDelegateResult>(
+        type: string,
+        factory: DelegateFactory<T, R>,
+        replace: boolean = false
+    ): this {
+        if (!type) {
+            throw new ValidationError("Delegate type is required");
+        }
+        if (this.factories.has(type) && !replace) {
+            throw new ConfigurationError(`Delegate type ${type} is already registered`);
+        }
+
+        this.factories.set(type, factory);
+        this.instances.delete(type);
+        return this;
+    }
+
+    /**
+     * Remove a delegate type
+     * @param type - The delegate type
+     * @returns True if the type was registered
+     */
+    public unregister(type: string): boolean {
+        this.instances.delete(type);
+        return this.factories.delete(type);
+    }
+
+    /**
+     * Check whether a delegate type is registered
+     * @param type - The delegate type
+     * @returns True if registered
+     */
+    public has(type: string): boolean {
+        return this.factories.has(type);
+    }
+
+    /**
+     * Get all registered delegate types
+     * @returns Registered types
+     */
+    public getTypes(): string[] {
+        return Array.from(this.factories.keys());
+    }
+
+    /**
+     * Get the address of the signer every delegate in this registry uses
+     * @returns Base58 public key of the signer
+     */
+    public getSignerAddress(): string {
+        return this.dependencies.signerKeypair.publicKey.toBase58();
+    }
+
+    /**
+     * Check whether runs without their own checkpoint store can be checkpointed.
+     * Delegates reject an idempotency key when there is no store to keep it in.
+     * @returns True if the registry was given a checkpoint store
+     */
+    public hasCheckpointStore(): boolean {
+        return this.dependencies.checkpointStore !== undefined;
+    }
+
+    /**
+     * Get the delegate for a type, building it on first use
+     * @param type - The delegate type
+     * @returns The delegate instance
+     */
+    public get<K extends keyof DelegateTypeMap>(type: K): Delegate<DelegateTypeMap[K]['options'], DelegateTypeMap[K]['result']>;
+    public get(type: string): Delegate;
+    public get(type: string): Delegate {
+        const existing = this.instances.get(type);
+        if (existing) {
+            return existing;
+        }
+
+        const factory = this.factories.get(type);
+        if (!factory) {
+            throw new ConfigurationError(`No delegate registered for type: ${type}`);
+        }
+
+        const delegate = factory(this.dependencies);
+        if (this.dependencies.logger && hasLogger(delegate)) {
+            delegate.setLogger(this.dependencies.logger);
+        }
+        if (this.dependencies.retryPolicy && hasRetryPolicy(delegate)) {
+            delegate.setRetryPolicy(this.dependencies.retryPolicy);
+        }
+        if (hasEvents(delegate)) {
+            delegate.events.onAny(payload => this.events.emit(payload));
+        }
+        this.instances.set(type, delegate);
+        return delegate;
+    }
+
+    /**
+     * Execute the delegate matching options.type. Its log entries carry the
+     * delegate type as a field.
+     * @param delegateOptions - The delegate options
+     * @param context - Optional execution context, e.g. an abort signal or idempotency key
+     * @returns The delegate result
+     */
+    public async executeDelegate<K extends keyof DelegateTypeMap>(delegateOptions: DelegateTypeMap[K]['options'] & { type: K }, context?: DelegateExecutionContext): Promise<DelegateTypeMap[K]['result']>;
+    public async executeDelegate(delegateOptions: BaseDelegateOptions, context?: DelegateExecutionContext): Promise<BaseDelegateResult>;
+    public async executeDelegate(delegateOptions: BaseDelegateOptions, context: DelegateExecutionContext = {}): Promise<BaseDelegateResult> {
+        if (!delegateOptions || !delegateOptions.type) {
+            throw new ValidationError("Delegate options must include a type");
+        }
+
+        const delegate = this.get(delegateOptions.type);
+        throwIfAborted(context.signal);
+
+        const checkpointStore = context.checkpointStore ?? this.dependencies.checkpointStore;
+        return withLogFields({ delegateType: delegateOptions.type }, () =>
+            delegate.executeDelegate(delegateOptions, checkpointStore ? { ...context, checkpointStore } : context));
+    }
+
+    private registerBuiltIns(): void {
+        this.register(DELEGATE_TYPES.DEPLOYER, deps =>
+            new Deployer(deps.connection, deps.signerKeypair, requireDependency(deps.metadataClient, 'metadataClient', DELEGATE_TYPES.DEPLOYER), deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.BURNER, deps =>
+            new Burner(deps.connection, deps.signerKeypair, deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.ALLOCATOR, deps =>
+            new Allocator(deps.connection, deps.signerKeypair, requireDependency(deps.heliusClient, 'heliusClient', DELEGATE_TYPES.ALLOCATOR), deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.DISTRIBUTOR, deps =>
+            new Distributor(deps.connection, deps.signerKeypair, requireDependency(deps.heliusClient, 'heliusClient', DELEGATE_TYPES.DISTRIBUTOR), deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.HOPPER, deps =>
+            new Hopper(deps.connection, deps.signerKeypair, requireDependency(deps.heliusClient, 'heliusClient', DELEGATE_TYPES.HOPPER), deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.LIQUIDATOR, deps =>
+            new Liquidator(deps.connection, deps.signerKeypair, requireDependency(deps.heliusClient, 'heliusClient', DELEGATE_TYPES.LIQUIDATOR), deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.SWEEPER, deps =>
+            new Sweeper(deps.connection, deps.signerKeypair, deps.feeTakerKeypair));
+        this.register(DELEGATE_TYPES.BUYBACK_BURNER, deps =>
+            new BuybackBurner(deps.connection, deps.signerKeypair, requireDependency(deps.heliusClient, 'heliusClient', DELEGATE_TYPES.BUYBACK_BURNER), deps.feeTakerKeypair));
+    }
+}
+
+function hasLogger(delegate: Delegate): delegate is Delegate & { setLogger(logger: Logger): unknown } {
+    return typeof (delegate as { setLogger?: unknown }).setLogger === 'function';
+}
+
+function hasRetryPolicy(delegate: Delegate): delegate is Delegate & { setRetryPolicy(retryPolicy: RetryPolicy): unknown } {
+    return typeof (delegate as { setRetryPolicy?: unknown }).setRetryPolicy === 'function';
+}
+
+function hasEvents(delegate: Delegate): delegate is Delegate & { events: DelegateEventEmitter } {
+    return (delegate as { events?: unknown }).events instanceof DelegateEventEmitter;
+}
+
+function requireDependency<T>(dependency: T | undefined, name: keyof DelegateDependencies, type: string): T {
+    if (!dependency) {
+        throw new ConfigurationError(`Delegate type ${type} requires a ${name}`);
+    }
+    return dependency;
+}
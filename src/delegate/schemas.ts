@@ -0,0 +1,167 @@
+import { Keypair } from "@solana/web3.js";
+import { DELEGATE_TYPES } from "./constants";
+import type { DelegateOptions } from "./types";
+import { JsonSchema, ParseResult, schema, toJsonSchema } from "../utils/schema";
+
+/**
+ * Option schemas of the built-in delegates. Each one validates the options at
+ * runtime, defines the matching *DelegateOptions type and exports as the JSON
+ * Schema that forms are rendered from.
+ */
+
+export const deployerOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.DEPLOYER),
+    platform: schema.string().optional().describe("Launch platform, e.g. 'raydium-launchlab' or 'spl-token'. Default 'raydium-launchlab'"),
+    platformOptions: schema.custom((value): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value), "an object").optional().describe("Options of the launch platform, validated by the platform"),
+    platformId: schema.string().optional().describe("Deprecated: use platformOptions.platformId. Raydium LaunchLab only"),
+    tokenMigrateType: schema.string().optional().describe("Deprecated: use platformOptions.tokenMigrateType. Raydium LaunchLab only"),
+    tokenName: schema.string(),
+    tokenSymbol: schema.string(),
+    tokenDescription: schema.string().optional(),
+    buyAmount: schema.number({ min: 0 }).optional().describe("SOL to buy at launch, on platforms that support it. Default 0, which only creates the token"),
+    buySlippageBps: schema.number({ min: 0, max: 10000 }).optional().describe("Default 100"),
+    extraSigners: schema.custom((value): value is Keypair[] => Array.isArray(value) && value.every(signer => signer instanceof Keypair), "an array of keypairs").optional(),
+    tokenImage: schema.string().optional().describe("Base64 data URI of the token image"),
+    tokenWebsite: schema.string().optional(),
+    tokenTwitter: schema.string().optional(),
+    tokenTelegram: schema.string().optional(),
+    tokenDiscord: schema.string().optional(),
+    tokenGithub: schema.string().optional(),
+}).refine(
+    options => options.tokenImage?.replace(/^data:image\/[a-z]+;base64,/, "") === "" ? "Invalid token image, must be a valid base64 data URI" : undefined,
+    "tokenImage"
+);
+
+export const burnerOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.BURNER),
+    tokenAddress: schema.string({ format: "publicKey" }).describe("Mint of the token to burn, on the SPL Token or Token-2022 program"),
+    mode: schema.enum(["amount", "percentage", "all"]).optional().describe("What to burn: numTokens, a percentage of the balance, or all of it. Default 'amount'"),
+    numTokens: schema.number({ min: 0 }).optional().describe("Tokens to burn, in whole tokens; required in 'amount' mode"),
+    percentage: schema.number({ min: 0, max: 100 }).optional().describe("Share of the balance to burn; required in 'percentage' mode"),
+    closeAccount: schema.boolean().optional().describe("Close the token account once the burn empties it, reclaiming its rent. Default false"),
+    owner: schema.string({ format: "publicKey" }).optional().describe("Wallet holding the tokens, which approved the signer to burn them. Default: the signer's wallet"),
+})
+    .requireWhen("mode", "percentage", ["percentage"])
+    .refine(options => (options.mode ?? "amount") === "amount" && options.numTokens === undefined ? "numTokens is required" : undefined, "numTokens");
+
+export const allocationSchema = schema.object({
+    contractAddress: schema.string({ format: "publicKey" }).describe("Mint of the token to buy"),
+    percentage: schema.number({ greaterThan: 0, max: 100 }).describe("Share of the SOL balance to spend"),
+});
+
+export const allocatorOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.ALLOCATOR),
+    allocations: schema.array(allocationSchema, { minItems: 1 }),
+    slippageBps: schema.number({ min: 0, max: 10000 }).optional().describe("Default 50"),
+    costBuffer: schema.number({ min: 0 }).optional().describe("SOL kept back from each allocation for fees, default 0.005"),
+}).refine(
+    options => options.allocations.reduce((total, allocation) => total + allocation.percentage, 0) > 100
+        ? "Total allocation percentage cannot exceed 100%"
+        : undefined,
+    "allocations"
+);
+
+export const distributorOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.DISTRIBUTOR),
+    distributionType: schema.enum(["single", "multi", "holders"]),
+    distributionMethod: schema.enum(["topx", "all"]).optional().describe("Which holders receive tokens"),
+    numTokens: schema.number({ min: 0 }).describe("Tokens to distribute, split evenly between recipients"),
+    tokenAddress: schema.string({ format: "publicKey" }).optional().describe("Mint to distribute, SOL if omitted"),
+    singleAddress: schema.string({ format: "publicKey" }).optional(),
+    multipleAddresses: schema.array(schema.string({ format: "publicKey" }), { minItems: 1 }).optional(),
+    topX: schema.number({ greaterThan: 0, integer: true }).optional().describe("Number of top holders to distribute to"),
+    holderOfWhichToken: schema.string({ format: "publicKey" }).optional().describe("Mint whose holders receive tokens"),
+})
+    .requireWhen("distributionType", "single", ["singleAddress"])
+    .requireWhen("distributionType", "multi", ["multipleAddresses"])
+    .requireWhen("distributionType", "holders", ["distributionMethod"])
+    .requireWhen("distributionMethod", "topx", ["topX", "holderOfWhichToken"]);
+
+export const hopperOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.HOPPER),
+    hopDestination: schema.string({ format: "publicKey" }),
+    numOfHops: schema.number({ min: 1, max: 100, integer: true }),
+    numTokens: schema.number({ min: 0 }),
+    tokenType: schema.enum(["sol", "token"]),
+    tokenAddress: schema.string({ format: "publicKey" }).optional().describe("Required when tokenType is 'token'"),
+    scheduleEnabled: schema.boolean().optional(),
+}).requireWhen("tokenType", "token", ["tokenAddress"]);
+
+export const liquidatorOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.LIQUIDATOR),
+    delegateAddress: schema.string({ format: "publicKey" }).describe("Wallet whose tokens are sold"),
+    tokenAddress: schema.string({ format: "publicKey" }).describe("Mint the tokens are sold for"),
+    minUsdValue: schema.number({ min: 0 }).optional().describe("Tokens worth less are skipped"),
+    scheduleEnabled: schema.boolean().optional(),
+});
+
+export const hopWalletSchema = schema.object({
+    publicKey: schema.string({ format: "publicKey" }),
+    privateKey: schema.string({ format: "base58" }),
+});
+
+export const sweeperOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.SWEEPER),
+    destination: schema.string({ format: "publicKey" }),
+    hopMap: schema.array(hopWalletSchema).optional().describe("Wallets to sweep, e.g. from a Hopper result"),
+    checkpointKey: schema.string().optional().describe("Or the key of a Hopper checkpoint in the context's checkpoint store"),
+    closeTokenAccounts: schema.boolean().optional().describe("Default true"),
+}).requireExactlyOne(["hopMap", "checkpointKey"]);
+
+export const buybackBurnerOptionsSchema = schema.object({
+    type: schema.literal(DELEGATE_TYPES.BUYBACK_BURNER),
+    tokenAddress: schema.string({ format: "publicKey" }).describe("Mint of the token to buy and burn"),
+    spendAsset: schema.enum(["sol", "usdc"]).optional().describe("What to pay with. Default 'sol'"),
+    spendAmount: schema.number({ greaterThan: 0 }).describe("SOL or USDC to spend on the buy"),
+    slippageBps: schema.number({ min: 0, max: 10000 }).optional().describe("Default 50"),
+    scheduleEnabled: schema.boolean().optional(),
+});
+
+export const DELEGATE_OPTIONS_SCHEMAS = {
+    [DELEGATE_TYPES.DEPLOYER]: deployerOptionsSchema,
+    [DELEGATE_TYPES.BURNER]: burnerOptionsSchema,
+    [DELEGATE_TYPES.ALLOCATOR]: allocatorOptionsSchema,
+    [DELEGATE_TYPES.DISTRIBUTOR]: distributorOptionsSchema,
+    [DELEGATE_TYPES.HOPPER]: hopperOptionsSchema,
+    [DELEGATE_TYPES.LIQUIDATOR]: liquidatorOptionsSchema,
+    [DELEGATE_TYPES.SWEEPER]: sweeperOptionsSchema,
+    [DELEGATE_TYPES.BUYBACK_BURNER]: buybackBurnerOptionsSchema,
+} as const;
+
+export type BuiltInDelegateType = keyof typeof DELEGATE_OPTIONS_SCHEMAS;
+
+/**
+ * Get the JSON Schema of a built-in delegate's options, e.g. to render a form
+ * @param type - The delegate type
+ * @returns A standalone JSON Schema (draft-07) document
+ */
+export function getDelegateOptionsJsonSchema(type: BuiltInDelegateType): JsonSchema {
+    return toJsonSchema(DELEGATE_OPTIONS_SCHEMAS[type], `${type} delegate options`);
+}
+
+/**
+ * Parse delegate options from an untrusted source, such as a JSON request body.
+ * The options are checked against the schema of their type; numeric strings are
+ * converted to numbers and fields the delegate does not know are rejected.
+ * @param json - The options, as a JSON string or an already parsed value
+ * @returns The options, narrowed by their type, or every issue found
+ */
+export function parseDelegateOptions(json: unknown): ParseResult<DelegateOptions> {
+    let value = json;
+    if (typeof json === "string") {
+        try {
+            value = JSON.parse(json);
+        } catch (error) {
+            return { success: false, issues: [{ path: "", message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }] };
+        }
+    }
+
+    const typeSchema = schema.object({ type: schema.enum(Object.keys(DELEGATE_OPTIONS_SCHEMAS) as BuiltInDelegateType[]) });
+    const typeIssues = typeSchema.validate(value);
+    if (typeIssues.length > 0) {
+        return { success: false, issues: typeIssues };
+    }
+
+    const { type } = value as { type: BuiltInDelegateType };
+    return DELEGATE_OPTIONS_SCHEMAS[type].parse(value) as ParseResult<DelegateOptions>;
+}
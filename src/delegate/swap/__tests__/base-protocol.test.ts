@@ -71,8 +71,8 @@ class TestSwapProtocol extends BaseSwapProtocol {
     this.validateSwapParams(inputMint, outputMint, amount);
   }
 
-  public testRetryOperation<T>(operation: () => Promise<T>, maxRetries: number = 3): Promise<T> {
-    return this.retryOperation(operation, maxRetries);
+  public testRetryOperation<T>(operation: () => Promise<T>, maxRetries: number = 3, signal?: AbortSignal): Promise<T> {
+    return this.retryOperation(operation, maxRetries, signal);
   }
 }
 
@@ -164,6 +164,17 @@ describe('BaseSwapProtocol', () => {
       await expect(protocol.getQuote('mint1', 'mint2', 100)).rejects.toThrow('API error');
       expect(mockFetch).toHaveBeenCalledTimes(3);
     });
+
+    it('should stop retrying once aborted', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn().mockImplementation(async () => {
+        controller.abort('Swap cancelled');
+        throw new Error('API error');
+      });
+
+      await expect(protocol.testRetryOperation(operation, 3, controller.signal)).rejects.toThrow('Swap cancelled');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('swap flow', () => {
@@ -204,6 +215,22 @@ describe('BaseSwapProtocol', () => {
 
       await expect(protocol.swap('input-mint', 'output-mint', 100)).rejects.toThrow('API error');
     });
+
+    it('should stop before sending the transaction when aborted', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({}) } as Response);
+      const controller = new AbortController();
+      const createSpy = jest.spyOn(protocol, 'createSwapTransaction').mockImplementation(async () => {
+        controller.abort('Swap cancelled');
+        return { serialize: () => Buffer.from('test'), sign: () => {} };
+      });
+      const executeSpy = jest.spyOn(protocol, 'executeSwap');
+
+      const result = await protocol.swap('mint1', 'mint2', 100, 0.5, controller.signal);
+
+      expect(result).toEqual({ success: false, aborted: true, error: 'Swap cancelled before swap execution' });
+      expect(createSpy).toHaveBeenCalledTimes(1);
+      expect(executeSpy).not.toHaveBeenCalled();
+    });
   });
 
   describe('validation', () => {
@@ -1,6 +1,9 @@
 import { JupiterSwap } from '../jupiter';
 import { Keypair, Connection } from '@solana/web3.js';
 import { HeliusClient } from '../../../solana/clients/helius';
+import { CircuitBreaker } from '../../../utils/circuit-breaker';
+import { CircuitOpenError, TransactionFailedError } from '../../../utils/errors';
+import { RetryPolicy } from '../../../utils/retry';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -192,6 +195,41 @@ describe('JupiterSwap', () => {
       )).rejects.toThrow('Network error');
       expect(mockFetch.mock.calls.length).toBe(5); // 2 token list + 3 quote attempts
     });
+    it('should fail fast once its circuit breaker opens', async () => {
+      const circuitBreaker = new CircuitBreaker('jupiter', { failureThreshold: 1 });
+      jupiterSwap.setCircuitBreaker(circuitBreaker).setRetryPolicy(new RetryPolicy({ baseDelayMs: 0 }));
+      mockFetch.mockClear();
+      // Token list (called twice - once for input token, once for output token)
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 },
+          { address: 'So11111111111111111111111111111111111111112', decimals: 9 }
+        ]
+      } as Response);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 },
+          { address: 'So11111111111111111111111111111111111111112', decimals: 9 }
+        ]
+      } as Response);
+      // The quote fails once its retries are used up, which opens the circuit
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      const getQuote = () => jupiterSwap.getQuote(
+        'So11111111111111111111111111111111111111112',
+        'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        1.0,
+        0.5
+      );
+      await expect(getQuote()).rejects.toThrow('Network error');
+      expect(mockFetch.mock.calls.length).toBe(5); // 2 token list + 3 quote attempts
+      expect(jupiterSwap.isCircuitOpen()).toBe(true);
+      expect(circuitBreaker.getSnapshot()).toMatchObject({ state: 'open', consecutiveFailures: 1, rejectedCalls: 0 });
+
+      await expect(getQuote()).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(circuitBreaker.getSnapshot()).toMatchObject({ rejectedCalls: 1 });
+    });
     it('should validate swap parameters', async () => {
       await expect(jupiterSwap.getQuote('', 'mint2', 100)).rejects.toThrow('Input and output mints are required');
       await expect(jupiterSwap.getQuote('mint1', '', 100)).rejects.toThrow('Input and output mints are required');
@@ -340,6 +378,28 @@ describe('JupiterSwap', () => {
       expect(result.success).toBe(true);
       expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(2);
     });
+
+    it('should report the sent transaction and fail when it lands with an error', async () => {
+      const mockTransaction = {
+        serialize: () => Buffer.from('test'),
+        sign: (_signers: Keypair[]) => {}
+      };
+      const onSent = jest.fn().mockResolvedValue(undefined);
+
+      mockConnection.sendTransaction.mockResolvedValue('test-signature');
+      mockConnection.getLatestBlockhash.mockResolvedValue({
+        blockhash: 'test-blockhash',
+        lastValidBlockHeight: 1000
+      });
+      mockConnection.confirmTransaction.mockResolvedValue({
+        context: { slot: 1000 },
+        value: { err: { InstructionError: [2, { Custom: 6001 }] } }
+      });
+
+      await expect(jupiterSwap.executeSwap(mockTransaction, onSent)).rejects.toThrow(TransactionFailedError);
+      expect(onSent).toHaveBeenCalledWith({ signature: 'test-signature', lastValidBlockHeight: 1000 });
+      expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getTokenInfo', () => {
@@ -1,6 +1,7 @@
 import { RaydiumSwap } from '../raydium';
 import { Keypair } from '@solana/web3.js';
 import { HeliusClient } from '../../../solana/clients/helius';
+import { TransactionPendingError } from '../../../utils/errors';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -60,7 +61,6 @@ jest.mock('@solana/web3.js', () => {
       ...actual.Transaction,
       from: jest.fn(() => createMockTransaction()),
     },
-    sendAndConfirmTransaction: jest.fn(() => Promise.resolve('mock-signature')),
   };
 });
 
@@ -236,6 +236,23 @@ describe('RaydiumSwap', () => {
         }
       };
 
+      const mockConnection = {
+        sendRawTransaction: jest.fn().mockResolvedValue('mock-signature'),
+        getLatestBlockhash: jest.fn().mockResolvedValue({
+          blockhash: 'test-blockhash',
+          lastValidBlockHeight: 1000
+        }),
+        confirmTransaction: jest.fn().mockResolvedValue({
+          context: { slot: 1000 },
+          value: { err: null }
+        })
+      };
+
+      Object.defineProperty(raydiumSwap, 'connection', {
+        value: mockConnection,
+        writable: true
+      });
+
       const result = await raydiumSwap.executeSwap(mockSwapTransaction);
 
       expect(result).toEqual({
@@ -243,8 +260,45 @@ describe('RaydiumSwap', () => {
         success: true
       });
       expect(mockTransaction.sign).toHaveBeenCalled();
+      expect(mockConnection.sendRawTransaction).toHaveBeenCalledWith(Buffer.from('mock-serialized-transaction'), { skipPreflight: true });
     });
 
+    it('should report the sent transaction and not resend it when confirmation fails', async () => {
+      const mockTransaction = {
+        sign: jest.fn(),
+        serialize: jest.fn(() => Buffer.from('mock-serialized-transaction')),
+      };
+
+      const mockSwapTransaction = {
+        serialize: () => Buffer.from('mock-serialized-transaction'),
+        sign: jest.fn(),
+        raydiumData: {
+          transaction: mockTransaction,
+          isV0Tx: true,
+          allTransactions: [mockTransaction]
+        }
+      };
+
+      const mockConnection = {
+        sendTransaction: jest.fn().mockResolvedValue('mock-signature'),
+        getLatestBlockhash: jest.fn().mockResolvedValue({
+          blockhash: 'test-blockhash',
+          lastValidBlockHeight: 1000
+        }),
+        confirmTransaction: jest.fn().mockRejectedValue(new Error('block height exceeded'))
+      };
+
+      Object.defineProperty(raydiumSwap, 'connection', {
+        value: mockConnection,
+        writable: true
+      });
+      const onSent = jest.fn().mockResolvedValue(undefined);
+
+      await expect(raydiumSwap.executeSwap(mockSwapTransaction, onSent)).rejects.toThrow(TransactionPendingError);
+      expect(onSent).toHaveBeenCalledWith({ signature: 'mock-signature', lastValidBlockHeight: 1000 });
+      expect(mockConnection.sendTransaction).toHaveBeenCalledTimes(1);
+    }, 10000);
+
     it('should retry on transaction failures', async () => {
       const mockTransaction = {
         sign: jest.fn(),
@@ -1,14 +1,86 @@
 import { Keypair } from "@solana/web3.js";
 import { SwapQuote, SwapTransaction, SwapResult } from "../types";
+import { PendingTransaction } from "../checkpoint/base";
+import { createAbortError } from "../../utils/abort";
+import { TransactionFailedError, TransactionPendingError, ValidationError } from "../../utils/errors";
+import { consoleLogger, getLogFields, LogLevel } from "../../utils/logger";
+import { RetryPolicy } from "../../utils/retry";
+import { CircuitBreaker } from "../../utils/circuit-breaker";
+import { Logger } from "../../solana/types";
+
+const DEFAULT_SWAP_RETRY_POLICY = new RetryPolicy({ baseDelayMs: 2000 });
+
+/**
+ * Called once a swap transaction is sent, before waiting for its confirmation
+ */
+export type SwapSentCallback = (pending: PendingTransaction) => Promise<void>;
+
+/**
+ * A swap protocol under the name its events, logs and errors use
+ */
+export interface SwapRoute {
+  name: string; // e.g. 'Jupiter'
+  protocol: BaseSwapProtocol;
+}
 
 export abstract class BaseSwapProtocol {
     protected keypair: Keypair;
     protected connection: any;
     protected requestId = 0;
+    protected logger: Logger;
+    protected retryPolicy: RetryPolicy;
+    protected circuitBreaker: CircuitBreaker;
   
-    constructor(keypair: Keypair, connection?: any) {
+    constructor(
+      keypair: Keypair,
+      connection?: any,
+      logger: Logger = consoleLogger,
+      retryPolicy: RetryPolicy = DEFAULT_SWAP_RETRY_POLICY,
+      circuitBreaker: CircuitBreaker = new CircuitBreaker('swap')
+    ) {
       this.keypair = keypair;
       this.connection = connection;
+      this.logger = logger;
+      this.retryPolicy = retryPolicy;
+      this.circuitBreaker = circuitBreaker;
+    }
+
+    /**
+     * Replace the logger, which defaults to the console
+     */
+    setLogger(logger: Logger): this {
+      this.logger = logger;
+      return this;
+    }
+
+    /**
+     * Replace the retry policy, which waits 2s then 4s between three attempts
+     */
+    setRetryPolicy(retryPolicy: RetryPolicy): this {
+      this.retryPolicy = retryPolicy;
+      return this;
+    }
+
+    /**
+     * Replace the circuit breaker that guards the protocol's API
+     */
+    setCircuitBreaker(circuitBreaker: CircuitBreaker): this {
+      this.circuitBreaker = circuitBreaker;
+      return this;
+    }
+
+    /**
+     * Get the circuit breaker that guards the protocol's API, e.g. to monitor its state
+     */
+    getCircuitBreaker(): CircuitBreaker {
+      return this.circuitBreaker;
+    }
+
+    /**
+     * Whether API calls currently fail fast, so that callers can fall back to another protocol
+     */
+    isCircuitOpen(): boolean {
+      return this.circuitBreaker.isOpen();
     }
 
     /**
@@ -32,37 +104,60 @@ export abstract class BaseSwapProtocol {
     }
 
     /**
-     * Framework-style retry operation
+     * Framework-style retry operation under the protocol's retry policy. Once
+     * the signal is aborted no further attempt starts and the backoff wait ends early.
      */
-    protected async retryOperation<T>(
+    protected retryOperation<T>(
       operation: () => Promise<T>,
-      maxRetries: number = 3
+      maxRetries?: number,
+      signal?: AbortSignal
     ): Promise<T> {
-      let lastError: Error;
-      
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-          return await operation();
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          
-          this.logOperation('retry_attempt_failed', {
-            error: lastError.message,
-            attempt,
-            maxRetries
-          });
-
-          if (attempt === maxRetries) {
-            throw lastError;
+      return this.retryPolicy.execute(operation, {
+        maxAttempts: maxRetries,
+        signal,
+        onFailedAttempt: ({ error, attempt, maxAttempts, retryable }) => {
+          // Aborts and failures such as invalid input or slippage fail the same way every time
+          if (retryable) {
+            this.logOperation('retry_attempt_failed', { error: error.message, attempt, maxRetries: maxAttempts }, 'warn');
           }
+        },
+      });
+    }
 
-          // Exponential backoff: wait 2^attempt seconds
-          const delay = Math.pow(2, attempt) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
+    /**
+     * Call the protocol's API under the retry policy, through the circuit
+     * breaker. The breaker counts a call once its retries are used up, and
+     * fails it fast without any attempt while open.
+     */
+    protected retryApiRequest<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      return this.circuitBreaker.execute(() => this.retryOperation(request, undefined, signal));
+    }
+
+    /**
+     * Report a sent swap transaction and wait for its confirmation. Once sent,
+     * the swap must not be sent again, so a confirmation that fails throws
+     * TransactionPendingError and one that lands with an error TransactionFailedError.
+     */
+    protected async confirmSentSwap(
+      pending: PendingTransaction,
+      onSent: SwapSentCallback | undefined,
+      confirm: () => Promise<{ value: { err: unknown } }>
+    ): Promise<void> {
+      await onSent?.(pending);
 
-      throw lastError!;
+      let err: unknown;
+      try {
+        ({ value: { err } } = await this.retryOperation(confirm));
+      } catch (error) {
+        throw new TransactionPendingError(
+          `Swap ${pending.signature} was sent but not confirmed: ${error instanceof Error ? error.message : String(error)}`,
+          pending.signature,
+          { cause: error }
+        );
+      }
+      if (err) {
+        throw new TransactionFailedError(`Swap ${pending.signature} failed: ${JSON.stringify(err)}`, { signature: pending.signature });
+      }
     }
 
     /**
@@ -76,22 +171,24 @@ export abstract class BaseSwapProtocol {
         ...context
       };
 
-      this.logOperation('error_occurred', errorContext);
-      console.error('Swap protocol error:', errorContext);
+      this.logger.error('Swap protocol error:', this.buildLogData('error_occurred', errorContext));
     }
 
     /**
-     * Framework-style operation logging
+     * Framework-style operation logging, with the current run's log fields
      */
-    protected logOperation(operation: string, data?: Record<string, any>): void {
-      const logData = {
+    protected logOperation(operation: string, data?: Record<string, any>, level: LogLevel = 'info'): void {
+      this.logger[level](`[SwapProtocol] ${operation}:`, this.buildLogData(operation, data));
+    }
+
+    private buildLogData(operation: string, data?: Record<string, any>): Record<string, any> {
+      return {
         operation,
         timestamp: new Date().toISOString(),
         signer: this.keypair.publicKey.toBase58(),
+        ...getLogFields(),
         ...data
       };
-
-      console.log(`[SwapProtocol] ${operation}:`, logData);
     }
 
     /**
@@ -120,22 +217,32 @@ export abstract class BaseSwapProtocol {
     ): Promise<SwapTransaction>;
   
     /**
-     * Execute a swap transaction
+     * Execute a swap transaction. A transaction that was sent but not
+     * confirmed throws TransactionPendingError, since it may still land.
      */
     abstract executeSwap(
-      transaction: SwapTransaction
+      transaction: SwapTransaction,
+      onSent?: SwapSentCallback
     ): Promise<SwapResult>;
   
     /**
-     * Complete swap flow: quote -> transaction -> execute
+     * Complete swap flow: quote -> transaction -> execute.
+     * An aborted signal stops the flow before the transaction is sent and
+     * returns an unsuccessful result marked as aborted; a sent transaction
+     * always runs to completion.
      */
     async swap(
       inputMint: string,
       outputMint: string,
       amount: number,
-      slippage: number = 0.5
+      slippage: number = 0.5,
+      signal?: AbortSignal
     ): Promise<SwapResult> {
       return this.handleError(async () => {
+        if (signal?.aborted) {
+          return this.abortedSwapResult('quote', signal);
+        }
+
         // Get quote
         const quote = await this.getQuote(inputMint, outputMint, amount, slippage);
         if (!quote) {
@@ -145,8 +252,16 @@ export abstract class BaseSwapProtocol {
           };
         }
   
+        if (signal?.aborted) {
+          return this.abortedSwapResult('transaction', signal);
+        }
+
         // Create transaction
         const transaction = await this.createSwapTransaction(quote, slippage);
+
+        if (signal?.aborted) {
+          return this.abortedSwapResult('execution', signal);
+        }
         
         // Execute transaction
         const result = await this.executeSwap(transaction);
@@ -159,6 +274,15 @@ export abstract class BaseSwapProtocol {
       }, 'swap_flow');
     }
   
+    private abortedSwapResult(stage: 'quote' | 'transaction' | 'execution', signal: AbortSignal): SwapResult {
+      this.logOperation('swap_flow_aborted', { stage });
+      return {
+        success: false,
+        aborted: true,
+        error: `${createAbortError(signal).message} before swap ${stage}`
+      };
+    }
+
     /**
      * Validate swap parameters
      */
@@ -168,15 +292,15 @@ export abstract class BaseSwapProtocol {
       amount: number
     ): void {
       if (!inputMint || !outputMint) {
-        throw new Error('Input and output mints are required');
+        throw new ValidationError('Input and output mints are required');
       }
       
       if (inputMint === outputMint) {
-        throw new Error('Input and output mints cannot be the same');
+        throw new ValidationError('Input and output mints cannot be the same');
       }
       
       if (amount <= 0) {
-        throw new Error('Amount must be greater than 0');
+        throw new ValidationError('Amount must be greater than 0');
       }
     }
   } 
\ No newline at end of file
@@ -1,12 +1,19 @@
 import { Keypair, VersionedTransaction, Connection } from '@solana/web3.js';
-import { BaseSwapProtocol } from './base-protocol';
+import { BaseSwapProtocol, SwapSentCallback } from './base-protocol';
+import { isRetryableStatus, ProtocolError, ValidationError } from '../../utils/errors';
 import { SwapQuote, SwapTransaction, SwapResult } from '../types';
 import { HeliusClient } from '../../solana/clients/helius';
+import { Logger } from '../../solana/types';
+import { RetryPolicy } from '../../utils/retry';
+import { CircuitBreaker, circuitBreakers } from '../../utils/circuit-breaker';
 
 export interface JupiterSwapConfig {
   tokenListUrl?: string; // Configurable token list URL
   fallbackDecimals?: number; // Default decimals if token not found
   heliusClient?: HeliusClient; // Optional Helius client for RPC calls
+  logger?: Logger; // Defaults to the console
+  retryPolicy?: RetryPolicy; // Defaults to three attempts, 2s then 4s apart
+  circuitBreaker?: CircuitBreaker; // Defaults to the shared 'jupiter' breaker
 }
 
 export class JupiterSwap extends BaseSwapProtocol {
@@ -14,7 +21,7 @@ export class JupiterSwap extends BaseSwapProtocol {
   private heliusClient?: HeliusClient;
 
   constructor(keypair: Keypair, connection: Connection, config: JupiterSwapConfig = {}) {
-    super(keypair, connection);
+    super(keypair, connection, config.logger, config.retryPolicy, config.circuitBreaker ?? circuitBreakers.get('jupiter'));
     this.connection = connection;
     this.config = {
       tokenListUrl: 'https://token.jup.ag/all', // Jupiter's public token list
@@ -44,17 +51,20 @@ export class JupiterSwap extends BaseSwapProtocol {
       fromAsset.decimals = fromToken.decimals;
       toAsset.decimals = toToken.decimals;
 
-      const quote = await this.retryOperation(async () => {
+      const quote = await this.retryApiRequest(async () => {
         const response = await fetch(
           `https://quote-api.jup.ag/v6/quote?inputMint=${inputMint}&outputMint=${outputMint}&amount=${amount * Math.pow(10, fromAsset.decimals)}&slippage=${slippage}`
         );
         
         if (!response.ok) {
-          throw new Error(`Jupiter API error: ${response.statusText}`);
+          throw new ProtocolError(`Jupiter API error: ${response.statusText}`, 'jupiter', {
+            retryable: isRetryableStatus(response.status),
+            details: { status: response.status },
+          });
         }
         
         return response.json();
-      }, 3);
+      });
 
       if (quote && quote.outAmount) {
         return {
@@ -77,10 +87,10 @@ export class JupiterSwap extends BaseSwapProtocol {
   ): Promise<SwapTransaction> {
     return this.handleError(async () => {
       if (!quote['jupiterQuote']) {
-        throw new Error('Invalid quote: missing Jupiter quote data');
+        throw new ValidationError('Invalid quote: missing Jupiter quote data');
       }
 
-      const { swapTransaction } = await this.retryOperation(async () => {
+      const { swapTransaction } = await this.retryApiRequest(async () => {
         const response = await fetch('https://quote-api.jup.ag/v6/swap', {
           method: 'POST',
           headers: {
@@ -94,11 +104,14 @@ export class JupiterSwap extends BaseSwapProtocol {
         });
         
         if (!response.ok) {
-          throw new Error(`Jupiter API error: ${response.statusText}`);
+          throw new ProtocolError(`Jupiter API error: ${response.statusText}`, 'jupiter', {
+            retryable: isRetryableStatus(response.status),
+            details: { status: response.status },
+          });
         }
         
         return response.json();
-      }, 3);
+      });
 
       const swapTransactionBuf = Buffer.from(swapTransaction, 'base64');
       const transaction = VersionedTransaction.deserialize(swapTransactionBuf);
@@ -110,7 +123,7 @@ export class JupiterSwap extends BaseSwapProtocol {
     }, 'jupiter_create_transaction');
   }
 
-  async executeSwap(transaction: SwapTransaction): Promise<SwapResult> {
+  async executeSwap(transaction: SwapTransaction, onSent?: SwapSentCallback): Promise<SwapResult> {
     return this.handleError(async () => {
       transaction.sign([this.keypair]);
       
@@ -119,19 +132,19 @@ export class JupiterSwap extends BaseSwapProtocol {
           transaction as any, // Type assertion needed due to interface
           { skipPreflight: true, maxRetries: 2 }
         );
-      }, 3);
+      });
 
       const latestBlockhash = await this.retryOperation(async () => {
         return await this.connection.getLatestBlockhash();
-      }, 3);
+      });
 
-      await this.retryOperation(async () => {
+      await this.confirmSentSwap({ signature, lastValidBlockHeight: latestBlockhash.lastValidBlockHeight }, onSent, async () => {
         return await this.connection.confirmTransaction({
           blockhash: latestBlockhash.blockhash,
           lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
           signature
         });
-      }, 3);
+      });
 
       return {
         success: true,
@@ -145,7 +158,7 @@ export class JupiterSwap extends BaseSwapProtocol {
       // Try Jupiter's public token list first
       const response = await fetch(this.config.tokenListUrl!);
       if (!response.ok) {
-        throw new Error(`Failed to fetch token list: ${response.statusText}`);
+        throw new ProtocolError(`Failed to fetch token list: ${response.statusText}`, 'jupiter');
       }
       
       const tokens = await response.json();
@@ -164,11 +177,11 @@ export class JupiterSwap extends BaseSwapProtocol {
       }
       
       // Final fallback: use configured default
-      console.warn(`Token ${tokenAddress} not found in token list, using default decimals: ${this.config.fallbackDecimals}`);
+      this.logger.warn(`Token ${tokenAddress} not found in token list, using default decimals: ${this.config.fallbackDecimals}`);
       return { decimals: this.config.fallbackDecimals! };
       
     } catch (error) {
-      console.warn(`Failed to get token info for ${tokenAddress}, using default decimals: ${this.config.fallbackDecimals}`, error);
+      this.logger.warn(`Failed to get token info for ${tokenAddress}, using default decimals: ${this.config.fallbackDecimals}`, error);
       return { decimals: this.config.fallbackDecimals! };
     }
   }
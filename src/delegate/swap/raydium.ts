@@ -1,19 +1,26 @@
-import { Keypair, Transaction, VersionedTransaction, sendAndConfirmTransaction } from '@solana/web3.js';
+import { Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
 import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import { BaseSwapProtocol } from './base-protocol';
+import { BaseSwapProtocol, SwapSentCallback } from './base-protocol';
+import { isRetryableStatus, ProtocolError, ValidationError } from '../../utils/errors';
 import { SwapQuote, SwapTransaction, SwapResult } from '../types';
 import { API_URLS, parseTokenAccountResp } from '@raydium-io/raydium-sdk-v2';
 import { HeliusClient } from '../../solana/clients/helius';
+import { Logger } from '../../solana/types';
+import { RetryPolicy } from '../../utils/retry';
+import { CircuitBreaker, circuitBreakers } from '../../utils/circuit-breaker';
 
 export interface RaydiumSwapConfig {
   heliusClient?: HeliusClient; // Optional Helius client for RPC calls
+  logger?: Logger; // Defaults to the console
+  retryPolicy?: RetryPolicy; // Defaults to three attempts, 2s then 4s apart
+  circuitBreaker?: CircuitBreaker; // Defaults to the shared 'raydium' breaker
 }
 
 export class RaydiumSwap extends BaseSwapProtocol {
   private heliusClient?: HeliusClient;
 
   constructor(keypair: Keypair, config: RaydiumSwapConfig = {}) {
-    super(keypair);
+    super(keypair, undefined, config.logger, config.retryPolicy, config.circuitBreaker ?? circuitBreakers.get('raydium'));
     this.heliusClient = config.heliusClient;
   }
 
@@ -29,17 +36,20 @@ export class RaydiumSwap extends BaseSwapProtocol {
       const txVersion = 'V0';
       const slippageBps = slippage * 100;
 
-      const swapComputeResponse = await this.retryOperation(async () => {
+      const swapComputeResponse = await this.retryApiRequest(async () => {
         const response = await fetch(
           `${API_URLS.SWAP_HOST}/compute/swap-base-in?inputMint=${inputMint}&outputMint=${outputMint}&amount=${amount}&slippageBps=${slippageBps}&txVersion=${txVersion}`
         );
 
         if (!response.ok) {
-          throw new Error(`Raydium API error: ${response.statusText}`);
+          throw new ProtocolError(`Raydium API error: ${response.statusText}`, 'raydium', {
+            retryable: isRetryableStatus(response.status),
+            details: { status: response.status },
+          });
         }
 
         return response.json();
-      }, 3);
+      });
 
       if (swapComputeResponse.success && swapComputeResponse.data) {
         return {
@@ -61,7 +71,7 @@ export class RaydiumSwap extends BaseSwapProtocol {
   ): Promise<SwapTransaction> {
     return this.handleError(async () => {
       if (!quote['raydiumQuote']) {
-        throw new Error('Invalid quote: missing Raydium quote data');
+        throw new ValidationError('Invalid quote: missing Raydium quote data');
       }
 
       const txVersion = 'V0';
@@ -78,16 +88,19 @@ export class RaydiumSwap extends BaseSwapProtocol {
       ];
 
       // Get priority fee
-      const feeResponse = await this.retryOperation(async () => {
+      const feeResponse = await this.retryApiRequest(async () => {
         const response = await fetch(`${API_URLS.BASE_HOST}${API_URLS.PRIORITY_FEE}`);
         if (!response.ok) {
-          throw new Error(`Raydium API error: ${response.statusText}`);
+          throw new ProtocolError(`Raydium API error: ${response.statusText}`, 'raydium', {
+            retryable: isRetryableStatus(response.status),
+            details: { status: response.status },
+          });
         }
         return response.json();
-      }, 3);
+      });
 
       // Create swap transaction
-      const swapTransactionsResponse = await this.retryOperation(async () => {
+      const swapTransactionsResponse = await this.retryApiRequest(async () => {
         const response = await fetch(`${API_URLS.SWAP_HOST}/transaction/swap-base-in`, {
           method: 'POST',
           headers: {
@@ -106,11 +119,14 @@ export class RaydiumSwap extends BaseSwapProtocol {
         });
 
         if (!response.ok) {
-          throw new Error(`Raydium API error: ${response.statusText}`);
+          throw new ProtocolError(`Raydium API error: ${response.statusText}`, 'raydium', {
+            retryable: isRetryableStatus(response.status),
+            details: { status: response.status },
+          });
         }
 
         return response.json();
-      }, 3);
+      });
 
       // Create transaction objects
       const allTxBuf = swapTransactionsResponse.data.map((tx: any) => Buffer.from(tx.transaction, 'base64'));
@@ -140,60 +156,51 @@ export class RaydiumSwap extends BaseSwapProtocol {
     }, 'raydium_create_transaction');
   }
 
-  async executeSwap(transaction: SwapTransaction): Promise<SwapResult> {
+  async executeSwap(transaction: SwapTransaction, onSent?: SwapSentCallback): Promise<SwapResult> {
     return this.handleError(async () => {
       const raydiumData = (transaction as any).raydiumData;
 
       if (!raydiumData) {
-        throw new Error('Invalid transaction: missing Raydium data');
+        throw new ValidationError('Invalid transaction: missing Raydium data');
       }
 
       const { transaction: tx, isV0Tx } = raydiumData;
 
-      if (isV0Tx) {
-        // Handle versioned transaction
-        const vtx = tx as VersionedTransaction;
-        vtx.sign([this.keypair]);
-        
-        const txId = await this.retryOperation(async () => {
+      // Sent and confirmed separately, so the sent transaction can be reported
+      // before its confirmation
+      const txId: string = await this.retryOperation(async () => {
+        if (isV0Tx) {
+          const vtx = tx as VersionedTransaction;
+          vtx.sign([this.keypair]);
           return await this.connection.sendTransaction(vtx, { skipPreflight: true });
-        }, 3);
-
-        const { lastValidBlockHeight, blockhash } = await this.retryOperation(async () => {
-          return await this.connection.getLatestBlockhash({
-            commitment: 'finalized',
-          });
-        }, 3);
-
-        await this.retryOperation(async () => {
-          return await this.connection.confirmTransaction(
-            {
-              blockhash,
-              lastValidBlockHeight,
-              signature: txId,
-            },
-            'confirmed'
-          );
-        }, 3);
+        }
 
-        return {
-          success: true,
-          signature: txId
-        };
-      } else {
-        // Handle legacy transaction
         const legacyTx = tx as Transaction;
         legacyTx.sign(this.keypair);
-        
-        const txId = await this.retryOperation(async () => {
-          return await sendAndConfirmTransaction(this.connection, legacyTx, [this.keypair], { skipPreflight: true });
-        }, 3);
-        
-        return {
-          success: true,
-          signature: txId
-        };
-      }
+        return await this.connection.sendRawTransaction(legacyTx.serialize(), { skipPreflight: true });
+      });
+
+      const { lastValidBlockHeight, blockhash } = await this.retryOperation(async () => {
+        return await this.connection.getLatestBlockhash({
+          commitment: 'finalized',
+        });
+      });
+
+      await this.confirmSentSwap({ signature: txId, lastValidBlockHeight }, onSent, async () => {
+        return await this.connection.confirmTransaction(
+          {
+            blockhash,
+            lastValidBlockHeight,
+            signature: txId,
+          },
+          'confirmed'
+        );
+      });
+
+      return {
+        success: true,
+        signature: txId
+      };
     }, 'raydium_execute_swap');
   }
 
@@ -37,6 +37,9 @@ import { JupiterSwap, JupiterSwapConfig } from './swap/jupiter';
 import { RaydiumSwap, RaydiumSwapConfig } from './swap/raydium';
 import { HeliusClient } from '../solana/clients/helius';
 import { BaseDelegate } from './base-delegate';
+import { Logger } from '../solana/types';
+import { RetryPolicy } from '../utils/retry';
+import { ProtocolError, ValidationError } from '../utils/errors';
 
 export interface SwapTask {
   fromAsset: string;
@@ -85,6 +88,26 @@ export class Swapper extends BaseDelegate {
     });
   }
 
+  /**
+   * Replace the logger of the swapper and both swap protocols
+   */
+  override setLogger(logger: Logger): this {
+    super.setLogger(logger);
+    this.jupiterSwap.setLogger(logger);
+    this.raydiumSwap.setLogger(logger);
+    return this;
+  }
+
+  /**
+   * Replace the retry policy of the swapper and both swap protocols
+   */
+  override setRetryPolicy(retryPolicy: RetryPolicy): this {
+    super.setRetryPolicy(retryPolicy);
+    this.jupiterSwap.setRetryPolicy(retryPolicy);
+    this.raydiumSwap.setRetryPolicy(retryPolicy);
+    return this;
+  }
+
   /**
    * Execute a swap task with fallback between protocols
    */
@@ -96,7 +119,7 @@ export class Swapper extends BaseDelegate {
       
       // Validate task
       if (!task.fromAsset || !task.toAssets || task.toAssets.length !== 1) {
-        throw new Error("Invalid swap task: fromAsset and exactly one toAsset required");
+        throw new ValidationError("Invalid swap task: fromAsset and exactly one toAsset required");
       }
 
       const fromAsset = task.fromAsset; // Now TypeScript knows this is not undefined
@@ -106,16 +129,16 @@ export class Swapper extends BaseDelegate {
       // Get swap amount
       const swapAmount = await this.getSwapAmount(fromAsset, task.numTokens);
 
-      console.log(`Attempting swap: ${swapAmount} ${fromAsset} -> ${toAsset}`);
+      this.logger.info(`Attempting swap: ${swapAmount} ${fromAsset} -> ${toAsset}`);
 
       // Try Jupiter first, then Raydium as fallback
       const result = await this.swapWithFallback(fromAsset, toAsset, swapAmount, slippage);
 
       if (result.success) {
-        console.log(`Swap successful using ${result.protocol}: ${result.signature}`);
+        this.logger.info(`Swap successful using ${result.protocol}: ${result.signature}`);
         this.logOperation('swap_execution_completed', { requestId, protocol: result.protocol, signature: result.signature });
       } else {
-        console.log(`Swap failed: ${result.error}`);
+        this.logger.info(`Swap failed: ${result.error}`);
         this.logOperation('swap_execution_failed', { requestId, error: result.error });
       }
 
@@ -160,32 +183,40 @@ export class Swapper extends BaseDelegate {
     amount: number,
     slippage: number
   ): Promise<SwapResult> {
-    // Try Jupiter first
-    try {
-      const result = await this.retryOperation(
-        () => this.executeJupiterSwap(fromAsset, toAsset, amount, slippage),
-        3
-      );
-      
-      if (result.success) {
-        return { ...result, protocol: 'Jupiter' };
+    // Try Jupiter first, unless its circuit breaker is open
+    if (this.jupiterSwap.isCircuitOpen()) {
+      this.logger.warn("Jupiter circuit breaker is open, trying Raydium");
+    } else {
+      try {
+        const result = await this.retryOperation(
+          () => this.executeJupiterSwap(fromAsset, toAsset, amount, slippage),
+          3
+        );
+
+        if (result.success) {
+          return { ...result, protocol: 'Jupiter' };
+        }
+      } catch (error) {
+        this.logger.warn("Jupiter swap failed, trying Raydium:", error);
       }
-    } catch (error) {
-      console.warn("Jupiter swap failed, trying Raydium:", error);
     }
 
-    // Fallback to Raydium
-    try {
-      const result = await this.retryOperation(
-        () => this.executeRaydiumSwap(fromAsset, toAsset, amount, slippage),
-        3
-      );
-      
-      if (result.success) {
-        return { ...result, protocol: 'Raydium' };
+    // Fallback to Raydium, unless its circuit breaker is open too
+    if (this.raydiumSwap.isCircuitOpen()) {
+      this.logger.error("Raydium circuit breaker is open too");
+    } else {
+      try {
+        const result = await this.retryOperation(
+          () => this.executeRaydiumSwap(fromAsset, toAsset, amount, slippage),
+          3
+        );
+
+        if (result.success) {
+          return { ...result, protocol: 'Raydium' };
+        }
+      } catch (error) {
+        this.logger.error("Raydium swap also failed:", error);
       }
-    } catch (error) {
-      console.error("Raydium swap also failed:", error);
     }
 
     return {
@@ -206,7 +237,7 @@ export class Swapper extends BaseDelegate {
     // Get quote
     const quote = await this.jupiterSwap.getQuote(fromAsset, toAsset, amount, slippage);
     if (!quote) {
-      throw new Error("Failed to get Jupiter quote");
+      throw new ProtocolError("Failed to get Jupiter quote", "jupiter");
     }
 
     // Create transaction
@@ -230,7 +261,7 @@ export class Swapper extends BaseDelegate {
     // Get quote
     const quote = await this.raydiumSwap.getQuote(fromAsset, toAsset, amount, slippage);
     if (!quote) {
-      throw new Error("Failed to get Raydium quote");
+      throw new ProtocolError("Failed to get Raydium quote", "raydium");
     }
 
     // Create transaction
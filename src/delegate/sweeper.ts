@@ -0,0 +1,337 @@
+import { Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import {
+    createAssociatedTokenAccountIdempotentInstruction,
+    createCloseAccountInstruction,
+    createTransferCheckedInstruction,
+    getAssociatedTokenAddressSync,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from "@solana/spl-token";
+import bs58 from "bs58";
+import { DryRunPlan, HopperCheckpointState, SweeperDelegateOptions, SweeperDelegateResult, SweptWallet } from "./types";
+import { BaseDelegate } from "./base-delegate";
+import { DelegateExecutionContext } from "./base";
+import { DELEGATE_TYPES } from "./constants";
+import { createDryRunPlan } from "./dry-run";
+import { isAbortError, throwIfAborted } from "../utils/abort";
+import { ConfigurationError, TransactionFailedError, ValidationError } from "../utils/errors";
+import { sweeperOptionsSchema } from "./schemas";
+
+interface HeldTokenAccount {
+    address: PublicKey;
+    programId: PublicKey;
+    mint: PublicKey;
+    amount: string;
+    decimals: number;
+    lamports: number;
+}
+
+/**
+ * Recovers funds left in generated wallets, such as the hop wallets of a
+ * Hopper run that failed or was stopped part way. Every token is moved to
+ * the destination and its account closed, then the remaining SOL follows.
+ * The signer pays all fees, so wallets holding only tokens can be swept too.
+ */
+export class Sweeper extends BaseDelegate<SweeperDelegateOptions, SweeperDelegateResult> {
+    protected override readonly delegateType = DELEGATE_TYPES.SWEEPER;
+    private static readonly TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+    async executeDelegate(delegateOptions: SweeperDelegateOptions, context: DelegateExecutionContext = {}): Promise<SweeperDelegateResult> {
+        const requestId = this.generateRequestId();
+        const wallets: SweptWallet[] = [];
+        let total = 0;
+
+        try {
+            this.logOperation('sweeper_execution_started', { requestId });
+            this.emitEvent('execution_started', { requestId, dryRun: !!context.dryRun });
+
+            this.validateOptions(delegateOptions);
+
+            const { closeTokenAccounts = true } = delegateOptions;
+            const destination = new PublicKey(delegateOptions.destination);
+            const hopMap = await this.getHopMap(delegateOptions, context);
+            total = hopMap.length;
+
+            this.logOperation('sweeper_setup', { requestId, destination: delegateOptions.destination, wallets: total });
+
+            const plan = context.dryRun ? createDryRunPlan() : null;
+
+            // Each wallet is swept on its own, so one failure does not block the others
+            for (const [index, hop] of hopMap.entries()) {
+                throwIfAborted(context.signal);
+
+                const wallet = await this.sweepWallet(
+                    Keypair.fromSecretKey(bs58.decode(hop.privateKey)),
+                    destination,
+                    closeTokenAccounts,
+                    requestId,
+                    plan
+                );
+                if (wallet.error) {
+                    this.emitEvent('item_failed', { requestId, index, item: wallet.publicKey, error: wallet.error });
+                }
+                wallets.push(wallet);
+            }
+
+            if (plan) {
+                this.logOperation('sweeper_dry_run_completed', { requestId, transactions: plan.transactions.length, errors: plan.errors.length });
+                return this.completeExecution(requestId, this.buildDryRunResult(this.buildResult(delegateOptions.destination, wallets), plan));
+            }
+
+            const result: SweeperDelegateResult = { success: true, ...this.buildResult(delegateOptions.destination, wallets) };
+            const failed = wallets.filter(wallet => wallet.error).length;
+            if (failed > 0) {
+                result.success = false;
+                result.error = `${failed} of ${wallets.length} wallets could not be swept completely`;
+            }
+
+            this.logOperation('sweeper_execution_completed', {
+                requestId,
+                signatures: result.signatures,
+                totalLamportsRecovered: result.totalLamportsRecovered,
+                failed
+            });
+
+            return this.completeExecution(requestId, result);
+
+        } catch (error) {
+            if (isAbortError(error)) {
+                this.logOperation('sweeper_execution_aborted', { requestId, swept: wallets.length });
+                return this.completeExecution(requestId, this.buildAbortedResult(this.buildResult(delegateOptions.destination, wallets), wallets.length, total, context.signal));
+            }
+
+            this.emitEvent('execution_failed', { requestId, error: error instanceof Error ? error.message : String(error) });
+            await this.handleError(error instanceof Error ? error : new Error(String(error)), { requestId });
+            throw error;
+        }
+    }
+
+    validateOptions(delegateOptions: SweeperDelegateOptions): void {
+        sweeperOptionsSchema.assert(delegateOptions);
+    }
+
+    private async getHopMap(delegateOptions: SweeperDelegateOptions, context: DelegateExecutionContext): Promise<HopperCheckpointState['hopMap']> {
+        if (delegateOptions.hopMap) {
+            return delegateOptions.hopMap;
+        }
+
+        const key = delegateOptions.checkpointKey!;
+        if (!context.checkpointStore) {
+            throw new ConfigurationError("checkpointKey requires a checkpoint store");
+        }
+
+        const checkpoint = await context.checkpointStore.get(key);
+        if (!checkpoint) {
+            throw new ValidationError(`No checkpoint found for key ${key}`);
+        }
+        if (checkpoint.type !== DELEGATE_TYPES.HOPPER) {
+            throw new ValidationError(`Checkpoint ${key} is not a ${DELEGATE_TYPES.HOPPER} run`);
+        }
+
+        return (checkpoint.state as HopperCheckpointState).hopMap;
+    }
+
+    /**
+     * Sweep one wallet. In a dry run the transactions are simulated instead,
+     * and the wallet only reports what it holds.
+     */
+    private async sweepWallet(
+        owner: Keypair,
+        destination: PublicKey,
+        closeTokenAccounts: boolean,
+        requestId: number,
+        plan: DryRunPlan | null
+    ): Promise<SweptWallet> {
+        const wallet: SweptWallet = {
+            publicKey: owner.publicKey.toBase58(),
+            lamportsFound: 0,
+            lamportsRecovered: 0,
+            tokenAccounts: [],
+            signatures: []
+        };
+
+        try {
+            wallet.lamportsFound = await this.retryOperation(async () => this.connection.getBalance(owner.publicKey));
+            const tokenAccounts = await this.getTokenAccounts(owner.publicKey);
+
+            this.logOperation('wallet_balances_checked', {
+                requestId,
+                wallet: wallet.publicKey,
+                lamports: wallet.lamportsFound,
+                tokenAccounts: tokenAccounts.length
+            });
+
+            // Tokens go first; closing their accounts is only possible once they are empty
+            for (const account of tokenAccounts) {
+                const hasTokens = BigInt(account.amount) > 0n;
+                if (!hasTokens && !closeTokenAccounts) {
+                    continue;
+                }
+
+                const transaction = this.buildTokenSweep(owner, account, destination, hasTokens, closeTokenAccounts);
+                const description = `Sweep ${account.amount} of ${account.mint.toBase58()} from ${wallet.publicKey}`;
+                if (plan) {
+                    await this.simulate(plan, transaction, description);
+                    continue;
+                }
+
+                const signature = await this.sendTransaction(transaction, owner, requestId, description);
+                const rentReclaimed = closeTokenAccounts ? account.lamports : 0;
+                wallet.tokenAccounts.push({
+                    tokenAccount: account.address.toBase58(),
+                    mint: account.mint.toBase58(),
+                    amount: account.amount,
+                    decimals: account.decimals,
+                    closed: closeTokenAccounts,
+                    rentReclaimed,
+                    signature
+                });
+                wallet.signatures.push(signature);
+                wallet.lamportsRecovered += rentReclaimed;
+            }
+
+            const lamports = plan ? wallet.lamportsFound : await this.retryOperation(async () => this.connection.getBalance(owner.publicKey));
+            if (lamports > 0) {
+                const transaction = new Transaction().add(
+                    SystemProgram.transfer({
+                        fromPubkey: owner.publicKey,
+                        toPubkey: destination,
+                        lamports
+                    })
+                );
+                const description = `Sweep ${lamports} lamports from ${wallet.publicKey}`;
+
+                if (plan) {
+                    await this.simulate(plan, transaction, description);
+                } else {
+                    wallet.signatures.push(await this.sendTransaction(transaction, owner, requestId, description));
+                    wallet.lamportsRecovered += lamports;
+                }
+            }
+
+            this.logOperation('wallet_swept', {
+                requestId,
+                wallet: wallet.publicKey,
+                lamportsRecovered: wallet.lamportsRecovered,
+                tokenAccounts: wallet.tokenAccounts.length
+            });
+        } catch (error) {
+            wallet.error = error instanceof Error ? error.message : String(error);
+            await this.handleError(error instanceof Error ? error : new Error(wallet.error), { requestId, wallet: wallet.publicKey });
+        }
+
+        return wallet;
+    }
+
+    /**
+     * Build the transaction that moves a token account's balance to the
+     * destination's associated account and closes it, sending its rent to the
+     * destination. The signer pays for the destination account if needed.
+     */
+    private buildTokenSweep(
+        owner: Keypair,
+        account: HeldTokenAccount,
+        destination: PublicKey,
+        hasTokens: boolean,
+        closeTokenAccount: boolean
+    ): Transaction {
+        const transaction = new Transaction();
+        transaction.feePayer = this.signerKeypair.publicKey;
+
+        if (hasTokens) {
+            const destinationAccount = getAssociatedTokenAddressSync(account.mint, destination, true, account.programId);
+            transaction.add(
+                createAssociatedTokenAccountIdempotentInstruction(
+                    this.signerKeypair.publicKey,
+                    destinationAccount,
+                    destination,
+                    account.mint,
+                    account.programId
+                ),
+                createTransferCheckedInstruction(
+                    account.address,
+                    account.mint,
+                    destinationAccount,
+                    owner.publicKey,
+                    BigInt(account.amount),
+                    account.decimals,
+                    [],
+                    account.programId
+                )
+            );
+        }
+        if (closeTokenAccount) {
+            transaction.add(
+                createCloseAccountInstruction(account.address, destination, owner.publicKey, [], account.programId)
+            );
+        }
+
+        return transaction;
+    }
+
+    private async getTokenAccounts(owner: PublicKey): Promise<HeldTokenAccount[]> {
+        const accounts: HeldTokenAccount[] = [];
+
+        for (const programId of Sweeper.TOKEN_PROGRAMS) {
+            const response = await this.retryOperation(async () => {
+                return await this.connection.getParsedTokenAccountsByOwner(owner, { programId });
+            });
+
+            for (const { pubkey, account } of response.value) {
+                const info = account.data.parsed.info;
+                accounts.push({
+                    address: pubkey,
+                    programId,
+                    mint: new PublicKey(info.mint),
+                    amount: info.tokenAmount.amount,
+                    decimals: info.tokenAmount.decimals,
+                    lamports: account.lamports
+                });
+            }
+        }
+
+        return accounts;
+    }
+
+    /**
+     * Send a transaction signed by the swept wallet, with the signer paying the fee
+     */
+    private async sendTransaction(transaction: Transaction, owner: Keypair, requestId: number, description: string): Promise<string> {
+        transaction.feePayer = this.signerKeypair.publicKey;
+
+        const { blockhash, lastValidBlockHeight } = await this.retryOperation(async () => {
+            return await this.connection.getLatestBlockhash();
+        });
+
+        transaction.recentBlockhash = blockhash;
+        transaction.sign(this.signerKeypair, owner);
+        this.emitEvent('transaction_built', { requestId, description });
+
+        const signature = await this.retryOperation(async () => {
+            return await this.connection.sendRawTransaction(transaction.serialize(), {
+                skipPreflight: false,
+                maxRetries: 3,
+            });
+        });
+        this.emitEvent('transaction_sent', { requestId, description, signature });
+
+        const { value } = await this.retryOperation(async () => {
+            return await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+        });
+        if (value.err) {
+            throw new TransactionFailedError(`Transaction ${signature} failed: ${JSON.stringify(value.err)}`, { signature });
+        }
+        this.emitEvent('transaction_confirmed', { requestId, description, signature });
+
+        return signature;
+    }
+
+    private buildResult(destination: string, wallets: SweptWallet[]): Pick<SweeperDelegateResult, 'signatures' | 'destination' | 'wallets' | 'totalLamportsRecovered'> {
+        return {
+            signatures: wallets.flatMap(wallet => wallet.signatures),
+            destination,
+            wallets,
+            totalLamportsRecovered: wallets.reduce((sum, wallet) => sum + wallet.lamportsRecovered, 0)
+        };
+    }
+}
@@ -2,6 +2,19 @@ import { TxVersion } from "@raydium-io/raydium-sdk-v2";
 import { BaseTask } from "../types";
 import { DELEGATE_TYPES } from "./constants";
 import { Keypair } from "@solana/web3.js";
+import { Infer } from "../utils/schema";
+import {
+    allocationSchema,
+    allocatorOptionsSchema,
+    burnerOptionsSchema,
+    buybackBurnerOptionsSchema,
+    deployerOptionsSchema,
+    distributorOptionsSchema,
+    hopperOptionsSchema,
+    liquidatorOptionsSchema,
+    sweeperOptionsSchema,
+} from "./schemas";
+import type { RaydiumLaunchlabOptions } from "./launch/raydium-launchlab";
 
 const BN = require("bn.js");
 
@@ -15,9 +28,45 @@ export interface BaseDelegateResult {
     success: boolean;
     signatures?: string[];
     error?: string;
+    aborted?: boolean; // Set when the run was stopped by its abort signal
+    progress?: DelegateProgress; // Steps completed by an aborted run
+    dryRun?: DryRunPlan; // Set instead of signatures when the run only simulated its transactions
     [key: string]: any; // Allow additional properties
 }
 
+export interface DelegateProgress {
+    completed: number;
+    total: number;
+}
+
+// Dry-run types
+export interface BalanceChange {
+    address: string;
+    lamports: number; // Negative when the account pays
+}
+
+export interface SimulatedTransaction {
+    description: string;
+    success: boolean;
+    error?: string;
+    computeUnits?: number;
+    fee: number; // Lamports
+    balanceChanges: BalanceChange[]; // Writable accounts whose SOL balance would change
+    logs: string[];
+}
+
+/**
+ * What a dry run would have sent. Nothing in a plan has been submitted.
+ */
+export interface DryRunPlan {
+    transactions: SimulatedTransaction[];
+    balanceChanges: BalanceChange[]; // Summed over all transactions
+    totalFee: number;
+    totalComputeUnits: number;
+    errors: string[]; // Simulation errors, prefixed by the transaction description
+    notes: string[]; // Steps that were not simulated and why
+}
+
 // Generic metadata interface
 export interface TokenMetadata {
     name: string;
@@ -33,29 +82,14 @@ export interface TokenMetadata {
 }
 
 // Raydium-specific types
-export type RaydiumLaunchpadMigrateType = "amm" | "cpmm";
+export type RaydiumLaunchpadMigrateType = RaydiumLaunchlabOptions["tokenMigrateType"];
 
-export interface DeployerTask extends BaseTask {
+export interface DeployerTask extends BaseTask<DeployerDelegateOptions, DeployerDelegateResult> {
     type: typeof DELEGATE_TYPES.DEPLOYER;
 }
 
-export interface DeployerDelegateOptions extends BaseDelegateOptions {
-    type: typeof DELEGATE_TYPES.DEPLOYER;
-    platformId: string;
-    tokenName: string;
-    tokenSymbol: string;
-    tokenDescription?: string;
-    tokenMigrateType: RaydiumLaunchpadMigrateType;
-    buyAmount: number;
-    buySlippageBps?: number;
-    extraSigners?: Keypair[];
-    tokenImage?: string;
-    tokenWebsite?: string;
-    tokenTwitter?: string;
-    tokenTelegram?: string;
-    tokenDiscord?: string;
-    tokenGithub?: string;
-}
+// Delegate options are defined by their schemas in ./schemas
+export type DeployerDelegateOptions = BaseDelegateOptions & Infer<typeof deployerOptionsSchema>;
 
 export interface RaydiumLaunchpadTokenParams {
     name: string;
@@ -81,42 +115,52 @@ export interface DeployerDelegateResult extends BaseDelegateResult {
     signatures: string[];
     tokenMint?: string;
     metadataUri?: string;
+    platform?: string; // Launch platform the token was created on
 }
 
 // Burner-specific types
-export interface BurnerTask extends BaseTask {
+export interface BurnerTask extends BaseTask<BurnerDelegateOptions, BurnerDelegateResult> {
     type: typeof DELEGATE_TYPES.BURNER;
 }
 
-export interface BurnerDelegateOptions extends BaseDelegateOptions {
-    type: typeof DELEGATE_TYPES.BURNER;
-    tokenAddress: string;
-    numTokens: number;
-    privateKey: string;
-}
+export type BurnerDelegateOptions = BaseDelegateOptions & Infer<typeof burnerOptionsSchema>;
+
+export type BurnMode = NonNullable<Infer<typeof burnerOptionsSchema>['mode']>;
 
 export interface BurnerDelegateResult extends BaseDelegateResult {
     signatures: string[];
-    burnedAmount: string;
+    burnedAmount: string; // In base units
+    tokenMint: string;
+    tokenProgram: string; // The SPL Token or Token-2022 program that owns the mint
+    tokenAccount: string; // The wallet's associated token account
+    owner: string; // The wallet the tokens were burned from
+    burnedViaApproval: boolean; // Set when the signer burned under the owner's approval rather than as the owner
+    postBurnBalance: string; // Read back after the burn, in base units; '0' once the account is closed
+    accountClosed: boolean;
+    rentReclaimed: number; // Lamports returned to the wallet by closing the account
+}
+
+/**
+ * The SPL approval a token account holds, as inspected by Burner.getApproval
+ */
+export interface BurnApproval {
     tokenMint: string;
+    tokenProgram: string;
+    tokenAccount: string; // The owner's associated token account
+    owner: string;
+    delegate: string | null; // The approved wallet, if any
+    delegatedAmount: string; // Base units the delegate may still burn or transfer
+    approvedForSigner: boolean; // Whether the delegate is this Burner's signer
 }
 
 // Allocator-specific types
-export interface AllocatorTask extends BaseTask {
+export interface AllocatorTask extends BaseTask<AllocatorDelegateOptions, AllocatorDelegateResult> {
     type: typeof DELEGATE_TYPES.ALLOCATOR;
 }
 
-export interface Allocation {
-    contractAddress: string;
-    percentage: number;
-}
+export type Allocation = Infer<typeof allocationSchema>;
 
-export interface AllocatorDelegateOptions extends BaseDelegateOptions {
-    type: typeof DELEGATE_TYPES.ALLOCATOR;
-    allocations: Allocation[];
-    slippageBps?: number;
-    costBuffer?: number;
-}
+export type AllocatorDelegateOptions = BaseDelegateOptions & Infer<typeof allocatorOptionsSchema>;
 
 export interface AllocatorDelegateResult extends BaseDelegateResult {
     signatures: string[];
@@ -128,26 +172,20 @@ export interface AllocatorDelegateResult extends BaseDelegateResult {
     }[];
 }
 
-// Distributor-specific types
-export interface DistributorTask extends BaseTask {
-    type: typeof DELEGATE_TYPES.DISTRIBUTOR;
+export interface AllocatorCheckpointState {
+    balance: number; // Balance the allocations are split from, fixed by the first attempt
+    results: AllocatorDelegateResult['allocations'];
 }
 
-export type DistributionType = 'single' | 'multi' | 'holders';
-export type DistributionMethod = 'topx' | 'all';
-
-export interface DistributorDelegateOptions extends BaseDelegateOptions {
+// Distributor-specific types
+export interface DistributorTask extends BaseTask<DistributorDelegateOptions, DistributorDelegateResult> {
     type: typeof DELEGATE_TYPES.DISTRIBUTOR;
-    distributionType: DistributionType;
-    distributionMethod?: DistributionMethod;
-    numTokens: number;
-    tokenAddress?: string;
-    singleAddress?: string;
-    multipleAddresses?: string[];
-    topX?: number;
-    holderOfWhichToken?: string;
 }
 
+export type DistributorDelegateOptions = BaseDelegateOptions & Infer<typeof distributorOptionsSchema>;
+export type DistributionType = DistributorDelegateOptions['distributionType'];
+export type DistributionMethod = NonNullable<DistributorDelegateOptions['distributionMethod']>;
+
 export interface DistributorDelegateResult extends BaseDelegateResult {
     signatures: string[];
     recipients: {
@@ -157,21 +195,18 @@ export interface DistributorDelegateResult extends BaseDelegateResult {
     }[];
 }
 
-// Hopper-specific types
-export interface HopperTask extends BaseTask {
-    type: typeof DELEGATE_TYPES.HOPPER;
+export interface DistributorCheckpointState {
+    recipients: string[]; // Resolved once, so holder lists do not shift between attempts
+    results: DistributorDelegateResult['recipients'];
 }
 
-export interface HopperDelegateOptions extends BaseDelegateOptions {
+// Hopper-specific types
+export interface HopperTask extends BaseTask<HopperDelegateOptions, HopperDelegateResult> {
     type: typeof DELEGATE_TYPES.HOPPER;
-    hopDestination: string;
-    numOfHops: number;
-    numTokens: number;
-    tokenType: 'sol' | 'token';
-    tokenAddress?: string; // Required when tokenType is 'token'
-    scheduleEnabled?: boolean;
 }
 
+export type HopperDelegateOptions = BaseDelegateOptions & Infer<typeof hopperOptionsSchema>;
+
 export interface HopperDelegateResult extends BaseDelegateResult {
     signatures: string[];
     hopMap: {
@@ -182,19 +217,18 @@ export interface HopperDelegateResult extends BaseDelegateResult {
     totalHops: number;
 }
 
-// Liquidator-specific types
-export interface LiquidatorTask extends BaseTask {
-    type: typeof DELEGATE_TYPES.LIQUIDATOR;
+// Progress a Hopper run saves to its checkpoint
+export interface HopperCheckpointState {
+    hopMap: HopperDelegateResult['hopMap']; // Generated wallets, saved before they receive funds
 }
 
-export interface LiquidatorDelegateOptions extends BaseDelegateOptions {
+// Liquidator-specific types
+export interface LiquidatorTask extends BaseTask<LiquidatorDelegateOptions, LiquidatorDelegateResult> {
     type: typeof DELEGATE_TYPES.LIQUIDATOR;
-    delegateAddress: string;
-    tokenAddress: string;
-    minUsdValue?: number;
-    scheduleEnabled?: boolean;
 }
 
+export type LiquidatorDelegateOptions = BaseDelegateOptions & Infer<typeof liquidatorOptionsSchema>;
+
 export interface LiquidatorDelegateResult extends BaseDelegateResult {
     signatures: string[];
     liquidatedTokens: {
@@ -205,6 +239,81 @@ export interface LiquidatorDelegateResult extends BaseDelegateResult {
     totalLiquidated: number;
 }
 
+// Sweeper-specific types
+export interface SweeperTask extends BaseTask<SweeperDelegateOptions, SweeperDelegateResult> {
+    type: typeof DELEGATE_TYPES.SWEEPER;
+}
+
+export type SweeperDelegateOptions = BaseDelegateOptions & Infer<typeof sweeperOptionsSchema>;
+
+export interface SweptTokenAccount {
+    tokenAccount: string;
+    mint: string;
+    amount: string; // Raw token amount moved to the destination
+    decimals: number;
+    closed: boolean;
+    rentReclaimed: number; // Lamports returned by closing the account
+    signature: string;
+}
+
+export interface SweptWallet {
+    publicKey: string;
+    lamportsFound: number; // SOL balance before the sweep
+    lamportsRecovered: number; // SOL moved to the destination, including reclaimed rent
+    tokenAccounts: SweptTokenAccount[];
+    signatures: string[];
+    error?: string; // Set when the wallet could not be swept completely
+}
+
+export interface SweeperDelegateResult extends BaseDelegateResult {
+    signatures: string[];
+    destination: string;
+    wallets: SweptWallet[];
+    totalLamportsRecovered: number;
+}
+
+// BuybackBurner-specific types
+export interface BuybackBurnerTask extends BaseTask<BuybackBurnerDelegateOptions, BuybackBurnerDelegateResult> {
+    type: typeof DELEGATE_TYPES.BUYBACK_BURNER;
+}
+
+export type BuybackBurnerDelegateOptions = BaseDelegateOptions & Infer<typeof buybackBurnerOptionsSchema>;
+
+export interface BuybackBurnerDelegateResult extends BaseDelegateResult {
+    signatures: string[]; // The swap's, then the burn's
+    tokenMint: string;
+    tokenProgram: string; // The SPL Token or Token-2022 program that owns the mint
+    spendMint: string; // Wrapped SOL or USDC
+    amountSpent: number; // SOL or USDC the confirmed swap spent
+    tokensBought: string; // Base units the swap delivered
+    tokensBurned: string; // Base units burned; equal to tokensBought once the burn is sent
+    effectivePrice: number; // SOL or USDC paid per whole token
+    protocol?: string; // The swap protocol that filled the buy, Jupiter or Raydium
+    swapSignature?: string;
+    burnSignature?: string;
+}
+
+// Step 0 buys and step 1 burns; the buy is saved before the burn is sent
+export interface BuybackBurnerCheckpointState {
+    protocol?: string; // The swap protocol that filled the buy
+    amountSpent?: string; // Base units of SOL or USDC the confirmed swap spent
+    tokensBought?: string; // Base units the confirmed swap delivered
+}
+
+// Any task for one of the built-in delegates
+export type DelegateTask = DeployerTask | BurnerTask | AllocatorTask | DistributorTask | HopperTask | LiquidatorTask | SweeperTask | BuybackBurnerTask;
+
+// Options of any built-in delegate, narrowed by their type
+export type DelegateOptions =
+    | DeployerDelegateOptions
+    | BurnerDelegateOptions
+    | AllocatorDelegateOptions
+    | DistributorDelegateOptions
+    | HopperDelegateOptions
+    | LiquidatorDelegateOptions
+    | SweeperDelegateOptions
+    | BuybackBurnerDelegateOptions;
+
 export interface SwapQuote {
     inputMint: string;
     outputMint: string;
@@ -228,6 +337,7 @@ export interface SwapQuote {
     outputAmount?: string;
     priceImpact?: number;
     protocol?: string;
+    aborted?: boolean; // Set when the swap flow was stopped before its transaction was sent
   }
 
   export interface RaydiumSwapCompute {
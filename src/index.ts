@@ -1,11 +1,50 @@
 // Main entry point for the delegate-framework package
 export * from './delegate/base';
 export * from './delegate/base-delegate';
+export * from './delegate/registry';
+export * from './delegate/types';
+export * from './delegate/checkpoint/base';
+export * from './delegate/checkpoint/memory';
+export * from './delegate/checkpoint/json-file';
+export * from './delegate/launch/base';
+export * from './delegate/dry-run';
+export * from './delegate/events';
+export * from './delegate/schemas';
 export * from './utils/error-handling';
+export * from './utils/errors';
+export * from './utils/atomic-file';
+export * from './utils/abort';
+export * from './utils/logger';
+export * from './utils/retry';
+export * from './utils/circuit-breaker';
+export * from './utils/schema';
 
 // Core framework types
 export * from './types';
 
+// Task scheduling
+export * from './task/schedule';
+export * from './task/cron';
+export * from './task/timezone';
+export * from './task/engine';
+export * from './task/pipeline';
+export * from './task/run-history';
+export * from './task/definition';
+export * from './task/store/base';
+export * from './task/store/memory';
+export * from './task/store/json-file';
+export * from './task/store/sqlite';
+
+// Notifications
+export * from './notifications/types';
+export * from './notifications/formatters';
+export * from './notifications/dead-letter';
+export * from './notifications/webhook-notifier';
+
+// HTTP API
+export * from './server/api-server';
+export * from './server/idempotency';
+
 // Solana exports
 export * from './solana/types';
 export * from './solana/clients/helius';
@@ -0,0 +1,67 @@
+import { createTelegramFormatter, formatDiscordMessage, formatJsonPayload, formatSlackMessage } from "../formatters";
+import { Notification } from "../types";
+
+const completed: Notification = {
+    id: 'notification-1',
+    event: 'task_completed',
+    timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    delegateType: 'distributor',
+    taskId: 'payouts',
+    runId: 'run-1',
+    taskName: 'Weekly <payouts>',
+    signatures: ['sig-1', 'sig-2', 'sig-3', 'sig-4', 'sig-5', 'sig-6', 'sig-7'],
+};
+
+const skipped: Notification = {
+    id: 'notification-2',
+    event: 'item_skipped',
+    timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    delegateType: 'allocator',
+    requestId: 4,
+    operation: 'allocation_skipped',
+    index: 2,
+    reason: 'undefined_allocation',
+};
+
+describe('webhook formatters', () => {
+    it('should pass notifications through as JSON by default', () => {
+        expect(formatJsonPayload(completed)).toBe(completed);
+    });
+
+    it('should format Discord embeds colored by event', () => {
+        expect(formatDiscordMessage(skipped)).toEqual({
+            embeds: [{
+                title: 'allocator skipped item 3',
+                description: 'Operation: allocation_skipped\nReason: undefined_allocation',
+                color: 0xf1c40f,
+                timestamp: '2026-01-01T00:00:00.000Z',
+            }],
+        });
+    });
+
+    it('should format Slack messages with escaped mrkdwn and a bounded signature list', () => {
+        const message = formatSlackMessage(completed) as { text: string; blocks: Array<{ text: { text: string } }> };
+
+        expect(message.text).toBe('Task Weekly <payouts> completed');
+        expect(message.blocks[0]?.text.text).toBe([
+            '*Task Weekly &lt;payouts&gt; completed*',
+            'Delegate: distributor',
+            'Task: payouts',
+            'Run: run-1',
+            'Signatures:',
+            'sig-1', 'sig-2', 'sig-3', 'sig-4', 'sig-5',
+            '...and 2 more',
+        ].join('\n'));
+    });
+
+    it('should format Telegram sendMessage requests for a chat', () => {
+        const failed: Notification = { ...completed, event: 'task_failed', error: 'Slippage > 5%', aborted: true, signatures: [] };
+
+        expect(createTelegramFormatter(-100123)(failed)).toEqual({
+            chat_id: -100123,
+            text: '<b>Task Weekly &lt;payouts&gt; stopped</b>\nDelegate: distributor\nTask: payouts\nRun: run-1\nError: Slippage &gt; 5%',
+            parse_mode: 'HTML',
+            disable_web_page_preview: true,
+        });
+    });
+});
@@ -0,0 +1,315 @@
+import { promises as fs } from "fs";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { Connection, Keypair } from "@solana/web3.js";
+import { DelegateExecutionContext } from "../../delegate/base";
+import { BaseDelegate } from "../../delegate/base-delegate";
+import { DelegateRegistry } from "../../delegate/registry";
+import { BaseDelegateOptions, BaseDelegateResult } from "../../delegate/types";
+import { TaskEngine } from "../../task/engine";
+import { BaseTask } from "../../types";
+import { ConfigurationError } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
+import { InMemoryDeadLetterLog, JsonLinesDeadLetterLog } from "../dead-letter";
+import { formatSlackMessage } from "../formatters";
+import { Notification } from "../types";
+import { signWebhookPayload, verifyWebhookSignature, WebhookNotifier } from "../webhook-notifier";
+
+interface ReceivedRequest {
+    path: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+/**
+ * Local stand-in for webhook receivers: records every request and answers
+ * with the queued statuses, then 200
+ */
+class WebhookStandIn {
+    public readonly requests: ReceivedRequest[] = [];
+    public readonly statuses: number[] = [];
+    private readonly server: Server;
+
+    constructor() {
+        this.server = createServer((request, response) => {
+            const chunks: Buffer[] = [];
+            request.on('data', chunk => chunks.push(chunk));
+            request.on('end', () => {
+                this.requests.push({ path: request.url ?? '/', headers: request.headers, body: Buffer.concat(chunks).toString('utf8') });
+                response.writeHead(this.statuses.shift() ?? 200).end();
+            });
+        });
+    }
+
+    async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async stop(): Promise<void> {
+        await new Promise(resolve => this.server.close(resolve));
+    }
+}
+
+class SkippingDelegate extends BaseDelegate<BaseDelegateOptions, BaseDelegateResult> {
+    async executeDelegate(_options: BaseDelegateOptions, _context: DelegateExecutionContext = {}): Promise<BaseDelegateResult> {
+        const requestId = this.generateRequestId();
+        this.emitEvent('item_skipped', { requestId, index: 0, item: 'mint-1', reason: 'low_value', operation: 'liquidation_skipped_low_value' });
+        this.emitEvent('item_skipped', { requestId, index: 1, item: 'mint-2', reason: 'frozen_account', operation: 'token_account_skipped' });
+        return { success: true, signatures: ['sig-1'] };
+    }
+
+    validateOptions(): void {}
+}
+
+const immediateRetries = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 1, clock: { sleep: async () => {} } });
+
+const notification: Notification = {
+    id: 'notification-1',
+    event: 'task_failed',
+    timestamp: new Date('2026-01-01T00:00:00.000Z'),
+    delegateType: 'liquidator',
+    taskId: 'task-1',
+    runId: 'run-1',
+    taskName: 'Nightly liquidation',
+    error: 'Insufficient SOL',
+    aborted: false,
+    signatures: [],
+};
+
+describe('WebhookNotifier', () => {
+    let standIn: WebhookStandIn;
+    let baseUrl: string;
+    let deadLetters: InMemoryDeadLetterLog;
+
+    beforeEach(async () => {
+        standIn = new WebhookStandIn();
+        baseUrl = await standIn.start();
+        deadLetters = new InMemoryDeadLetterLog();
+    });
+
+    afterEach(async () => {
+        await standIn.stop();
+    });
+
+    it('should post signed JSON payloads', async () => {
+        const notifier = new WebhookNotifier({ endpoints: [{ url: `${baseUrl}/hooks`, secret: 'shh' }], deadLetters });
+
+        await notifier.notify(notification);
+
+        expect(standIn.requests).toHaveLength(1);
+        const [request] = standIn.requests;
+        expect(request?.path).toBe('/hooks');
+        expect(request?.headers['content-type']).toBe('application/json');
+        expect(request?.headers['x-webhook-event']).toBe('task_failed');
+        expect(request?.headers['x-webhook-id']).toBe('notification-1');
+        expect(JSON.parse(request!.body)).toEqual({ ...notification, timestamp: '2026-01-01T00:00:00.000Z' });
+
+        const timestamp = request!.headers['x-webhook-timestamp'] as string;
+        expect(request?.headers['x-webhook-signature']).toBe(signWebhookPayload(request!.body, timestamp, 'shh'));
+        expect(verifyWebhookSignature(request!.body, timestamp, request!.headers['x-webhook-signature'] as string, 'shh')).toBe(true);
+        expect(verifyWebhookSignature(request!.body, timestamp, request!.headers['x-webhook-signature'] as string, 'other')).toBe(false);
+    });
+
+    it('should not sign payloads of endpoints without a secret', async () => {
+        const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl, format: formatSlackMessage }], deadLetters });
+
+        await notifier.notify(notification);
+
+        expect(standIn.requests[0]?.headers['x-webhook-signature']).toBeUndefined();
+        expect(JSON.parse(standIn.requests[0]!.body).text).toBe('Task Nightly liquidation failed');
+    });
+
+    it('should retry server errors with backoff', async () => {
+        standIn.statuses.push(503, 500);
+        const sleep = jest.fn().mockResolvedValue(undefined);
+        const retryPolicy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 100, clock: { sleep } });
+        const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl }], retryPolicy, deadLetters });
+
+        await notifier.notify(notification);
+
+        expect(standIn.requests).toHaveLength(3);
+        expect(new Set(standIn.requests.map(request => request.headers['x-webhook-id']))).toEqual(new Set(['notification-1']));
+        expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+        expect(await deadLetters.list()).toEqual([]);
+    });
+
+    it('should dead-letter deliveries that fail on every attempt', async () => {
+        standIn.statuses.push(502, 502, 502);
+        const notifier = new WebhookNotifier({ endpoints: [{ url: `${baseUrl}/secret-token`, name: 'ops' }], retryPolicy: immediateRetries, deadLetters });
+
+        await notifier.notify(notification);
+
+        expect(standIn.requests).toHaveLength(3);
+        expect(await deadLetters.list()).toEqual([{
+            notificationId: 'notification-1',
+            event: 'task_failed',
+            endpoint: 'ops',
+            body: standIn.requests[0]?.body,
+            attempts: 3,
+            error: 'Webhook responded with HTTP 502',
+            failedAt: expect.any(Date),
+        }]);
+    });
+
+    it('should dead-letter notifications the endpoint cannot format', async () => {
+        const format = () => { throw new Error('Unsupported event'); };
+        const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl, name: 'chat', format }], retryPolicy: immediateRetries, deadLetters });
+
+        await expect(notifier.notify(notification)).resolves.toBeUndefined();
+
+        expect(standIn.requests).toHaveLength(0);
+        expect(await deadLetters.list()).toEqual([expect.objectContaining({ endpoint: 'chat', body: '', attempts: 0, error: 'Unsupported event' })]);
+    });
+
+    it('should not retry client errors', async () => {
+        standIn.statuses.push(404);
+        const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl }], retryPolicy: immediateRetries, deadLetters });
+
+        await notifier.notify(notification);
+
+        expect(standIn.requests).toHaveLength(1);
+        expect(await deadLetters.list()).toEqual([expect.objectContaining({ attempts: 1, endpoint: baseUrl })]);
+    });
+
+    it('should dead-letter unreachable endpoints', async () => {
+        await standIn.stop();
+        standIn = new WebhookStandIn();
+        const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl, name: 'gone' }], retryPolicy: immediateRetries, deadLetters });
+
+        await notifier.notify(notification);
+        await standIn.start();
+
+        expect(await deadLetters.list()).toEqual([expect.objectContaining({ endpoint: 'gone', attempts: 3 })]);
+    });
+
+    it('should only deliver subscribed events and skip operations', async () => {
+        const notifier = new WebhookNotifier({
+            endpoints: [
+                { url: `${baseUrl}/failures`, events: ['task_failed'] },
+                { url: `${baseUrl}/low-value`, events: ['liquidation_skipped_low_value'] },
+            ],
+            deadLetters,
+        });
+
+        await notifier.notify(notification);
+        await notifier.notify({
+            id: 'notification-2',
+            event: 'item_skipped',
+            timestamp: new Date(),
+            delegateType: 'liquidator',
+            requestId: 1,
+            operation: 'liquidation_skipped_low_value',
+            index: 0,
+            reason: 'low_value',
+        });
+
+        expect(standIn.requests.map(request => request.path)).toEqual(['/failures', '/low-value']);
+    });
+
+    it('should reject invalid endpoint URLs', () => {
+        expect(() => new WebhookNotifier({ endpoints: [{ url: 'not a url' }] })).toThrow(ConfigurationError);
+        expect(() => new WebhookNotifier({ endpoints: [{ url: 'ftp://example.com' }] })).toThrow('must use http or https');
+    });
+
+    describe('attach', () => {
+        const signerKeypair = Keypair.generate();
+
+        function createTask(overrides: Partial<BaseTask> = {}): BaseTask {
+            const createdAt = new Date();
+            return {
+                type: 'liquidator',
+                id: 'task-1',
+                name: 'Nightly liquidation',
+                status: 'new',
+                lastRun: createdAt,
+                nextRun: null,
+                scheduleEnabled: false,
+                scheduleInterval: { unit: 'days', interval: 1 },
+                createdAt,
+                updatedAt: createdAt,
+                options: { type: 'liquidator' },
+                owner: { address: signerKeypair.publicKey.toBase58() },
+                lastResult: null,
+                ...overrides,
+            };
+        }
+
+        it('should notify about task runs and the items they skip', async () => {
+            const registry = new DelegateRegistry({ connection: {} as Connection, signerKeypair }, { registerBuiltIns: false })
+                .register('liquidator', deps => new SkippingDelegate(deps.connection, deps.signerKeypair));
+            const engine = new TaskEngine({ registry });
+            const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl }], deadLetters });
+            const detach = notifier.attach({ engine, registry });
+            await engine.registerTask(createTask());
+
+            await engine.runTask('task-1');
+            await notifier.flush();
+
+            const payloads = standIn.requests.map(request => JSON.parse(request.body));
+            expect(payloads).toEqual(expect.arrayContaining([
+                expect.objectContaining({ event: 'item_skipped', taskId: 'task-1', operation: 'liquidation_skipped_low_value', item: 'mint-1' }),
+                expect.objectContaining({ event: 'item_skipped', taskId: 'task-1', operation: 'token_account_skipped', item: 'mint-2' }),
+                expect.objectContaining({ event: 'task_completed', taskId: 'task-1', taskName: 'Nightly liquidation', signatures: ['sig-1'] }),
+            ]));
+            expect(payloads).toHaveLength(3);
+
+            detach();
+            await engine.runTask('task-1');
+            await notifier.flush();
+            expect(standIn.requests).toHaveLength(3);
+        });
+
+        it('should notify about failed runs', async () => {
+            const registry = new DelegateRegistry({ connection: {} as Connection, signerKeypair }, { registerBuiltIns: false })
+                .register('liquidator', () => ({
+                    signerKeypair,
+                    connection: {} as Connection,
+                    executeDelegate: jest.fn().mockResolvedValue({ success: false, error: 'Insufficient SOL' }),
+                    validateOptions: jest.fn(),
+                }));
+            const engine = new TaskEngine({ registry });
+            const notifier = new WebhookNotifier({ endpoints: [{ url: baseUrl }], deadLetters });
+            notifier.attach({ engine });
+            await engine.registerTask(createTask());
+
+            await engine.runTask('task-1');
+            await notifier.flush();
+
+            expect(JSON.parse(standIn.requests[0]!.body)).toMatchObject({ event: 'task_failed', error: 'Insufficient SOL', aborted: false });
+        });
+    });
+});
+
+describe('JsonLinesDeadLetterLog', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dead-letters-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should append entries and read them back', async () => {
+        const log = new JsonLinesDeadLetterLog({ filePath: path.join(directory, 'logs', 'dead-letters.jsonl') });
+        const letter = {
+            notificationId: 'notification-1',
+            event: 'task_failed' as const,
+            endpoint: 'ops',
+            body: '{}',
+            attempts: 5,
+            error: 'Webhook responded with HTTP 500',
+            failedAt: new Date('2026-01-01T00:00:00.000Z'),
+        };
+
+        await expect(log.list()).resolves.toEqual([]);
+        await log.append(letter);
+        await log.append({ ...letter, notificationId: 'notification-2' });
+
+        expect(await log.list()).toEqual([letter, { ...letter, notificationId: 'notification-2' }]);
+    });
+});
@@ -0,0 +1,83 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { NotificationEventName } from "./types";
+
+/**
+ * A webhook delivery that failed on every attempt
+ */
+export interface DeadLetter {
+    notificationId: string;
+    event: NotificationEventName;
+    endpoint: string; // The endpoint's name; URLs are left out as they may hold a token
+    body: string; // The request body exactly as sent; empty if it could not be built
+    attempts: number;
+    error: string;
+    failedAt: Date;
+}
+
+/**
+ * Where failed deliveries are kept for inspection or manual replay
+ */
+export interface DeadLetterLog {
+    append(letter: DeadLetter): Promise<void>;
+    list(): Promise<DeadLetter[]>; // Oldest first
+}
+
+/**
+ * Non-persistent dead-letter log, intended for tests and short-lived processes
+ */
+export class InMemoryDeadLetterLog implements DeadLetterLog {
+    private readonly letters: DeadLetter[] = [];
+
+    async append(letter: DeadLetter): Promise<void> {
+        this.letters.push({ ...letter, failedAt: new Date(letter.failedAt) });
+    }
+
+    async list(): Promise<DeadLetter[]> {
+        return this.letters.map(letter => ({ ...letter, failedAt: new Date(letter.failedAt) }));
+    }
+}
+
+/**
+ * Configuration interface for JsonLinesDeadLetterLog
+ */
+export interface JsonLinesDeadLetterLogConfig {
+    filePath: string;
+}
+
+/**
+ * Dead-letter log that appends one JSON document per line, so a crash never
+ * loses earlier entries
+ */
+export class JsonLinesDeadLetterLog implements DeadLetterLog {
+    private readonly filePath: string;
+
+    constructor(config: JsonLinesDeadLetterLogConfig) {
+        this.filePath = config.filePath;
+    }
+
+    async append(letter: DeadLetter): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, `${JSON.stringify(letter)}\n`, { mode: 0o600 });
+    }
+
+    async list(): Promise<DeadLetter[]> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        return contents
+            .split('\n')
+            .filter(line => line.trim() !== '')
+            .map(line => {
+                const letter = JSON.parse(line) as Omit<DeadLetter, 'failedAt'> & { failedAt: string };
+                return { ...letter, failedAt: new Date(letter.failedAt) };
+            });
+    }
+}
@@ -0,0 +1,116 @@
+import { Notification, WebhookFormatter } from "./types";
+
+const MAX_LISTED_SIGNATURES = 5;
+
+const DISCORD_COLORS: Record<Notification['event'], number> = {
+    task_completed: 0x2ecc71,
+    task_failed: 0xe74c3c,
+    item_skipped: 0xf1c40f,
+};
+
+/**
+ * Send the notification itself. This is the default format.
+ * @param notification - The notification
+ * @returns The notification, serialized with ISO timestamps
+ */
+export const formatJsonPayload: WebhookFormatter = notification => notification;
+
+/**
+ * Format a notification as a Discord webhook message with one embed
+ * @param notification - The notification
+ * @returns The body for a Discord webhook URL
+ */
+export const formatDiscordMessage: WebhookFormatter = notification => {
+    const { title, lines } = describeNotification(notification);
+    return {
+        embeds: [{
+            title,
+            description: lines.join('\n'),
+            color: DISCORD_COLORS[notification.event],
+            timestamp: notification.timestamp.toISOString(),
+        }],
+    };
+};
+
+/**
+ * Format a notification as a Slack incoming-webhook message
+ * @param notification - The notification
+ * @returns The body for a Slack webhook URL
+ */
+export const formatSlackMessage: WebhookFormatter = notification => {
+    const { title, lines } = describeNotification(notification);
+    return {
+        text: title,
+        blocks: [{
+            type: 'section',
+            text: { type: 'mrkdwn', text: [`*${escapeSlack(title)}*`, ...lines.map(escapeSlack)].join('\n') },
+        }],
+    };
+};
+
+/**
+ * Create a formatter for the Telegram Bot API's sendMessage method, e.g. for
+ * the URL https://api.telegram.org/bot<token>/sendMessage
+ * @param chatId - The chat to post to
+ * @returns The formatter
+ */
+export function createTelegramFormatter(chatId: string | number): WebhookFormatter {
+    return notification => {
+        const { title, lines } = describeNotification(notification);
+        return {
+            chat_id: chatId,
+            text: [`<b>${escapeHtml(title)}</b>`, ...lines.map(escapeHtml)].join('\n'),
+            parse_mode: 'HTML',
+            disable_web_page_preview: true,
+        };
+    };
+}
+
+function describeNotification(notification: Notification): { title: string; lines: string[] } {
+    const task = notification.taskId ? [`Task: ${notification.taskId}`] : [];
+
+    switch (notification.event) {
+        case 'task_completed':
+            return {
+                title: `Task ${notification.taskName} completed`,
+                lines: [`Delegate: ${notification.delegateType}`, ...task, `Run: ${notification.runId}`, ...describeSignatures(notification.signatures)],
+            };
+        case 'task_failed':
+            return {
+                title: `Task ${notification.taskName} ${notification.aborted ? 'stopped' : 'failed'}`,
+                lines: [
+                    `Delegate: ${notification.delegateType}`,
+                    ...task,
+                    `Run: ${notification.runId}`,
+                    `Error: ${notification.error}`,
+                    ...describeSignatures(notification.signatures),
+                ],
+            };
+        case 'item_skipped':
+            return {
+                title: `${notification.delegateType} skipped item ${notification.index + 1}`,
+                lines: [
+                    `Operation: ${notification.operation}`,
+                    `Reason: ${notification.reason}`,
+                    ...(notification.item ? [`Item: ${notification.item}`] : []),
+                    ...task,
+                ],
+            };
+    }
+}
+
+function describeSignatures(signatures: string[]): string[] {
+    if (signatures.length === 0) {
+        return [];
+    }
+    const more = signatures.length > MAX_LISTED_SIGNATURES ? [`...and ${signatures.length - MAX_LISTED_SIGNATURES} more`] : [];
+    return ['Signatures:', ...signatures.slice(0, MAX_LISTED_SIGNATURES), ...more];
+}
+
+function escapeSlack(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtml(text: string): string {
+    return escapeSlack(text).replace(/"/g, '&quot;');
+}
@@ -0,0 +1,32 @@
+/**
+ * Fields every notification carries
+ */
+export interface NotificationBase<K extends string = string> {
+    id: string; // Unique per notification; the same on every delivery attempt
+    event: K;
+    timestamp: Date;
+    delegateType: string;
+    taskId?: string; // Set for task runs, and for skips inside a task run
+}
+
+/**
+ * Payloads of notifications, keyed by event name
+ */
+export interface NotificationMap {
+    task_completed: NotificationBase<'task_completed'> & { runId: string; taskName: string; signatures: string[] };
+    task_failed: NotificationBase<'task_failed'> & { runId: string; taskName: string; error: string; aborted: boolean; signatures: string[] };
+    item_skipped: NotificationBase<'item_skipped'> & { requestId: number; operation: string; index: number; item?: string; reason: string };
+}
+
+export type NotificationEventName = keyof NotificationMap;
+
+/**
+ * Any notification; narrow it by its event field
+ */
+export type Notification = NotificationMap[NotificationEventName];
+
+/**
+ * Turns a notification into the JSON body of a webhook request, e.g. the
+ * message shape of a chat service
+ */
+export type WebhookFormatter = (notification: Notification) => unknown;
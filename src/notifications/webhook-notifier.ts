@@ -0,0 +1,296 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { DelegateRegistry } from "../delegate/registry";
+import { DelegateEventMap } from "../delegate/events";
+import { Logger } from "../solana/types";
+import { TaskEngine, TaskRunResult } from "../task/engine";
+import { ConfigurationError, isRetryableError, RateLimitError } from "../utils/errors";
+import { getLogFields } from "../utils/logger";
+import { RetryPolicy } from "../utils/retry";
+import { DeadLetterLog, InMemoryDeadLetterLog } from "./dead-letter";
+import { formatJsonPayload } from "./formatters";
+import { Notification, NotificationMap, WebhookFormatter } from "./types";
+
+export const WEBHOOK_HEADERS = {
+    SIGNATURE: 'X-Webhook-Signature',
+    TIMESTAMP: 'X-Webhook-Timestamp',
+    EVENT: 'X-Webhook-Event',
+    ID: 'X-Webhook-Id',
+} as const;
+
+/**
+ * A URL notifications are posted to
+ */
+export interface WebhookEndpoint {
+    url: string;
+    name?: string; // Shown in logs and dead letters instead of the URL. Default: the URL's origin
+    secret?: string; // Signs each payload with HMAC-SHA256
+    events?: string[]; // Event names or skip operations to deliver, e.g. 'task_failed' or 'liquidation_skipped_low_value'. Default: all
+    format?: WebhookFormatter; // Default: formatJsonPayload
+    headers?: Record<string, string>;
+}
+
+/**
+ * Configuration interface for WebhookNotifier
+ */
+export interface WebhookNotifierConfig {
+    endpoints: WebhookEndpoint[];
+    retryPolicy?: RetryPolicy; // Its shouldRetry is replaced: network errors, 408, 429 and 5xx responses are retried
+    deadLetters?: DeadLetterLog; // Default: an InMemoryDeadLetterLog
+    timeoutMs?: number; // Per attempt. Default: 10000
+    logger?: Logger;
+}
+
+/**
+ * Sources a notifier can subscribe to
+ */
+export interface NotificationSources {
+    engine?: TaskEngine; // Task runs that complete or fail
+    registry?: DelegateRegistry; // Items its delegates skip
+}
+
+/**
+ * A response that ends an attempt, retryable or not
+ */
+class WebhookResponseError extends Error {
+    constructor(public readonly status: number, public readonly retryable: boolean) {
+        super(`Webhook responded with HTTP ${status}`);
+        this.name = 'WebhookResponseError';
+    }
+}
+
+/**
+ * Posts notifications about task runs and skipped items to webhooks. Each
+ * delivery is retried with backoff, and one that fails on every attempt is
+ * written to the dead-letter log. Delivery never throws into the code that
+ * triggered it.
+ */
+export class WebhookNotifier {
+    private static readonly DEFAULT_RETRY_POLICY = new RetryPolicy({ maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000, jitter: 0.2 });
+    private static readonly DEFAULT_TIMEOUT_MS = 10000;
+
+    private readonly endpoints: WebhookEndpoint[];
+    private readonly retryPolicy: RetryPolicy;
+    private readonly deadLetters: DeadLetterLog;
+    private readonly timeoutMs: number;
+    private readonly logger?: Logger;
+    private readonly pending = new Set<Promise<void>>();
+
+    constructor(config: WebhookNotifierConfig) {
+        config.endpoints.forEach(validateEndpoint);
+
+        this.endpoints = config.endpoints;
+        this.retryPolicy = config.retryPolicy ?? WebhookNotifier.DEFAULT_RETRY_POLICY;
+        this.deadLetters = config.deadLetters ?? new InMemoryDeadLetterLog();
+        this.timeoutMs = config.timeoutMs ?? WebhookNotifier.DEFAULT_TIMEOUT_MS;
+        this.logger = config.logger;
+    }
+
+    /**
+     * Notify about task runs of an engine and items skipped by a registry's delegates
+     * @param sources - The engine, the registry, or both
+     * @returns A function that unsubscribes from every source
+     */
+    public attach(sources: NotificationSources): () => void {
+        const unsubscribers: Array<() => void> = [];
+
+        if (sources.engine) {
+            unsubscribers.push(sources.engine.onRunFinished(run => this.notify(createRunNotification(run))));
+        }
+        if (sources.registry) {
+            // Listeners run synchronously inside the run, so its log fields name the task
+            unsubscribers.push(sources.registry.events.on('item_skipped', event => this.notify(createSkipNotification(event, getLogFields().taskId))));
+        }
+
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }
+
+    /**
+     * Deliver a notification to every endpoint subscribed to it
+     * @param notification - The notification
+     * @returns Resolves once every delivery succeeded or was dead-lettered
+     */
+    public notify(notification: Notification): Promise<void> {
+        const deliveries = this.endpoints
+            .filter(endpoint => isSubscribed(endpoint, notification))
+            .map(endpoint => this.deliver(endpoint, notification));
+
+        const tracked: Promise<void> = Promise.all(deliveries)
+            .then(() => undefined)
+            .finally(() => this.pending.delete(tracked));
+        this.pending.add(tracked);
+        return tracked;
+    }
+
+    /**
+     * Wait for deliveries in progress, e.g. before the process exits
+     */
+    public async flush(): Promise<void> {
+        while (this.pending.size > 0) {
+            await Promise.all(this.pending);
+        }
+    }
+
+    private async deliver(endpoint: WebhookEndpoint, notification: Notification): Promise<void> {
+        const name = getEndpointName(endpoint);
+        let body = '';
+        let attempts = 0;
+
+        try {
+            // A formatter that throws is dead-lettered like a failed post
+            body = JSON.stringify((endpoint.format ?? formatJsonPayload)(notification));
+            await this.retryPolicy.execute(async attempt => {
+                attempts = attempt;
+                await this.post(endpoint, notification, body);
+            }, {
+                shouldRetry: error => error instanceof WebhookResponseError ? error.retryable : isRetryableError(error),
+                onFailedAttempt: failure => this.logger?.debug('Webhook delivery attempt failed', {
+                    endpoint: name,
+                    event: notification.event,
+                    attempt: failure.attempt,
+                    error: failure.error.message,
+                    delayMs: failure.delayMs,
+                }),
+            });
+            this.logger?.debug('Webhook delivered', { endpoint: name, event: notification.event, notificationId: notification.id });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger?.warn('Webhook delivery failed', { endpoint: name, event: notification.event, attempts, error: message });
+
+            await this.deadLetters.append({
+                notificationId: notification.id,
+                event: notification.event,
+                endpoint: name,
+                body,
+                attempts,
+                error: message,
+                failedAt: new Date(),
+            }).catch(appendError => this.logger?.error('Failed to write dead letter', {
+                endpoint: name,
+                notificationId: notification.id,
+                error: appendError instanceof Error ? appendError.message : String(appendError),
+            }));
+        }
+    }
+
+    private async post(endpoint: WebhookEndpoint, notification: Notification, body: string): Promise<void> {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const headers: Record<string, string> = {
+            ...endpoint.headers,
+            'Content-Type': 'application/json',
+            [WEBHOOK_HEADERS.EVENT]: notification.event,
+            [WEBHOOK_HEADERS.ID]: notification.id,
+            [WEBHOOK_HEADERS.TIMESTAMP]: timestamp,
+            ...(endpoint.secret && { [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(body, timestamp, endpoint.secret) }),
+        };
+
+        const response = await fetch(endpoint.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(this.timeoutMs) });
+        // Release the connection; the body is not used
+        await response.arrayBuffer().catch(() => undefined);
+
+        if (response.status === 429) {
+            const retryAfter = Number(response.headers.get('retry-after'));
+            throw new RateLimitError('Webhook responded with HTTP 429', Number.isFinite(retryAfter) && retryAfter > 0 ? { retryAfterMs: retryAfter * 1000 } : {});
+        }
+        if (!response.ok) {
+            throw new WebhookResponseError(response.status, response.status === 408 || response.status >= 500);
+        }
+    }
+}
+
+/**
+ * Compute the signature header of a webhook payload: the hex HMAC-SHA256 of
+ * the timestamp and body joined by a dot, prefixed with 'sha256='
+ * @param body - The raw request body
+ * @param timestamp - The X-Webhook-Timestamp header, in Unix seconds
+ * @param secret - The endpoint's secret
+ * @returns The X-Webhook-Signature header value
+ */
+export function signWebhookPayload(body: string, timestamp: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a received webhook's signature, for receivers written in TypeScript
+ * @param body - The raw request body
+ * @param timestamp - The X-Webhook-Timestamp header
+ * @param signature - The X-Webhook-Signature header
+ * @param secret - The endpoint's secret
+ * @param toleranceSeconds - How old the timestamp may be, against replays. Default: 300
+ * @returns True if the signature matches and the timestamp is recent
+ */
+export function verifyWebhookSignature(body: string, timestamp: string, signature: string, secret: string, toleranceSeconds: number = 300): boolean {
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!/^\d+$/.test(timestamp) || age > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = Buffer.from(signWebhookPayload(body, timestamp, secret));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Build the notification for a finished task run
+ * @param run - The run's result
+ * @returns A task_completed or task_failed notification
+ */
+export function createRunNotification(run: TaskRunResult): Notification {
+    const base = {
+        id: randomUUID(),
+        timestamp: new Date(),
+        delegateType: run.task.type,
+        taskId: run.task.id,
+        runId: run.runId,
+        taskName: run.task.name,
+        signatures: run.result?.signatures ?? [],
+    };
+
+    return run.success
+        ? { ...base, event: 'task_completed' }
+        : { ...base, event: 'task_failed', error: run.error ?? 'Unknown error', aborted: run.aborted ?? false };
+}
+
+/**
+ * Build the notification for an item a delegate skipped
+ * @param event - The delegate's item_skipped event
+ * @param taskId - The task whose run skipped it, if any
+ * @returns An item_skipped notification
+ */
+export function createSkipNotification(event: DelegateEventMap['item_skipped'], taskId?: string): NotificationMap['item_skipped'] {
+    return {
+        id: randomUUID(),
+        event: 'item_skipped',
+        timestamp: event.timestamp,
+        delegateType: event.delegateType,
+        ...(taskId && { taskId }),
+        requestId: event.requestId,
+        operation: event.operation,
+        index: event.index,
+        ...(event.item && { item: event.item }),
+        reason: event.reason,
+    };
+}
+
+function isSubscribed(endpoint: WebhookEndpoint, notification: Notification): boolean {
+    if (!endpoint.events) {
+        return true;
+    }
+    return endpoint.events.includes(notification.event)
+        || (notification.event === 'item_skipped' && endpoint.events.includes(notification.operation));
+}
+
+function getEndpointName(endpoint: WebhookEndpoint): string {
+    return endpoint.name ?? new URL(endpoint.url).origin;
+}
+
+function validateEndpoint(endpoint: WebhookEndpoint): void {
+    let url: URL;
+    try {
+        url = new URL(endpoint.url);
+    } catch {
+        throw new ConfigurationError(`Invalid webhook URL for endpoint ${endpoint.name ?? '(unnamed)'}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new ConfigurationError(`Webhook URL of endpoint ${getEndpointName(endpoint)} must use http or https`);
+    }
+}
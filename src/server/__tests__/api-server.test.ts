@@ -0,0 +1,413 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { ApiServer } from "../api-server";
+import { InMemoryIdempotencyStore } from "../idempotency";
+import { InMemoryCheckpointStore } from "../../delegate/checkpoint/memory";
+import { Distributor } from "../../delegate/distributor";
+import { DelegateRegistry } from "../../delegate/registry";
+import { BaseDelegateResult } from "../../delegate/types";
+import { HeliusClient } from "../../solana/clients/helius";
+import { TaskEngine } from "../../task/engine";
+import { InMemoryTaskRunHistory } from "../../task/run-history";
+import { InMemoryTaskStore } from "../../task/store/memory";
+import { ConfigurationError } from "../../utils/errors";
+import { RetryPolicy } from "../../utils/retry";
+
+const API_KEY = "test-api-key";
+const DESTINATION = "So11111111111111111111111111111111111111112";
+const MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+describe("ApiServer", () => {
+    let signer: Keypair;
+    let registry: DelegateRegistry;
+    let engine: TaskEngine;
+    let server: ApiServer;
+    let baseUrl: string;
+    let executeDelegate: jest.Mock<Promise<BaseDelegateResult>, [any, any]>;
+
+    const hopperTask = {
+        id: "hop-daily",
+        name: "Daily hop",
+        schedule: { unit: "days", interval: 1 },
+        options: { type: "hopper", hopDestination: DESTINATION, numOfHops: "3", numTokens: 1, tokenType: "sol" },
+    };
+
+    beforeEach(async () => {
+        signer = Keypair.generate();
+        executeDelegate = jest.fn().mockResolvedValue({ success: true, signatures: ["sig1"] });
+        const fakeDelegate = () => ({ signerKeypair: signer, connection: {} as Connection, executeDelegate, validateOptions: jest.fn() });
+        registry = new DelegateRegistry({ connection: {} as Connection, signerKeypair: signer, checkpointStore: new InMemoryCheckpointStore() }, { registerBuiltIns: false })
+            .register("hopper", fakeDelegate)
+            .register("burner", fakeDelegate)
+            .register("custom", fakeDelegate);
+        engine = new TaskEngine({ registry, store: new InMemoryTaskStore(), runHistory: new InMemoryTaskRunHistory() });
+        server = new ApiServer({ engine, registry, apiKeys: [API_KEY] });
+        const address = await server.listen(0);
+        baseUrl = `http://127.0.0.1:${address.port}`;
+    });
+
+    afterEach(async () => {
+        await engine.stop();
+        await server.close();
+    });
+
+    function request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> {
+        return fetch(`${baseUrl}${path}`, {
+            method,
+            headers: { Authorization: `Bearer ${API_KEY}`, ...(body !== undefined && { "Content-Type": "application/json" }), ...headers },
+            ...(body !== undefined && { body: typeof body === "string" ? body : JSON.stringify(body) }),
+        });
+    }
+
+    async function waitForRun(taskId: string, runId: string): Promise<any> {
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const run = await (await request("GET", `/tasks/${taskId}/runs/${runId}`)).json();
+            if (run.status !== "running") {
+                return run;
+            }
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        throw new Error(`Run ${runId} did not finish`);
+    }
+
+    it("should require at least one API key", () => {
+        expect(() => new ApiServer({ engine, registry, apiKeys: [] })).toThrow(ConfigurationError);
+    });
+
+    it("should require an engine with a run history", () => {
+        const withoutHistory = new TaskEngine({ registry, store: new InMemoryTaskStore() });
+
+        expect(() => new ApiServer({ engine: withoutHistory, registry, apiKeys: [API_KEY] })).toThrow(ConfigurationError);
+    });
+
+    describe("authentication", () => {
+        it("should reject requests without a valid API key", async () => {
+            const missing = await fetch(`${baseUrl}/tasks`);
+            const wrong = await request("GET", "/tasks", undefined, { Authorization: "Bearer nope" });
+
+            expect(missing.status).toBe(401);
+            expect(wrong.status).toBe(401);
+            expect(await wrong.json()).toEqual({ error: { code: "UNAUTHORIZED", message: "A valid API key is required" } });
+        });
+
+        it("should accept the key in an X-API-Key header", async () => {
+            const response = await fetch(`${baseUrl}/tasks`, { headers: { "X-API-Key": API_KEY } });
+
+            expect(response.status).toBe(200);
+        });
+
+        it("should serve the health check without a key", async () => {
+            const response = await fetch(`${baseUrl}/health`);
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ status: "ok", worker: false });
+        });
+    });
+
+    describe("delegate types", () => {
+        it("should list registered types with the option schemas of built-in ones", async () => {
+            const body = await (await request("GET", "/delegate-types")).json();
+
+            expect(body.delegateTypes.map((entry: any) => entry.type)).toEqual(["hopper", "burner", "custom"]);
+            expect(body.delegateTypes[0].optionsSchema).toMatchObject({ title: "hopper delegate options", type: "object" });
+            expect(body.delegateTypes[2].optionsSchema).toBeNull();
+        });
+
+        it("should return 404 for unregistered types", async () => {
+            const response = await request("GET", "/delegate-types/sweeper");
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe("tasks", () => {
+        it("should create a task owned by the registry signer", async () => {
+            const response = await request("POST", "/tasks", hopperTask);
+            const task = await response.json();
+
+            expect(response.status).toBe(201);
+            expect(response.headers.get("location")).toBe("/tasks/hop-daily");
+            expect(task).toMatchObject({
+                id: "hop-daily",
+                type: "hopper",
+                status: "new",
+                scheduleEnabled: true,
+                owner: { address: signer.publicKey.toBase58() },
+                options: { numOfHops: 3 },
+            });
+            expect(task.nextRun).toEqual(expect.any(String));
+            expect(await engine.getTask("hop-daily")).not.toBeNull();
+        });
+
+        it("should report every invalid field", async () => {
+            const response = await request("POST", "/tasks", { name: 5, options: { type: "hopper", numOfHops: 0 } });
+            const body = await response.json();
+
+            expect(response.status).toBe(400);
+            expect(body.error.code).toBe("VALIDATION_ERROR");
+            expect(body.error.issues).toEqual(expect.arrayContaining([expect.objectContaining({ path: "name" })]));
+        });
+
+        it("should reject invalid JSON and duplicate ids", async () => {
+            const invalid = await request("POST", "/tasks", "{");
+            await request("POST", "/tasks", hopperTask);
+            const duplicate = await request("POST", "/tasks", hopperTask);
+
+            expect(invalid.status).toBe(400);
+            expect((await invalid.json()).error.code).toBe("INVALID_JSON");
+            expect(duplicate.status).toBe(409);
+        });
+
+        it("should reject bodies over the size limit", async () => {
+            await server.close();
+            server = new ApiServer({ engine, registry, apiKeys: [API_KEY], maxBodyBytes: 64 });
+            baseUrl = `http://127.0.0.1:${(await server.listen(0)).port}`;
+
+            const response = await request("POST", "/tasks", hopperTask);
+
+            expect(response.status).toBe(413);
+        });
+
+        it("should list, filter, update and delete tasks", async () => {
+            await request("POST", "/tasks", hopperTask);
+            await request("POST", "/tasks", { ...hopperTask, id: "hop-once", schedule: undefined });
+
+            const listed = await (await request("GET", "/tasks?type=hopper&limit=1")).json();
+            const updated = await (await request("PATCH", "/tasks/hop-once", { name: "Hourly hop", schedule: { unit: "hours", interval: 1 } })).json();
+            const deleted = await request("DELETE", "/tasks/hop-daily");
+
+            expect(listed.tasks).toHaveLength(1);
+            expect(updated).toMatchObject({ id: "hop-once", name: "Hourly hop", scheduleEnabled: true, scheduleInterval: { unit: "hours", interval: 1 } });
+            expect(updated.nextRun).toEqual(expect.any(String));
+            expect(deleted.status).toBe(204);
+            expect((await request("GET", "/tasks/hop-daily")).status).toBe(404);
+        });
+
+        it("should not change a task's delegate type", async () => {
+            await request("POST", "/tasks", hopperTask);
+
+            const response = await request("PATCH", "/tasks/hop-daily", { options: { type: "burner", tokenAddress: MINT, numTokens: 1 } });
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should pause and resume tasks", async () => {
+            await request("POST", "/tasks", hopperTask);
+
+            const paused = await (await request("POST", "/tasks/hop-daily/pause")).json();
+            const resumed = await (await request("POST", "/tasks/hop-daily/resume")).json();
+            const again = await request("POST", "/tasks/hop-daily/resume");
+
+            expect(paused.status).toBe("paused");
+            expect(resumed.status).toBe("new");
+            expect(again.status).toBe(409);
+        });
+
+        it("should filter tasks by any status", async () => {
+            await request("POST", "/tasks", hopperTask);
+
+            const cancelled = await request("GET", "/tasks?status=cancelled");
+            const unknown = await request("GET", "/tasks?status=done");
+
+            expect(cancelled.status).toBe(200);
+            expect((await cancelled.json()).tasks).toEqual([]);
+            expect(unknown.status).toBe(400);
+        });
+
+        it("should redact private keys", async () => {
+            const hop = Keypair.generate();
+            const privateKey = bs58.encode(hop.secretKey);
+            const hopMap = [{ publicKey: hop.publicKey.toBase58(), privateKey }];
+            registry.register("sweeper", () => registry.get("hopper"));
+
+            const created = await (await request("POST", "/tasks", { name: "Sweep", options: { type: "sweeper", destination: DESTINATION, hopMap } })).json();
+
+            expect(created.options.hopMap[0].privateKey).toBe("[REDACTED]");
+            expect(JSON.stringify(created)).not.toContain(privateKey);
+            expect((await engine.getTask(created.id))?.options).toMatchObject({ hopMap });
+        });
+
+        it("should answer unknown routes and methods", async () => {
+            const unknown = await request("GET", "/nope");
+            const method = await request("PUT", "/tasks");
+
+            expect(unknown.status).toBe(404);
+            expect(method.status).toBe(405);
+            expect(method.headers.get("allow")).toBe("GET, POST");
+        });
+    });
+
+    describe("runs", () => {
+        beforeEach(async () => {
+            await request("POST", "/tasks", hopperTask);
+        });
+
+        it("should start a run and record its result", async () => {
+            const response = await request("POST", "/tasks/hop-daily/runs");
+            const run = await response.json();
+
+            expect(response.status).toBe(202);
+            expect(response.headers.get("location")).toBe(`/tasks/hop-daily/runs/${run.id}`);
+            expect(run).toMatchObject({ taskId: "hop-daily", trigger: "manual", status: "running" });
+
+            const finished = await waitForRun("hop-daily", run.id);
+            const history = await (await request("GET", "/tasks/hop-daily/runs?status=completed")).json();
+
+            expect(finished).toMatchObject({ status: "completed", result: { success: true, signatures: ["sig1"] } });
+            expect(history.runs.map((entry: any) => entry.id)).toEqual([run.id]);
+        });
+
+        it("should replay requests with the same idempotency key", async () => {
+            const first = await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" });
+            const run = await first.json();
+            await waitForRun("hop-daily", run.id);
+
+            const second = await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" });
+
+            expect(second.status).toBe(200);
+            expect(second.headers.get("idempotent-replayed")).toBe("true");
+            expect((await second.json()).id).toBe(run.id);
+            expect(executeDelegate).toHaveBeenCalledTimes(1);
+            expect(executeDelegate).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ idempotencyKey: "run-1" }));
+        });
+
+        it("should refuse an idempotency key used for another task", async () => {
+            await request("POST", "/tasks", { ...hopperTask, id: "hop-other" });
+            const first = await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" });
+            await waitForRun("hop-daily", (await first.json()).id);
+
+            const response = await request("POST", "/tasks/hop-other/runs", undefined, { "Idempotency-Key": "run-1" });
+
+            expect(response.status).toBe(422);
+            expect((await response.json()).error.code).toBe("IDEMPOTENCY_KEY_REUSED");
+        });
+
+        it("should free the idempotency key when the run cannot start", async () => {
+            await request("POST", "/tasks/hop-daily/pause");
+            const paused = await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" });
+            await request("POST", "/tasks/hop-daily/resume");
+
+            const resumed = await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" });
+
+            expect(paused.status).toBe(409);
+            expect(resumed.status).toBe(202);
+            await waitForRun("hop-daily", (await resumed.json()).id);
+        });
+
+        it("should refuse to start a task that is already running", async () => {
+            let finish: (result: BaseDelegateResult) => void = () => {};
+            executeDelegate.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+
+            const first = await request("POST", "/tasks/hop-daily/runs");
+            const second = await request("POST", "/tasks/hop-daily/runs");
+            const deleted = await request("DELETE", "/tasks/hop-daily");
+            finish({ success: true });
+
+            expect(first.status).toBe(202);
+            expect(second.status).toBe(409);
+            expect(deleted.status).toBe(409);
+            await waitForRun("hop-daily", (await first.json()).id);
+        });
+
+        it("should return 404 for runs of other tasks", async () => {
+            const run = await (await request("POST", "/tasks/hop-daily/runs")).json();
+            await waitForRun("hop-daily", run.id);
+
+            expect((await request("GET", `/tasks/hop-other/runs/${run.id}`)).status).toBe(404);
+            expect((await request("POST", "/tasks/hop-other/runs")).status).toBe(404);
+        });
+
+        it("should retry a failed run under its idempotency key", async () => {
+            executeDelegate.mockRejectedValueOnce(new Error("RPC unavailable"));
+            const failed = await (await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" })).json();
+            await waitForRun("hop-daily", failed.id);
+
+            const response = await request("POST", `/tasks/hop-daily/runs/${failed.id}/retry`);
+            const retry = await response.json();
+
+            expect(response.status).toBe(202);
+            expect(response.headers.get("location")).toBe(`/tasks/hop-daily/runs/${retry.id}`);
+            expect(retry.id).not.toBe(failed.id);
+            expect(await waitForRun("hop-daily", retry.id)).toMatchObject({ status: "completed", idempotencyKey: "run-1" });
+            expect(executeDelegate.mock.calls.map(([, context]) => context.idempotencyKey)).toEqual(["run-1", "run-1"]);
+        });
+
+        it("should only retry failed runs started with an idempotency key", async () => {
+            const completed = await (await request("POST", "/tasks/hop-daily/runs", undefined, { "Idempotency-Key": "run-1" })).json();
+            await waitForRun("hop-daily", completed.id);
+            executeDelegate.mockRejectedValueOnce(new Error("RPC unavailable"));
+            const unkeyed = await (await request("POST", "/tasks/hop-daily/runs")).json();
+            await waitForRun("hop-daily", unkeyed.id);
+
+            const retriedCompleted = await request("POST", `/tasks/hop-daily/runs/${completed.id}/retry`);
+            const retriedUnkeyed = await request("POST", `/tasks/hop-daily/runs/${unkeyed.id}/retry`);
+
+            expect(retriedCompleted.status).toBe(409);
+            expect((await retriedCompleted.json()).error.message).toContain("only failed and cancelled runs can be retried");
+            expect(retriedUnkeyed.status).toBe(409);
+            expect((await retriedUnkeyed.json()).error.message).toContain("has no checkpoint to resume");
+            expect((await request("POST", "/tasks/hop-daily/runs/missing/retry")).status).toBe(404);
+            expect(executeDelegate).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("without a checkpoint store", () => {
+        let sendTransaction: jest.Mock;
+
+        beforeEach(async () => {
+            await engine.stop();
+            await server.close();
+
+            sendTransaction = jest.fn().mockResolvedValue("transfer-sig");
+            const connection = {
+                getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+                sendTransaction,
+                confirmTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } }),
+            } as unknown as Connection;
+            const retryPolicy = new RetryPolicy({ maxAttempts: 1, clock: { sleep: async () => {} } });
+            registry = new DelegateRegistry({ connection, signerKeypair: signer, retryPolicy }, { registerBuiltIns: false })
+                .register("distributor", deps => new Distributor(deps.connection, deps.signerKeypair, {} as HeliusClient));
+            engine = new TaskEngine({ registry, store: new InMemoryTaskStore(), runHistory: new InMemoryTaskRunHistory() });
+            server = new ApiServer({ engine, registry, apiKeys: [API_KEY] });
+            baseUrl = `http://127.0.0.1:${(await server.listen(0)).port}`;
+
+            await request("POST", "/tasks", {
+                id: "airdrop",
+                name: "Airdrop",
+                schedule: { unit: "days", interval: 1 },
+                options: { type: "distributor", distributionType: "single", singleAddress: DESTINATION, numTokens: 0.1 },
+            });
+        });
+
+        it("should run checkpointing delegates for requests with an idempotency key", async () => {
+            const run = await (await request("POST", "/tasks/airdrop/runs", undefined, { "Idempotency-Key": "run-1" })).json();
+
+            expect(await waitForRun("airdrop", run.id)).toMatchObject({ status: "completed", idempotencyKey: "run-1", result: { signatures: ["transfer-sig"] } });
+        });
+
+        it("should not retry runs it has no checkpoint for", async () => {
+            sendTransaction.mockRejectedValue(new Error("RPC unavailable"));
+            const failed = await (await request("POST", "/tasks/airdrop/runs", undefined, { "Idempotency-Key": "run-1" })).json();
+            await waitForRun("airdrop", failed.id);
+
+            const response = await request("POST", `/tasks/airdrop/runs/${failed.id}/retry`);
+
+            expect(response.status).toBe(409);
+            expect((await response.json()).error.message).toContain("the registry has no checkpoint store");
+        });
+    });
+});
+
+describe("InMemoryIdempotencyStore", () => {
+    it("should return the record holding a key until it expires", async () => {
+        let now = new Date("2026-01-01T00:00:00Z");
+        const store = new InMemoryIdempotencyStore({ ttlMs: 1000, now: () => now });
+        const record = { key: "k", taskId: "t", runId: "r1", createdAt: now };
+
+        await expect(store.claim(record)).resolves.toBeNull();
+        await expect(store.claim({ ...record, runId: "r2" })).resolves.toEqual(record);
+
+        now = new Date("2026-01-01T00:00:01Z");
+        await expect(store.claim({ ...record, runId: "r3", createdAt: now })).resolves.toBeNull();
+    });
+});
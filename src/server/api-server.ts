@@ -0,0 +1,567 @@
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { createServer, IncomingHttpHeaders, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { DelegateRegistry } from "../delegate/registry";
+import { BuiltInDelegateType, DELEGATE_OPTIONS_SCHEMAS, getDelegateOptionsJsonSchema } from "../delegate/schemas";
+import { Logger } from "../solana/types";
+import { createTaskFromDefinition, parseTaskChanges, parseTaskDefinition } from "../task/definition";
+import { TaskEngine } from "../task/engine";
+import { TASK_RUN_STATUSES, TaskRunRecord } from "../task/run-history";
+import { serializeTask } from "../task/store/base";
+import { BaseTask, TASK_STATUSES } from "../types";
+import { ConfigurationError, FrameworkError, ValidationError, ValidationIssue } from "../utils/errors";
+import { IdempotencyStore, InMemoryIdempotencyStore } from "./idempotency";
+
+const SECRET_FIELDS = new Set(['privateKey', 'secretKey']);
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * Configuration interface for ApiServer
+ */
+export interface ApiServerConfig {
+    engine: TaskEngine; // Must be configured with a runHistory, which serves the runs
+    registry: DelegateRegistry; // The registry the engine runs tasks with; new tasks are owned by its signer
+    apiKeys: string[]; // Accepted as 'Authorization: Bearer <key>' or 'X-API-Key: <key>'
+    idempotencyStore?: IdempotencyStore; // Default: an InMemoryIdempotencyStore
+    maxBodyBytes?: number; // Default: 1 MiB
+    logger?: Logger;
+}
+
+/**
+ * A request, independent of the HTTP server it arrived through
+ */
+export interface ApiRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: IncomingHttpHeaders;
+    body?: unknown; // The parsed JSON body
+}
+
+/**
+ * A response, serialized as JSON unless it has no body
+ */
+export interface ApiResponse {
+    status: number;
+    headers?: Record<string, string>;
+    body?: unknown;
+}
+
+type RouteHandler = (request: ApiRequest, params: string[]) => Promise<ApiResponse>;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handler: RouteHandler;
+}
+
+/**
+ * A request that fails with a specific status, rendered as an error body
+ */
+class HttpError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: string,
+        message: string,
+        public readonly issues?: ValidationIssue[],
+        public readonly headers?: Record<string, string>
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+/**
+ * HTTP API over a TaskEngine: create, change and delete tasks, trigger runs
+ * and read their results, and list the delegate types with their option
+ * schemas. Every route except GET /health requires an API key.
+ *
+ * Responses are JSON. Errors have the body { error: { code, message, issues? } }.
+ * Private keys in task options and results are redacted.
+ */
+export class ApiServer {
+    private static readonly DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+    private readonly engine: TaskEngine;
+    private readonly registry: DelegateRegistry;
+    private readonly apiKeyDigests: Buffer[];
+    private readonly idempotencyStore: IdempotencyStore;
+    private readonly maxBodyBytes: number;
+    private readonly logger?: Logger;
+    private readonly routes: Route[];
+    private server: Server | null = null;
+
+    constructor(config: ApiServerConfig) {
+        const apiKeys = config.apiKeys.filter(key => key.length > 0);
+        if (apiKeys.length === 0) {
+            throw new ConfigurationError('ApiServer requires at least one API key');
+        }
+        if (!config.engine.hasRunHistory()) {
+            throw new ConfigurationError('ApiServer requires a TaskEngine configured with a runHistory');
+        }
+
+        this.engine = config.engine;
+        this.registry = config.registry;
+        this.apiKeyDigests = apiKeys.map(digest);
+        this.idempotencyStore = config.idempotencyStore ?? new InMemoryIdempotencyStore();
+        this.maxBodyBytes = config.maxBodyBytes ?? ApiServer.DEFAULT_MAX_BODY_BYTES;
+        this.logger = config.logger;
+        this.routes = [
+            { method: 'GET', pattern: /^\/delegate-types$/, handler: () => this.listDelegateTypes() },
+            { method: 'GET', pattern: /^\/delegate-types\/([^/]+)$/, handler: (_request, [type]) => this.getDelegateType(type!) },
+            { method: 'GET', pattern: /^\/tasks$/, handler: request => this.listTasks(request) },
+            { method: 'POST', pattern: /^\/tasks$/, handler: request => this.createTask(request) },
+            { method: 'GET', pattern: /^\/tasks\/([^/]+)$/, handler: (_request, [taskId]) => this.getTask(taskId!) },
+            { method: 'PATCH', pattern: /^\/tasks\/([^/]+)$/, handler: (request, [taskId]) => this.updateTask(taskId!, request) },
+            { method: 'DELETE', pattern: /^\/tasks\/([^/]+)$/, handler: (_request, [taskId]) => this.deleteTask(taskId!) },
+            { method: 'POST', pattern: /^\/tasks\/([^/]+)\/pause$/, handler: (_request, [taskId]) => this.pauseTask(taskId!) },
+            { method: 'POST', pattern: /^\/tasks\/([^/]+)\/resume$/, handler: (_request, [taskId]) => this.resumeTask(taskId!) },
+            { method: 'GET', pattern: /^\/tasks\/([^/]+)\/runs$/, handler: (request, [taskId]) => this.listRuns(taskId!, request) },
+            { method: 'POST', pattern: /^\/tasks\/([^/]+)\/runs$/, handler: (request, [taskId]) => this.startRun(taskId!, request) },
+            { method: 'GET', pattern: /^\/tasks\/([^/]+)\/runs\/([^/]+)$/, handler: (_request, [taskId, runId]) => this.getRun(taskId!, runId!) },
+            { method: 'POST', pattern: /^\/tasks\/([^/]+)\/runs\/([^/]+)\/retry$/, handler: (_request, [taskId, runId]) => this.retryRun(taskId!, runId!) },
+        ];
+    }
+
+    /**
+     * Request listener for http.createServer, or to mount the API in an existing server
+     */
+    public readonly listener = (request: IncomingMessage, response: ServerResponse): void => {
+        this.serve(request, response).catch(error => {
+            this.logger?.error('Failed to send API response', { error: error instanceof Error ? error.message : String(error) });
+            response.destroy();
+        });
+    };
+
+    /**
+     * Start listening for requests
+     * @param port - The port, or 0 for a random free port
+     * @param host - The interface to bind. Default: 127.0.0.1
+     * @returns The address the server listens on
+     */
+    public async listen(port: number, host: string = '127.0.0.1'): Promise<AddressInfo> {
+        if (this.server) {
+            throw new Error('ApiServer is already listening');
+        }
+
+        const server = createServer(this.listener);
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+
+        const address = server.address() as AddressInfo;
+        this.logger?.info('API server listening', { host: address.address, port: address.port });
+        return address;
+    }
+
+    /**
+     * Stop listening and close open connections. Runs in progress are not
+     * affected; stop the engine to wait for them.
+     */
+    public async close(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+
+        this.server = null;
+        await new Promise<void>((resolve, reject) => {
+            server.close(error => error ? reject(error) : resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    /**
+     * Handle a request, including authentication
+     * @param request - The request
+     * @returns The response
+     */
+    public async handle(request: ApiRequest): Promise<ApiResponse> {
+        try {
+            if (request.method === 'GET' && request.path === '/health') {
+                return { status: 200, body: { status: 'ok', worker: this.engine.isStarted() } };
+            }
+            if (!this.isAuthorized(request.headers)) {
+                throw new HttpError(401, 'UNAUTHORIZED', 'A valid API key is required', undefined, { 'WWW-Authenticate': 'Bearer' });
+            }
+
+            const allowed: string[] = [];
+            for (const route of this.routes) {
+                const match = route.pattern.exec(request.path);
+                if (!match) {
+                    continue;
+                }
+                if (route.method === request.method) {
+                    return await route.handler(request, match.slice(1).map(decodeURIComponent));
+                }
+                allowed.push(route.method);
+            }
+
+            if (allowed.length > 0) {
+                throw new HttpError(405, 'METHOD_NOT_ALLOWED', `${request.method} is not allowed on ${request.path}`, undefined, { Allow: allowed.join(', ') });
+            }
+            throw new HttpError(404, 'NOT_FOUND', `No route for ${request.path}`);
+        } catch (error) {
+            return this.errorResponse(error);
+        }
+    }
+
+    private async serve(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        let result: ApiResponse;
+
+        try {
+            const body = await this.readBody(request);
+            result = await this.handle({
+                method: request.method ?? 'GET',
+                path: url.pathname.replace(/\/+$/, '') || '/',
+                query: url.searchParams,
+                headers: request.headers,
+                body,
+            });
+        } catch (error) {
+            result = this.errorResponse(error);
+        }
+
+        this.logger?.debug(`${request.method} ${url.pathname} ${result.status}`);
+
+        const payload = result.body === undefined ? undefined : JSON.stringify(result.body, redactSecrets);
+        response.writeHead(result.status, {
+            ...result.headers,
+            ...(payload !== undefined && { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': String(Buffer.byteLength(payload)) }),
+        });
+        response.end(payload);
+    }
+
+    private async readBody(request: IncomingMessage): Promise<unknown> {
+        const declared = Number(request.headers['content-length'] ?? 0);
+        if (declared > this.maxBodyBytes) {
+            request.resume();
+            throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${this.maxBodyBytes} bytes`);
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of request) {
+            size += (chunk as Buffer).length;
+            if (size > this.maxBodyBytes) {
+                request.resume();
+                throw new HttpError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${this.maxBodyBytes} bytes`);
+            }
+            chunks.push(chunk as Buffer);
+        }
+
+        const text = Buffer.concat(chunks).toString('utf8');
+        if (text.trim() === '') {
+            return undefined;
+        }
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            throw new HttpError(400, 'INVALID_JSON', `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private isAuthorized(headers: IncomingHttpHeaders): boolean {
+        const bearer = /^Bearer\s+(.+)$/i.exec(headers.authorization ?? '');
+        const apiKeyHeader = headers['x-api-key'];
+        const key = bearer?.[1] ?? (Array.isArray(apiKeyHeader) ? apiKeyHeader[0] : apiKeyHeader);
+        if (!key) {
+            return false;
+        }
+
+        // Compare digests so neither the key's length nor its content leaks through timing
+        const presented = digest(key.trim());
+        return this.apiKeyDigests.reduce((authorized, expected) => timingSafeEqual(presented, expected) || authorized, false);
+    }
+
+    private errorResponse(error: unknown): ApiResponse {
+        if (error instanceof HttpError) {
+            return {
+                status: error.status,
+                ...(error.headers && { headers: error.headers }),
+                body: { error: { code: error.code, message: error.message, ...(error.issues && { issues: error.issues }) } },
+            };
+        }
+        if (error instanceof ValidationError) {
+            return {
+                status: 400,
+                body: { error: { code: error.code, message: error.message, ...(error.issues.length > 0 && { issues: error.issues }) } },
+            };
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.error('API request failed', { error: message, code: error instanceof FrameworkError ? error.code : undefined });
+        return { status: 500, body: { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } } };
+    }
+
+    private async listDelegateTypes(): Promise<ApiResponse> {
+        return { status: 200, body: { delegateTypes: this.registry.getTypes().map(type => describeDelegateType(type)) } };
+    }
+
+    private async getDelegateType(type: string): Promise<ApiResponse> {
+        if (!this.registry.has(type)) {
+            throw new HttpError(404, 'NOT_FOUND', `Delegate type ${type} is not registered`);
+        }
+        return { status: 200, body: describeDelegateType(type) };
+    }
+
+    private async listTasks(request: ApiRequest): Promise<ApiResponse> {
+        const status = getEnumParam(request.query, 'status', TASK_STATUSES);
+        const type = request.query.get('type') ?? undefined;
+        const limit = getLimitParam(request.query);
+
+        const tasks = (await this.engine.getTasks())
+            .filter(task => (status === undefined || task.status === status) && (type === undefined || task.type === type));
+        return { status: 200, body: { tasks: tasks.slice(0, limit).map(serializeTask) } };
+    }
+
+    private async createTask(request: ApiRequest): Promise<ApiResponse> {
+        const parsed = parseTaskDefinition(request.body);
+        if (!parsed.success) {
+            throw invalidBody(parsed.issues);
+        }
+        if (!this.registry.has(parsed.value.options.type)) {
+            throw new HttpError(400, 'VALIDATION_ERROR', `Delegate type ${parsed.value.options.type} is not registered`);
+        }
+        if (parsed.value.id !== undefined && await this.engine.getTask(parsed.value.id)) {
+            throw new HttpError(409, 'CONFLICT', `Task ${parsed.value.id} already exists`);
+        }
+
+        const owner = { address: this.registry.getSignerAddress() };
+        const task = await this.engine.registerTask(createTaskFromDefinition(parsed.value, owner)).catch(rethrowAsInvalid);
+        return { status: 201, headers: { Location: `/tasks/${encodeURIComponent(task.id)}` }, body: serializeTask(task) };
+    }
+
+    private async getTask(taskId: string): Promise<ApiResponse> {
+        return { status: 200, body: serializeTask(await this.requireTask(taskId)) };
+    }
+
+    private async updateTask(taskId: string, request: ApiRequest): Promise<ApiResponse> {
+        await this.requireTask(taskId);
+        const parsed = parseTaskChanges(request.body);
+        if (!parsed.success) {
+            throw invalidBody(parsed.issues);
+        }
+
+        const updated = await this.engine.updateTask(taskId, parsed.value).catch(rethrowAsInvalid);
+        return { status: 200, body: serializeTask(updated) };
+    }
+
+    private async deleteTask(taskId: string): Promise<ApiResponse> {
+        await this.requireTask(taskId);
+        if (this.engine.isRunning(taskId)) {
+            throw new HttpError(409, 'CONFLICT', `Task ${taskId} is running; pause it before deleting it`);
+        }
+
+        await this.engine.unregisterTask(taskId);
+        return { status: 204 };
+    }
+
+    private async pauseTask(taskId: string): Promise<ApiResponse> {
+        await this.requireTask(taskId);
+        return { status: 200, body: serializeTask(await this.engine.pauseTask(taskId)) };
+    }
+
+    private async resumeTask(taskId: string): Promise<ApiResponse> {
+        const task = await this.requireTask(taskId);
+        if (task.status !== 'paused') {
+            throw new HttpError(409, 'CONFLICT', `Task ${taskId} is not paused`);
+        }
+        return { status: 200, body: serializeTask(await this.engine.resumeTask(taskId)) };
+    }
+
+    private async listRuns(taskId: string, request: ApiRequest): Promise<ApiResponse> {
+        await this.requireTask(taskId);
+        const status = getEnumParam(request.query, 'status', TASK_RUN_STATUSES);
+        const limit = getLimitParam(request.query);
+
+        const runs = await this.engine.getRuns({ taskId, ...(status && { status }), ...(limit !== undefined && { limit }) });
+        return { status: 200, body: { runs } };
+    }
+
+    private async getRun(taskId: string, runId: string): Promise<ApiResponse> {
+        return { status: 200, body: await this.requireRun(taskId, runId) };
+    }
+
+    /**
+     * Start a run without waiting for it. With an Idempotency-Key header, a
+     * repeated request returns the run the first one started instead of
+     * running again; the key also reaches the delegate as its checkpoint key.
+     */
+    private async startRun(taskId: string, request: ApiRequest): Promise<ApiResponse> {
+        const task = await this.requireTask(taskId);
+        const idempotencyKey = getIdempotencyKey(request.headers);
+        const runId = randomUUID();
+
+        if (idempotencyKey !== undefined) {
+            const existing = await this.idempotencyStore.claim({ key: idempotencyKey, taskId, runId, createdAt: new Date() });
+            if (existing) {
+                return this.replayRun(taskId, existing.taskId, existing.runId);
+            }
+        }
+
+        try {
+            await this.launchRun(task, runId, idempotencyKey);
+        } catch (error) {
+            if (idempotencyKey !== undefined) {
+                await this.idempotencyStore.release(idempotencyKey);
+            }
+            throw error;
+        }
+        return this.acceptRun(taskId, runId);
+    }
+
+    /**
+     * Run a failed or cancelled run again under its idempotency key, so the
+     * delegate resumes from the checkpoint the run left instead of starting over
+     */
+    private async retryRun(taskId: string, runId: string): Promise<ApiResponse> {
+        const task = await this.requireTask(taskId);
+        const previous = await this.requireRun(taskId, runId);
+        if (previous.status !== 'failed' && previous.status !== 'cancelled') {
+            throw new HttpError(409, 'CONFLICT', `Run ${runId} is ${previous.status}; only failed and cancelled runs can be retried`);
+        }
+        if (previous.idempotencyKey === undefined) {
+            throw new HttpError(409, 'CONFLICT', `Run ${runId} was started without an idempotency key, so it has no checkpoint to resume`);
+        }
+        if (!this.registry.hasCheckpointStore()) {
+            throw new HttpError(409, 'CONFLICT', `Run ${runId} has no checkpoint to resume; the registry has no checkpoint store`);
+        }
+
+        const retryId = randomUUID();
+        await this.launchRun(task, retryId, previous.idempotencyKey);
+        return this.acceptRun(taskId, retryId);
+    }
+
+    private async launchRun(task: BaseTask, runId: string, idempotencyKey: string | undefined): Promise<void> {
+        try {
+            this.assertRunnable(task);
+            const started = await this.engine.startTask(task.id, { runId, ...(idempotencyKey !== undefined && { idempotencyKey }) });
+            started.completion.catch(error => {
+                this.logger?.error(`Run ${runId} of task ${task.id} failed`, { error: error instanceof Error ? error.message : String(error) });
+            });
+        } catch (error) {
+            // The engine refuses to start with plain errors, e.g. inside a blackout window
+            if (error instanceof HttpError || error instanceof FrameworkError || !(error instanceof Error)) {
+                throw error;
+            }
+            throw new HttpError(409, 'CONFLICT', error.message);
+        }
+    }
+
+    private async acceptRun(taskId: string, runId: string): Promise<ApiResponse> {
+        const run = await this.engine.getRun(runId);
+        return {
+            status: 202,
+            headers: { Location: `/tasks/${encodeURIComponent(taskId)}/runs/${encodeURIComponent(runId)}` },
+            body: run,
+        };
+    }
+
+    private async replayRun(taskId: string, claimedTaskId: string, runId: string): Promise<ApiResponse> {
+        if (claimedTaskId !== taskId) {
+            throw new HttpError(422, 'IDEMPOTENCY_KEY_REUSED', `Idempotency key was already used for task ${claimedTaskId}`);
+        }
+
+        const run = await this.engine.getRun(runId);
+        if (!run) {
+            throw new HttpError(409, 'CONFLICT', 'A request with this idempotency key is still in progress');
+        }
+        return {
+            status: 200,
+            headers: { 'Idempotent-Replayed': 'true', Location: `/tasks/${encodeURIComponent(taskId)}/runs/${encodeURIComponent(runId)}` },
+            body: run,
+        };
+    }
+
+    private assertRunnable(task: BaseTask): void {
+        if (task.status === 'paused') {
+            throw new HttpError(409, 'CONFLICT', `Task ${task.id} is paused`);
+        }
+        if (this.engine.isRunning(task.id)) {
+            throw new HttpError(409, 'CONFLICT', `Task ${task.id} is already running`);
+        }
+    }
+
+    private async requireTask(taskId: string): Promise<BaseTask> {
+        const task = await this.engine.getTask(taskId);
+        if (!task) {
+            throw new HttpError(404, 'NOT_FOUND', `Task ${taskId} not found`);
+        }
+        return task;
+    }
+
+    private async requireRun(taskId: string, runId: string): Promise<TaskRunRecord> {
+        const run = await this.engine.getRun(runId);
+        if (!run || run.taskId !== taskId) {
+            throw new HttpError(404, 'NOT_FOUND', `Run ${runId} of task ${taskId} not found`);
+        }
+        return run;
+    }
+}
+
+function describeDelegateType(type: string): { type: string; optionsSchema: unknown } {
+    const builtIn = Object.prototype.hasOwnProperty.call(DELEGATE_OPTIONS_SCHEMAS, type);
+    return { type, optionsSchema: builtIn ? getDelegateOptionsJsonSchema(type as BuiltInDelegateType) : null };
+}
+
+function invalidBody(issues: ValidationIssue[]): HttpError {
+    return new HttpError(400, 'VALIDATION_ERROR', 'Invalid request body', issues);
+}
+
+// The engine rejects invalid schedules and policies with plain errors; they are the client's to fix
+function rethrowAsInvalid(error: unknown): never {
+    if (error instanceof FrameworkError && !(error instanceof ValidationError)) {
+        throw error;
+    }
+    throw error instanceof Error ? new HttpError(400, 'VALIDATION_ERROR', error.message) : error;
+}
+
+function getEnumParam<T extends string>(query: URLSearchParams, name: string, values: readonly T[]): T | undefined {
+    const value = query.get(name);
+    if (value === null) {
+        return undefined;
+    }
+    if (!values.includes(value as T)) {
+        throw new HttpError(400, 'VALIDATION_ERROR', `${name} must be one of ${values.join(', ')}`);
+    }
+    return value as T;
+}
+
+function getLimitParam(query: URLSearchParams): number | undefined {
+    const value = query.get('limit');
+    if (value === null) {
+        return undefined;
+    }
+    if (!/^[1-9]\d*$/.test(value)) {
+        throw new HttpError(400, 'VALIDATION_ERROR', 'limit must be a positive integer');
+    }
+    return Number(value);
+}
+
+function getIdempotencyKey(headers: IncomingHttpHeaders): string | undefined {
+    const header = headers['idempotency-key'];
+    const key = Array.isArray(header) ? header[0] : header;
+    if (key === undefined) {
+        return undefined;
+    }
+    if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        throw new HttpError(400, 'VALIDATION_ERROR', `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+    return key;
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+// JSON.stringify replacer that keeps key material, e.g. Hopper results or Sweeper hop wallets, out of responses
+function redactSecrets(key: string, value: unknown): unknown {
+    return SECRET_FIELDS.has(key) && value !== null && value !== undefined ? '[REDACTED]' : value;
+}
@@ -0,0 +1,67 @@
+/**
+ * Which run an idempotency key started
+ */
+export interface IdempotencyRecord {
+    key: string;
+    taskId: string;
+    runId: string;
+    createdAt: Date;
+}
+
+/**
+ * Remembers idempotency keys of run requests, so a retried request returns
+ * the run the first one started instead of starting another
+ */
+export interface IdempotencyStore {
+    claim(record: IdempotencyRecord): Promise<IdempotencyRecord | null>; // Saves the record, or returns the one already holding the key
+    release(key: string): Promise<void>; // Frees a key whose run could not start
+}
+
+/**
+ * Configuration interface for InMemoryIdempotencyStore
+ */
+export interface InMemoryIdempotencyStoreConfig {
+    ttlMs?: number; // How long a key is remembered. Default: 24 hours
+    now?: () => Date;
+}
+
+/**
+ * Non-persistent idempotency store for a single server process
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+    private static readonly DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+    private readonly records = new Map<string, IdempotencyRecord>();
+    private readonly ttlMs: number;
+    private readonly now: () => Date;
+
+    constructor(config: InMemoryIdempotencyStoreConfig = {}) {
+        this.ttlMs = config.ttlMs ?? InMemoryIdempotencyStore.DEFAULT_TTL_MS;
+        this.now = config.now ?? (() => new Date());
+    }
+
+    async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+        this.evictExpired();
+
+        const existing = this.records.get(record.key);
+        if (existing) {
+            return { ...existing };
+        }
+
+        this.records.set(record.key, { ...record });
+        return null;
+    }
+
+    async release(key: string): Promise<void> {
+        this.records.delete(key);
+    }
+
+    private evictExpired(): void {
+        const cutoff = this.now().getTime() - this.ttlMs;
+        for (const [key, record] of this.records) {
+            if (record.createdAt.getTime() <= cutoff) {
+                this.records.delete(key);
+            }
+        }
+    }
+}
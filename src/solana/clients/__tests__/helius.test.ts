@@ -696,11 +696,11 @@ describe('HeliusClient', () => {
 
       const publicKey = new PublicKey('11111111111111111111111111111111');
 
-      // The method should return empty array after retries, not throw
+      // The method should return empty array, not throw
       const result = await client.getAllTransactions(publicKey);
       expect(result).toEqual([]);
-      // Should be called multiple times due to retry logic (6 calls = 3 batches with 2 calls each)
-      expect(mockFetch).toHaveBeenCalledTimes(6);
+      // Client errors are not retried (3 calls = 3 batches with 1 call each)
+      expect(mockFetch).toHaveBeenCalledTimes(3);
     });
 
     it('should handle network errors in getAllTransactions', async () => {
@@ -725,7 +725,8 @@ describe('HeliusClient', () => {
 
       const publicKey = new PublicKey('11111111111111111111111111111111');
 
-      await expect(client.getTransactions(publicKey)).rejects.toThrow('Network Error');
+      await expect(client.getTransactions(publicKey)).rejects.toThrow('HTTP 400: Bad Request');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
 
     it('should handle network errors for getTransactions', async () => {
@@ -2396,6 +2397,8 @@ describe('HeliusClient', () => {
     });
 
     it('should handle API errors in getTransactionsWithLimit', async () => {
+      // Drop responses queued but not consumed by earlier tests
+      mockFetch.mockReset();
       mockFetch.mockResolvedValueOnce({
         ok: false,
         status: 400,
@@ -2404,10 +2407,12 @@ describe('HeliusClient', () => {
 
       const publicKey = new PublicKey('11111111111111111111111111111111');
 
-      await expect(client.getTransactionsWithLimit(publicKey, 10)).rejects.toThrow('Network Error');
+      await expect(client.getTransactionsWithLimit(publicKey, 10)).rejects.toThrow('HTTP 400: Bad Request');
     });
 
     it('should handle network errors in getTransactionsWithLimit', async () => {
+      // Drop responses queued but not consumed by earlier tests
+      mockFetch.mockReset();
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
       const publicKey = new PublicKey('11111111111111111111111111111111');
@@ -129,7 +129,8 @@ describe('JupiterClient', () => {
       const fromMint = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
       const toMint = new PublicKey('So11111111111111111111111111111111111111112');
 
-      await expect(client.getQuote(fromMint, toMint, '1000000000')).rejects.toThrow('No response received from Jupiter');
+      await expect(client.getQuote(fromMint, toMint, '1000000000')).rejects.toThrow('Jupiter API Error: HTTP 400: Bad Request');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
 
     it('should handle network errors', async () => {
@@ -283,7 +284,8 @@ describe('JupiterClient', () => {
         text: async () => 'Invalid swap parameters',
       } as Response);
 
-      await expect(client.getSwapTransaction(mockQuoteResponse, mockSwapParams)).rejects.toThrow('No response received from Jupiter');
+      await expect(client.getSwapTransaction(mockQuoteResponse, mockSwapParams)).rejects.toThrow('Jupiter Swap Error: HTTP 400: Invalid swap parameters');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
 
     it('should handle missing swap transaction in response', async () => {
@@ -296,7 +298,7 @@ describe('JupiterClient', () => {
         json: async () => mockSwapResponse,
       } as Response);
 
-      await expect(client.getSwapTransaction(mockQuoteResponse, mockSwapParams)).rejects.toThrow('No response received from Jupiter');
+      await expect(client.getSwapTransaction(mockQuoteResponse, mockSwapParams)).rejects.toThrow('No swap transaction received from Jupiter');
     });
 
     it('should handle network errors for swap transaction', async () => {
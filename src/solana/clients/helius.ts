@@ -1,8 +1,11 @@
 import { Transaction as SolanaTransaction, PublicKey, SystemProgram, Keypair } from "@solana/web3.js";
 import { TOKEN_PROGRAM_ID, createTransferInstruction } from "@solana/spl-token";
 import bs58 from "bs58";
-import { throwError } from "../../utils/error-handling";
+import { getErrorMessage } from "../../utils/error-handling";
+import { createHttpError, RpcError, ValidationError } from "../../utils/errors";
 import { HeliusConfig, SendTransactionOptions, Logger, RpcRequest, RpcResponse, GetLatestBlockhashOptions, GetTransactionsOptions, Transaction, GetAccountInfoOptions, MetaplexMetadata } from "../types";
+import { RetryPolicy } from "../../utils/retry";
+import { CircuitBreaker } from "../../utils/circuit-breaker";
 
 export class HeliusClient {
     private static readonly DEFAULT_TIMEOUT = 30000;
@@ -11,8 +14,10 @@ export class HeliusClient {
     private static readonly DEFAULT_ENHANCED_API_URL = "https://api.helius.xyz/v0";
     private static readonly METAPLEX_METADATA_PROGRAM_ID = "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s";
     
-    private readonly config: Omit<Required<HeliusConfig>, 'logger'> & { logger?: Logger };
+    private readonly config: Omit<Required<HeliusConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker'> & { logger?: Logger };
     private readonly logger?: Logger;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly enhancedApiBreaker: CircuitBreaker;
     private requestId = 0;
     
     // Rate limit tracking
@@ -32,6 +37,8 @@ export class HeliusClient {
             ...config,
         };
         this.logger = this.config.logger;
+        this.retryPolicy = config.retryPolicy ?? new RetryPolicy({ maxAttempts: this.config.retries });
+        this.enhancedApiBreaker = config.circuitBreaker ?? new CircuitBreaker('helius-enhanced');
     }
 
     /**
@@ -666,7 +673,7 @@ export class HeliusClient {
      */
     public async getTransactionsWithLimit(publicKey: PublicKey, totalLimit: number, options: GetTransactionsOptions = {}, batchSize: number = 10): Promise<Transaction[]> {
         if (batchSize <= 0 || batchSize > 100) {
-            throw new Error('Batch size must be between 1 and 100');
+            throw new ValidationError('Batch size must be between 1 and 100');
         }
         
                     // Log initial rate limit status
@@ -841,7 +848,7 @@ export class HeliusClient {
      */
     public async getTransactionsWithLimitRobust(publicKey: PublicKey, totalLimit: number, options: GetTransactionsOptions = {}, batchSize: number = 50): Promise<Transaction[]> {
         if (batchSize <= 0 || batchSize > 100) {
-            throw new Error('Batch size must be between 1 and 100');
+            throw new ValidationError('Batch size must be between 1 and 100');
         }
         
                     // Log initial rate limit status
@@ -1443,67 +1450,55 @@ export class HeliusClient {
 
         this.logger?.debug(`Request ${requestId}:`, requestBody);
 
-        let lastError: Error | undefined;
         const url = baseUrl || this.config.rpcUrl;
 
-        for (let attempt = 1; attempt <= this.config.retries; attempt++) {
+        return this.retryPolicy.execute(async () => {
+            let response: Response | undefined;
             try {
-                let response: Response | undefined;
-                try {
-                    response = await Promise.race([
-                        fetch(`${url}?api-key=${this.config.apiKey}`, {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify(requestBody),
-                            signal: AbortSignal.timeout(this.config.timeout),
-                        }),
-                        new Promise<never>((_, reject) =>
-                            setTimeout(() => reject(new Error(`Operation timed out after ${this.config.timeout}ms`)), this.config.timeout)
-                        ),
-                    ]);
-                } catch (error) {
-                    // Network error or timeout
-                    throwError(error, `Helius API Request Failed (${method})`);
-                }
-
-                if (!response || !('ok' in response)) {
-                    throwError('No response received from fetch', `Helius API Request Failed (${method})`);
-                }
-
-                if (!response.ok) {
-                    throwError(`HTTP ${response.status}: ${response.statusText}`, 'Network Error');
-                }
-
-                const data: RpcResponse = await response.json();
-                this.logger?.debug(`Response ${requestId}:`, data);
+                response = await Promise.race([
+                    fetch(`${url}?api-key=${this.config.apiKey}`, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify(requestBody),
+                        signal: AbortSignal.timeout(this.config.timeout),
+                    }),
+                    new Promise<never>((_, reject) =>
+                        setTimeout(() => reject(new Error(`Operation timed out after ${this.config.timeout}ms`)), this.config.timeout)
+                    ),
+                ]);
+            } catch (error) {
+                // Network error or timeout
+                throw new RpcError(getErrorMessage(error), { cause: error, details: { method } });
+            }
 
-                if (data.error) {
-                    throwError(data.error, `Helius API Error (${method})`);
-                }
+            if (!response || !('ok' in response)) {
+                throw new RpcError(`Helius API Request Failed (${method}): No response received from fetch`, { details: { method } });
+            }
 
-                return data.result;
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-                this.logger?.warn(`Request ${requestId} attempt ${attempt} failed:`, lastError);
-
-                // Only retry on network errors or timeouts
-                const isTimeout = /timed out/i.test(lastError.message);
-                const isNetwork = /network|fetch|Failed to fetch|TypeError|No response received/i.test(lastError.message);
-                if (!isTimeout && !isNetwork) {
-                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts:`, lastError);
-                    throw lastError;
-                }
+            if (!response.ok) {
+                throw createHttpError(`Network Error: HTTP ${response.status}: ${response.statusText}`, response.status, response.headers?.get('retry-after'));
+            }
 
-                if (attempt === this.config.retries) {
-                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts:`, lastError);
-                    throwError(lastError, `Helius API Request Failed (${method})`);
-                }
+            const data: RpcResponse = await response.json();
+            this.logger?.debug(`Response ${requestId}:`, data);
 
-                await this.delay(Math.pow(2, attempt - 1) * 1000);
+            if (data.error) {
+                // The node rejected the request itself, so sending it again cannot help
+                throw new RpcError(`Helius API Error (${method}): ${getErrorMessage(data.error)}`, {
+                    retryable: false,
+                    details: { method, rpcCode: data.error.code },
+                });
             }
-        }
 
-        throw lastError!;
+            return data.result;
+        }, {
+            onFailedAttempt: ({ attempt, error, willRetry }) => {
+                this.logger?.warn(`Request ${requestId} attempt ${attempt} failed:`, error);
+                if (!willRetry) {
+                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts:`, error);
+                }
+            },
+        });
     }
 
     /**
@@ -1621,11 +1616,25 @@ export class HeliusClient {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
 
+    /**
+     * Get the circuit breaker that guards the enhanced API, e.g. to monitor its state
+     */
+    public getCircuitBreaker(): CircuitBreaker {
+        return this.enhancedApiBreaker;
+    }
+
+    /**
+     * Whether enhanced API requests currently fail fast because the API kept failing
+     */
+    public isCircuitOpen(): boolean {
+        return this.enhancedApiBreaker.isOpen();
+    }
+
     /**
      * Get the current configuration
      * @returns Current client configuration
      */
-    public getConfig(): Readonly<Omit<Required<HeliusConfig>, 'logger'> & { logger?: Logger }> {
+    public getConfig(): Readonly<Omit<Required<HeliusConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker'> & { logger?: Logger }> {
         return this.config;
     }
 
@@ -1639,80 +1648,63 @@ export class HeliusClient {
 
         this.logger?.debug(`REST Request ${requestId}: ${url}`);
 
-        let lastError: Error | undefined;
-
-        for (let attempt = 1; attempt <= this.config.retries; attempt++) {
+        // The breaker counts a request once its retries are used up, so a
+        // single request's failed attempts never open it on their own
+        return this.enhancedApiBreaker.execute(() => this.retryPolicy.execute(async () => {
+            let response: Response | undefined;
             try {
-                let response: Response | undefined;
-                try {
-                    response = await Promise.race([
-                        fetch(url, {
-                            method: 'GET',
-                            headers: { 'Content-Type': 'application/json' },
-                            signal: AbortSignal.timeout(this.config.timeout),
-                        }),
-                        new Promise<never>((_, reject) =>
-                            setTimeout(() => reject(new Error(`Operation timed out after ${this.config.timeout}ms`)), this.config.timeout)
-                        ),
-                    ]);
-                } catch (error) {
-                    // Network error or timeout
-                    throw new Error(`Network Error: ${error instanceof Error ? error.message : String(error)}`);
-                }
+                response = await Promise.race([
+                    fetch(url, {
+                        method: 'GET',
+                        headers: { 'Content-Type': 'application/json' },
+                        signal: AbortSignal.timeout(this.config.timeout),
+                    }),
+                    new Promise<never>((_, reject) =>
+                        setTimeout(() => reject(new Error(`Operation timed out after ${this.config.timeout}ms`)), this.config.timeout)
+                    ),
+                ]);
+            } catch (error) {
+                // Network error or timeout
+                throw new RpcError(`Network Error: ${getErrorMessage(error)}`, { cause: error });
+            }
 
-                if (!response || !('ok' in response)) {
-                    throw new Error('Network Error: No response received from fetch');
-                }
+            if (!response || !('ok' in response)) {
+                throw new RpcError('Network Error: No response received from fetch');
+            }
 
-                if (!response.ok) {
-                    // Check if this is a rate limit error
-                    if (response.status === 429) {
-                        const retryAfter = response.headers.get('retry-after');
-                        const rateLimitInfo = this.getRateLimitInfo();
-                        
-                        this.logger?.error(`Rate limit exceeded - Request ${requestId}: HTTP 429 Too Many Requests`, {
-                            retryAfter,
-                            rateLimitInfo,
-                            url: url.split('?')[0] // Log URL without API key
-                        });
-                        
-                        throw new Error(`Rate limit exceeded. Retry after: ${retryAfter || 'unknown'} seconds`);
-                    }
+            if (!response.ok) {
+                // Check if this is a rate limit error
+                if (response.status === 429) {
+                    const retryAfter = response.headers.get('retry-after');
+                    const rateLimitInfo = this.getRateLimitInfo();
                     
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+                    this.logger?.error(`Rate limit exceeded - Request ${requestId}: HTTP 429 Too Many Requests`, {
+                        retryAfter,
+                        rateLimitInfo,
+                        url: url.split('?')[0] // Log URL without API key
+                    });
+                    
+                    throw createHttpError(`Rate limit exceeded. Retry after: ${retryAfter || 'unknown'} seconds`, response.status, retryAfter);
                 }
-
-                // Extract and log rate limit information
-                this.extractAndLogRateLimitInfo(response, requestId);
-
-                const data = await response.json();
-                this.logger?.debug(`REST Response ${requestId}:`, data);
-
-                return data;
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-                this.logger?.warn(`REST Request ${requestId} attempt ${attempt} failed:`, lastError);
-
-                // Only retry on network errors or timeouts
-                const isTimeout = /timed out/i.test(lastError.message);
-                const isNetwork = /network|fetch|Failed to fetch|TypeError|No response received/i.test(lastError.message);
-                const isHttpError = /^HTTP \d+:/i.test(lastError.message);
                 
-                if (!isTimeout && !isNetwork && !isHttpError) {
-                    this.logger?.error(`REST Request ${requestId} failed after ${attempt} attempts:`, lastError);
-                    throw lastError;
-                }
+                throw createHttpError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+            }
 
-                if (attempt === this.config.retries) {
-                    this.logger?.error(`REST Request ${requestId} failed after ${attempt} attempts:`, lastError);
-                    throw lastError;
-                }
+            // Extract and log rate limit information
+            this.extractAndLogRateLimitInfo(response, requestId);
 
-                await this.delay(Math.pow(2, attempt - 1) * 1000);
-            }
-        }
+            const data = await response.json();
+            this.logger?.debug(`REST Response ${requestId}:`, data);
 
-        throw lastError!;
+            return data;
+        }, {
+            onFailedAttempt: ({ attempt, error, willRetry }) => {
+                this.logger?.warn(`REST Request ${requestId} attempt ${attempt} failed:`, error);
+                if (!willRetry) {
+                    this.logger?.error(`REST Request ${requestId} failed after ${attempt} attempts:`, error);
+                }
+            },
+        }));
     }
 
     /**
@@ -1726,81 +1718,62 @@ export class HeliusClient {
 
         this.logger?.debug(`REST POST Request ${requestId}: ${url}`, body);
 
-        let lastError: Error | undefined;
-
-        for (let attempt = 1; attempt <= this.config.retries; attempt++) {
+        return this.enhancedApiBreaker.execute(() => this.retryPolicy.execute(async () => {
+            let response: Response | undefined;
             try {
-                let response: Response | undefined;
-                try {
-                    response = await Promise.race([
-                        fetch(url, {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify(body),
-                            signal: AbortSignal.timeout(this.config.timeout),
-                        }),
-                        new Promise<never>((_, reject) =>
-                            setTimeout(() => reject(new Error(`Operation timed out after ${this.config.timeout}ms`)), this.config.timeout)
-                        ),
-                    ]);
-                } catch (error) {
-                    // Network error or timeout
-                    throw new Error(`Network Error: ${error instanceof Error ? error.message : String(error)}`);
-                }
+                response = await Promise.race([
+                    fetch(url, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify(body),
+                        signal: AbortSignal.timeout(this.config.timeout),
+                    }),
+                    new Promise<never>((_, reject) =>
+                        setTimeout(() => reject(new Error(`Operation timed out after ${this.config.timeout}ms`)), this.config.timeout)
+                    ),
+                ]);
+            } catch (error) {
+                // Network error or timeout
+                throw new RpcError(`Network Error: ${getErrorMessage(error)}`, { cause: error });
+            }
 
-                if (!response || !('ok' in response)) {
-                    throw new Error('Network Error: No response received from fetch');
-                }
+            if (!response || !('ok' in response)) {
+                throw new RpcError('Network Error: No response received from fetch');
+            }
 
-                if (!response.ok) {
-                    // Check if this is a rate limit error
-                    if (response.status === 429) {
-                        const retryAfter = response.headers.get('retry-after');
-                        const rateLimitInfo = this.getRateLimitInfo();
-                        
-                        this.logger?.error(`Rate limit exceeded - POST Request ${requestId}: HTTP 429 Too Many Requests`, {
-                            retryAfter,
-                            rateLimitInfo,
-                            url: url.split('?')[0] // Log URL without API key
-                        });
-                        
-                        throw new Error(`Rate limit exceeded. Retry after: ${retryAfter || 'unknown'} seconds`);
-                    }
+            if (!response.ok) {
+                // Check if this is a rate limit error
+                if (response.status === 429) {
+                    const retryAfter = response.headers.get('retry-after');
+                    const rateLimitInfo = this.getRateLimitInfo();
                     
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+                    this.logger?.error(`Rate limit exceeded - POST Request ${requestId}: HTTP 429 Too Many Requests`, {
+                        retryAfter,
+                        rateLimitInfo,
+                        url: url.split('?')[0] // Log URL without API key
+                    });
+                    
+                    throw createHttpError(`Rate limit exceeded. Retry after: ${retryAfter || 'unknown'} seconds`, response.status, retryAfter);
                 }
-
-                // Extract and log rate limit information
-                this.extractAndLogRateLimitInfo(response, requestId);
-
-                const data = await response.json();
-                this.logger?.debug(`REST POST Response ${requestId}:`, data);
-
-                return data;
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-                this.logger?.warn(`REST POST Request ${requestId} attempt ${attempt} failed:`, lastError);
-
-                // Only retry on network errors or timeouts
-                const isTimeout = /timed out/i.test(lastError.message);
-                const isNetwork = /network|fetch|Failed to fetch|TypeError|No response received/i.test(lastError.message);
-                const isHttpError = /^HTTP \d+:/i.test(lastError.message);
                 
-                if (!isTimeout && !isNetwork && !isHttpError) {
-                    this.logger?.error(`REST POST Request ${requestId} failed after ${attempt} attempts:`, lastError);
-                    throw lastError;
-                }
+                throw createHttpError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+            }
 
-                if (attempt === this.config.retries) {
-                    this.logger?.error(`REST POST Request ${requestId} failed after ${attempt} attempts:`, lastError);
-                    throw lastError;
-                }
+            // Extract and log rate limit information
+            this.extractAndLogRateLimitInfo(response, requestId);
 
-                await this.delay(Math.pow(2, attempt - 1) * 1000);
-            }
-        }
+            const data = await response.json();
+            this.logger?.debug(`REST POST Response ${requestId}:`, data);
 
-        throw lastError!;
+            return data;
+        }, {
+            onFailedAttempt: ({ attempt, error, willRetry }) => {
+                this.logger?.warn(`REST POST Request ${requestId} attempt ${attempt} failed:`, error);
+                if (!willRetry) {
+                    this.logger?.error(`REST POST Request ${requestId} failed after ${attempt} attempts:`, error);
+                }
+            },
+        }));
     }
 
     /**
@@ -1,15 +1,17 @@
 import { PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { QuoteResponse } from "@jup-ag/api";
-import { throwError } from "../../utils/error-handling";
+import { createHttpError, ProtocolError, RpcError, ValidationError } from "../../utils/errors";
 import { JupiterConfig, Logger, SwapParams } from "../types";
+import { RetryPolicy } from "../../utils/retry";
 
 export class JupiterClient {
     private static readonly DEFAULT_TIMEOUT = 30000;
     private static readonly DEFAULT_RETRIES = 3;
     private static readonly DEFAULT_QUOTE_API_URL = "https://quote-api.jup.ag/v6";
     
-    private readonly config: Omit<Required<JupiterConfig>, 'logger'> & { logger?: Logger };
+    private readonly config: Omit<Required<JupiterConfig>, 'logger' | 'retryPolicy'> & { logger?: Logger };
     private readonly logger?: Logger;
+    private readonly retryPolicy: RetryPolicy;
     private requestId = 0;
 
     constructor(config: JupiterConfig) {
@@ -20,6 +22,7 @@ export class JupiterClient {
             ...config,
         };
         this.logger = this.config.logger;
+        this.retryPolicy = config.retryPolicy ?? new RetryPolicy({ maxAttempts: this.config.retries });
     }
 
     /**
@@ -38,15 +41,15 @@ export class JupiterClient {
     ): Promise<QuoteResponse> {
         // Validate inputs
         if (!fromMint || !toMint) {
-            throwError('Invalid mint addresses provided', 'Jupiter Quote Error');
+            throw new ValidationError('Jupiter Quote Error: Invalid mint addresses provided');
         }
         
         if (!amount || Number(amount) <= 0) {
-            throwError('Invalid amount provided', 'Jupiter Quote Error');
+            throw new ValidationError('Jupiter Quote Error: Invalid amount provided');
         }
         
         if (slippageBps < 0 || slippageBps > 10000) {
-            throwError('Slippage must be between 0 and 10000 basis points', 'Jupiter Quote Error');
+            throw new ValidationError('Jupiter Quote Error: Slippage must be between 0 and 10000 basis points');
         }
 
         return this.makeRequest(async () => {
@@ -63,11 +66,11 @@ export class JupiterClient {
             const response = await fetch(url);
             
             if (!response || typeof response.ok !== 'boolean') {
-                throw new Error('No response received from Jupiter');
+                throw new RpcError('No response received from Jupiter');
             }
 
             if (!response.ok) {
-                throwError(`HTTP ${response.status}: ${response.statusText}`, 'Jupiter API Error');
+                throw createHttpError(`Jupiter API Error: HTTP ${response.status}: ${response.statusText}`, response.status, response.headers?.get('retry-after'));
             }
 
             const quoteResponse: QuoteResponse = await response.json();
@@ -94,10 +97,10 @@ export class JupiterClient {
         swapParams: SwapParams
     ): Promise<VersionedTransaction> {
         if (!quoteResponse) {
-            throwError('Quote response is required', 'Jupiter Swap Error');
+            throw new ValidationError('Jupiter Swap Error: Quote response is required');
         }
         if (!swapParams) {
-            throwError('Swap parameters are required', 'Jupiter Swap Error');
+            throw new ValidationError('Jupiter Swap Error: Swap parameters are required');
         }
         return this.makeRequest(async () => {
             this.logger?.debug('Requesting Jupiter swap transaction', {
@@ -111,15 +114,15 @@ export class JupiterClient {
                 body: JSON.stringify(swapParams),
             });
             if (!response || typeof response.ok !== 'boolean') {
-                throw new Error('No response received from Jupiter');
+                throw new RpcError('No response received from Jupiter');
             }
             if (!response.ok) {
                 const errorText = await response.text();
-                throwError(`HTTP ${response.status}: ${errorText}`, 'Jupiter Swap Error');
+                throw createHttpError(`Jupiter Swap Error: HTTP ${response.status}: ${errorText}`, response.status, response.headers?.get('retry-after'));
             }
             const { swapTransaction } = await response.json();
             if (!swapTransaction) {
-                throwError('No swap transaction received from Jupiter', 'Jupiter Swap Error');
+                throw new ProtocolError('Jupiter Swap Error: No swap transaction received from Jupiter', 'jupiter');
             }
             this.logger?.debug('Jupiter swap transaction received', {
                 transactionSize: swapTransaction.length,
@@ -141,51 +144,33 @@ export class JupiterClient {
         const requestId = ++this.requestId;
         this.logger?.debug(`Request ${requestId} started: ${operationName}`);
 
-        let lastError: Error | undefined;
-
-        for (let attempt = 1; attempt <= this.config['retries']; attempt++) {
-            try {
-                const result = await Promise.race([
-                    operation(),
-                    new Promise<never>((_, reject) => {
-                        setTimeout(() => {
-                            reject(new Error(`Operation timed out after ${this.config['timeout']}ms`));
-                        }, this.config['timeout']);
-                    }),
-                ]);
-
-                this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
-                return result;
-            } catch (error) {
-                // If error is not an Error instance, wrap it
-                lastError = error instanceof Error ? error : new Error(String(error));
-                this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, lastError);
-
-                if (attempt === this.config['retries']) {
-                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, lastError);
-                    throwError(lastError, `Jupiter API Request Failed (${operationName})`);
+        return this.retryPolicy.execute(async () => {
+            const result = await Promise.race([
+                operation(),
+                new Promise<never>((_, reject) => {
+                    setTimeout(() => {
+                        reject(new Error(`Operation timed out after ${this.config['timeout']}ms`));
+                    }, this.config['timeout']);
+                }),
+            ]);
+
+            this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
+            return result;
+        }, {
+            onFailedAttempt: ({ attempt, error, willRetry }) => {
+                this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, error);
+                if (!willRetry) {
+                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, error);
                 }
-
-                await this.delay(Math.pow(2, attempt - 1) * 1000);
-            }
-        }
-
-        throw lastError!;
-    }
-
-    /**
-     * Utility method for delays
-     * @param ms - Milliseconds to delay
-     */
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+            },
+        });
     }
 
     /**
      * Get the current configuration
      * @returns Current client configuration
      */
-    public getConfig(): Readonly<Omit<Required<JupiterConfig>, 'logger'> & { logger?: Logger }> {
+    public getConfig(): Readonly<Omit<Required<JupiterConfig>, 'logger' | 'retryPolicy'> & { logger?: Logger }> {
         return this.config;
     }
 }
@@ -342,6 +342,16 @@ describe('ArweaveClient', () => {
         expect.any(Error)
       );
     });
+
+    it('should count a request against the circuit breaker once, after its retries', async () => {
+      mockBundlrInstance.getPrice.mockRejectedValue(new Error('Persistent failure'));
+
+      await expect(client.getUploadCost(1024)).rejects.toThrow('Persistent failure');
+
+      expect(mockBundlrInstance.getPrice).toHaveBeenCalledTimes(2);
+      expect(client.isCircuitOpen()).toBe(false);
+      expect(client.getCircuitBreaker().getSnapshot()).toMatchObject({ name: 'arweave', state: 'closed', consecutiveFailures: 1 });
+    });
   });
 
   describe('error handling', () => {
@@ -3,8 +3,11 @@ import { Keypair } from "@solana/web3.js";
 import bs58 from 'bs58';
 import BigNumber from 'bignumber.js';
 import { throwError } from "../../../utils/error-handling";
+import { ConfigurationError } from "../../../utils/errors";
 import { Logger } from "../../types";
 import { MetadataClient } from "./base";
+import { RetryPolicy } from "../../../utils/retry";
+import { CircuitBreaker } from "../../../utils/circuit-breaker";
 
 export interface ArweaveConfig {
   privateKey: string; // Base58 encoded private key
@@ -14,6 +17,8 @@ export interface ArweaveConfig {
   timeout?: number;
   retries?: number;
   logger?: Logger;
+  retryPolicy?: RetryPolicy; // Replaces the default policy of `retries` attempts
+  circuitBreaker?: CircuitBreaker; // Defaults to an 'arweave' breaker of the client's own
 }
 
 export interface ArweaveUploadResult {
@@ -39,16 +44,18 @@ export class ArweaveClient implements MetadataClient {
   private static readonly FUNDING_DELAY = 2000; // 2 seconds
   private static readonly FUNDING_BUFFER = 1.2; // 20% buffer
 
-  private readonly config: Omit<Required<ArweaveConfig>, 'logger' | 'privateKey'> & { 
+  private readonly config: Omit<Required<ArweaveConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker' | 'privateKey'> & { 
     logger?: Logger; 
     privateKey: string;
   };
   private readonly logger?: Logger;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly circuitBreaker: CircuitBreaker;
   private requestId = 0;
 
   constructor(config: ArweaveConfig) {
     if (!config.privateKey) {
-      throwError('Private key is required for Arweave client', 'Arweave Config Error');
+      throw new ConfigurationError('Arweave Config Error: Private key is required for Arweave client');
     }
 
     this.config = {
@@ -60,6 +67,8 @@ export class ArweaveClient implements MetadataClient {
       ...config,
     };
     this.logger = this.config.logger;
+    this.retryPolicy = config.retryPolicy ?? new RetryPolicy({ maxAttempts: this.config.retries });
+    this.circuitBreaker = config.circuitBreaker ?? new CircuitBreaker('arweave');
   }
 
   /**
@@ -365,35 +374,26 @@ export class ArweaveClient implements MetadataClient {
     const requestId = ++this.requestId;
     this.logger?.debug(`Request ${requestId} started: ${operationName}`);
 
-    let lastError: Error | undefined;
-
-    for (let attempt = 1; attempt <= this.config.retries; attempt++) {
-      try {
-        const result = await Promise.race([
-          operation(),
-          new Promise<never>((_, reject) => {
-            setTimeout(() => {
-              reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
-            }, this.config.timeout);
-          }),
-        ]);
-
-        this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, lastError);
-
-        if (attempt === this.config.retries) {
-          this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, lastError);
-          throw lastError;
+    return this.circuitBreaker.execute(() => this.retryPolicy.execute(async () => {
+      const result = await Promise.race([
+        operation(),
+        new Promise<never>((_, reject) => {
+          setTimeout(() => {
+            reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
+          }, this.config.timeout);
+        }),
+      ]);
+
+      this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
+      return result;
+    }, {
+      onFailedAttempt: ({ attempt, error, willRetry }) => {
+        this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, error);
+        if (!willRetry) {
+          this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, error);
         }
-
-        await this.delay(Math.pow(2, attempt - 1) * 1000);
-      }
-    }
-
-    throw lastError!;
+      },
+    }));
   }
 
   /**
@@ -404,11 +404,25 @@ export class ArweaveClient implements MetadataClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Get the circuit breaker that guards the Arweave API, e.g. to monitor its state
+   */
+  public getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Whether requests currently fail fast because the Arweave API kept failing
+   */
+  public isCircuitOpen(): boolean {
+    return this.circuitBreaker.isOpen();
+  }
+
   /**
    * Get the current configuration
    * @returns Current client configuration
    */
-  public getConfig(): Readonly<Omit<Required<ArweaveConfig>, 'logger' | 'privateKey'> & { 
+  public getConfig(): Readonly<Omit<Required<ArweaveConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker' | 'privateKey'> & { 
     logger?: Logger; 
     privateKey: string;
   }> {
@@ -6,8 +6,11 @@ import fs from "fs";
 import os from "os";
 import path from "path";
 import { throwError } from "../../../utils/error-handling";
+import { ConfigurationError } from "../../../utils/errors";
 import { Logger } from "../../types";
 import { MetadataClient, UploadResult } from "./base";
+import { RetryPolicy } from "../../../utils/retry";
+import { CircuitBreaker } from "../../../utils/circuit-breaker";
 
 export interface IrysConfig {
   privateKey: string; // Base58 encoded private key
@@ -16,6 +19,8 @@ export interface IrysConfig {
   timeout?: number;
   retries?: number;
   logger?: Logger;
+  retryPolicy?: RetryPolicy; // Replaces the default policy of `retries` attempts
+  circuitBreaker?: CircuitBreaker; // Defaults to an 'irys' breaker of the client's own
 }
 
 export interface IrysUploadResult extends UploadResult {
@@ -35,16 +40,18 @@ export class IrysClient implements MetadataClient {
   private static readonly VERIFICATION_RETRIES = 5;
   private static readonly VERIFICATION_DELAY = 3000; // 3 seconds
 
-  private readonly config: Omit<Required<IrysConfig>, 'logger' | 'privateKey'> & { 
+  private readonly config: Omit<Required<IrysConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker' | 'privateKey'> & { 
     logger?: Logger; 
     privateKey: string;
   };
   private readonly logger?: Logger;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly circuitBreaker: CircuitBreaker;
   private requestId = 0;
 
   constructor(config: IrysConfig) {
     if (!config.privateKey) {
-      throwError('Private key is required for Irys client', 'Irys Config Error');
+      throw new ConfigurationError('Irys Config Error: Private key is required for Irys client');
     }
 
     this.config = {
@@ -55,6 +62,8 @@ export class IrysClient implements MetadataClient {
       ...config,
     };
     this.logger = this.config.logger;
+    this.retryPolicy = config.retryPolicy ?? new RetryPolicy({ maxAttempts: this.config.retries });
+    this.circuitBreaker = config.circuitBreaker ?? new CircuitBreaker('irys');
   }
 
   /**
@@ -308,35 +317,26 @@ export class IrysClient implements MetadataClient {
     const requestId = ++this.requestId;
     this.logger?.debug(`Request ${requestId} started: ${operationName}`);
 
-    let lastError: Error | undefined;
-
-    for (let attempt = 1; attempt <= this.config.retries; attempt++) {
-      try {
-        const result = await Promise.race([
-          operation(),
-          new Promise<never>((_, reject) => {
-            setTimeout(() => {
-              reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
-            }, this.config.timeout);
-          }),
-        ]);
-
-        this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, lastError);
-
-        if (attempt === this.config.retries) {
-          this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, lastError);
-          throw lastError;
+    return this.circuitBreaker.execute(() => this.retryPolicy.execute(async () => {
+      const result = await Promise.race([
+        operation(),
+        new Promise<never>((_, reject) => {
+          setTimeout(() => {
+            reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
+          }, this.config.timeout);
+        }),
+      ]);
+
+      this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
+      return result;
+    }, {
+      onFailedAttempt: ({ attempt, error, willRetry }) => {
+        this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, error);
+        if (!willRetry) {
+          this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, error);
         }
-
-        await this.delay(Math.pow(2, attempt - 1) * 1000);
-      }
-    }
-
-    throw lastError!;
+      },
+    }));
   }
 
   /**
@@ -347,11 +347,25 @@ export class IrysClient implements MetadataClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Get the circuit breaker that guards the Irys API, e.g. to monitor its state
+   */
+  public getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Whether requests currently fail fast because the Irys API kept failing
+   */
+  public isCircuitOpen(): boolean {
+    return this.circuitBreaker.isOpen();
+  }
+
   /**
    * Get the current configuration
    * @returns Current client configuration
    */
-  public getConfig(): Readonly<Omit<Required<IrysConfig>, 'logger' | 'privateKey'> & { 
+  public getConfig(): Readonly<Omit<Required<IrysConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker' | 'privateKey'> & { 
     logger?: Logger; 
     privateKey: string;
   }> {
@@ -1,6 +1,8 @@
-import { throwError } from "../../../utils/error-handling";
+import { ConfigurationError, isRetryableStatus, ProtocolError } from "../../../utils/errors";
 import { Logger } from "../../types";
 import { MetadataClient } from "./base";
+import { RetryPolicy } from "../../../utils/retry";
+import { CircuitBreaker } from "../../../utils/circuit-breaker";
 
 export interface PinataConfig {
   jwt: string; // Pinata JWT token
@@ -8,6 +10,8 @@ export interface PinataConfig {
   timeout?: number;
   retries?: number;
   logger?: Logger;
+  retryPolicy?: RetryPolicy; // Replaces the default policy of `retries` attempts
+  circuitBreaker?: CircuitBreaker; // Defaults to a 'pinata' breaker of the client's own
 }
 
 export interface PinataUploadResult {
@@ -23,16 +27,18 @@ export class PinataClient implements MetadataClient {
   private static readonly DEFAULT_GATEWAY = 'https://gateway.pinata.cloud';
   private static readonly UPLOAD_URL = 'https://uploads.pinata.cloud/v3/files';
 
-  private readonly config: Omit<Required<PinataConfig>, 'logger' | 'jwt'> & { 
+  private readonly config: Omit<Required<PinataConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker' | 'jwt'> & { 
     logger?: Logger; 
     jwt: string;
   };
   private readonly logger?: Logger;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly circuitBreaker: CircuitBreaker;
   private requestId = 0;
 
   constructor(config: PinataConfig) {
     if (!config.jwt) {
-      throwError('JWT token is required for Pinata client', 'Pinata Config Error');
+      throw new ConfigurationError('Pinata Config Error: JWT token is required for Pinata client');
     }
 
     this.config = {
@@ -42,6 +48,8 @@ export class PinataClient implements MetadataClient {
       ...config,
     };
     this.logger = this.config.logger;
+    this.retryPolicy = config.retryPolicy ?? new RetryPolicy({ maxAttempts: this.config.retries });
+    this.circuitBreaker = config.circuitBreaker ?? new CircuitBreaker('pinata');
   }
 
   /**
@@ -146,7 +154,10 @@ export class PinataClient implements MetadataClient {
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Pinata API error: ${response.status} - ${errorText}`);
+        throw new ProtocolError(`Pinata API error: ${response.status} - ${errorText}`, 'pinata', {
+          retryable: isRetryableStatus(response.status),
+          details: { status: response.status },
+        });
       }
 
       const result = await response.json();
@@ -192,50 +203,47 @@ export class PinataClient implements MetadataClient {
     const requestId = ++this.requestId;
     this.logger?.debug(`Request ${requestId} started: ${operationName}`);
 
-    let lastError: Error | undefined;
-
-    for (let attempt = 1; attempt <= this.config.retries; attempt++) {
-      try {
-        const result = await Promise.race([
-          operation(),
-          new Promise<never>((_, reject) => {
-            setTimeout(() => {
-              reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
-            }, this.config.timeout);
-          }),
-        ]);
-
-        this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
-        return result;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, lastError);
-
-        if (attempt === this.config.retries) {
-          this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, lastError);
-          throw lastError;
+    return this.circuitBreaker.execute(() => this.retryPolicy.execute(async () => {
+      const result = await Promise.race([
+        operation(),
+        new Promise<never>((_, reject) => {
+          setTimeout(() => {
+            reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
+          }, this.config.timeout);
+        }),
+      ]);
+
+      this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
+      return result;
+    }, {
+      onFailedAttempt: ({ attempt, error, willRetry }) => {
+        this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, error);
+        if (!willRetry) {
+          this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, error);
         }
+      },
+    }));
+  }
 
-        await this.delay(Math.pow(2, attempt - 1) * 1000);
-      }
-    }
-
-    throw lastError!;
+  /**
+   * Get the circuit breaker that guards the Pinata API, e.g. to monitor its state
+   */
+  public getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
   }
 
   /**
-   * Utility method for delays
-   * @param ms - Milliseconds to delay
+   * Whether requests currently fail fast because the Pinata API kept failing
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  public isCircuitOpen(): boolean {
+    return this.circuitBreaker.isOpen();
   }
 
   /**
    * Get the current configuration
    * @returns Current client configuration
    */
-  public getConfig(): Readonly<Omit<Required<PinataConfig>, 'logger' | 'jwt'> & { 
+  public getConfig(): Readonly<Omit<Required<PinataConfig>, 'logger' | 'retryPolicy' | 'circuitBreaker' | 'jwt'> & { 
     logger?: Logger; 
     jwt: string;
   }> {
@@ -1,6 +1,6 @@
 import { Connection } from "@solana/web3.js";
-import { throwError } from "../../utils/error-handling";
 import { SplConfig, Logger, GetPriorityFeeOptions } from "../types";
+import { RetryPolicy } from "../../utils/retry";
 
 export class SplClient {
     private static readonly DEFAULT_TIMEOUT = 30000;
@@ -8,12 +8,13 @@ export class SplClient {
     private static readonly DEFAULT_PERCENTILE = 0.9999999; // 99.99999th percentile
     private static readonly DEFAULT_CU_PRICE = 0.1;
     
-    private readonly config: Omit<Required<SplConfig>, 'logger' | 'connection' | 'programId' | 'percentile' | 'defaultCuPrice'> & { 
+    private readonly config: Omit<Required<SplConfig>, 'logger' | 'retryPolicy' | 'connection' | 'programId' | 'percentile' | 'defaultCuPrice'> & { 
         connection: Connection; 
         logger?: Logger; 
     };
     private readonly connection: Connection;
     private readonly logger?: Logger;
+    private readonly retryPolicy: RetryPolicy;
     private requestId = 0;
 
     constructor(config: SplConfig) {
@@ -24,6 +25,7 @@ export class SplClient {
         };
         this.connection = this.config.connection;
         this.logger = this.config.logger;
+        this.retryPolicy = config.retryPolicy ?? new RetryPolicy({ maxAttempts: this.config.retries });
     }
 
     /**
@@ -80,50 +82,33 @@ export class SplClient {
         const requestId = ++this.requestId;
         this.logger?.debug(`Request ${requestId} started: ${operationName}`);
 
-        let lastError: Error | undefined;
-
-        for (let attempt = 1; attempt <= this.config.retries; attempt++) {
-            try {
-                const result = await Promise.race([
-                    operation(),
-                    new Promise<never>((_, reject) => {
-                        setTimeout(() => {
-                            reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
-                        }, this.config.timeout);
-                    }),
-                ]);
-
-                this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
-                return result;
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-                this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, lastError);
-
-                if (attempt === this.config.retries) {
-                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, lastError);
-                    throwError(lastError, `SPL Client Request Failed (${operationName})`);
+        return this.retryPolicy.execute(async () => {
+            const result = await Promise.race([
+                operation(),
+                new Promise<never>((_, reject) => {
+                    setTimeout(() => {
+                        reject(new Error(`Operation timed out after ${this.config.timeout}ms`));
+                    }, this.config.timeout);
+                }),
+            ]);
+
+            this.logger?.debug(`Request ${requestId} completed: ${operationName}`, { result });
+            return result;
+        }, {
+            onFailedAttempt: ({ attempt, error, willRetry }) => {
+                this.logger?.warn(`Request ${requestId} attempt ${attempt} failed: ${operationName}`, error);
+                if (!willRetry) {
+                    this.logger?.error(`Request ${requestId} failed after ${attempt} attempts: ${operationName}`, error);
                 }
-
-                await this.delay(Math.pow(2, attempt - 1) * 1000);
-            }
-        }
-
-        throw lastError!;
-    }
-
-    /**
-     * Utility method for delays
-     * @param ms - Milliseconds to delay
-     */
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+            },
+        });
     }
 
     /**
      * Get the current configuration
      * @returns Current client configuration
      */
-    public getConfig(): Readonly<Omit<Required<SplConfig>, 'logger' | 'connection' | 'programId' | 'percentile' | 'defaultCuPrice'> & { 
+    public getConfig(): Readonly<Omit<Required<SplConfig>, 'logger' | 'retryPolicy' | 'connection' | 'programId' | 'percentile' | 'defaultCuPrice'> & { 
         connection: Connection; 
         logger?: Logger; 
     }> {
@@ -1,5 +1,7 @@
 import { QuoteResponse } from "@jup-ag/api";
 import { Connection, PublicKey } from "@solana/web3.js";
+import { RetryPolicy } from "../utils/retry";
+import { CircuitBreaker } from "../utils/circuit-breaker";
 
 /**
  * Represents a single transfer within a transaction
@@ -34,6 +36,8 @@ export interface HeliusConfig {
     timeout?: number;
     retries?: number;
     logger?: Logger;
+    retryPolicy?: RetryPolicy; // Replaces the default policy of `retries` attempts
+    circuitBreaker?: CircuitBreaker; // Guards the enhanced API; defaults to a 'helius-enhanced' breaker of the client's own
 }
 
 /**
@@ -45,6 +49,7 @@ export interface SplConfig {
     timeout?: number;
     retries?: number;
     logger?: Logger;
+    retryPolicy?: RetryPolicy; // Replaces the default policy of `retries` attempts
 }
 
 /**
@@ -55,6 +60,7 @@ export interface JupiterConfig {
     timeout?: number;
     retries?: number;
     logger?: Logger;
+    retryPolicy?: RetryPolicy; // Replaces the default policy of `retries` attempts
 }
 
 /**
@@ -0,0 +1,701 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import { Delegate } from "../../delegate/base";
+import { InMemoryCheckpointStore } from "../../delegate/checkpoint/memory";
+import { DelegateRegistry } from "../../delegate/registry";
+import { BaseDelegateOptions, BaseDelegateResult } from "../../delegate/types";
+import { BaseTask } from "../../types";
+import { TaskEngine } from "../engine";
+import { InMemoryTaskStore } from "../store/memory";
+import { InMemoryTaskRunHistory } from "../run-history";
+import { computeNextRun, getIntervalMs } from "../schedule";
+import { getLogFields, LogFields } from "../../utils/logger";
+import { ConfigurationError } from "../../utils/errors";
+
+const MINUTE = 60 * 1000;
+
+function createDelegate(execute: jest.Mock): Delegate {
+    return {
+        signerKeypair: Keypair.generate(),
+        connection: {} as Connection,
+        executeDelegate: execute,
+        validateOptions: jest.fn(),
+    };
+}
+
+const signerKeypair = Keypair.generate();
+
+function createRegistry(execute: jest.Mock, checkpointStore?: InMemoryCheckpointStore): DelegateRegistry {
+    return new DelegateRegistry(
+        { connection: {} as Connection, signerKeypair, checkpointStore },
+        { registerBuiltIns: false }
+    ).register('burner', () => createDelegate(execute));
+}
+
+const burnOptions: BaseDelegateOptions = { type: 'burner', tokenAddress: 'mint', numTokens: 1 };
+
+function createTask(overrides: Partial<BaseTask> = {}): BaseTask {
+    const createdAt = new Date('2025-01-01T00:00:00.000Z');
+    return {
+        type: 'burner',
+        id: 'task-1',
+        name: 'Daily burn',
+        status: 'new',
+        lastRun: createdAt,
+        nextRun: null,
+        scheduleEnabled: true,
+        scheduleInterval: { unit: 'minutes', interval: 10 },
+        createdAt,
+        updatedAt: createdAt,
+        options: burnOptions,
+        owner: { address: signerKeypair.publicKey.toBase58() },
+        lastResult: null,
+        ...overrides,
+    };
+}
+
+describe('schedule', () => {
+    it('should convert intervals to milliseconds', () => {
+        expect(getIntervalMs({ unit: 'minutes', interval: 5 })).toBe(5 * MINUTE);
+        expect(getIntervalMs({ unit: 'hours', interval: 2 })).toBe(120 * MINUTE);
+        expect(getIntervalMs({ unit: 'days', interval: 1 })).toBe(24 * 60 * MINUTE);
+    });
+
+    it('should reject invalid intervals', () => {
+        expect(() => getIntervalMs({ unit: 'minutes', interval: 0 })).toThrow('Invalid schedule interval');
+        expect(() => getIntervalMs({ unit: 'weeks' as any, interval: 1 })).toThrow('Invalid schedule unit');
+    });
+
+    it('should compute the next slot anchored to the previous one', () => {
+        const anchor = new Date('2025-01-01T00:00:00.000Z');
+        const schedule = { unit: 'minutes' as const, interval: 10 };
+
+        expect(computeNextRun(schedule, anchor)).toEqual(new Date('2025-01-01T00:10:00.000Z'));
+        expect(computeNextRun(schedule, anchor, new Date('2025-01-01T00:10:00.000Z'))).toEqual(new Date('2025-01-01T00:20:00.000Z'));
+        expect(computeNextRun(schedule, anchor, new Date('2025-01-01T00:37:12.000Z'))).toEqual(new Date('2025-01-01T00:40:00.000Z'));
+    });
+});
+
+describe('TaskEngine', () => {
+    let now: Date;
+    let execute: jest.Mock;
+    let engine: TaskEngine;
+    let store: InMemoryTaskStore;
+
+    beforeEach(() => {
+        now = new Date('2025-01-01T00:05:00.000Z');
+        execute = jest.fn().mockResolvedValue({ success: true, signatures: ['sig-1'] } as BaseDelegateResult);
+        store = new InMemoryTaskStore();
+        engine = new TaskEngine({
+            registry: createRegistry(execute),
+            store,
+            now: () => now,
+        });
+    });
+
+    const getStoredTask = async (id = 'task-1'): Promise<BaseTask> => {
+        const task = await store.get(id);
+        if (!task) {
+            throw new Error(`Task ${id} missing from store`);
+        }
+        return task;
+    };
+
+    describe('registerTask', () => {
+        it('should compute nextRun from lastRun and the schedule interval', async () => {
+            const task = await engine.registerTask(createTask());
+
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:10:00.000Z'));
+            expect(await engine.getTask('task-1')).toEqual(task);
+            expect(await engine.getTasks()).toEqual([task]);
+        });
+
+        it('should keep an explicit nextRun', async () => {
+            const nextRun = new Date('2025-01-01T06:00:00.000Z');
+            const task = await engine.registerTask(createTask({ nextRun }));
+
+            expect(task.nextRun).toEqual(nextRun);
+        });
+
+        it('should clear nextRun when scheduling is disabled', async () => {
+            const task = await engine.registerTask(createTask({ scheduleEnabled: false, nextRun: new Date() }));
+
+            expect(task.nextRun).toBeNull();
+        });
+
+        it('should reject duplicate tasks and mismatched options', async () => {
+            await engine.registerTask(createTask());
+
+            await expect(engine.registerTask(createTask())).rejects.toThrow('Task task-1 already exists');
+            await expect(engine.registerTask(createTask({ id: 'task-2', options: { type: 'hopper' } }))).rejects.toThrow(
+                'Delegate options type hopper does not match task type burner'
+            );
+        });
+
+        it('should reject missing or invalid owners', async () => {
+            await expect(engine.registerTask(createTask({ owner: undefined as any }))).rejects.toThrow('Task owner address is required');
+            await expect(engine.registerTask(createTask({ owner: { address: 'not-a-key' } }))).rejects.toThrow(
+                'Invalid task owner address: not-a-key'
+            );
+        });
+
+        it('should reject invalid schedules', async () => {
+            await expect(engine.registerTask(createTask({ scheduleInterval: { unit: 'hours', interval: -1 } })))
+                .rejects.toThrow('Invalid schedule interval');
+        });
+    });
+
+    describe('tick', () => {
+        it('should fail a task that cannot be started and run the other due tasks', async () => {
+            await engine.registerTask(createTask());
+            await engine.registerTask(createTask({ id: 'task-2' }));
+            await store.update('task-1', { scheduleInterval: { unit: 'minutes', interval: 0 } });
+            now = new Date('2025-01-01T00:10:30.000Z');
+
+            const results = await engine.tick();
+
+            expect(results).toHaveLength(2);
+            expect(results.find(result => result.task.id === 'task-1')).toMatchObject({ success: false, error: expect.stringContaining('Invalid schedule interval') });
+            expect(results.find(result => result.task.id === 'task-2')?.success).toBe(true);
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect((await getStoredTask('task-1')).status).toBe('failed');
+            expect(engine.isRunning('task-1')).toBe(false);
+        });
+
+        it('should not run tasks before they are due', async () => {
+            await engine.registerTask(createTask());
+
+            const results = await engine.tick();
+
+            expect(results).toHaveLength(0);
+            expect(execute).not.toHaveBeenCalled();
+        });
+
+        it('should run due tasks and update bookkeeping', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:30.000Z');
+
+            const results = await engine.tick();
+
+            expect(results).toHaveLength(1);
+            expect(results[0]?.success).toBe(true);
+            expect(execute).toHaveBeenCalledWith(burnOptions, { signal: expect.any(AbortSignal) });
+            const task = await getStoredTask();
+            expect(task.status).toBe('completed');
+            expect(task.lastRun).toEqual(now);
+            expect(task.updatedAt).toEqual(now);
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:20:00.000Z'));
+            expect(task.lastResult).toEqual({
+                success: true,
+                startedAt: now,
+                finishedAt: now,
+                result: { success: true, signatures: ['sig-1'] },
+            });
+        });
+
+        it('should tag delegate logs with the task id', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+            let fields: LogFields = {};
+            execute.mockImplementation(async () => {
+                fields = getLogFields();
+                return { success: true };
+            });
+
+            await engine.tick();
+
+            expect(fields).toEqual({ taskId: 'task-1', delegateType: 'burner' });
+        });
+
+        it('should anchor nextRun to the schedule rather than the finish time', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+            execute.mockImplementation(async () => {
+                now = new Date('2025-01-01T00:13:00.000Z');
+                return { success: true };
+            });
+
+            await engine.tick();
+
+            const task = await getStoredTask();
+            expect(task.lastRun).toEqual(new Date('2025-01-01T00:10:00.000Z'));
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:20:00.000Z'));
+        });
+
+        it('should mark failed runs and keep the task scheduled', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+            execute.mockRejectedValue(new Error('RPC unavailable'));
+
+            const [result] = await engine.tick();
+
+            expect(result?.success).toBe(false);
+            expect(result?.error).toBe('RPC unavailable');
+            const task = await getStoredTask();
+            expect(task.status).toBe('failed');
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:20:00.000Z'));
+            expect(task.lastResult?.success).toBe(false);
+            expect(task.lastResult?.error).toBe('RPC unavailable');
+        });
+
+        it('should refuse to run tasks owned by another wallet', async () => {
+            const owner = Keypair.generate().publicKey.toBase58();
+            await engine.registerTask(createTask({ owner: { address: owner } }));
+            now = new Date('2025-01-01T00:10:00.000Z');
+
+            const [result] = await engine.tick();
+
+            expect(execute).not.toHaveBeenCalled();
+            expect(result?.error).toBe(`Task task-1 is owned by ${owner} but the registry signs as ${signerKeypair.publicKey.toBase58()}`);
+        });
+
+        it('should treat unsuccessful delegate results as failures', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+            execute.mockResolvedValue({ success: false, error: 'nothing to burn' });
+
+            const [result] = await engine.tick();
+
+            expect(result?.error).toBe('nothing to burn');
+            const task = await getStoredTask();
+            expect(task.status).toBe('failed');
+        });
+
+        it('should fail tasks without a matching delegate', async () => {
+            await engine.registerTask(createTask({ type: 'hopper', options: { type: 'hopper' } }));
+            now = new Date('2025-01-01T00:10:00.000Z');
+
+            const [result] = await engine.tick();
+
+            expect(result?.error).toBe('No delegate registered for type: hopper');
+            const task = await getStoredTask();
+            expect(task.status).toBe('failed');
+        });
+    });
+
+    describe('misfire policies', () => {
+        const missedTask = (overrides: Partial<BaseTask> = {}) =>
+            createTask({ nextRun: new Date('2025-01-01T00:10:00.000Z'), ...overrides });
+
+        it('should run once to catch up by default', async () => {
+            await engine.registerTask(missedTask());
+            now = new Date('2025-01-01T00:45:00.000Z');
+
+            const results = await engine.tick();
+
+            expect(results).toHaveLength(1);
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:50:00.000Z'));
+        });
+
+        it('should skip missed slots but run slots within the grace period', async () => {
+            await engine.registerTask(missedTask({ misfirePolicy: 'skip' }));
+            await engine.registerTask(missedTask({ id: 'task-2', misfirePolicy: 'skip' }));
+            now = new Date('2025-01-01T00:45:00.000Z');
+
+            await engine.runTask('task-2').catch(() => undefined);
+            execute.mockClear();
+            const late = await engine.tick();
+
+            expect(late).toHaveLength(0);
+            expect(execute).not.toHaveBeenCalled();
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:50:00.000Z'));
+
+            now = new Date('2025-01-01T00:50:30.000Z');
+            const onTime = await engine.tick();
+
+            expect(onTime.map(result => result.task.id)).toEqual(['task-1', 'task-2']);
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T01:00:00.000Z'));
+        });
+
+        it('should replay every missed slot in order', async () => {
+            const scheduledSlots: (Date | null)[] = [];
+            execute.mockImplementation(async () => {
+                scheduledSlots.push((await getStoredTask()).nextRun);
+                return { success: true };
+            });
+            await engine.registerTask(missedTask({ misfirePolicy: 'replay' }));
+            now = new Date('2025-01-01T00:45:00.000Z');
+
+            const results = await engine.tick();
+
+            expect(results).toHaveLength(4);
+            expect(scheduledSlots).toEqual([
+                new Date('2025-01-01T00:20:00.000Z'),
+                new Date('2025-01-01T00:30:00.000Z'),
+                new Date('2025-01-01T00:40:00.000Z'),
+                new Date('2025-01-01T00:50:00.000Z'),
+            ]);
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:50:00.000Z'));
+        });
+
+        it('should spread long replays across ticks', async () => {
+            engine = new TaskEngine({ registry: createRegistry(execute), store, maxCatchUpRuns: 2, now: () => now });
+            await engine.registerTask(missedTask({ misfirePolicy: 'replay' }));
+            now = new Date('2025-01-01T00:45:00.000Z');
+
+            expect(await engine.tick()).toHaveLength(2);
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:30:00.000Z'));
+            expect(await engine.tick()).toHaveLength(2);
+            expect(await engine.tick()).toHaveLength(0);
+        });
+
+        it('should reject unknown policies', async () => {
+            await expect(engine.registerTask(createTask({ misfirePolicy: 'later' as any }))).rejects.toThrow('Invalid misfire policy: later');
+            await expect(engine.registerTask(createTask({ overlapPolicy: 'wait' as any }))).rejects.toThrow('Invalid overlap policy: wait');
+        });
+    });
+
+    describe('overlap policies', () => {
+        let finishRun: () => void;
+
+        beforeEach(() => {
+            finishRun = () => undefined;
+            execute.mockImplementationOnce(() => new Promise(resolve => { finishRun = () => resolve({ success: true }); }));
+        });
+
+        const startLongRun = async (overlapPolicy: BaseTask['overlapPolicy']) => {
+            await engine.registerTask(createTask({ overlapPolicy }));
+            now = new Date('2025-01-01T00:10:00.000Z');
+            const firstTick = engine.tick();
+            await new Promise(resolve => setImmediate(resolve));
+            expect(engine.isRunning('task-1')).toBe(true);
+            now = new Date('2025-01-01T00:20:00.000Z');
+            // Wrapped so awaiting the helper does not wait for the run itself
+            return { firstTick };
+        };
+
+        it('should skip slots that come due while a run is in progress', async () => {
+            const { firstTick } = await startLongRun('skip');
+
+            expect(await engine.tick()).toHaveLength(0);
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:30:00.000Z'));
+
+            finishRun();
+            await firstTick;
+            expect(execute).toHaveBeenCalledTimes(1);
+        });
+
+        it('should drop a slot that passed during the run when no tick saw it', async () => {
+            const { firstTick } = await startLongRun('skip');
+            now = new Date('2025-01-01T00:25:00.000Z');
+
+            finishRun();
+            await firstTick;
+
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:30:00.000Z'));
+        });
+
+        it('should queue one run for when the current run finishes', async () => {
+            const { firstTick } = await startLongRun('queue');
+
+            expect(await engine.tick()).toHaveLength(0);
+            expect(await engine.tick()).toHaveLength(0);
+            now = new Date('2025-01-01T00:21:00.000Z');
+            finishRun();
+            await firstTick;
+            await engine.stop();
+
+            expect(execute).toHaveBeenCalledTimes(2);
+            const task = await getStoredTask();
+            expect(task.lastRun).toEqual(new Date('2025-01-01T00:21:00.000Z'));
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:30:00.000Z'));
+        });
+
+        it('should run concurrently when allowed', async () => {
+            const { firstTick } = await startLongRun('allow');
+
+            const [concurrent] = await engine.tick();
+            expect(concurrent?.success).toBe(true);
+            expect(execute).toHaveBeenCalledTimes(2);
+            expect(engine.isRunning('task-1')).toBe(true);
+
+            finishRun();
+            await firstTick;
+            expect(engine.isRunning('task-1')).toBe(false);
+        });
+    });
+
+    describe('blackout windows', () => {
+        const maintenance = { start: '2025-01-01T00:00:00.000Z', end: '2025-01-01T00:30:00.000Z' };
+
+        it('should move due tasks past engine-wide blackouts without running them', async () => {
+            engine = new TaskEngine({ registry: createRegistry(execute), store, blackouts: [maintenance], now: () => now });
+            await engine.registerTask(createTask({ nextRun: new Date('2025-01-01T00:10:00.000Z') }));
+            now = new Date('2025-01-01T00:10:00.000Z');
+
+            const results = await engine.tick();
+
+            expect(results).toHaveLength(0);
+            expect(execute).not.toHaveBeenCalled();
+            expect((await getStoredTask()).nextRun).toEqual(new Date('2025-01-01T00:30:00.000Z'));
+        });
+
+        it('should refuse manual runs inside a task blackout', async () => {
+            await engine.registerTask(createTask({
+                scheduleInterval: { unit: 'minutes', interval: 10, blackouts: [{ startTime: '00:00', endTime: '01:00' }] },
+                nextRun: new Date('2025-01-01T01:00:00.000Z'),
+            }));
+
+            await expect(engine.runTask('task-1')).rejects.toThrow('Task task-1 cannot run during a blackout window');
+            expect(execute).not.toHaveBeenCalled();
+        });
+
+        it('should reject invalid engine blackouts', () => {
+            expect(() => new TaskEngine({ registry: createRegistry(execute), blackouts: [{ start: 'soon', end: 'later' }] }))
+                .toThrow('Invalid blackout window');
+        });
+    });
+
+    describe('runTask', () => {
+        it('should keep the pending slot for manual runs ahead of schedule', async () => {
+            await engine.registerTask(createTask());
+
+            await engine.runTask('task-1');
+
+            expect(execute).toHaveBeenCalledTimes(1);
+            const task = await getStoredTask();
+            expect(task.lastRun).toEqual(now);
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:10:00.000Z'));
+        });
+
+        it('should leave nextRun empty for unscheduled tasks', async () => {
+            await engine.registerTask(createTask({ scheduleEnabled: false }));
+
+            await engine.runTask('task-1');
+
+            const task = await getStoredTask();
+            expect(task.status).toBe('completed');
+            expect(task.nextRun).toBeNull();
+        });
+
+        it('should throw for unknown tasks', async () => {
+            await expect(engine.runTask('missing')).rejects.toThrow('Task missing is not registered');
+        });
+
+        it('should not run the same task twice at once', async () => {
+            await engine.registerTask(createTask());
+            let finish: () => void = () => undefined;
+            execute.mockImplementation(() => new Promise(resolve => { finish = () => resolve({ success: true }); }));
+
+            const first = engine.runTask('task-1');
+
+            await expect(engine.runTask('task-1')).rejects.toThrow('Task task-1 is already running');
+            expect(await engine.getDueTasks(new Date('2025-01-02T00:00:00.000Z'))).toHaveLength(0);
+
+            finish();
+            await first;
+        });
+    });
+
+    describe('updateTask', () => {
+        it('should move nextRun to the next slot of a new schedule', async () => {
+            await engine.registerTask(createTask());
+
+            const task = await engine.updateTask('task-1', { name: 'Hourly burn', scheduleInterval: { unit: 'hours', interval: 1 } });
+
+            expect(task.name).toBe('Hourly burn');
+            expect(task.nextRun).toEqual(new Date('2025-01-01T01:00:00.000Z'));
+        });
+
+        it('should clear nextRun when scheduling is disabled', async () => {
+            await engine.registerTask(createTask());
+
+            const task = await engine.updateTask('task-1', { scheduleEnabled: false });
+
+            expect(task.nextRun).toBeNull();
+        });
+
+        it('should reject options of another delegate type and invalid policies', async () => {
+            await engine.registerTask(createTask());
+
+            await expect(engine.updateTask('task-1', { options: { type: 'hopper' } })).rejects.toThrow('does not match task type burner');
+            await expect(engine.updateTask('task-1', { misfirePolicy: 'never' as any })).rejects.toThrow('Invalid misfire policy');
+        });
+    });
+
+    describe('run history', () => {
+        let runHistory: InMemoryTaskRunHistory;
+
+        beforeEach(() => {
+            runHistory = new InMemoryTaskRunHistory();
+            engine = new TaskEngine({ registry: createRegistry(execute, new InMemoryCheckpointStore()), store, runHistory, now: () => now });
+        });
+
+        it('should record scheduled and manual runs with their results', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+
+            const [scheduled] = await engine.tick();
+            const manual = await engine.runTask('task-1', { idempotencyKey: 'burn-1' });
+
+            expect(await engine.getRun(scheduled!.runId)).toMatchObject({
+                taskId: 'task-1',
+                trigger: 'schedule',
+                status: 'completed',
+                scheduledFor: new Date('2025-01-01T00:10:00.000Z'),
+                result: { success: true, signatures: ['sig-1'] },
+            });
+            expect(execute).toHaveBeenLastCalledWith(burnOptions, expect.objectContaining({ idempotencyKey: 'burn-1' }));
+            expect((await engine.getRuns({ taskId: 'task-1' })).map(run => run.id)).toEqual([manual.runId, scheduled!.runId]);
+        });
+
+        it('should record failed runs', async () => {
+            await engine.registerTask(createTask());
+            execute.mockResolvedValueOnce({ success: false, error: 'no balance' });
+
+            const result = await engine.runTask('task-1', { runId: 'run-1' });
+
+            expect(result.runId).toBe('run-1');
+            expect(await engine.getRun('run-1')).toMatchObject({ status: 'failed', error: 'no balance', finishedAt: now });
+        });
+
+        it('should resolve startTask once the run is recorded as running', async () => {
+            await engine.registerTask(createTask());
+            let finish: () => void = () => undefined;
+            execute.mockImplementation(() => new Promise(resolve => { finish = () => resolve({ success: true }); }));
+
+            const started = await engine.startTask('task-1');
+
+            expect(await engine.getRun(started.runId)).toMatchObject({ status: 'running', finishedAt: null });
+            finish();
+            await expect(started.completion).resolves.toMatchObject({ success: true });
+            expect(await engine.getRun(started.runId)).toMatchObject({ status: 'completed' });
+        });
+
+        it('should reject startTask when the run cannot start', async () => {
+            await engine.registerTask(createTask());
+            await engine.pauseTask('task-1');
+
+            await expect(engine.startTask('task-1')).rejects.toThrow('Task task-1 is paused');
+            expect(await engine.getRuns()).toEqual([]);
+        });
+
+        it('should report finished runs to listeners', async () => {
+            await engine.registerTask(createTask());
+            const listener = jest.fn();
+            const failing = jest.fn().mockRejectedValue(new Error('listener down'));
+            const unsubscribe = engine.onRunFinished(listener);
+            engine.onRunFinished(failing);
+
+            const result = await engine.runTask('task-1');
+            unsubscribe();
+            await engine.runTask('task-1');
+
+            expect(result.success).toBe(true);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({ runId: result.runId, success: true }));
+            expect(failing).toHaveBeenCalledTimes(2);
+        });
+
+        it('should require a run history to read runs', async () => {
+            const withoutHistory = new TaskEngine({ registry: createRegistry(execute), store });
+
+            await expect(withoutHistory.getRuns()).rejects.toThrow(ConfigurationError);
+        });
+    });
+
+    describe('pause, resume and cancel', () => {
+        // Stands in for a delegate that stops at its next safe point once aborted
+        const runUntilAborted = () => execute.mockImplementationOnce((_options, context) => new Promise(resolve => {
+            context.signal.addEventListener('abort', () => resolve({
+                success: false,
+                aborted: true,
+                error: `${context.signal.reason} after 1 of 3 steps`,
+                signatures: ['sig-1'],
+                progress: { completed: 1, total: 3 },
+            }));
+        }));
+
+        it('should cancel a running task and record the partial result', async () => {
+            await engine.registerTask(createTask());
+            runUntilAborted();
+            const run = engine.runTask('task-1');
+            await new Promise(resolve => setImmediate(resolve));
+
+            engine.cancelTask('task-1');
+            const result = await run;
+
+            expect(result.aborted).toBe(true);
+            expect(result.error).toBe('Task task-1 was cancelled after 1 of 3 steps');
+            const task = await getStoredTask();
+            expect(task.status).toBe('cancelled');
+            expect(task.lastResult?.aborted).toBe(true);
+            expect(task.lastResult?.result?.signatures).toEqual(['sig-1']);
+            expect(task.nextRun).toEqual(new Date('2025-01-01T00:10:00.000Z'));
+        });
+
+        it('should only cancel running tasks', async () => {
+            await engine.registerTask(createTask());
+
+            expect(() => engine.cancelTask('task-1')).toThrow('Task task-1 is not running');
+        });
+
+        it('should hold a paused task until it is resumed', async () => {
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+            runUntilAborted();
+            const firstTick = engine.tick();
+            await new Promise(resolve => setImmediate(resolve));
+
+            await engine.pauseTask('task-1');
+            const [stopped] = await firstTick;
+
+            expect(stopped?.aborted).toBe(true);
+            expect((await getStoredTask()).status).toBe('paused');
+
+            now = new Date('2025-01-01T00:30:00.000Z');
+            expect(await engine.tick()).toHaveLength(0);
+            expect(await engine.getDueTasks()).toHaveLength(0);
+            await expect(engine.runTask('task-1')).rejects.toThrow('Task task-1 is paused');
+
+            const resumed = await engine.resumeTask('task-1');
+            expect(resumed.status).toBe('cancelled');
+            expect(await engine.tick()).toHaveLength(1);
+            expect(execute).toHaveBeenCalledTimes(2);
+        });
+
+        it('should pause idle tasks and only resume paused ones', async () => {
+            await engine.registerTask(createTask());
+
+            expect((await engine.pauseTask('task-1')).status).toBe('paused');
+            expect((await engine.resumeTask('task-1')).status).toBe('new');
+            await expect(engine.resumeTask('task-1')).rejects.toThrow('Task task-1 is not paused');
+            await expect(engine.pauseTask('missing')).rejects.toThrow('Task missing is not registered');
+        });
+    });
+
+    describe('start and stop', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should poll for due tasks until stopped', async () => {
+            engine = new TaskEngine({
+                registry: createRegistry(execute),
+                pollInterval: 1000,
+                now: () => now,
+            });
+            await engine.registerTask(createTask());
+            now = new Date('2025-01-01T00:10:00.000Z');
+
+            engine.start();
+            expect(engine.isStarted()).toBe(true);
+            await jest.advanceTimersByTimeAsync(0);
+            expect(execute).toHaveBeenCalledTimes(1);
+
+            now = new Date('2025-01-01T00:20:00.000Z');
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(execute).toHaveBeenCalledTimes(2);
+
+            await engine.stop();
+            expect(engine.isStarted()).toBe(false);
+
+            now = new Date('2025-01-01T00:30:00.000Z');
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(execute).toHaveBeenCalledTimes(2);
+        });
+    });
+});
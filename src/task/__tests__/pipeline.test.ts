@@ -0,0 +1,220 @@
+import { Connection, Keypair } from "@solana/web3.js";
+import { Delegate } from "../../delegate/base";
+import { InMemoryCheckpointStore } from "../../delegate/checkpoint/memory";
+import { Distributor } from "../../delegate/distributor";
+import { DelegateRegistry } from "../../delegate/registry";
+import { DistributorDelegateOptions } from "../../delegate/types";
+import { HeliusClient } from "../../solana/clients/helius";
+import { InMemoryPipelineRunStore, PipelineDefinition, PipelineRunner, PipelineStep, resolvePipelineOrder, stepResult } from "../pipeline";
+
+function createDelegate(execute: jest.Mock): Delegate {
+    return {
+        signerKeypair: Keypair.generate(),
+        connection: {} as Connection,
+        executeDelegate: execute,
+        validateOptions: jest.fn(),
+    };
+}
+
+const distributeStep: PipelineStep<DistributorDelegateOptions> = {
+    id: 'airdrop',
+    options: {
+        type: 'distributor',
+        distributionType: 'holders',
+        numTokens: 1000,
+        tokenAddress: stepResult('deploy', 'tokenMint'),
+    },
+};
+
+const launchPipeline: PipelineDefinition = {
+    id: 'launch',
+    steps: [
+        { id: 'burn', options: { type: 'burner', tokenAddress: stepResult('deploy', 'tokenMint'), numTokens: 500 }, dependsOn: ['airdrop'] },
+        distributeStep,
+        { id: 'deploy', options: { type: 'deployer', tokenName: 'Token', tokenSymbol: 'TKN' } },
+    ],
+};
+
+describe('resolvePipelineOrder', () => {
+    it('should order steps after their references and dependencies', () => {
+        expect(resolvePipelineOrder(launchPipeline)).toEqual(['deploy', 'airdrop', 'burn']);
+    });
+
+    it('should reject cycles, unknown steps and duplicates', () => {
+        expect(() => resolvePipelineOrder({
+            id: 'loop',
+            steps: [
+                { id: 'a', options: { type: 'burner', tokenAddress: stepResult('b', 'tokenMint') } },
+                { id: 'b', options: { type: 'burner' }, dependsOn: ['a'] },
+            ],
+        })).toThrow('Pipeline loop has a dependency cycle: a -> b -> a');
+
+        expect(() => resolvePipelineOrder({ id: 'p', steps: [{ id: 'a', options: { type: 'burner' }, dependsOn: ['missing'] }] }))
+            .toThrow('Step a depends on unknown step: missing');
+        expect(() => resolvePipelineOrder({ id: 'p', steps: [{ id: 'a', options: { type: 'burner' } }, { id: 'a', options: { type: 'burner' } }] }))
+            .toThrow('Pipeline p has duplicate step id: a');
+        expect(() => resolvePipelineOrder({ id: 'p', steps: [] })).toThrow('Pipeline p has no steps');
+    });
+});
+
+describe('PipelineRunner', () => {
+    let deploy: jest.Mock;
+    let distribute: jest.Mock;
+    let burn: jest.Mock;
+    let store: InMemoryPipelineRunStore;
+    let runner: PipelineRunner;
+
+    beforeEach(() => {
+        deploy = jest.fn().mockResolvedValue({ success: true, signatures: ['deploy-sig'], tokenMint: 'mint-address' });
+        distribute = jest.fn().mockResolvedValue({ success: true, signatures: ['airdrop-sig'], recipients: [] });
+        burn = jest.fn().mockResolvedValue({ success: true, signatures: ['burn-sig'], burnedAmount: '500', tokenMint: 'mint-address' });
+
+        const registry = new DelegateRegistry({ connection: {} as Connection, signerKeypair: Keypair.generate(), checkpointStore: new InMemoryCheckpointStore() }, { registerBuiltIns: false })
+            .register('deployer', () => createDelegate(deploy))
+            .register('distributor', () => createDelegate(distribute))
+            .register('burner', () => createDelegate(burn));
+
+        store = new InMemoryPipelineRunStore();
+        runner = new PipelineRunner({ registry, store });
+    });
+
+    it('should pass earlier results into later steps', async () => {
+        const run = await runner.run(launchPipeline, 'run-1');
+
+        expect(run.status).toBe('completed');
+        expect(distribute).toHaveBeenCalledWith({ type: 'distributor', distributionType: 'holders', numTokens: 1000, tokenAddress: 'mint-address' }, expect.anything());
+        expect(burn).toHaveBeenCalledWith({ type: 'burner', tokenAddress: 'mint-address', numTokens: 500 }, expect.anything());
+        expect(run.steps['deploy']?.result?.['tokenMint']).toBe('mint-address');
+        expect(Object.values(run.steps).map(step => step.status)).toEqual(['completed', 'completed', 'completed']);
+        expect(await runner.getRun('run-1')).toEqual(run);
+    });
+
+    it('should halt downstream steps when a step fails', async () => {
+        distribute.mockRejectedValue(new Error('RPC unavailable'));
+
+        const run = await runner.run(launchPipeline, 'run-1');
+
+        expect(run.status).toBe('failed');
+        expect(run.steps['deploy']?.status).toBe('completed');
+        expect(run.steps['airdrop']?.status).toBe('failed');
+        expect(run.steps['airdrop']?.error).toBe('RPC unavailable');
+        expect(run.steps['burn']?.status).toBe('skipped');
+        expect(run.steps['burn']?.error).toBe('Skipped because step airdrop did not complete');
+        expect(burn).not.toHaveBeenCalled();
+    });
+
+    it('should keep running independent branches', async () => {
+        deploy.mockResolvedValue({ success: false, error: 'launch failed' });
+
+        const run = await runner.run({
+            id: 'independent',
+            steps: [
+                { id: 'deploy', options: { type: 'deployer' } },
+                { id: 'burn', options: { type: 'burner', tokenAddress: 'other-mint', numTokens: 1 } },
+            ],
+        }, 'run-2');
+
+        expect(run.status).toBe('failed');
+        expect(run.steps['deploy']?.error).toBe('launch failed');
+        expect(run.steps['burn']?.status).toBe('completed');
+    });
+
+    it('should fail steps whose references do not resolve', async () => {
+        deploy.mockResolvedValue({ success: true, signatures: ['deploy-sig'] });
+
+        const run = await runner.run(launchPipeline, 'run-1');
+
+        expect(run.steps['airdrop']?.error).toBe('Reference deploy.tokenMint did not resolve to a value');
+        expect(distribute).not.toHaveBeenCalled();
+    });
+
+    it('should resume from the failed step without repeating completed ones', async () => {
+        distribute.mockRejectedValueOnce(new Error('RPC unavailable'));
+        await runner.run(launchPipeline, 'run-1');
+
+        const resumed = await runner.resume('run-1');
+
+        expect(resumed.status).toBe('completed');
+        expect(deploy).toHaveBeenCalledTimes(1);
+        expect(distribute).toHaveBeenCalledTimes(2);
+        expect(burn).toHaveBeenCalledTimes(1);
+        expect(await runner.resume('run-1')).toEqual(resumed);
+    });
+
+    it('should run each step under a key that resumes it from its checkpoint', async () => {
+        distribute.mockRejectedValueOnce(new Error('RPC unavailable'));
+        await runner.run(launchPipeline, 'run-1');
+        await runner.resume('run-1');
+
+        expect(distribute.mock.calls.map(([, context]) => context.idempotencyKey)).toEqual(['run-1:airdrop', 'run-1:airdrop']);
+        expect(distribute.mock.calls[0]?.[1].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should run checkpointing delegates without a key when the registry has no checkpoint store', async () => {
+        const signerKeypair = Keypair.generate();
+        const connection = {
+            getLatestBlockhash: jest.fn().mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 100 }),
+            sendTransaction: jest.fn().mockResolvedValue('transfer-sig'),
+            confirmTransaction: jest.fn().mockResolvedValue({ context: { slot: 1 }, value: { err: null } }),
+        } as unknown as Connection;
+        const registry = new DelegateRegistry({ connection, signerKeypair }, { registerBuiltIns: false })
+            .register('distributor', deps => new Distributor(deps.connection, deps.signerKeypair, {} as HeliusClient));
+        runner = new PipelineRunner({ registry, store });
+
+        const run = await runner.run({
+            id: 'airdrop',
+            steps: [{ id: 'airdrop', options: { type: 'distributor', distributionType: 'single', singleAddress: Keypair.generate().publicKey.toBase58(), numTokens: 0.1 } }],
+        }, 'run-1');
+
+        expect(run.steps['airdrop']?.error).toBeUndefined();
+        expect(run.steps['airdrop']?.result?.signatures).toEqual(['transfer-sig']);
+    });
+
+    it('should resume a run left running by a stopped process', async () => {
+        await runner.run(launchPipeline, 'run-1');
+        const crashed = (await store.get('run-1'))!;
+        crashed.status = 'running';
+        crashed.steps['burn'] = { id: 'burn', status: 'running', dependsOn: crashed.steps['burn']!.dependsOn };
+        await store.save(crashed);
+
+        const resumed = await runner.resume('run-1');
+
+        expect(resumed.status).toBe('completed');
+        expect(deploy).toHaveBeenCalledTimes(1);
+        expect(burn).toHaveBeenCalledTimes(2);
+        expect(burn.mock.calls[1]?.[1].idempotencyKey).toBe('run-1:burn');
+    });
+
+    it('should not resume a run this process is still executing', async () => {
+        let finishDeploy!: () => void;
+        deploy.mockReturnValue(new Promise(resolve => { finishDeploy = () => resolve({ success: true, tokenMint: 'mint-address' }); }));
+
+        const running = runner.run(launchPipeline, 'run-1');
+        await new Promise(resolve => setImmediate(resolve));
+
+        await expect(runner.resume('run-1')).rejects.toThrow('Pipeline run run-1 is already running');
+        finishDeploy();
+        expect((await running).status).toBe('completed');
+    });
+
+    it('should cancel a run and skip the steps after the running one', async () => {
+        deploy.mockImplementation(async (_options, context) => {
+            runner.cancel('run-1');
+            return { success: false, aborted: true, error: context.signal.reason };
+        });
+
+        const run = await runner.run(launchPipeline, 'run-1');
+
+        expect(run.status).toBe('failed');
+        expect(run.steps['deploy']?.error).toBe('Pipeline run run-1 was cancelled');
+        expect(run.steps['airdrop']?.error).toBe('Skipped because the run was cancelled');
+        expect(() => runner.cancel('run-1')).toThrow('Pipeline run run-1 is not running');
+    });
+
+    it('should reject unknown and duplicate run ids', async () => {
+        await runner.run(launchPipeline, 'run-1');
+
+        await expect(runner.run(launchPipeline, 'run-1')).rejects.toThrow('Pipeline run run-1 already exists');
+        await expect(runner.resume('missing')).rejects.toThrow('Pipeline run missing not found');
+    });
+});
@@ -0,0 +1,215 @@
+import { getNextCronRun, parseCronExpression } from "../cron";
+import { computeNextRun, isInBlackout, validateScheduleInterval } from "../schedule";
+import { getZonedDateTime, zonedTimeToUtc } from "../timezone";
+
+const NEW_YORK = 'America/New_York';
+
+describe('parseCronExpression', () => {
+    it('should expand lists, ranges, steps and names', () => {
+        const cron = parseCronExpression('*/15 9-17 1,15 JAN-MAR mon-fri');
+
+        expect(cron.minutes).toEqual([0, 15, 30, 45]);
+        expect(cron.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+        expect(cron.daysOfMonth).toEqual([1, 15]);
+        expect(cron.months).toEqual([1, 2, 3]);
+        expect(cron.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday and expand macros', () => {
+        expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual([0]);
+        expect(parseCronExpression('@daily').hours).toEqual([0]);
+        expect(parseCronExpression('@hourly').hours).toHaveLength(24);
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => parseCronExpression('')).toThrow('Invalid cron expression');
+        expect(() => parseCronExpression('* * * *')).toThrow('expected 5 fields, got 4');
+        expect(() => parseCronExpression('60 * * * *')).toThrow('minute "60" must be between 0 and 59');
+        expect(() => parseCronExpression('0 0 * * FRI-MON')).toThrow('day of week range 5-1 is reversed');
+        expect(() => parseCronExpression('*/0 * * * *')).toThrow('invalid minute step "0"');
+    });
+});
+
+describe('getNextCronRun', () => {
+    it('should find the next weekday at 14:00 UTC', () => {
+        // Friday 2025-01-03, after the daily slot
+        const friday = new Date('2025-01-03T15:00:00.000Z');
+
+        expect(getNextCronRun('0 14 * * 1-5', friday)).toEqual(new Date('2025-01-06T14:00:00.000Z'));
+        expect(getNextCronRun('0 14 * * 1-5', new Date('2025-01-06T13:59:59.000Z'))).toEqual(new Date('2025-01-06T14:00:00.000Z'));
+        expect(getNextCronRun('0 14 * * 1-5', new Date('2025-01-06T14:00:00.000Z'))).toEqual(new Date('2025-01-07T14:00:00.000Z'));
+    });
+
+    it('should match either restricted day field', () => {
+        // The 1st of the month or any Monday
+        expect(getNextCronRun('0 0 1 * 1', new Date('2025-01-02T00:00:00.000Z'))).toEqual(new Date('2025-01-06T00:00:00.000Z'));
+        expect(getNextCronRun('0 0 1 * 1', new Date('2025-01-27T00:00:00.000Z'))).toEqual(new Date('2025-02-01T00:00:00.000Z'));
+    });
+
+    it('should evaluate expressions in a timezone', () => {
+        expect(getNextCronRun('0 9 * * *', new Date('2025-01-15T00:00:00.000Z'), NEW_YORK)).toEqual(new Date('2025-01-15T14:00:00.000Z'));
+        expect(getNextCronRun('0 9 * * *', new Date('2025-07-15T00:00:00.000Z'), NEW_YORK)).toEqual(new Date('2025-07-15T13:00:00.000Z'));
+    });
+
+    describe('leap days', () => {
+        it('should skip to the next February 29th', () => {
+            expect(getNextCronRun('0 12 29 2 *', new Date('2025-03-01T00:00:00.000Z'))).toEqual(new Date('2028-02-29T12:00:00.000Z'));
+            expect(getNextCronRun('0 12 29 2 *', new Date('2024-02-28T12:00:00.000Z'))).toEqual(new Date('2024-02-29T12:00:00.000Z'));
+        });
+
+        it('should handle the eight year gap around 2100', () => {
+            expect(getNextCronRun('0 0 29 2 *', new Date('2096-03-01T00:00:00.000Z'))).toEqual(new Date('2104-02-29T00:00:00.000Z'));
+        });
+
+        it('should reject dates that never occur', () => {
+            expect(() => getNextCronRun('0 0 30 2 *', new Date('2025-01-01T00:00:00.000Z'))).toThrow('has no run time within 8 years');
+        });
+    });
+
+    describe('DST transitions', () => {
+        it('should run wall-clock times skipped by spring forward right after the gap', () => {
+            // 02:30 does not exist in New York on 2025-03-09; clocks jump from 02:00 EST to 03:00 EDT
+            const next = getNextCronRun('30 2 * * *', new Date('2025-03-08T08:00:00.000Z'), NEW_YORK);
+
+            expect(next).toEqual(new Date('2025-03-09T07:00:00.000Z'));
+            expect(getNextCronRun('30 2 * * *', next, NEW_YORK)).toEqual(new Date('2025-03-10T06:30:00.000Z'));
+        });
+
+        it('should keep the same wall-clock time either side of spring forward', () => {
+            const before = getNextCronRun('0 9 * * *', new Date('2025-03-08T00:00:00.000Z'), NEW_YORK);
+            const after = getNextCronRun('0 9 * * *', before, NEW_YORK);
+
+            expect(before).toEqual(new Date('2025-03-08T14:00:00.000Z'));
+            expect(after).toEqual(new Date('2025-03-09T13:00:00.000Z'));
+        });
+
+        it('should run repeated wall-clock times once when clocks fall back', () => {
+            // 01:30 happens twice in New York on 2025-11-02
+            const first = getNextCronRun('30 1 * * *', new Date('2025-11-02T04:00:00.000Z'), NEW_YORK);
+
+            expect(first).toEqual(new Date('2025-11-02T05:30:00.000Z'));
+            expect(getNextCronRun('30 1 * * *', first, NEW_YORK)).toEqual(new Date('2025-11-03T06:30:00.000Z'));
+        });
+
+        it('should keep hourly expressions running through the repeated hour', () => {
+            const first = getNextCronRun('30 * * * *', new Date('2025-11-02T05:00:00.000Z'), NEW_YORK);
+            const second = getNextCronRun('30 * * * *', first, NEW_YORK);
+
+            expect(first).toEqual(new Date('2025-11-02T05:30:00.000Z'));
+            expect(second).toEqual(new Date('2025-11-02T06:30:00.000Z'));
+        });
+    });
+});
+
+describe('timezone helpers', () => {
+    it('should resolve wall-clock times around DST changes', () => {
+        // Skipped times move forward by the length of the gap
+        expect(zonedTimeToUtc({ year: 2025, month: 3, day: 9, hour: 2, minute: 30, second: 0 }, NEW_YORK))
+            .toEqual(new Date('2025-03-09T07:30:00.000Z'));
+        // Repeated times resolve to the first occurrence
+        expect(zonedTimeToUtc({ year: 2025, month: 11, day: 2, hour: 1, minute: 30, second: 0 }, NEW_YORK))
+            .toEqual(new Date('2025-11-02T05:30:00.000Z'));
+    });
+
+    it('should report wall-clock fields including the weekday', () => {
+        expect(getZonedDateTime(new Date('2024-02-29T23:30:00.000Z'), 'Asia/Tokyo')).toEqual({
+            year: 2024, month: 3, day: 1, hour: 8, minute: 30, second: 0, weekday: 5,
+        });
+    });
+});
+
+describe('computeNextRun with calendar options', () => {
+    it('should keep the wall-clock time for day intervals with a timezone', () => {
+        const schedule = { unit: 'days' as const, interval: 1, timezone: NEW_YORK };
+        // 09:00 EST on the day before spring forward
+        const anchor = new Date('2025-03-08T14:00:00.000Z');
+
+        expect(computeNextRun(schedule, anchor)).toEqual(new Date('2025-03-09T13:00:00.000Z'));
+        expect(computeNextRun(schedule, anchor, new Date('2025-11-02T12:00:00.000Z'))).toEqual(new Date('2025-11-02T14:00:00.000Z'));
+        // Without a timezone the interval stays a fixed 24 hours
+        expect(computeNextRun({ unit: 'days', interval: 1 }, anchor)).toEqual(new Date('2025-03-09T14:00:00.000Z'));
+    });
+
+    it('should step day intervals across leap days', () => {
+        const schedule = { unit: 'days' as const, interval: 2, timezone: 'UTC' };
+
+        expect(computeNextRun(schedule, new Date('2024-02-28T10:00:00.000Z'))).toEqual(new Date('2024-03-01T10:00:00.000Z'));
+        expect(computeNextRun(schedule, new Date('2024-02-27T10:00:00.000Z'))).toEqual(new Date('2024-02-29T10:00:00.000Z'));
+    });
+
+    it('should run cron schedules regardless of the anchor', () => {
+        const schedule = { cron: '0 14 * * 1-5' };
+
+        expect(computeNextRun(schedule, new Date('2020-01-01T00:00:00.000Z'), new Date('2025-01-03T15:00:00.000Z')))
+            .toEqual(new Date('2025-01-06T14:00:00.000Z'));
+    });
+
+    it('should skip slots inside blackout windows', () => {
+        const schedule = {
+            unit: 'hours' as const,
+            interval: 1,
+            blackouts: [{ startTime: '22:00', endTime: '02:00' }],
+        };
+
+        expect(computeNextRun(schedule, new Date('2025-01-01T21:00:00.000Z'))).toEqual(new Date('2025-01-02T02:00:00.000Z'));
+    });
+
+    it('should combine schedule and extra blackout windows', () => {
+        const schedule = { cron: '0 14 * * 1-5' };
+        const holiday = { start: '2025-01-06T00:00:00.000Z', end: '2025-01-07T00:00:00.000Z' };
+
+        expect(computeNextRun(schedule, new Date('2025-01-03T15:00:00.000Z'), undefined, [holiday]))
+            .toEqual(new Date('2025-01-07T14:00:00.000Z'));
+    });
+
+    it('should fail when every slot is blacked out', () => {
+        const schedule = { unit: 'hours' as const, interval: 24, blackouts: [{ startTime: '00:00', endTime: '12:00' }, { startTime: '12:00', endTime: '00:00' }] };
+
+        expect(() => computeNextRun(schedule, new Date('2025-01-01T00:00:00.000Z'))).toThrow('No schedule slot found outside blackout windows');
+    });
+});
+
+describe('isInBlackout', () => {
+    it('should match absolute date ranges with an exclusive end', () => {
+        const windows = [{ start: '2025-12-24T00:00:00.000Z', end: '2025-12-27T00:00:00.000Z' }];
+
+        expect(isInBlackout(new Date('2025-12-24T00:00:00.000Z'), windows)).toBe(true);
+        expect(isInBlackout(new Date('2025-12-26T23:59:59.000Z'), windows)).toBe(true);
+        expect(isInBlackout(new Date('2025-12-27T00:00:00.000Z'), windows)).toBe(false);
+    });
+
+    it('should match recurring windows on their start day, including past midnight', () => {
+        // Friday 22:00 to Saturday 06:00 in New York
+        const windows = [{ startTime: '22:00', endTime: '06:00', daysOfWeek: [5], timezone: NEW_YORK }];
+
+        expect(isInBlackout(new Date('2025-01-04T03:00:00.000Z'), windows)).toBe(true); // Fri 22:00
+        expect(isInBlackout(new Date('2025-01-04T10:59:00.000Z'), windows)).toBe(true); // Sat 05:59
+        expect(isInBlackout(new Date('2025-01-04T11:00:00.000Z'), windows)).toBe(false); // Sat 06:00
+        expect(isInBlackout(new Date('2025-01-05T03:00:00.000Z'), windows)).toBe(false); // Sat 22:00
+    });
+
+    it('should use the schedule timezone for windows without their own', () => {
+        const windows = [{ startTime: '09:00', endTime: '17:00' }];
+        const noonInNewYork = new Date('2025-01-15T17:00:00.000Z');
+
+        expect(isInBlackout(noonInNewYork, windows, NEW_YORK)).toBe(true);
+        expect(isInBlackout(noonInNewYork, windows)).toBe(false);
+    });
+});
+
+describe('validateScheduleInterval', () => {
+    it('should reject invalid calendar options', () => {
+        expect(() => validateScheduleInterval({ cron: 'not a cron' })).toThrow('Invalid cron expression');
+        expect(() => validateScheduleInterval({ cron: '@daily', timezone: 'Mars/Olympus' })).toThrow('Invalid timezone: Mars/Olympus');
+        expect(() => validateScheduleInterval({ unit: 'days', interval: 1.5, timezone: NEW_YORK })).toThrow('must be whole days');
+        expect(() => validateScheduleInterval({ cron: '@daily', blackouts: [{ startTime: '25:00', endTime: '01:00' }] }))
+            .toThrow('Invalid blackout window');
+        expect(() => validateScheduleInterval({ cron: '@daily', blackouts: [{ start: '2025-01-02', end: '2025-01-01' }] }))
+            .toThrow('Invalid blackout window');
+    });
+
+    it('should reject recurring blackout windows that start and end at the same time', () => {
+        expect(() => validateScheduleInterval({ cron: '@daily', blackouts: [{ startTime: '09:00', endTime: '09:00' }] }))
+            .toThrow('Invalid blackout window');
+    });
+});
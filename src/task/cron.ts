@@ -0,0 +1,224 @@
+import { getTimezoneOffset, getZonedDateTime, toWallClockMs, validateTimezone, zonedTimeToUtc, ZonedDateTime } from "./timezone";
+
+/**
+ * A parsed five-field cron expression
+ */
+export interface CronExpression {
+    source: string;
+    minutes: number[];
+    hours: number[];
+    daysOfMonth: number[];
+    months: number[];
+    daysOfWeek: number[]; // 0 = Sunday
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+const FIELDS: CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+    { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MAX_SEARCH_MS = 8 * 366 * 24 * HOUR_MS; // Leap days can be eight years apart
+
+/**
+ * Parse a cron expression. Supports the standard five fields (minute, hour,
+ * day of month, month, day of week) with lists, ranges, steps, month and
+ * weekday names, and the @yearly, @monthly, @weekly, @daily and @hourly macros.
+ * @param expression - The cron expression, e.g. '0 14 * * MON-FRI'
+ * @returns The parsed expression
+ */
+export function parseCronExpression(expression: string): CronExpression {
+    if (typeof expression !== 'string' || !expression.trim()) {
+        throw new Error(`Invalid cron expression: ${expression}`);
+    }
+
+    const source = expression.trim();
+    const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${source}": expected 5 fields, got ${fields.length}`);
+    }
+
+    const values = fields.map((text, index) => parseField(source, text, FIELDS[index]!));
+    const daysOfWeek = Array.from(new Set(values[4]!.map(day => day % 7))).sort((a, b) => a - b);
+
+    return {
+        source,
+        minutes: values[0]!,
+        hours: values[1]!,
+        daysOfMonth: values[2]!,
+        months: values[3]!,
+        daysOfWeek,
+        // As in Vixie cron, a restricted day of month and day of week match either one
+        anyDayOfMonth: fields[2]!.startsWith('*'),
+        anyDayOfWeek: fields[4]!.startsWith('*'),
+    };
+}
+
+/**
+ * Get the first time strictly after `after` that matches a cron expression.
+ * Wall-clock times skipped by a DST gap run at the first instant after the
+ * gap. Times that occur twice run once, unless the expression matches every
+ * hour.
+ * @param expression - The cron expression, or an already parsed one
+ * @param after - The returned time is strictly later than this
+ * @param timezone - The timezone the expression is evaluated in (defaults to UTC)
+ * @returns The next matching time
+ */
+export function getNextCronRun(expression: string | CronExpression, after: Date, timezone: string = 'UTC'): Date {
+    const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+    validateTimezone(timezone);
+
+    const limit = after.getTime() + MAX_SEARCH_MS;
+    let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+    while (time <= limit) {
+        const wall = getZonedDateTime(new Date(time), timezone);
+
+        if (!cron.months.includes(wall.month)) {
+            time = zonedTimeToUtc({ ...wall, month: wall.month + 1, day: 1, hour: 0, minute: 0, second: 0 }, timezone).getTime();
+            continue;
+        }
+        if (!matchesDay(cron, wall)) {
+            time = zonedTimeToUtc({ ...wall, day: wall.day + 1, hour: 0, minute: 0, second: 0 }, timezone).getTime();
+            continue;
+        }
+
+        if (skippedByGap(cron, time, timezone)) {
+            return new Date(time);
+        }
+
+        const minute = cron.minutes.find(value => value >= wall.minute);
+        if (!cron.hours.includes(wall.hour) || minute === undefined) {
+            time += (60 - wall.minute) * MINUTE_MS;
+            continue;
+        }
+        if (minute > wall.minute) {
+            time += (minute - wall.minute) * MINUTE_MS;
+            continue;
+        }
+
+        if (cron.hours.length < 24 && isRepeatedWallTime(time, timezone)) {
+            time += MINUTE_MS;
+            continue;
+        }
+
+        return new Date(time);
+    }
+
+    throw new Error(`Cron expression "${cron.source}" has no run time within 8 years`);
+}
+
+function parseField(source: string, text: string, field: CronField): number[] {
+    const values = new Set<number>();
+
+    for (const part of text.split(',')) {
+        const match = /^(\*|[A-Za-z0-9]+(?:-[A-Za-z0-9]+)?)(?:\/(\d+))?$/.exec(part);
+        if (!match) {
+            throw new Error(`Invalid cron expression "${source}": invalid ${field.name} "${part}"`);
+        }
+
+        const [, range, stepText] = match;
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (step < 1) {
+            throw new Error(`Invalid cron expression "${source}": invalid ${field.name} step "${stepText}"`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = field.min;
+            end = field.max;
+        } else {
+            const [from, to] = range!.split('-');
+            start = parseValue(source, from!, field);
+            end = to !== undefined ? parseValue(source, to, field) : stepText !== undefined ? field.max : start;
+        }
+
+        if (start > end) {
+            throw new Error(`Invalid cron expression "${source}": ${field.name} range ${start}-${end} is reversed`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseValue(source: string, text: string, field: CronField): number {
+    const nameIndex = field.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + (field.name === 'month' ? 1 : 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+
+    if (!Number.isInteger(value) || value < field.min || value > field.max) {
+        throw new Error(`Invalid cron expression "${source}": ${field.name} "${text}" must be between ${field.min} and ${field.max}`);
+    }
+    return value;
+}
+
+function matchesDay(cron: CronExpression, wall: ZonedDateTime): boolean {
+    const dayOfMonth = cron.daysOfMonth.includes(wall.day);
+    const dayOfWeek = cron.daysOfWeek.includes(wall.weekday);
+
+    if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+        return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Check whether `time` is the first instant after a DST gap that swallowed a
+ * matching wall-clock time
+ */
+function skippedByGap(cron: CronExpression, time: number, timezone: string): boolean {
+    const gap = getTimezoneOffset(new Date(time), timezone) - getTimezoneOffset(new Date(time - MINUTE_MS), timezone);
+    if (gap <= 0) {
+        return false;
+    }
+
+    const wallNow = toWallClockMs(getZonedDateTime(new Date(time), timezone));
+    for (let wall = wallNow - gap; wall < wallNow; wall += MINUTE_MS) {
+        const skipped = new Date(wall);
+        if (cron.hours.includes(skipped.getUTCHours()) && cron.minutes.includes(skipped.getUTCMinutes())) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Check whether the wall-clock time at `time` already occurred earlier,
+ * i.e. `time` falls in the repeated hour after clocks go back
+ */
+function isRepeatedWallTime(time: number, timezone: string): boolean {
+    const shift = getTimezoneOffset(new Date(time - 2 * HOUR_MS), timezone) - getTimezoneOffset(new Date(time), timezone);
+    if (shift <= 0) {
+        return false;
+    }
+
+    const wall = toWallClockMs(getZonedDateTime(new Date(time), timezone));
+    return toWallClockMs(getZonedDateTime(new Date(time - shift), timezone)) === wall;
+}
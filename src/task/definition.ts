@@ -0,0 +1,123 @@
+import { randomUUID } from "crypto";
+import { parseDelegateOptions } from "../delegate/schemas";
+import { DelegateOptions } from "../delegate/types";
+import { BaseTask, ScheduleInterval, TaskOwner } from "../types";
+import { ValidationIssue } from "../utils/errors";
+import { ParseResult, schema } from "../utils/schema";
+import { TaskChanges } from "./engine";
+
+/**
+ * A task as users describe it, e.g. in a task file or an API request: the
+ * delegate options plus how to schedule them. Tasks without a schedule only
+ * run on demand.
+ */
+export interface TaskDefinition {
+    id?: string;
+    name: string;
+    schedule?: ScheduleInterval;
+    misfirePolicy?: BaseTask['misfirePolicy'];
+    overlapPolicy?: BaseTask['overlapPolicy'];
+    options: DelegateOptions;
+}
+
+// Schedules are checked by the engine when the task is registered
+const scheduleSchema = schema.custom(
+    (value): value is ScheduleInterval => typeof value === 'object' && value !== null && !Array.isArray(value),
+    'an interval or cron schedule'
+);
+const optionsSchema = schema.custom((value): value is unknown => value !== undefined, 'delegate options');
+
+const taskDefinitionSchema = schema.object({
+    id: schema.string().optional(),
+    name: schema.string(),
+    schedule: scheduleSchema.optional(),
+    misfirePolicy: schema.enum(['skip', 'once', 'replay']).optional(),
+    overlapPolicy: schema.enum(['skip', 'queue', 'allow']).optional(),
+    options: optionsSchema,
+});
+
+const taskChangesSchema = schema.object({
+    name: schema.string().optional(),
+    schedule: scheduleSchema.optional(),
+    scheduleEnabled: schema.boolean().optional(),
+    misfirePolicy: schema.enum(['skip', 'once', 'replay']).optional(),
+    overlapPolicy: schema.enum(['skip', 'queue', 'allow']).optional(),
+    options: optionsSchema.optional(),
+});
+
+/**
+ * Parse a task definition from an untrusted source. The options go through
+ * parseDelegateOptions, with their issues reported under 'options'.
+ * @param value - The parsed JSON or YAML document
+ * @returns The definition, or every issue found
+ */
+export function parseTaskDefinition(value: unknown): ParseResult<TaskDefinition> {
+    const parsed = taskDefinitionSchema.parse(value);
+    if (!parsed.success) {
+        return parsed;
+    }
+
+    const options = parseDelegateOptions(parsed.value.options);
+    return options.success
+        ? { success: true, value: { ...parsed.value, options: options.value } }
+        : { success: false, issues: prefixIssues(options.issues, 'options') };
+}
+
+/**
+ * Parse changes to a task from an untrusted source. Setting a schedule
+ * enables scheduling; scheduleEnabled: false disables it.
+ * @param value - The parsed JSON document
+ * @returns The changes for TaskEngine.updateTask, or every issue found
+ */
+export function parseTaskChanges(value: unknown): ParseResult<TaskChanges> {
+    const parsed = taskChangesSchema.parse(value);
+    if (!parsed.success) {
+        return parsed;
+    }
+
+    const { schedule, options, ...rest } = parsed.value;
+    const changes: TaskChanges = { ...rest };
+    if (schedule) {
+        changes.scheduleInterval = schedule;
+        changes.scheduleEnabled = rest.scheduleEnabled ?? true;
+    }
+    if (options !== undefined) {
+        const parsedOptions = parseDelegateOptions(options);
+        if (!parsedOptions.success) {
+            return { success: false, issues: prefixIssues(parsedOptions.issues, 'options') };
+        }
+        changes.options = parsedOptions.value;
+    }
+    return { success: true, value: changes };
+}
+
+/**
+ * Build a new task from its definition, ready for TaskEngine.registerTask
+ * @param definition - The task definition
+ * @param owner - The wallet the task acts for
+ * @param now - Creation time
+ * @returns The task
+ */
+export function createTaskFromDefinition(definition: TaskDefinition, owner: TaskOwner, now: Date = new Date()): BaseTask {
+    return {
+        type: definition.options.type,
+        id: definition.id ?? randomUUID(),
+        name: definition.name,
+        status: 'new',
+        lastRun: now,
+        nextRun: null,
+        scheduleEnabled: definition.schedule !== undefined,
+        scheduleInterval: definition.schedule ?? { unit: 'days', interval: 1 }, // Unused while scheduling is disabled
+        ...(definition.misfirePolicy && { misfirePolicy: definition.misfirePolicy }),
+        ...(definition.overlapPolicy && { overlapPolicy: definition.overlapPolicy }),
+        createdAt: now,
+        updatedAt: now,
+        options: definition.options,
+        owner,
+        lastResult: null,
+    };
+}
+
+function prefixIssues(issues: ValidationIssue[], prefix: string): ValidationIssue[] {
+    return issues.map(issue => ({ ...issue, path: issue.path ? `${prefix}.${issue.path}` : prefix }));
+}
@@ -0,0 +1,764 @@
+import { randomUUID } from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import { BaseDelegateResult } from "../delegate/types";
+import { DelegateRegistry } from "../delegate/registry";
+import { Logger } from "../solana/types";
+import { BaseTask, BlackoutWindow, MisfirePolicy, OverlapPolicy, TaskOwner, TaskStatus } from "../types";
+import { isAbortError } from "../utils/abort";
+import { ConfigurationError } from "../utils/errors";
+import { withLogFields } from "../utils/logger";
+import { computeNextRun, isInBlackout, validateBlackoutWindow, validateScheduleInterval } from "./schedule";
+import { TaskRunHistory, TaskRunQuery, TaskRunRecord, TaskRunTrigger } from "./run-history";
+import { TaskStore, TaskUpdate } from "./store/base";
+import { InMemoryTaskStore } from "./store/memory";
+
+const MISFIRE_POLICIES: MisfirePolicy[] = ['skip', 'once', 'replay'];
+const OVERLAP_POLICIES: OverlapPolicy[] = ['skip', 'queue', 'allow'];
+
+/**
+ * Configuration interface for TaskEngine
+ */
+export interface TaskEngineConfig {
+    registry: DelegateRegistry; // Resolves task.type to a delegate
+    store?: TaskStore;
+    pollInterval?: number;
+    blackouts?: BlackoutWindow[]; // Windows in which no task may run, on top of each task's own
+    misfireGracePeriod?: number; // How late a slot may start before the 'skip' misfire policy drops it. Default: 60000
+    maxCatchUpRuns?: number; // Slots the 'replay' misfire policy runs per task per tick. Default: 10
+    runHistory?: TaskRunHistory; // Records every run with its result; without it only a task's lastResult is kept
+    logger?: Logger;
+    now?: () => Date;
+}
+
+/**
+ * Outcome of a single task run
+ */
+export interface TaskRunResult {
+    runId: string;
+    task: BaseTask;
+    success: boolean;
+    result?: BaseDelegateResult;
+    error?: string;
+    aborted?: boolean;
+}
+
+/**
+ * Options of a run started on demand
+ */
+export interface ManualRunOptions {
+    runId?: string; // Default: a random UUID
+    idempotencyKey?: string; // Recorded on the run; passed to the delegate when the registry has a checkpoint store, so a rerun with the same key continues from its checkpoint
+}
+
+/**
+ * A run that has started but may not have finished
+ */
+export interface StartedTaskRun {
+    runId: string;
+    completion: Promise<TaskRunResult>;
+}
+
+/**
+ * Changes to a registered task. The delegate type cannot change.
+ */
+export type TaskChanges = Partial<Pick<BaseTask, 'name' | 'options' | 'scheduleEnabled' | 'scheduleInterval' | 'misfirePolicy' | 'overlapPolicy'>>;
+
+/**
+ * Called with the outcome of every run once it is saved; not awaited
+ */
+export type TaskRunListener = (run: TaskRunResult) => void | Promise<void>;
+
+interface RunOptions extends ManualRunOptions {
+    trigger: TaskRunTrigger;
+    onStarted?: (runId: string) => void;
+}
+
+export class TaskEngine {
+    private static readonly DEFAULT_POLL_INTERVAL = 30000;
+    private static readonly DEFAULT_MISFIRE_GRACE_PERIOD = 60000;
+    private static readonly DEFAULT_MAX_CATCH_UP_RUNS = 10;
+
+    private readonly registry: DelegateRegistry;
+    private readonly store: TaskStore;
+    private readonly pollInterval: number;
+    private readonly blackouts: BlackoutWindow[];
+    private readonly logger?: Logger;
+    private readonly now: () => Date;
+    private readonly misfireGracePeriod: number;
+    private readonly maxCatchUpRuns: number;
+    private readonly runHistory?: TaskRunHistory;
+    private readonly active = new Map<string, Set<AbortController>>(); // Runs in progress per task
+    private readonly claimed = new Set<string>(); // Tasks a tick is replaying missed slots for
+    private readonly queued = new Set<string>(); // Tasks to run again when their current run finishes
+    private readonly pending = new Set<Promise<unknown>>();
+    private readonly runListeners = new Set<TaskRunListener>();
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(config: TaskEngineConfig) {
+        this.registry = config.registry;
+        this.store = config.store ?? new InMemoryTaskStore();
+        this.pollInterval = config.pollInterval ?? TaskEngine.DEFAULT_POLL_INTERVAL;
+        this.blackouts = config.blackouts ?? [];
+        this.blackouts.forEach(validateBlackoutWindow);
+        this.misfireGracePeriod = config.misfireGracePeriod ?? TaskEngine.DEFAULT_MISFIRE_GRACE_PERIOD;
+        this.maxCatchUpRuns = config.maxCatchUpRuns ?? TaskEngine.DEFAULT_MAX_CATCH_UP_RUNS;
+        this.runHistory = config.runHistory;
+        this.logger = config.logger;
+        this.now = config.now ?? (() => new Date());
+    }
+
+    /**
+     * Register a task with the engine and save it to the task store
+     * @param task - The task to schedule, carrying the delegate options to execute
+     * @returns The stored task, with nextRun computed when scheduling is enabled
+     */
+    public async registerTask(task: BaseTask): Promise<BaseTask> {
+        if (!task.options || task.options.type !== task.type) {
+            throw new Error(`Delegate options type ${task.options?.type} does not match task type ${task.type}`);
+        }
+        validateTaskOwner(task.owner);
+        validateTaskPolicies(task);
+
+        let nextRun: Date | null = null;
+        if (task.scheduleEnabled) {
+            validateScheduleInterval(task.scheduleInterval);
+            nextRun = task.nextRun ?? computeNextRun(task.scheduleInterval, task.lastRun, task.lastRun, this.blackouts);
+        }
+
+        const stored = await this.store.create({ ...task, nextRun, lastResult: task.lastResult ?? null });
+        this.logger?.debug(`Task ${stored.id} registered`, { type: stored.type, owner: stored.owner.address, nextRun: stored.nextRun });
+
+        return stored;
+    }
+
+    /**
+     * Change a registered task. Changing its schedule moves nextRun to the
+     * next slot of the new schedule.
+     * @param taskId - The task ID
+     * @param changes - The fields to change
+     * @returns The updated task
+     */
+    public async updateTask(taskId: string, changes: TaskChanges): Promise<BaseTask> {
+        const task = await this.store.get(taskId);
+        if (!task) {
+            throw new Error(`Task ${taskId} is not registered`);
+        }
+        if (changes.options && changes.options.type !== task.type) {
+            throw new Error(`Delegate options type ${changes.options.type} does not match task type ${task.type}`);
+        }
+        validateTaskPolicies(changes);
+
+        const updated = { ...task, ...changes };
+        const now = this.now();
+        let nextRun = task.nextRun;
+        if (changes.scheduleEnabled !== undefined || changes.scheduleInterval !== undefined) {
+            if (updated.scheduleEnabled) {
+                validateScheduleInterval(updated.scheduleInterval);
+                nextRun = computeNextRun(updated.scheduleInterval, task.lastRun, now, this.blackouts);
+            } else {
+                nextRun = null;
+            }
+        }
+
+        this.logger?.debug(`Task ${taskId} updated`, { fields: Object.keys(changes), nextRun });
+        return this.store.update(taskId, { ...changes, nextRun, updatedAt: now });
+    }
+
+    /**
+     * Remove a task from the engine and the task store
+     * @param taskId - The task ID
+     * @returns True if the task was stored
+     */
+    public async unregisterTask(taskId: string): Promise<boolean> {
+        return this.store.delete(taskId);
+    }
+
+    /**
+     * Get a stored task
+     * @param taskId - The task ID
+     * @returns The task, or null if it does not exist
+     */
+    public async getTask(taskId: string): Promise<BaseTask | null> {
+        return this.store.get(taskId);
+    }
+
+    /**
+     * Get all stored tasks
+     * @returns Stored tasks
+     */
+    public async getTasks(): Promise<BaseTask[]> {
+        return this.store.query();
+    }
+
+    /**
+     * Get tasks that are due to run
+     * @param now - Point in time to check against (defaults to the engine clock)
+     * @returns Tasks whose nextRun has passed and that are neither running nor paused
+     */
+    public async getDueTasks(now: Date = this.now()): Promise<BaseTask[]> {
+        const tasks = await this.store.query({ scheduleEnabled: true, dueBefore: now });
+        return tasks.filter(task => task.status !== 'paused' && !this.isBusy(task.id));
+    }
+
+    /**
+     * Handle every due task once. Tasks that come due together run one after
+     * another so delegates sharing a signer never race each other for the same
+     * balance. Missed slots follow each task's misfire policy, tasks that are
+     * still running follow its overlap policy, and tasks that come due inside
+     * a blackout window move on to their next allowed slot. A task that cannot
+     * be started, e.g. because its next slot cannot be computed, gets a failed
+     * run and the tick goes on with the other tasks.
+     * @returns Results for the runs this tick started
+     */
+    public async tick(): Promise<TaskRunResult[]> {
+        const results: TaskRunResult[] = [];
+        const now = this.now();
+
+        for (const task of await this.store.query({ scheduleEnabled: true, dueBefore: now })) {
+            try {
+                results.push(...await this.handleDueTask(task, now));
+            } catch (error) {
+                const failed = await this.failDueTask(task.id, error, now);
+                if (failed) {
+                    results.push(failed);
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Run a task immediately, regardless of its schedule
+     * @param taskId - The task ID
+     * @param options - Optional run ID and idempotency key
+     * @returns The run result
+     */
+    public async runTask(taskId: string, options: ManualRunOptions = {}): Promise<TaskRunResult> {
+        if (this.active.has(taskId)) {
+            throw new Error(`Task ${taskId} is already running`);
+        }
+
+        return this.executeRun(taskId, undefined, false, { ...options, trigger: 'manual' });
+    }
+
+    /**
+     * Start a task immediately without waiting for the run to finish
+     * @param taskId - The task ID
+     * @param options - Optional run ID and idempotency key
+     * @returns The run once it has started, with a promise of its result
+     * @throws If the run cannot start, e.g. because the task is paused
+     */
+    public async startTask(taskId: string, options: ManualRunOptions = {}): Promise<StartedTaskRun> {
+        if (this.active.has(taskId)) {
+            throw new Error(`Task ${taskId} is already running`);
+        }
+
+        return new Promise<StartedTaskRun>((resolve, reject) => {
+            const completion = this.executeRun(taskId, undefined, false, {
+                ...options,
+                trigger: 'manual',
+                onStarted: runId => resolve({ runId, completion }),
+            });
+            // Settles the start only if the run failed before it started
+            completion.catch(reject);
+        });
+    }
+
+    /**
+     * Get a recorded run
+     * @param runId - The run ID
+     * @returns The run, or null if it is not in the run history
+     */
+    public async getRun(runId: string): Promise<TaskRunRecord | null> {
+        return this.requireRunHistory().get(runId);
+    }
+
+    /**
+     * Get recorded runs, newest first
+     * @param query - Optional filter, e.g. by task
+     * @returns Matching runs
+     */
+    public async getRuns(query: TaskRunQuery = {}): Promise<TaskRunRecord[]> {
+        return this.requireRunHistory().query(query);
+    }
+
+    /**
+     * Subscribe to the outcome of every run, scheduled or manual. A listener
+     * that throws or rejects is logged and never fails the run.
+     * @param listener - Called with each run's result
+     * @returns A function that removes the listener
+     */
+    public onRunFinished(listener: TaskRunListener): () => void {
+        this.runListeners.add(listener);
+        return () => this.runListeners.delete(listener);
+    }
+
+    /**
+     * Check whether runs are recorded, so getRun and getRuns can read them
+     * @returns True if the engine was configured with a runHistory
+     */
+    public hasRunHistory(): boolean {
+        return this.runHistory !== undefined;
+    }
+
+    /**
+     * Check whether a task has a run in progress
+     * @param taskId - The task ID
+     * @returns True if running
+     */
+    public isRunning(taskId: string): boolean {
+        return this.active.has(taskId);
+    }
+
+    /**
+     * Pause a task. Runs in progress stop at their next safe point with a
+     * partial result, and no scheduled run starts until the task is resumed.
+     * @param taskId - The task ID
+     * @returns The paused task
+     */
+    public async pauseTask(taskId: string): Promise<BaseTask> {
+        const task = await this.store.get(taskId);
+        if (!task) {
+            throw new Error(`Task ${taskId} is not registered`);
+        }
+
+        this.queued.delete(taskId);
+        this.abortRuns(taskId, `Task ${taskId} was paused`);
+        if (task.status === 'paused') {
+            return task;
+        }
+
+        this.logger?.info(`Task ${taskId} paused`, { running: this.active.has(taskId) });
+        return this.store.update(taskId, { status: 'paused', updatedAt: this.now() });
+    }
+
+    /**
+     * Resume a paused task. Slots that passed while it was paused follow its
+     * misfire policy on the next tick.
+     * @param taskId - The task ID
+     * @returns The resumed task
+     */
+    public async resumeTask(taskId: string): Promise<BaseTask> {
+        const task = await this.store.get(taskId);
+        if (!task) {
+            throw new Error(`Task ${taskId} is not registered`);
+        }
+        if (task.status !== 'paused') {
+            throw new Error(`Task ${taskId} is not paused`);
+        }
+
+        const status: TaskStatus = this.active.has(taskId) ? 'running' : getOutcomeStatus(task.lastResult);
+        this.logger?.info(`Task ${taskId} resumed`, { nextRun: task.nextRun });
+        return this.store.update(taskId, { status, updatedAt: this.now() });
+    }
+
+    /**
+     * Cancel a task's runs in progress. Each stops at its next safe point with
+     * a partial result; the task stays scheduled for its next slot.
+     * @param taskId - The task ID
+     */
+    public cancelTask(taskId: string): void {
+        if (!this.active.has(taskId)) {
+            throw new Error(`Task ${taskId} is not running`);
+        }
+
+        this.queued.delete(taskId);
+        this.abortRuns(taskId, `Task ${taskId} was cancelled`);
+        this.logger?.info(`Task ${taskId} cancelled`);
+    }
+
+    /**
+     * Start polling for due tasks
+     */
+    public start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.pollOnce();
+        }, this.pollInterval);
+
+        this.logger?.info('Task engine started', { pollInterval: this.pollInterval });
+        this.pollOnce();
+    }
+
+    /**
+     * Stop polling and wait for in-flight ticks and queued runs to finish
+     */
+    public async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+            this.logger?.info('Task engine stopped');
+        }
+
+        while (this.pending.size > 0) {
+            await Promise.all(this.pending);
+        }
+    }
+
+    /**
+     * Check whether the engine is polling for due tasks
+     * @returns True if started
+     */
+    public isStarted(): boolean {
+        return this.timer !== null;
+    }
+
+    private async handleDueTask(queued: BaseTask, now: Date): Promise<TaskRunResult[]> {
+        // Another tick is replaying this task's missed slots
+        if (this.claimed.has(queued.id)) {
+            return [];
+        }
+
+        // Earlier runs in this tick, or an overlapping tick, may have moved the task on
+        const task = await this.store.get(queued.id);
+        if (!task || !task.scheduleEnabled || !task.nextRun || task.nextRun.getTime() > now.getTime() || task.status === 'paused') {
+            return [];
+        }
+
+        if (this.isBlackedOut(task, now)) {
+            const nextRun = computeNextRun(task.scheduleInterval, task.nextRun ?? now, now, this.blackouts);
+            await this.store.update(task.id, { nextRun, updatedAt: now });
+            this.logger?.info(`Task ${task.id} skipped during blackout window`, { nextRun });
+            return [];
+        }
+
+        if (this.active.has(task.id)) {
+            const overlapPolicy = task.overlapPolicy ?? 'skip';
+
+            if (overlapPolicy === 'skip') {
+                const nextRun = computeNextRun(task.scheduleInterval, task.nextRun ?? now, now, this.blackouts);
+                await this.store.update(task.id, { nextRun, updatedAt: now });
+                this.logger?.info(`Task ${task.id} is still running, skipped slot`, { missed: task.nextRun, nextRun });
+                return [];
+            }
+            if (overlapPolicy === 'queue') {
+                this.queued.add(task.id);
+                this.logger?.debug(`Task ${task.id} is still running, queued a run`, { scheduledFor: task.nextRun });
+                return [];
+            }
+        }
+
+        return this.runDueSlots(task, now);
+    }
+
+    private async runDueSlots(task: BaseTask, now: Date): Promise<TaskRunResult[]> {
+        const misfirePolicy = task.misfirePolicy ?? 'once';
+
+        if (misfirePolicy === 'skip') {
+            const slot = this.getOnTimeSlot(task, now);
+            if (!slot) {
+                const nextRun = computeNextRun(task.scheduleInterval, task.nextRun ?? now, now, this.blackouts);
+                await this.store.update(task.id, { nextRun, updatedAt: now });
+                this.logger?.warn(`Task ${task.id} missed its run, skipping to the next slot`, { missed: task.nextRun, nextRun });
+                return [];
+            }
+            return [await this.executeRun(task.id, slot)];
+        }
+
+        if (misfirePolicy === 'replay') {
+            // Replay oldest first; slots beyond the per-tick limit are left for the next tick
+            const results: TaskRunResult[] = [];
+            let scheduledFor = task.nextRun;
+            this.claimed.add(task.id);
+            try {
+                while (scheduledFor && scheduledFor.getTime() <= now.getTime() && results.length < this.maxCatchUpRuns) {
+                    const result = await this.executeRun(task.id, scheduledFor, true);
+                    results.push(result);
+                    scheduledFor = result.task.nextRun;
+                }
+            } finally {
+                this.claimed.delete(task.id);
+            }
+            return results;
+        }
+
+        return [await this.executeRun(task.id, task.nextRun)];
+    }
+
+    /**
+     * Execute one run of a task
+     * @param taskId - The task ID
+     * @param scheduledFor - The slot being run (defaults to the task's nextRun)
+     * @param replay - Advance nextRun from the slot rather than from now, so later missed slots stay due
+     */
+    private async executeRun(taskId: string, scheduledFor?: Date | null, replay: boolean = false, options: RunOptions = { trigger: 'schedule' }): Promise<TaskRunResult> {
+        const runId = options.runId ?? randomUUID();
+        const controller = new AbortController();
+        const runs = this.active.get(taskId) ?? new Set<AbortController>();
+        runs.add(controller);
+        this.active.set(taskId, runs);
+
+        try {
+            const task = await this.store.get(taskId);
+            if (!task) {
+                throw new Error(`Task ${taskId} is not registered`);
+            }
+            if (task.status === 'paused') {
+                throw new Error(`Task ${taskId} is paused`);
+            }
+
+            const startedAt = this.now();
+            const slot = scheduledFor === undefined ? task.nextRun : scheduledFor;
+
+            if (this.isBlackedOut(task, startedAt)) {
+                throw new Error(`Task ${taskId} cannot run during a blackout window`);
+            }
+
+            const nextRun = this.getNextRunAtStart(task, slot, startedAt, replay);
+            await this.store.update(taskId, { status: 'running', nextRun, updatedAt: startedAt });
+            const run: TaskRunRecord = {
+                id: runId,
+                taskId,
+                type: task.type,
+                trigger: options.trigger,
+                status: 'running',
+                scheduledFor: options.trigger === 'schedule' ? slot : null,
+                startedAt,
+                finishedAt: null,
+                ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+            };
+            await this.runHistory?.save(run);
+            this.logger?.info(`Task ${taskId} started`, { type: task.type, scheduledFor: slot, runId });
+            options.onStarted?.(runId);
+
+            let outcome: Omit<TaskRunResult, 'task' | 'runId'>;
+
+            try {
+                const signer = this.registry.getSignerAddress();
+                if (task.owner.address !== signer) {
+                    throw new Error(`Task ${taskId} is owned by ${task.owner.address} but the registry signs as ${signer}`);
+                }
+
+                // Delegates reject a key they have no checkpoint store to keep it in
+                const checkpointed = options.idempotencyKey && this.registry.hasCheckpointStore();
+                const context = { signal: controller.signal, ...(checkpointed && { idempotencyKey: options.idempotencyKey }) };
+                const result = await withLogFields({ taskId }, () => this.registry.executeDelegate(task.options, context));
+                if (result.aborted) {
+                    outcome = { success: false, aborted: true, result, error: result.error };
+                    this.logger?.warn(`Task ${taskId} stopped`, { error: result.error, progress: result.progress });
+                } else if (!result.success) {
+                    throw new Error(result.error || 'Delegate reported an unsuccessful run');
+                } else {
+                    outcome = { success: true, result };
+                    this.logger?.info(`Task ${taskId} completed`, { signatures: result.signatures });
+                }
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                if (isAbortError(error)) {
+                    outcome = { success: false, aborted: true, error: message };
+                    this.logger?.warn(`Task ${taskId} stopped before it started`, { error: message });
+                } else {
+                    outcome = { success: false, error: message };
+                    this.logger?.error(`Task ${taskId} failed`, { error: message });
+                }
+            }
+
+            const finishedAt = this.now();
+            const current = await this.store.get(taskId);
+            const changes: TaskUpdate = {
+                // A task paused during the run stays paused
+                status: current?.status === 'paused' ? 'paused' : getOutcomeStatus(outcome),
+                lastRun: startedAt,
+                lastResult: { ...outcome, startedAt, finishedAt },
+                updatedAt: finishedAt,
+            };
+
+            // A slot that came due during the run is dropped under the skip overlap policy
+            const pending = current?.nextRun;
+            if (pending && (task.overlapPolicy ?? 'skip') === 'skip'
+                && pending.getTime() > startedAt.getTime() && pending.getTime() <= finishedAt.getTime()) {
+                changes.nextRun = computeNextRun(task.scheduleInterval, pending, finishedAt, this.blackouts);
+            }
+
+            const updated = await this.store.update(taskId, changes);
+            await this.runHistory?.save({
+                ...run,
+                status: outcome.aborted ? 'cancelled' : outcome.success ? 'completed' : 'failed',
+                finishedAt,
+                ...(outcome.result && { result: outcome.result }),
+                ...(outcome.error && { error: outcome.error }),
+            });
+            const finished: TaskRunResult = { runId, task: updated, ...outcome };
+            this.notifyRunFinished(finished);
+            return finished;
+        } finally {
+            runs.delete(controller);
+            if (runs.size === 0) {
+                this.active.delete(taskId);
+                if (this.queued.delete(taskId)) {
+                    this.track(this.runQueued(taskId));
+                }
+            }
+        }
+    }
+
+    /**
+     * Record a due task that threw before its run started as a failed run
+     * @returns The failed run, or null if the task is gone or cannot be updated
+     */
+    private async failDueTask(taskId: string, error: unknown, now: Date): Promise<TaskRunResult | null> {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.error(`Task ${taskId} could not be run`, { error: message });
+
+        try {
+            const task = await this.store.get(taskId);
+            if (!task) {
+                return null;
+            }
+
+            const outcome = { success: false, error: message };
+            const updated = await this.store.update(taskId, {
+                status: task.status === 'paused' ? 'paused' : 'failed',
+                lastResult: { ...outcome, startedAt: now, finishedAt: now },
+                updatedAt: now,
+            });
+            const runId = randomUUID();
+            await this.runHistory?.save({
+                id: runId,
+                taskId,
+                type: task.type,
+                trigger: 'schedule',
+                status: 'failed',
+                scheduledFor: task.nextRun,
+                startedAt: now,
+                finishedAt: now,
+                error: message,
+            });
+            const failed: TaskRunResult = { runId, task: updated, ...outcome };
+            this.notifyRunFinished(failed);
+            return failed;
+        } catch (recordError) {
+            this.logger?.error(`Task ${taskId} failure could not be recorded`, {
+                error: recordError instanceof Error ? recordError.message : String(recordError),
+            });
+            return null;
+        }
+    }
+
+    private async runQueued(taskId: string): Promise<void> {
+        const task = await this.store.get(taskId);
+        if (task) {
+            await this.handleDueTask(task, this.now());
+        }
+    }
+
+    private getNextRunAtStart(task: BaseTask, scheduledFor: Date | null, startedAt: Date, replay: boolean): Date | null {
+        if (!task.scheduleEnabled) {
+            return null;
+        }
+
+        // A manual run ahead of schedule leaves the pending slot in place
+        if (task.nextRun && task.nextRun.getTime() > startedAt.getTime()) {
+            return task.nextRun;
+        }
+
+        const after = replay && scheduledFor ? scheduledFor : startedAt;
+        return computeNextRun(task.scheduleInterval, scheduledFor ?? startedAt, after, this.blackouts);
+    }
+
+    /**
+     * Find a slot that is late by no more than the misfire grace period
+     */
+    private getOnTimeSlot(task: BaseTask, now: Date): Date | null {
+        if (!task.nextRun) {
+            return null;
+        }
+
+        const graceStart = new Date(now.getTime() - this.misfireGracePeriod);
+        if (task.nextRun.getTime() >= graceStart.getTime()) {
+            return task.nextRun;
+        }
+
+        const slot = computeNextRun(task.scheduleInterval, task.nextRun, graceStart, this.blackouts);
+        return slot.getTime() <= now.getTime() ? slot : null;
+    }
+
+    private abortRuns(taskId: string, reason: string): void {
+        for (const controller of this.active.get(taskId) ?? []) {
+            controller.abort(reason);
+        }
+    }
+
+    private notifyRunFinished(run: TaskRunResult): void {
+        const report = (error: unknown) => this.logger?.warn('Task run listener failed', {
+            taskId: run.task.id,
+            error: error instanceof Error ? error.message : String(error),
+        });
+
+        for (const listener of this.runListeners) {
+            try {
+                const result = listener(run);
+                if (result instanceof Promise) {
+                    result.catch(report);
+                }
+            } catch (error) {
+                report(error);
+            }
+        }
+    }
+
+    private requireRunHistory(): TaskRunHistory {
+        if (!this.runHistory) {
+            throw new ConfigurationError("Reading runs requires a runHistory in the TaskEngine config");
+        }
+        return this.runHistory;
+    }
+
+    private isBusy(taskId: string): boolean {
+        return this.active.has(taskId) || this.claimed.has(taskId);
+    }
+
+    private isBlackedOut(task: BaseTask, at: Date): boolean {
+        const schedule = task.scheduleInterval;
+        return isInBlackout(at, [...(schedule?.blackouts ?? []), ...this.blackouts], schedule?.timezone);
+    }
+
+    private pollOnce(): void {
+        // Ticks may overlap so a long run does not hold up other tasks. Each
+        // task is re-read before it runs and nextRun moves on as a run starts,
+        // so overlapping ticks never run the same slot twice
+        this.track(this.tick());
+    }
+
+    private track(run: Promise<unknown>): void {
+        const tracked = run
+            .catch(error => this.logger?.error('Task engine tick failed', error))
+            .finally(() => this.pending.delete(tracked));
+        this.pending.add(tracked);
+    }
+}
+
+function getOutcomeStatus(outcome: Pick<TaskRunResult, 'success' | 'aborted'> | null): TaskStatus {
+    if (!outcome) {
+        return 'new';
+    }
+    if (outcome.aborted) {
+        return 'cancelled';
+    }
+    return outcome.success ? 'completed' : 'failed';
+}
+
+function validateTaskPolicies(task: Pick<BaseTask, 'misfirePolicy' | 'overlapPolicy'>): void {
+    if (task.misfirePolicy !== undefined && !MISFIRE_POLICIES.includes(task.misfirePolicy)) {
+        throw new Error(`Invalid misfire policy: ${task.misfirePolicy}, must be skip, once or replay`);
+    }
+    if (task.overlapPolicy !== undefined && !OVERLAP_POLICIES.includes(task.overlapPolicy)) {
+        throw new Error(`Invalid overlap policy: ${task.overlapPolicy}, must be skip, queue or allow`);
+    }
+}
+
+function validateTaskOwner(owner: TaskOwner | undefined): void {
+    if (!owner || !owner.address) {
+        throw new Error("Task owner address is required");
+    }
+
+    try {
+        new PublicKey(owner.address);
+    } catch {
+        throw new Error(`Invalid task owner address: ${owner.address}`);
+    }
+}
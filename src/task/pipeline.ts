@@ -0,0 +1,419 @@
+import { randomUUID } from "crypto";
+import { BaseDelegateOptions, BaseDelegateResult } from "../delegate/types";
+import { DelegateRegistry } from "../delegate/registry";
+import { Logger } from "../solana/types";
+import { withLogFields } from "../utils/logger";
+
+/**
+ * Placeholder for a value taken from an earlier step's result.
+ * The path starts with the step id, e.g. 'deploy.tokenMint' or 'deploy.signatures.0'.
+ */
+export interface StepReference {
+    $ref: string;
+}
+
+/**
+ * Delegate options whose values may reference earlier step results
+ */
+export type PipelineStepOptions<T extends BaseDelegateOptions = BaseDelegateOptions> = {
+    [K in keyof T]: K extends 'type' ? T[K] : T[K] | StepReference;
+};
+
+export interface PipelineStep<T extends BaseDelegateOptions = BaseDelegateOptions> {
+    id: string;
+    options: PipelineStepOptions<T>;
+    dependsOn?: string[]; // Ordering constraints on top of the steps referenced in options
+}
+
+export interface PipelineDefinition {
+    id: string;
+    name?: string;
+    steps: PipelineStep[];
+}
+
+export type PipelineStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type PipelineStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface PipelineStepRecord {
+    id: string;
+    status: PipelineStepStatus;
+    dependsOn: string[]; // Every step this one waits for, including referenced ones
+    options?: BaseDelegateOptions; // Options as executed, with references resolved
+    result?: BaseDelegateResult;
+    error?: string;
+    startedAt?: Date;
+    finishedAt?: Date;
+}
+
+/**
+ * Record of a pipeline run. It holds the definition and each step's
+ * status and result, so a failed run can be resumed from the same record.
+ */
+export interface PipelineRun {
+    id: string;
+    definition: PipelineDefinition;
+    status: PipelineStatus;
+    order: string[]; // Step ids in execution order
+    steps: Record<string, PipelineStepRecord>;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Persistence for pipeline run records
+ */
+export interface PipelineRunStore {
+    save(run: PipelineRun): Promise<void>;
+    get(id: string): Promise<PipelineRun | null>;
+}
+
+/**
+ * Pipeline run store that keeps records in memory
+ */
+export class InMemoryPipelineRunStore implements PipelineRunStore {
+    private readonly runs = new Map<string, PipelineRun>();
+
+    async save(run: PipelineRun): Promise<void> {
+        this.runs.set(run.id, copyRun(run));
+    }
+
+    async get(id: string): Promise<PipelineRun | null> {
+        const run = this.runs.get(id);
+        return run ? copyRun(run) : null;
+    }
+}
+
+/**
+ * Configuration interface for PipelineRunner
+ */
+export interface PipelineRunnerConfig {
+    registry: DelegateRegistry;
+    store?: PipelineRunStore;
+    logger?: Logger;
+    now?: () => Date;
+}
+
+/**
+ * Build a reference to a value in an earlier step's result
+ * @param stepId - The step whose result to read
+ * @param path - Dot-separated path into the result, e.g. 'tokenMint'
+ * @returns A reference to place in step options
+ */
+export function stepResult(stepId: string, path: string): StepReference {
+    return { $ref: `${stepId}.${path}` };
+}
+
+/**
+ * Check whether a value is a step reference
+ * @param value - The value to check
+ * @returns True for step references
+ */
+export function isStepReference(value: unknown): value is StepReference {
+    return typeof value === 'object' && value !== null && typeof (value as StepReference).$ref === 'string';
+}
+
+/**
+ * Validate a pipeline and order its steps so every step runs after the steps it depends on
+ * @param definition - The pipeline definition
+ * @returns Step ids in execution order
+ */
+export function resolvePipelineOrder(definition: PipelineDefinition): string[] {
+    if (!definition || !definition.id) {
+        throw new Error("Pipeline id is required");
+    }
+    if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+        throw new Error(`Pipeline ${definition.id} has no steps`);
+    }
+
+    const steps = new Map<string, PipelineStep>();
+    for (const step of definition.steps) {
+        if (!step.id) {
+            throw new Error(`Pipeline ${definition.id} has a step without an id`);
+        }
+        if (steps.has(step.id)) {
+            throw new Error(`Pipeline ${definition.id} has duplicate step id: ${step.id}`);
+        }
+        if (!step.options || !step.options.type) {
+            throw new Error(`Step ${step.id} options must include a type`);
+        }
+        steps.set(step.id, step);
+    }
+
+    for (const step of definition.steps) {
+        for (const dependency of getStepDependencies(step)) {
+            if (!steps.has(dependency)) {
+                throw new Error(`Step ${step.id} depends on unknown step: ${dependency}`);
+            }
+        }
+    }
+
+    // Depth-first topological sort, keeping definition order where possible
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (id: string, path: string[]): void => {
+        if (state.get(id) === 'done') {
+            return;
+        }
+        if (state.get(id) === 'visiting') {
+            const cycle = [...path.slice(path.indexOf(id)), id];
+            throw new Error(`Pipeline ${definition.id} has a dependency cycle: ${cycle.join(' -> ')}`);
+        }
+
+        state.set(id, 'visiting');
+        for (const dependency of getStepDependencies(steps.get(id)!)) {
+            visit(dependency, [...path, id]);
+        }
+        state.set(id, 'done');
+        order.push(id);
+    };
+
+    for (const step of definition.steps) {
+        visit(step.id, []);
+    }
+
+    return order;
+}
+
+/**
+ * Get every step a step waits for: its explicit dependsOn plus referenced steps
+ * @param step - The pipeline step
+ * @returns Unique step ids
+ */
+export function getStepDependencies(step: PipelineStep): string[] {
+    const dependencies = new Set(step.dependsOn ?? []);
+    collectReferences(step.options, reference => dependencies.add(reference.$ref.split('.')[0]!));
+    return Array.from(dependencies);
+}
+
+/**
+ * Runs pipelines of delegate steps in dependency order. Steps run one after
+ * another; a failed step skips every step downstream of it while independent
+ * branches carry on, and the run record can be resumed later. Each step runs
+ * under the idempotency key '<runId>:<stepId>', so a resumed step continues
+ * from its delegate's checkpoint instead of starting over.
+ */
+export class PipelineRunner {
+    private readonly registry: DelegateRegistry;
+    private readonly store: PipelineRunStore;
+    private readonly logger?: Logger;
+    private readonly now: () => Date;
+    private readonly active = new Map<string, AbortController>(); // Runs this process is executing
+
+    constructor(config: PipelineRunnerConfig) {
+        this.registry = config.registry;
+        this.store = config.store ?? new InMemoryPipelineRunStore();
+        this.logger = config.logger;
+        this.now = config.now ?? (() => new Date());
+    }
+
+    /**
+     * Start a new run of a pipeline
+     * @param definition - The pipeline definition
+     * @param runId - Optional run id (defaults to a random UUID)
+     * @returns The finished run record
+     */
+    public async run(definition: PipelineDefinition, runId: string = randomUUID()): Promise<PipelineRun> {
+        const order = resolvePipelineOrder(definition);
+        if (await this.store.get(runId)) {
+            throw new Error(`Pipeline run ${runId} already exists`);
+        }
+
+        const createdAt = this.now();
+        const steps: Record<string, PipelineStepRecord> = {};
+        for (const step of definition.steps) {
+            steps[step.id] = { id: step.id, status: 'pending', dependsOn: getStepDependencies(step) };
+        }
+
+        const run: PipelineRun = { id: runId, definition, status: 'pending', order, steps, createdAt, updatedAt: createdAt };
+        await this.store.save(run);
+
+        return this.execute(run);
+    }
+
+    /**
+     * Resume a failed or cancelled run, or one left running by a process that
+     * stopped. Completed steps keep their results; failed and skipped steps
+     * run again.
+     * @param runId - The run id
+     * @returns The finished run record
+     */
+    public async resume(runId: string): Promise<PipelineRun> {
+        const run = await this.store.get(runId);
+        if (!run) {
+            throw new Error(`Pipeline run ${runId} not found`);
+        }
+        if (run.status === 'completed') {
+            return run;
+        }
+        if (this.active.has(runId)) {
+            throw new Error(`Pipeline run ${runId} is already running`);
+        }
+        if (run.status === 'running') {
+            this.logger?.warn(`Pipeline run ${runId} was left running and is taken over`, { pipelineId: run.definition.id });
+        }
+
+        for (const id of run.order) {
+            const step = run.steps[id]!;
+            if (step.status !== 'completed') {
+                run.steps[id] = { id, status: 'pending', dependsOn: step.dependsOn };
+            }
+        }
+
+        this.logger?.info(`Pipeline run ${runId} resumed`, { pipelineId: run.definition.id });
+        return this.execute(run);
+    }
+
+    /**
+     * Cancel a run in progress. The running step stops at its next safe point
+     * and the steps after it are skipped; the run can be resumed later.
+     * @param runId - The run id
+     */
+    public cancel(runId: string): void {
+        const controller = this.active.get(runId);
+        if (!controller) {
+            throw new Error(`Pipeline run ${runId} is not running`);
+        }
+
+        controller.abort(`Pipeline run ${runId} was cancelled`);
+        this.logger?.info(`Pipeline run ${runId} cancelled`);
+    }
+
+    /**
+     * Get a run record
+     * @param runId - The run id
+     * @returns The run record, or null if it does not exist
+     */
+    public async getRun(runId: string): Promise<PipelineRun | null> {
+        return this.store.get(runId);
+    }
+
+    private async execute(run: PipelineRun): Promise<PipelineRun> {
+        const controller = new AbortController();
+        this.active.set(run.id, controller);
+        try {
+            return await this.executeSteps(run, controller.signal);
+        } finally {
+            this.active.delete(run.id);
+        }
+    }
+
+    private async executeSteps(run: PipelineRun, signal: AbortSignal): Promise<PipelineRun> {
+        const definitions = new Map(run.definition.steps.map(step => [step.id, step]));
+
+        run.status = 'running';
+        await this.save(run);
+
+        for (const id of run.order) {
+            const record = run.steps[id]!;
+            if (record.status === 'completed') {
+                continue;
+            }
+
+            if (signal.aborted) {
+                run.steps[id] = { ...record, status: 'skipped', error: 'Skipped because the run was cancelled' };
+                await this.save(run);
+                continue;
+            }
+
+            const blockedBy = record.dependsOn.find(dependency => run.steps[dependency]!.status !== 'completed');
+            if (blockedBy) {
+                run.steps[id] = { ...record, status: 'skipped', error: `Skipped because step ${blockedBy} did not complete` };
+                await this.save(run);
+                continue;
+            }
+
+            await this.executeStep(run, definitions.get(id)!, signal);
+        }
+
+        run.status = run.order.every(id => run.steps[id]!.status === 'completed') ? 'completed' : 'failed';
+        await this.save(run);
+        this.logger?.info(`Pipeline run ${run.id} ${run.status}`, { pipelineId: run.definition.id });
+
+        return run;
+    }
+
+    private async executeStep(run: PipelineRun, step: PipelineStep, signal: AbortSignal): Promise<void> {
+        const startedAt = this.now();
+        const record: PipelineStepRecord = { id: step.id, status: 'running', dependsOn: run.steps[step.id]!.dependsOn, startedAt };
+        run.steps[step.id] = record;
+        await this.save(run);
+        this.logger?.info(`Pipeline step ${step.id} started`, { runId: run.id, type: step.options.type });
+
+        try {
+            const options = resolveReferences(step.options, run) as BaseDelegateOptions;
+            record.options = options;
+
+            // Without a checkpoint store a rerun step starts over, so it gets no key
+            const context = { signal, ...(this.registry.hasCheckpointStore() && { idempotencyKey: `${run.id}:${step.id}` }) };
+            const result = await withLogFields({ pipelineRunId: run.id, pipelineStepId: step.id }, () => this.registry.executeDelegate(options, context));
+            if (!result.success) {
+                throw new Error(result.error || 'Delegate reported an unsuccessful run');
+            }
+
+            record.status = 'completed';
+            record.result = result;
+            this.logger?.info(`Pipeline step ${step.id} completed`, { runId: run.id, signatures: result.signatures });
+        } catch (error) {
+            record.status = 'failed';
+            record.error = error instanceof Error ? error.message : String(error);
+            this.logger?.error(`Pipeline step ${step.id} failed`, { runId: run.id, error: record.error });
+        }
+
+        record.finishedAt = this.now();
+        await this.save(run);
+    }
+
+    private async save(run: PipelineRun): Promise<void> {
+        run.updatedAt = this.now();
+        await this.store.save(run);
+    }
+}
+
+function collectReferences(value: unknown, visit: (reference: StepReference) => void): void {
+    if (isStepReference(value)) {
+        visit(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectReferences(item, visit));
+    } else if (isPlainObject(value)) {
+        Object.values(value).forEach(item => collectReferences(item, visit));
+    }
+}
+
+function resolveReferences(value: unknown, run: PipelineRun): unknown {
+    if (isStepReference(value)) {
+        const [stepId, ...path] = value.$ref.split('.');
+        let resolved: unknown = run.steps[stepId!]?.result;
+        for (const key of path) {
+            resolved = typeof resolved === 'object' && resolved !== null ? (resolved as Record<string, unknown>)[key] : undefined;
+        }
+
+        if (resolved === undefined) {
+            throw new Error(`Reference ${value.$ref} did not resolve to a value`);
+        }
+        return resolved;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => resolveReferences(item, run));
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, run)]));
+    }
+    return value;
+}
+
+// Only walk plain objects, so values such as Keypairs pass through untouched
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function copyRun(run: PipelineRun): PipelineRun {
+    const steps: Record<string, PipelineStepRecord> = {};
+    for (const [id, step] of Object.entries(run.steps)) {
+        steps[id] = { ...step, dependsOn: [...step.dependsOn] };
+    }
+    return { ...run, order: [...run.order], steps };
+}
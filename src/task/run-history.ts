@@ -0,0 +1,116 @@
+import { BaseDelegateResult } from "../delegate/types";
+
+export type TaskRunTrigger = 'schedule' | 'manual';
+export const TASK_RUN_STATUSES = ['running', 'completed', 'failed', 'cancelled'] as const;
+export type TaskRunStatus = typeof TASK_RUN_STATUSES[number];
+
+/**
+ * One run of a task, from the moment it started
+ */
+export interface TaskRunRecord {
+    id: string;
+    taskId: string;
+    type: string;
+    trigger: TaskRunTrigger;
+    status: TaskRunStatus;
+    scheduledFor: Date | null; // The slot a scheduled run was for
+    startedAt: Date;
+    finishedAt: Date | null; // Null while running
+    result?: BaseDelegateResult;
+    error?: string;
+    idempotencyKey?: string;
+}
+
+/**
+ * Filter for querying run history. All set fields must match.
+ */
+export interface TaskRunQuery {
+    taskId?: string;
+    status?: TaskRunStatus;
+    limit?: number;
+}
+
+/**
+ * Persistence for the runs of tasks. Implementations return copies, so
+ * changes to a returned record are only saved through save().
+ */
+export interface TaskRunHistory {
+    save(run: TaskRunRecord): Promise<void>; // Creates the record or replaces the one with the same id
+    get(id: string): Promise<TaskRunRecord | null>;
+    query(query?: TaskRunQuery): Promise<TaskRunRecord[]>; // Newest first
+}
+
+/**
+ * Configuration interface for InMemoryTaskRunHistory
+ */
+export interface InMemoryTaskRunHistoryConfig {
+    maxRunsPerTask?: number; // Older finished runs are dropped. Default: 100
+}
+
+/**
+ * Non-persistent run history, intended for tests and single-process servers
+ */
+export class InMemoryTaskRunHistory implements TaskRunHistory {
+    private static readonly DEFAULT_MAX_RUNS_PER_TASK = 100;
+
+    private readonly runs = new Map<string, TaskRunRecord>();
+    private readonly maxRunsPerTask: number;
+
+    constructor(config: InMemoryTaskRunHistoryConfig = {}) {
+        this.maxRunsPerTask = config.maxRunsPerTask ?? InMemoryTaskRunHistory.DEFAULT_MAX_RUNS_PER_TASK;
+    }
+
+    async save(run: TaskRunRecord): Promise<void> {
+        this.runs.set(run.id, copyRun(run));
+        this.prune(run.taskId);
+    }
+
+    async get(id: string): Promise<TaskRunRecord | null> {
+        const run = this.runs.get(id);
+        return run ? copyRun(run) : null;
+    }
+
+    async query(query: TaskRunQuery = {}): Promise<TaskRunRecord[]> {
+        const runs = sortRuns(Array.from(this.runs.values()).filter(run => matchesTaskRunQuery(run, query)));
+        return (query.limit !== undefined ? runs.slice(0, query.limit) : runs).map(copyRun);
+    }
+
+    private prune(taskId: string): void {
+        const finished = sortRuns(Array.from(this.runs.values()).filter(run => run.taskId === taskId && run.finishedAt));
+        finished.slice(this.maxRunsPerTask).forEach(run => this.runs.delete(run.id));
+    }
+}
+
+/**
+ * Check whether a run matches a query
+ * @param run - The run to check
+ * @param query - The query to match against
+ * @returns True if every set field of the query matches
+ */
+export function matchesTaskRunQuery(run: TaskRunRecord, query: TaskRunQuery = {}): boolean {
+    if (query.taskId !== undefined && run.taskId !== query.taskId) {
+        return false;
+    }
+    if (query.status !== undefined && run.status !== query.status) {
+        return false;
+    }
+    return true;
+}
+
+// Newest first; runs that started together keep the reverse of the order they were saved in
+function sortRuns(runs: TaskRunRecord[]): TaskRunRecord[] {
+    return runs
+        .map((run, index) => ({ run, index }))
+        .sort((a, b) => b.run.startedAt.getTime() - a.run.startedAt.getTime() || b.index - a.index)
+        .map(({ run }) => run);
+}
+
+function copyRun(run: TaskRunRecord): TaskRunRecord {
+    return {
+        ...run,
+        scheduledFor: run.scheduledFor ? new Date(run.scheduledFor) : null,
+        startedAt: new Date(run.startedAt),
+        finishedAt: run.finishedAt ? new Date(run.finishedAt) : null,
+        ...(run.result && { result: JSON.parse(JSON.stringify(run.result)) }),
+    };
+}
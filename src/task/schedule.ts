@@ -0,0 +1,204 @@
+import {
+    BlackoutWindow,
+    CronSchedule,
+    DateRangeBlackoutWindow,
+    IntervalSchedule,
+    ScheduleInterval,
+    ScheduleUnit,
+} from "../types";
+import { getNextCronRun, parseCronExpression } from "./cron";
+import { getZonedDateTime, validateTimezone, zonedTimeToUtc } from "./timezone";
+
+const UNIT_MS: Record<ScheduleUnit, number> = {
+    minutes: 60 * 1000,
+    hours: 60 * 60 * 1000,
+    days: 24 * 60 * 60 * 1000,
+};
+
+const MAX_BLACKOUT_SKIPS = 100000;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Check whether a schedule uses a cron expression
+ * @param schedule - The schedule
+ * @returns True for cron schedules
+ */
+export function isCronSchedule(schedule: ScheduleInterval): schedule is CronSchedule {
+    return typeof (schedule as CronSchedule)?.cron === 'string';
+}
+
+/**
+ * Validate a schedule, throwing if it cannot be used for scheduling
+ * @param schedule - The schedule to validate
+ */
+export function validateScheduleInterval(schedule: ScheduleInterval): void {
+    if (isCronSchedule(schedule)) {
+        parseCronExpression(schedule.cron);
+    } else {
+        validateInterval(schedule);
+    }
+
+    if (schedule.timezone !== undefined) {
+        validateTimezone(schedule.timezone);
+    }
+    for (const window of schedule.blackouts ?? []) {
+        validateBlackoutWindow(window);
+    }
+}
+
+/**
+ * Validate a blackout window
+ * @param window - The blackout window to validate
+ */
+export function validateBlackoutWindow(window: BlackoutWindow): void {
+    const invalid = () => new Error(`Invalid blackout window: ${JSON.stringify(window)}`);
+
+    if (isDateRangeWindow(window)) {
+        const start = Date.parse(window.start);
+        const end = Date.parse(window.end);
+        if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+            throw invalid();
+        }
+        return;
+    }
+
+    if (!window || !TIME_OF_DAY.test(window.startTime) || !TIME_OF_DAY.test(window.endTime)) {
+        throw invalid();
+    }
+    // An empty window would be read as one crossing midnight and black out every minute
+    if (window.startTime === window.endTime) {
+        throw invalid();
+    }
+    if (window.daysOfWeek && !window.daysOfWeek.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+        throw invalid();
+    }
+    if (window.timezone !== undefined) {
+        validateTimezone(window.timezone);
+    }
+}
+
+/**
+ * Check whether a point in time falls inside any blackout window
+ * @param date - The point in time
+ * @param blackouts - The blackout windows
+ * @param timezone - Timezone for recurring windows without their own (defaults to UTC)
+ * @returns True if blacked out
+ */
+export function isInBlackout(date: Date, blackouts: BlackoutWindow[] = [], timezone: string = 'UTC'): boolean {
+    const time = date.getTime();
+
+    return blackouts.some(window => {
+        if (isDateRangeWindow(window)) {
+            return time >= Date.parse(window.start) && time < Date.parse(window.end);
+        }
+
+        const wall = getZonedDateTime(date, window.timezone ?? timezone);
+        const minuteOfDay = wall.hour * 60 + wall.minute;
+        const start = toMinuteOfDay(window.startTime);
+        const end = toMinuteOfDay(window.endTime);
+        const startsOn = (weekday: number) => !window.daysOfWeek || window.daysOfWeek.includes(weekday);
+
+        if (start < end) {
+            return startsOn(wall.weekday) && minuteOfDay >= start && minuteOfDay < end;
+        }
+        // The window crosses midnight
+        return (startsOn(wall.weekday) && minuteOfDay >= start)
+            || (startsOn((wall.weekday + 6) % 7) && minuteOfDay < end);
+    });
+}
+
+/**
+ * Get the length of a fixed schedule interval in milliseconds
+ * @param schedule - The schedule interval
+ * @returns Interval length in milliseconds
+ */
+export function getIntervalMs(schedule: IntervalSchedule): number {
+    validateInterval(schedule);
+    return schedule.interval * UNIT_MS[schedule.unit];
+}
+
+/**
+ * Compute the first scheduled slot strictly after `after` that is outside
+ * every blackout window.
+ * Interval slots are anchored at `anchor`, so a run that finishes late does
+ * not push every following run back by the same amount. Day intervals with a
+ * timezone keep the anchor's wall-clock time across DST changes. Cron
+ * schedules ignore the anchor.
+ * @param schedule - The schedule
+ * @param anchor - A previous slot (or the last run) the schedule is aligned to
+ * @param after - The returned slot is strictly later than this (defaults to anchor)
+ * @param blackouts - Extra blackout windows on top of the schedule's own
+ * @returns The next scheduled slot
+ */
+export function computeNextRun(schedule: ScheduleInterval, anchor: Date, after: Date = anchor, blackouts: BlackoutWindow[] = []): Date {
+    validateScheduleInterval(schedule);
+    const windows = [...(schedule.blackouts ?? []), ...blackouts];
+
+    let next = computeSlotAfter(schedule, anchor, after);
+    for (let skipped = 0; isInBlackout(next, windows, schedule.timezone); skipped++) {
+        if (skipped >= MAX_BLACKOUT_SKIPS) {
+            throw new Error('No schedule slot found outside blackout windows');
+        }
+        next = computeSlotAfter(schedule, anchor, next);
+    }
+
+    return next;
+}
+
+function computeSlotAfter(schedule: ScheduleInterval, anchor: Date, after: Date): Date {
+    if (isCronSchedule(schedule)) {
+        return getNextCronRun(schedule.cron, after, schedule.timezone);
+    }
+
+    if (schedule.unit === 'days' && schedule.timezone) {
+        return computeCalendarDaySlot(schedule, schedule.timezone, anchor, after);
+    }
+
+    const intervalMs = getIntervalMs(schedule);
+    const anchorMs = anchor.getTime();
+    const afterMs = after.getTime();
+
+    if (afterMs < anchorMs) {
+        return new Date(anchorMs + intervalMs);
+    }
+
+    const elapsedSlots = Math.floor((afterMs - anchorMs) / intervalMs) + 1;
+    return new Date(anchorMs + elapsedSlots * intervalMs);
+}
+
+function computeCalendarDaySlot(schedule: IntervalSchedule, timezone: string, anchor: Date, after: Date): Date {
+    const wall = getZonedDateTime(anchor, timezone);
+    const slot = (index: number) => zonedTimeToUtc({ ...wall, day: wall.day + index * schedule.interval }, timezone);
+
+    // Start just before the estimated slot; DST shifts move slots by at most a few hours
+    let index = Math.max(1, Math.floor((after.getTime() - anchor.getTime()) / (schedule.interval * UNIT_MS.days)));
+    while (index > 1 && slot(index - 1).getTime() > after.getTime()) {
+        index--;
+    }
+    while (slot(index).getTime() <= after.getTime()) {
+        index++;
+    }
+
+    return slot(index);
+}
+
+function validateInterval(schedule: IntervalSchedule): void {
+    if (!schedule || !(schedule.unit in UNIT_MS)) {
+        throw new Error(`Invalid schedule unit: ${schedule?.unit}, must be minutes, hours or days`);
+    }
+    if (typeof schedule.interval !== 'number' || !Number.isFinite(schedule.interval) || schedule.interval <= 0) {
+        throw new Error(`Invalid schedule interval: ${schedule.interval}, must be a positive number`);
+    }
+    if (schedule.unit === 'days' && schedule.timezone && !Number.isInteger(schedule.interval)) {
+        throw new Error(`Invalid schedule interval: ${schedule.interval}, day intervals with a timezone must be whole days`);
+    }
+}
+
+function isDateRangeWindow(window: BlackoutWindow): window is DateRangeBlackoutWindow {
+    return typeof (window as DateRangeBlackoutWindow)?.start === 'string';
+}
+
+function toMinuteOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours! * 60 + minutes!;
+}
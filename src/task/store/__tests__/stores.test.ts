@@ -0,0 +1,234 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { Keypair } from "@solana/web3.js";
+import { BaseTask } from "../../../types";
+import { TaskStore } from "../base";
+import { InMemoryTaskStore } from "../memory";
+import { JsonFileTaskStore } from "../json-file";
+import { SqliteTaskStore } from "../sqlite";
+
+function createTask(overrides: Partial<BaseTask> = {}): BaseTask {
+    const createdAt = new Date('2025-01-01T00:00:00.000Z');
+    return {
+        type: 'burner',
+        id: 'task-1',
+        name: 'Daily burn',
+        status: 'new',
+        lastRun: createdAt,
+        nextRun: new Date('2025-01-01T01:00:00.000Z'),
+        scheduleEnabled: true,
+        scheduleInterval: { unit: 'hours', interval: 1 },
+        createdAt,
+        updatedAt: createdAt,
+        options: { type: 'burner', tokenAddress: 'mint', numTokens: 1 },
+        owner: { address: '11111111111111111111111111111111', keyId: 'treasury' },
+        lastResult: null,
+        ...overrides,
+    };
+}
+
+let tempDir: string;
+
+beforeAll(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-store-'));
+});
+
+afterAll(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+const backends: [string, () => TaskStore][] = [
+    ['InMemoryTaskStore', () => new InMemoryTaskStore()],
+    ['JsonFileTaskStore', () => new JsonFileTaskStore({ filePath: path.join(tempDir, `${Math.random()}.json`) })],
+    ['SqliteTaskStore', () => new SqliteTaskStore({ database: new Database(':memory:') })],
+];
+
+describe.each(backends)('%s', (_name, createStore) => {
+    let store: TaskStore;
+
+    beforeEach(() => {
+        store = createStore();
+    });
+
+    describe('create and get', () => {
+        it('should round-trip tasks including dates', async () => {
+            const task = createTask();
+
+            const created = await store.create(task);
+            const fetched = await store.get('task-1');
+
+            expect(created).toEqual(task);
+            expect(fetched).toEqual(task);
+            expect(fetched?.lastRun).toBeInstanceOf(Date);
+            expect(fetched?.nextRun).toBeInstanceOf(Date);
+        });
+
+        it('should round-trip the last run outcome', async () => {
+            const lastResult = {
+                success: true,
+                startedAt: new Date('2025-01-01T00:00:00.000Z'),
+                finishedAt: new Date('2025-01-01T00:00:05.000Z'),
+                result: { success: true, signatures: ['sig-1'], burnedAmount: '1' },
+            };
+            await store.create(createTask());
+
+            const updated = await store.update('task-1', { lastResult });
+
+            expect(updated.lastResult).toEqual(lastResult);
+            expect((await store.get('task-1'))?.lastResult?.finishedAt).toBeInstanceOf(Date);
+        });
+
+        it('should return copies rather than stored references', async () => {
+            const task = createTask();
+            await store.create(task);
+
+            task.name = 'changed';
+            const fetched = await store.get('task-1');
+            fetched!.status = 'failed';
+
+            expect((await store.get('task-1'))?.name).toBe('Daily burn');
+            expect((await store.get('task-1'))?.status).toBe('new');
+        });
+
+        it('should reject duplicate ids', async () => {
+            await store.create(createTask());
+
+            await expect(store.create(createTask())).rejects.toThrow('Task task-1 already exists');
+        });
+
+        it('should return null for unknown ids', async () => {
+            expect(await store.get('missing')).toBeNull();
+        });
+
+        it('should reject options that are not plain JSON', async () => {
+            const options = { type: 'deployer', extraSigners: [Keypair.generate()] };
+
+            await expect(store.create(createTask({ type: 'deployer', options }))).rejects.toThrow(
+                'Task task-1 cannot be stored: options.extraSigners[0] (Keypair) is not plain JSON'
+            );
+            expect(await store.get('task-1')).toBeNull();
+        });
+    });
+
+    describe('update', () => {
+        it('should apply partial changes', async () => {
+            await store.create(createTask());
+            const lastRun = new Date('2025-01-01T01:00:05.000Z');
+
+            const updated = await store.update('task-1', { status: 'completed', lastRun, nextRun: null });
+
+            expect(updated.status).toBe('completed');
+            expect(updated.lastRun).toEqual(lastRun);
+            expect(updated.nextRun).toBeNull();
+            expect(updated.name).toBe('Daily burn');
+            expect(await store.get('task-1')).toEqual(updated);
+        });
+
+        it('should throw for unknown ids', async () => {
+            await expect(store.update('missing', { status: 'failed' })).rejects.toThrow('Task missing not found');
+        });
+
+        it('should reject options that are not plain JSON and keep the stored task', async () => {
+            const created = await store.create(createTask());
+
+            await expect(store.update('task-1', { options: { type: 'burner', onBurn: () => undefined } })).rejects.toThrow(
+                'options.onBurn (function) is not plain JSON'
+            );
+            expect(await store.get('task-1')).toEqual(created);
+        });
+    });
+
+    describe('query', () => {
+        beforeEach(async () => {
+            await store.create(createTask({ id: 'a', status: 'completed', nextRun: new Date('2025-01-01T03:00:00.000Z') }));
+            await store.create(createTask({ id: 'b', status: 'failed', nextRun: new Date('2025-01-01T01:00:00.000Z') }));
+            await store.create(createTask({ id: 'c', type: 'hopper', status: 'new', nextRun: new Date('2025-01-01T02:00:00.000Z') }));
+            await store.create(createTask({ id: 'd', status: 'new', nextRun: null, scheduleEnabled: false }));
+        });
+
+        it('should return every task ordered by nextRun', async () => {
+            const tasks = await store.query();
+
+            expect(tasks.map(task => task.id)).toEqual(['b', 'c', 'a', 'd']);
+        });
+
+        it('should filter by status', async () => {
+            expect((await store.query({ status: 'new' })).map(task => task.id)).toEqual(['c', 'd']);
+            expect((await store.query({ status: ['completed', 'failed'] })).map(task => task.id)).toEqual(['b', 'a']);
+            expect(await store.query({ status: [] })).toEqual([]);
+        });
+
+        it('should filter by due time', async () => {
+            const due = await store.query({ dueBefore: new Date('2025-01-01T02:00:00.000Z') });
+
+            expect(due.map(task => task.id)).toEqual(['b', 'c']);
+        });
+
+        it('should combine filters and apply limits', async () => {
+            expect((await store.query({ type: 'burner', scheduleEnabled: true })).map(task => task.id)).toEqual(['b', 'a']);
+            expect((await store.query({ scheduleEnabled: false })).map(task => task.id)).toEqual(['d']);
+            expect((await store.query({ limit: 2 })).map(task => task.id)).toEqual(['b', 'c']);
+        });
+    });
+
+    describe('delete', () => {
+        it('should remove tasks', async () => {
+            await store.create(createTask());
+
+            expect(await store.delete('task-1')).toBe(true);
+            expect(await store.get('task-1')).toBeNull();
+            expect(await store.delete('task-1')).toBe(false);
+        });
+    });
+});
+
+describe('JsonFileTaskStore persistence', () => {
+    it('should persist tasks across instances', async () => {
+        const filePath = path.join(tempDir, 'persisted.json');
+        await new JsonFileTaskStore({ filePath }).create(createTask());
+
+        const reopened = new JsonFileTaskStore({ filePath });
+
+        expect(await reopened.get('task-1')).toEqual(createTask());
+    });
+
+    it('should serialize concurrent writes', async () => {
+        const filePath = path.join(tempDir, 'concurrent.json');
+        const store = new JsonFileTaskStore({ filePath });
+
+        await Promise.all(Array.from({ length: 10 }, (_, i) => store.create(createTask({ id: `task-${i}` }))));
+
+        const reopened = new JsonFileTaskStore({ filePath });
+        expect(await reopened.query()).toHaveLength(10);
+        expect((await fs.readdir(tempDir)).filter(file => file.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should reject unreadable files', async () => {
+        const filePath = path.join(tempDir, 'corrupt.json');
+        await fs.writeFile(filePath, '{not json');
+
+        await expect(new JsonFileTaskStore({ filePath }).query()).rejects.toThrow('Failed to parse JSON file');
+    });
+});
+
+describe('SqliteTaskStore persistence', () => {
+    it('should open a database file by filename', async () => {
+        const filename = path.join(tempDir, 'tasks.db');
+        const store = new SqliteTaskStore({ filename });
+        await store.create(createTask());
+        store.close();
+
+        const reopened = new SqliteTaskStore({ filename });
+
+        expect(await reopened.get('task-1')).toEqual(createTask());
+        reopened.close();
+    });
+
+    it('should validate configuration', () => {
+        expect(() => new SqliteTaskStore({})).toThrow('SqliteTaskStore requires either a database or a filename');
+        expect(() => new SqliteTaskStore({ database: new Database(':memory:'), tableName: 'tasks; DROP' }))
+            .toThrow('Invalid table name');
+    });
+});
@@ -0,0 +1,172 @@
+import { BaseTask, TaskRunOutcome, TaskStatus } from "../../types";
+import { ValidationError } from "../../utils/errors";
+
+/**
+ * Filter for querying stored tasks. All set fields must match.
+ */
+export interface TaskQuery {
+    status?: TaskStatus | TaskStatus[];
+    type?: string;
+    scheduleEnabled?: boolean;
+    dueBefore?: Date; // nextRun at or before this time
+    limit?: number;
+}
+
+export type TaskUpdate = Partial<Omit<BaseTask, 'id'>>;
+
+/**
+ * Persistence for BaseTask records. Implementations return copies, so
+ * changes to a returned task are only saved through update().
+ */
+export interface TaskStore {
+    create(task: BaseTask): Promise<BaseTask>;
+    get(id: string): Promise<BaseTask | null>;
+    update(id: string, changes: TaskUpdate): Promise<BaseTask>;
+    query(query?: TaskQuery): Promise<BaseTask[]>;
+    delete(id: string): Promise<boolean>;
+}
+
+/**
+ * JSON-safe representation of a task
+ */
+export type SerializedTask = Omit<BaseTask, 'lastRun' | 'nextRun' | 'createdAt' | 'updatedAt' | 'lastResult'> & {
+    lastRun: string;
+    nextRun: string | null;
+    createdAt: string;
+    updatedAt: string;
+    lastResult: SerializedRunOutcome | null;
+};
+
+type SerializedRunOutcome = Omit<TaskRunOutcome, 'startedAt' | 'finishedAt'> & {
+    startedAt: string;
+    finishedAt: string;
+};
+
+/**
+ * Convert a task to its JSON-safe representation. Options must be plain
+ * JSON: a Keypair or other class instance would come back as a plain object.
+ * @param task - The task to serialize
+ * @returns Serialized task with ISO date strings
+ * @throws ValidationError if the options hold a value that is not plain JSON
+ */
+export function serializeTask(task: BaseTask): SerializedTask {
+    const unsupported = findNonJsonValue(task.options, 'options');
+    if (unsupported) {
+        throw new ValidationError(`Task ${task.id} cannot be stored: ${unsupported} is not plain JSON`);
+    }
+
+    return JSON.parse(JSON.stringify({
+        ...task,
+        lastRun: task.lastRun.toISOString(),
+        nextRun: task.nextRun ? task.nextRun.toISOString() : null,
+        createdAt: task.createdAt.toISOString(),
+        updatedAt: task.updatedAt.toISOString(),
+        lastResult: task.lastResult ? {
+            ...task.lastResult,
+            startedAt: task.lastResult.startedAt.toISOString(),
+            finishedAt: task.lastResult.finishedAt.toISOString(),
+        } : null,
+    }));
+}
+
+/**
+ * Find the first value that a JSON round trip would not restore as it was
+ * @returns The path and kind of the value, or null if the value is plain JSON
+ */
+function findNonJsonValue(value: unknown, path: string): string | null {
+    if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+        return `${path} (${typeof value})`;
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+        return `${path} (${value})`;
+    }
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+
+    if (Array.isArray(value)) {
+        for (const [index, item] of value.entries()) {
+            const found = findNonJsonValue(item, `${path}[${index}]`);
+            if (found) {
+                return found;
+            }
+        }
+        return null;
+    }
+
+    const prototype = Object.getPrototypeOf(value) as object | null;
+    if (prototype !== Object.prototype && prototype !== null) {
+        return `${path} (${value.constructor?.name || 'class instance'})`;
+    }
+    for (const [key, item] of Object.entries(value)) {
+        const found = findNonJsonValue(item, `${path}.${key}`);
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
+
+/**
+ * Restore a task from its JSON-safe representation
+ * @param data - The serialized task
+ * @returns Task with Date fields restored
+ */
+export function deserializeTask(data: SerializedTask): BaseTask {
+    return {
+        ...data,
+        lastRun: new Date(data.lastRun),
+        nextRun: data.nextRun ? new Date(data.nextRun) : null,
+        createdAt: new Date(data.createdAt),
+        updatedAt: new Date(data.updatedAt),
+        lastResult: data.lastResult ? {
+            ...data.lastResult,
+            startedAt: new Date(data.lastResult.startedAt),
+            finishedAt: new Date(data.lastResult.finishedAt),
+        } : null,
+    };
+}
+
+/**
+ * Check whether a task matches a query
+ * @param task - The task to check
+ * @param query - The query to match against
+ * @returns True if every set field of the query matches
+ */
+export function matchesTaskQuery(task: BaseTask, query: TaskQuery = {}): boolean {
+    if (query.status !== undefined) {
+        const statuses = Array.isArray(query.status) ? query.status : [query.status];
+        if (!statuses.includes(task.status)) {
+            return false;
+        }
+    }
+    if (query.type !== undefined && task.type !== query.type) {
+        return false;
+    }
+    if (query.scheduleEnabled !== undefined && task.scheduleEnabled !== query.scheduleEnabled) {
+        return false;
+    }
+    if (query.dueBefore !== undefined && (!task.nextRun || task.nextRun.getTime() > query.dueBefore.getTime())) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Order tasks by nextRun (unscheduled last), then by id, and apply the query limit
+ * @param tasks - Matching tasks
+ * @param query - The query whose limit to apply
+ * @returns Sorted, limited tasks
+ */
+export function sortAndLimitTasks(tasks: BaseTask[], query: TaskQuery = {}): BaseTask[] {
+    const sorted = [...tasks].sort((a, b) => {
+        const aNext = a.nextRun ? a.nextRun.getTime() : Number.POSITIVE_INFINITY;
+        const bNext = b.nextRun ? b.nextRun.getTime() : Number.POSITIVE_INFINITY;
+        if (aNext !== bNext) {
+            return aNext - bNext;
+        }
+        return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+
+    return query.limit !== undefined ? sorted.slice(0, query.limit) : sorted;
+}
@@ -0,0 +1,115 @@
+import { BaseTask } from "../../types";
+import { readJsonFile, writeFileAtomic } from "../../utils/atomic-file";
+import { deserializeTask, matchesTaskQuery, SerializedTask, serializeTask, sortAndLimitTasks, TaskQuery, TaskStore, TaskUpdate } from "./base";
+
+/**
+ * Configuration interface for JsonFileTaskStore
+ */
+export interface JsonFileTaskStoreConfig {
+    filePath: string;
+    pretty?: boolean;
+}
+
+interface TaskFile {
+    version: 1;
+    tasks: SerializedTask[];
+}
+
+/**
+ * Task store backed by a single JSON file. Every change rewrites the file
+ * atomically. Writes are serialized within the process; the file must not
+ * be shared by several processes.
+ */
+export class JsonFileTaskStore implements TaskStore {
+    private readonly filePath: string;
+    private readonly pretty: boolean;
+    private tasks: Map<string, SerializedTask> | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(config: JsonFileTaskStoreConfig) {
+        this.filePath = config.filePath;
+        this.pretty = config.pretty ?? true;
+    }
+
+    async create(task: BaseTask): Promise<BaseTask> {
+        return this.withLock(async tasks => {
+            if (tasks.has(task.id)) {
+                throw new Error(`Task ${task.id} already exists`);
+            }
+
+            const serialized = serializeTask(task);
+            const next = new Map(tasks).set(task.id, serialized);
+            await this.persist(next);
+            return deserializeTask(serialized);
+        });
+    }
+
+    async get(id: string): Promise<BaseTask | null> {
+        return this.withLock(async tasks => {
+            const serialized = tasks.get(id);
+            return serialized ? deserializeTask(serialized) : null;
+        });
+    }
+
+    async update(id: string, changes: TaskUpdate): Promise<BaseTask> {
+        return this.withLock(async tasks => {
+            const existing = tasks.get(id);
+            if (!existing) {
+                throw new Error(`Task ${id} not found`);
+            }
+
+            const serialized = serializeTask({ ...deserializeTask(existing), ...changes, id });
+            const next = new Map(tasks).set(id, serialized);
+            await this.persist(next);
+            return deserializeTask(serialized);
+        });
+    }
+
+    async query(query: TaskQuery = {}): Promise<BaseTask[]> {
+        return this.withLock(async tasks => {
+            const matching = Array.from(tasks.values(), deserializeTask)
+                .filter(task => matchesTaskQuery(task, query));
+            return sortAndLimitTasks(matching, query);
+        });
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.withLock(async tasks => {
+            if (!tasks.has(id)) {
+                return false;
+            }
+
+            const next = new Map(tasks);
+            next.delete(id);
+            await this.persist(next);
+            return true;
+        });
+    }
+
+    /**
+     * Run an operation after every previously queued one has finished
+     */
+    private withLock<T>(operation: (tasks: Map<string, SerializedTask>) => Promise<T>): Promise<T> {
+        const run = this.queue.then(async () => operation(await this.load()));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async load(): Promise<Map<string, SerializedTask>> {
+        if (!this.tasks) {
+            const file = await readJsonFile<TaskFile>(this.filePath, { version: 1, tasks: [] });
+            this.tasks = new Map(file.tasks.map(task => [task.id, task]));
+        }
+        return this.tasks;
+    }
+
+    /**
+     * Write the file first and only then swap the in-memory copy, so a failed
+     * write leaves both the file and the cache unchanged
+     */
+    private async persist(tasks: Map<string, SerializedTask>): Promise<void> {
+        const file: TaskFile = { version: 1, tasks: Array.from(tasks.values()) };
+        await writeFileAtomic(this.filePath, JSON.stringify(file, null, this.pretty ? 2 : undefined));
+        this.tasks = tasks;
+    }
+}
@@ -0,0 +1,47 @@
+import { BaseTask } from "../../types";
+import { deserializeTask, matchesTaskQuery, SerializedTask, serializeTask, sortAndLimitTasks, TaskQuery, TaskStore, TaskUpdate } from "./base";
+
+/**
+ * Non-persistent task store, intended for tests and single-process scripts.
+ * Tasks go through the same serialization as the persistent stores so
+ * behaviour does not change when swapping backends.
+ */
+export class InMemoryTaskStore implements TaskStore {
+    private readonly tasks = new Map<string, SerializedTask>();
+
+    async create(task: BaseTask): Promise<BaseTask> {
+        if (this.tasks.has(task.id)) {
+            throw new Error(`Task ${task.id} already exists`);
+        }
+
+        const serialized = serializeTask(task);
+        this.tasks.set(task.id, serialized);
+        return deserializeTask(serialized);
+    }
+
+    async get(id: string): Promise<BaseTask | null> {
+        const serialized = this.tasks.get(id);
+        return serialized ? deserializeTask(serialized) : null;
+    }
+
+    async update(id: string, changes: TaskUpdate): Promise<BaseTask> {
+        const existing = this.tasks.get(id);
+        if (!existing) {
+            throw new Error(`Task ${id} not found`);
+        }
+
+        const serialized = serializeTask({ ...deserializeTask(existing), ...changes, id });
+        this.tasks.set(id, serialized);
+        return deserializeTask(serialized);
+    }
+
+    async query(query: TaskQuery = {}): Promise<BaseTask[]> {
+        const tasks = Array.from(this.tasks.values(), deserializeTask)
+            .filter(task => matchesTaskQuery(task, query));
+        return sortAndLimitTasks(tasks, query);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.tasks.delete(id);
+    }
+}
@@ -0,0 +1,187 @@
+import { BaseTask } from "../../types";
+import { deserializeTask, SerializedTask, serializeTask, TaskQuery, TaskStore, TaskUpdate } from "./base";
+
+/**
+ * Minimal synchronous SQLite statement, compatible with better-sqlite3
+ */
+export interface SqliteStatement {
+    run(...params: unknown[]): { changes: number };
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal synchronous SQLite database, compatible with better-sqlite3
+ */
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+    close?(): unknown;
+}
+
+/**
+ * Configuration interface for SqliteTaskStore. Pass an open database, or a
+ * filename to open one with the optional better-sqlite3 dependency.
+ */
+export interface SqliteTaskStoreConfig {
+    database?: SqliteDatabase;
+    filename?: string;
+    tableName?: string;
+}
+
+interface TaskRow {
+    data: string;
+}
+
+/**
+ * Task store backed by an embedded SQLite database. Indexed columns keep
+ * due-time and status queries fast; the full task is stored as JSON.
+ */
+export class SqliteTaskStore implements TaskStore {
+    private static readonly DEFAULT_TABLE_NAME = 'tasks';
+
+    private readonly database: SqliteDatabase;
+    private readonly table: string;
+
+    constructor(config: SqliteTaskStoreConfig) {
+        const tableName = config.tableName ?? SqliteTaskStore.DEFAULT_TABLE_NAME;
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+            throw new Error(`Invalid table name: ${tableName}`);
+        }
+
+        this.table = tableName;
+        this.database = config.database ?? SqliteTaskStore.openDatabase(config.filename);
+        this.migrate();
+    }
+
+    async create(task: BaseTask): Promise<BaseTask> {
+        const serialized = serializeTask(task);
+
+        if (this.database.prepare(`SELECT 1 FROM ${this.table} WHERE id = ?`).get(task.id)) {
+            throw new Error(`Task ${task.id} already exists`);
+        }
+
+        this.database.prepare(
+            `INSERT INTO ${this.table} (id, type, status, schedule_enabled, next_run, data) VALUES (?, ?, ?, ?, ?, ?)`
+        ).run(...this.toColumns(serialized));
+
+        return deserializeTask(serialized);
+    }
+
+    async get(id: string): Promise<BaseTask | null> {
+        const row = this.database.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as TaskRow | undefined;
+        return row ? this.fromRow(row) : null;
+    }
+
+    async update(id: string, changes: TaskUpdate): Promise<BaseTask> {
+        const existing = await this.get(id);
+        if (!existing) {
+            throw new Error(`Task ${id} not found`);
+        }
+
+        const serialized = serializeTask({ ...existing, ...changes, id });
+        const [, type, status, scheduleEnabled, nextRun, data] = this.toColumns(serialized);
+
+        this.database.prepare(
+            `UPDATE ${this.table} SET type = ?, status = ?, schedule_enabled = ?, next_run = ?, data = ? WHERE id = ?`
+        ).run(type, status, scheduleEnabled, nextRun, data, id);
+
+        return deserializeTask(serialized);
+    }
+
+    async query(query: TaskQuery = {}): Promise<BaseTask[]> {
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        if (query.status !== undefined) {
+            const statuses = Array.isArray(query.status) ? query.status : [query.status];
+            if (statuses.length === 0) {
+                return [];
+            }
+            conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+            params.push(...statuses);
+        }
+        if (query.type !== undefined) {
+            conditions.push('type = ?');
+            params.push(query.type);
+        }
+        if (query.scheduleEnabled !== undefined) {
+            conditions.push('schedule_enabled = ?');
+            params.push(query.scheduleEnabled ? 1 : 0);
+        }
+        if (query.dueBefore !== undefined) {
+            conditions.push('next_run IS NOT NULL AND next_run <= ?');
+            params.push(query.dueBefore.getTime());
+        }
+
+        let sql = `SELECT data FROM ${this.table}`;
+        if (conditions.length > 0) {
+            sql += ` WHERE ${conditions.join(' AND ')}`;
+        }
+        sql += ' ORDER BY next_run IS NULL, next_run, id';
+        if (query.limit !== undefined) {
+            sql += ' LIMIT ?';
+            params.push(query.limit);
+        }
+
+        const rows = this.database.prepare(sql).all(...params) as TaskRow[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const result = this.database.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+        return result.changes > 0;
+    }
+
+    /**
+     * Close the underlying database
+     */
+    public close(): void {
+        this.database.close?.();
+    }
+
+    private migrate(): void {
+        this.database.exec(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                status TEXT NOT NULL,
+                schedule_enabled INTEGER NOT NULL,
+                next_run INTEGER,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${this.table}_due_idx ON ${this.table} (schedule_enabled, next_run);
+            CREATE INDEX IF NOT EXISTS ${this.table}_status_idx ON ${this.table} (status);
+        `);
+    }
+
+    private toColumns(task: SerializedTask): [string, string, string, number, number | null, string] {
+        return [
+            task.id,
+            task.type,
+            task.status,
+            task.scheduleEnabled ? 1 : 0,
+            task.nextRun ? new Date(task.nextRun).getTime() : null,
+            JSON.stringify(task),
+        ];
+    }
+
+    private fromRow(row: TaskRow): BaseTask {
+        return deserializeTask(JSON.parse(row.data) as SerializedTask);
+    }
+
+    private static openDatabase(filename?: string): SqliteDatabase {
+        if (!filename) {
+            throw new Error("SqliteTaskStore requires either a database or a filename");
+        }
+
+        let Database: new (filename: string) => SqliteDatabase;
+        try {
+            Database = require("better-sqlite3");
+        } catch (error) {
+            throw new Error("SqliteTaskStore requires the better-sqlite3 package when opening by filename");
+        }
+
+        return new Database(filename);
+    }
+}
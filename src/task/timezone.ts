@@ -0,0 +1,115 @@
+/**
+ * Wall-clock date and time fields in a timezone
+ */
+export interface ZonedDateTime {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: number; // 0 = Sunday
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        formatters.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Validate an IANA timezone name
+ * @param timezone - The timezone, e.g. 'Europe/London'
+ */
+export function validateTimezone(timezone: string): void {
+    try {
+        getFormatter(timezone);
+    } catch {
+        throw new Error(`Invalid timezone: ${timezone}`);
+    }
+}
+
+/**
+ * Get the wall-clock fields of an instant in a timezone
+ * @param date - The instant
+ * @param timezone - The timezone (defaults to UTC)
+ * @returns Wall-clock fields
+ */
+export function getZonedDateTime(date: Date, timezone: string = 'UTC'): ZonedDateTime {
+    const fields: Record<string, number> = {};
+    for (const part of getFormatter(timezone).formatToParts(date)) {
+        if (part.type !== 'literal') {
+            fields[part.type] = Number(part.value);
+        }
+    }
+
+    const year = fields['year']!;
+    const month = fields['month']!;
+    const day = fields['day']!;
+    return {
+        year,
+        month,
+        day,
+        hour: fields['hour']!,
+        minute: fields['minute']!,
+        second: fields['second']!,
+        weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    };
+}
+
+/**
+ * Get the UTC offset of a timezone at an instant
+ * @param date - The instant
+ * @param timezone - The timezone
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+    const instant = Math.floor(date.getTime() / 1000) * 1000;
+    return toWallClockMs(getZonedDateTime(new Date(instant), timezone)) - instant;
+}
+
+/**
+ * Convert wall-clock fields in a timezone to an instant. Fields may overflow
+ * (e.g. day 32) and are normalised like Date.UTC. Times skipped by a DST gap
+ * move forward by the length of the gap; times that occur twice resolve to the
+ * earlier occurrence.
+ * @param fields - Wall-clock fields (weekday is ignored)
+ * @param timezone - The timezone
+ * @returns The instant
+ */
+export function zonedTimeToUtc(fields: Omit<ZonedDateTime, 'weekday'>, timezone: string): Date {
+    const wall = toWallClockMs(fields);
+    const offsetBefore = getTimezoneOffset(new Date(wall - DAY_MS), timezone);
+    const offsetAfter = getTimezoneOffset(new Date(wall + DAY_MS), timezone);
+
+    const candidates = [wall - offsetBefore, wall - offsetAfter]
+        .filter(instant => toWallClockMs(getZonedDateTime(new Date(instant), timezone)) === wall)
+        .sort((a, b) => a - b);
+
+    return new Date(candidates[0] ?? wall - offsetBefore);
+}
+
+/**
+ * Encode wall-clock fields as milliseconds, as if they were UTC
+ * @param fields - Wall-clock fields
+ * @returns Milliseconds since the epoch of the wall-clock time read as UTC
+ */
+export function toWallClockMs(fields: Omit<ZonedDateTime, 'weekday'>): number {
+    return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+}
@@ -2,17 +2,84 @@
  * Core types for the delegate framework
  */
 
+import type { BaseDelegateOptions, BaseDelegateResult } from "./delegate/types";
+
 // Task-related types (core framework types)
-export type TaskStatus = 'completed' | 'running' | 'failed' | 'new';
+export const TASK_STATUSES = ['new', 'running', 'completed', 'failed', 'paused', 'cancelled'] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
 export type ScheduleUnit = 'minutes' | 'hours' | 'days';
 
-export interface ScheduleInterval {
+/**
+ * What to do with slots missed while the engine was not running:
+ * skip them, run once to catch up, or replay every missed slot
+ */
+export type MisfirePolicy = 'skip' | 'once' | 'replay';
+
+/**
+ * What to do when a task comes due while a previous run is still going:
+ * skip the slot, queue one run for when it finishes, or run concurrently
+ */
+export type OverlapPolicy = 'skip' | 'queue' | 'allow';
+
+/**
+ * A period in which no task may run. Date ranges are absolute ISO timestamps
+ * (end exclusive). Recurring windows use wall-clock 'HH:MM' times and cross
+ * midnight when endTime is before startTime, and may not start and end at
+ * the same time; daysOfWeek (0 = Sunday) is the day the window starts on.
+ */
+export interface DateRangeBlackoutWindow {
+    start: string;
+    end: string;
+}
+
+export interface RecurringBlackoutWindow {
+    startTime: string;
+    endTime: string;
+    daysOfWeek?: number[]; // Default: every day
+    timezone?: string; // Default: the schedule timezone, or UTC
+}
+
+export type BlackoutWindow = DateRangeBlackoutWindow | RecurringBlackoutWindow;
+
+interface ScheduleCalendarOptions {
+    timezone?: string; // IANA name, e.g. 'America/New_York'. Default: UTC
+    blackouts?: BlackoutWindow[];
+}
+
+export interface IntervalSchedule extends ScheduleCalendarOptions {
     unit: ScheduleUnit;
     interval: number;
 }
 
-export interface BaseTask {
-    type: string;
+export interface CronSchedule extends ScheduleCalendarOptions {
+    cron: string; // Five-field cron expression or macro, e.g. '0 14 * * 1-5'
+}
+
+export type ScheduleInterval = IntervalSchedule | CronSchedule;
+
+/**
+ * The wallet a task acts for. Only public references are stored on a task,
+ * never secret keys.
+ */
+export interface TaskOwner {
+    address: string; // Public key of the signer that executes the task
+    keyId?: string; // Optional reference to the signer in a keystore
+}
+
+/**
+ * Outcome of a task's most recent run
+ */
+export interface TaskRunOutcome<R extends BaseDelegateResult = BaseDelegateResult> {
+    success: boolean;
+    startedAt: Date;
+    finishedAt: Date;
+    result?: R;
+    error?: string;
+    aborted?: boolean; // The run was paused or cancelled; result holds what was completed
+}
+
+export interface BaseTask<T extends BaseDelegateOptions = BaseDelegateOptions, R extends BaseDelegateResult = BaseDelegateResult> {
+    type: T['type'];
     id: string;
     name: string;
     status: TaskStatus;
@@ -20,6 +87,11 @@ export interface BaseTask {
     nextRun: Date | null;
     scheduleEnabled: boolean;
     scheduleInterval: ScheduleInterval;
+    misfirePolicy?: MisfirePolicy; // Default: 'once'
+    overlapPolicy?: OverlapPolicy; // Default: 'skip'
     createdAt: Date;
     updatedAt: Date;
+    options: T;
+    owner: TaskOwner;
+    lastResult: TaskRunOutcome<R> | null;
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { CircuitBreaker, CircuitBreakerRegistry } from '../circuit-breaker';
+import { CircuitOpenError, ERROR_CODES, ValidationError } from '../errors';
+import { createAbortError } from '../abort';
+
+function createBreaker(options: { failureThreshold?: number; cooldownMs?: number } = {}) {
+  let now = 1000;
+  const onStateChange = jest.fn();
+  const breaker = new CircuitBreaker('jupiter', { failureThreshold: 2, cooldownMs: 5000, ...options, onStateChange, now: () => now });
+  return { breaker, onStateChange, advance: (ms: number) => { now += ms; } };
+}
+
+const fail = () => Promise.reject(new Error('Connection reset'));
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and fail fast while open', async () => {
+    const { breaker } = createBreaker();
+    const operation = jest.fn().mockResolvedValue('quote');
+
+    await expect(breaker.execute(fail)).rejects.toThrow('Connection reset');
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(fail)).rejects.toThrow('Connection reset');
+    expect(breaker.getState()).toBe('open');
+
+    const error = await breaker.execute(operation).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ code: ERROR_CODES.CIRCUIT_OPEN, retryable: false, endpoint: 'jupiter', retryAfterMs: 5000 });
+    expect(operation).not.toHaveBeenCalled();
+    expect(breaker.isOpen()).toBe(true);
+  });
+
+  it('should reset the failure count after a success', async () => {
+    const { breaker } = createBreaker();
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(async () => 'quote')).resolves.toBe('quote');
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 1, totalFailures: 2 });
+  });
+
+  it('should not count errors that show the endpoint is up, nor aborts', async () => {
+    const { breaker } = createBreaker({ failureThreshold: 1 });
+
+    await expect(breaker.execute(() => Promise.reject(new ValidationError('bad mint')))).rejects.toThrow('bad mint');
+    await expect(breaker.execute(() => Promise.reject(createAbortError()))).rejects.toThrow();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should let one probe through after the cooldown and close when it succeeds', async () => {
+    const { breaker, onStateChange, advance } = createBreaker();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    advance(5000);
+    expect(breaker.getState()).toBe('half_open');
+
+    let resolveProbe: (value: string) => void = () => {};
+    const probe = breaker.execute(() => new Promise<string>(resolve => { resolveProbe = resolve; }));
+    await expect(breaker.execute(async () => 'second')).rejects.toBeInstanceOf(CircuitOpenError);
+
+    resolveProbe('quote');
+    await expect(probe).resolves.toBe('quote');
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, rejectedCalls: 1 });
+    expect(onStateChange.mock.calls.map(([snapshot, previous]) => [previous, snapshot.state])).toEqual([
+      ['closed', 'open'],
+      ['open', 'half_open'],
+      ['half_open', 'closed'],
+    ]);
+  });
+
+  it('should open again for another cooldown when the probe fails', async () => {
+    const { breaker, advance } = createBreaker();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    advance(5000);
+    await expect(breaker.execute(fail)).rejects.toThrow('Connection reset');
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', openedAt: 6000, nextProbeAt: 11000 });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new CircuitBreaker('jupiter', { failureThreshold: 0 })).toThrow('failureThreshold must be a positive integer');
+    expect(() => new CircuitBreaker('jupiter', { cooldownMs: -1 })).toThrow('cooldownMs must not be negative');
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('should share one breaker per endpoint and expose their state', async () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1 });
+
+    expect(registry.get('raydium')).toBe(registry.get('raydium'));
+    await expect(registry.get('raydium').execute(fail)).rejects.toThrow();
+    registry.get('pinata');
+
+    expect(registry.getSnapshots().map(({ name, state }) => ({ name, state }))).toEqual([
+      { name: 'raydium', state: 'open' },
+      { name: 'pinata', state: 'closed' },
+    ]);
+
+    registry.reset();
+    expect(registry.get('raydium').getState()).toBe('closed');
+  });
+});
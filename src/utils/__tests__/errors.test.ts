@@ -0,0 +1,100 @@
+import {
+  BlockhashExpiredError,
+  classifyError,
+  createHttpError,
+  ERROR_CODES,
+  FrameworkError,
+  InsufficientFundsError,
+  isRetryableError,
+  ProtocolError,
+  RateLimitError,
+  RpcError,
+  SlippageError,
+  ValidationError,
+} from '../errors';
+import { createAbortError } from '../abort';
+
+describe('framework errors', () => {
+  it('should carry a stable code and retryable flag', () => {
+    const error = new ValidationError('amount must be positive');
+
+    expect(error).toBeInstanceOf(FrameworkError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ValidationError');
+    expect(error.code).toBe(ERROR_CODES.VALIDATION);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toBe('amount must be positive');
+  });
+
+  it('should keep the cause and details', () => {
+    const cause = new Error('socket hang up');
+    const error = new ProtocolError('Jupiter API error: Bad Gateway', 'jupiter', { cause, retryable: true, details: { status: 502 } });
+
+    expect(error.protocol).toBe('jupiter');
+    expect(error.retryable).toBe(true);
+    expect(error.cause).toBe(cause);
+    expect(error.toJSON()).toEqual({
+      name: 'ProtocolError',
+      code: ERROR_CODES.PROTOCOL,
+      message: 'Jupiter API error: Bad Gateway',
+      retryable: true,
+      details: { status: 502 },
+    });
+  });
+
+  describe('createHttpError', () => {
+    it('should create a rate limit error for 429 with the Retry-After delay', () => {
+      const error = createHttpError('Too Many Requests', 429, '3');
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(3000);
+      expect(error.retryable).toBe(true);
+    });
+
+    it('should make server errors retryable and client errors not', () => {
+      const serverError = createHttpError('HTTP 503: Service Unavailable', 503);
+      const clientError = createHttpError('HTTP 400: Bad Request', 400);
+
+      expect(serverError).toBeInstanceOf(RpcError);
+      expect(serverError.retryable).toBe(true);
+      expect((clientError as RpcError).status).toBe(400);
+      expect(clientError.retryable).toBe(false);
+    });
+  });
+
+  describe('classifyError', () => {
+    it.each([
+      ['429 Too Many Requests', RateLimitError],
+      ['Blockhash not found', BlockhashExpiredError],
+      ['custom program error: 0x1771', SlippageError],
+      ['Transfer: insufficient lamports 100, need 5000', InsufficientFundsError],
+      ['Operation timed out after 30000ms', RpcError],
+    ])('should classify "%s"', (message, type) => {
+      const error = new Error(message);
+      const classified = classifyError(error);
+
+      expect(classified).toBeInstanceOf(type);
+      expect(classified?.cause).toBe(error);
+    });
+
+    it('should return framework errors unchanged and unknown errors as undefined', () => {
+      const error = new ValidationError('bad input');
+
+      expect(classifyError(error)).toBe(error);
+      expect(classifyError(new Error('Something odd'))).toBeUndefined();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should follow the retryable flag of typed and classified errors', () => {
+      expect(isRetryableError(new RateLimitError('slow down'))).toBe(true);
+      expect(isRetryableError(new ValidationError('bad input'))).toBe(false);
+      expect(isRetryableError(new Error('Slippage tolerance exceeded'))).toBe(false);
+    });
+
+    it('should treat unknown errors as retryable and aborts as not', () => {
+      expect(isRetryableError(new Error('Something odd'))).toBe(true);
+      expect(isRetryableError(createAbortError())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Clock, RetryPolicy } from '../retry';
+import { RateLimitError, ValidationError } from '../errors';
+
+function createFakeClock(): Clock & { sleeps: number[] } {
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+    },
+  };
+}
+
+describe('RetryPolicy', () => {
+  it('should back off exponentially up to the maximum delay', async () => {
+    const clock = createFakeClock();
+    const policy = new RetryPolicy({ maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000, clock });
+    const operation = jest.fn().mockRejectedValue(new Error('Connection reset'));
+
+    await expect(policy.execute(operation)).rejects.toThrow('Connection reset');
+
+    expect(operation).toHaveBeenCalledTimes(5);
+    expect(clock.sleeps).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it('should pass the attempt number and return the first success', async () => {
+    const clock = createFakeClock();
+    const policy = new RetryPolicy({ clock });
+    const operation = jest.fn()
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockResolvedValue('success');
+
+    await expect(policy.execute(operation)).resolves.toBe('success');
+
+    expect(operation.mock.calls).toEqual([[1], [2]]);
+    expect(clock.sleeps).toEqual([1000]);
+  });
+
+  it('should not retry errors rejected by the predicate', async () => {
+    const clock = createFakeClock();
+    const onFailedAttempt = jest.fn();
+    const policy = new RetryPolicy({ clock });
+    const operation = jest.fn().mockRejectedValue(new ValidationError('amount must be positive'));
+
+    await expect(policy.execute(operation, { onFailedAttempt })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(clock.sleeps).toEqual([]);
+    expect(onFailedAttempt).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, retryable: false, willRetry: false, delayMs: 0 }));
+  });
+
+  it('should apply per-call overrides without changing the policy', async () => {
+    const clock = createFakeClock();
+    const policy = new RetryPolicy({ clock, shouldRetry: () => false });
+    const operation = jest.fn().mockRejectedValue(new Error('Connection reset'));
+
+    await expect(policy.execute(operation, { maxAttempts: 2, shouldRetry: () => true })).rejects.toThrow('Connection reset');
+
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(policy.options.maxAttempts).toBe(3);
+  });
+
+  it('should shorten waits by the jitter fraction', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1000, jitter: 0.5, random: () => 0.5 });
+
+    expect(policy.getDelay(1)).toBe(750);
+    expect(policy.getDelay(2)).toBe(1500);
+  });
+
+  it('should wait at least as long as a rate limit asks', () => {
+    const policy = new RetryPolicy({ baseDelayMs: 1000, maxDelayMs: 10000 });
+
+    expect(policy.getDelay(1, new RateLimitError('Too Many Requests', { retryAfterMs: 7000 }))).toBe(7000);
+    expect(policy.getDelay(1, new RateLimitError('Too Many Requests', { retryAfterMs: 60000 }))).toBe(10000);
+  });
+
+  it('should stop before the next attempt once aborted', async () => {
+    const controller = new AbortController();
+    const clock: Clock = {
+      sleep: async () => {
+        controller.abort('Run cancelled');
+      },
+    };
+    const policy = new RetryPolicy({ clock });
+    const operation = jest.fn().mockRejectedValue(new Error('Connection reset'));
+
+    await expect(policy.execute(operation, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError', message: 'Run cancelled' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should derive policies with withOptions', () => {
+    const policy = new RetryPolicy({ maxAttempts: 5 }).withOptions({ baseDelayMs: 250, maxAttempts: undefined });
+
+    expect(policy.options.maxAttempts).toBe(5);
+    expect(policy.options.baseDelayMs).toBe(250);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new RetryPolicy({ maxAttempts: 0 })).toThrow('maxAttempts must be a positive integer');
+    expect(() => new RetryPolicy({ jitter: 2 })).toThrow('jitter must be between 0 and 1');
+  });
+});
@@ -0,0 +1,149 @@
+import { schema, toJsonSchema } from '../schema';
+import { ValidationError } from '../errors';
+
+const MINT = 'So11111111111111111111111111111111111111112';
+
+const orderSchema = schema.object({
+  kind: schema.enum(['market', 'limit']),
+  mint: schema.string({ format: 'publicKey' }),
+  price: schema.number({ greaterThan: 0 }).optional(),
+  legs: schema.array(schema.object({ percentage: schema.number({ min: 0, max: 100 }) }), { minItems: 1 }),
+  memo: schema.string().optional().describe('Shown in the explorer'),
+}).requireWhen('kind', 'limit', ['price']);
+
+describe('schema', () => {
+  it('should accept a valid value', () => {
+    expect(orderSchema.validate({ kind: 'market', mint: MINT, legs: [{ percentage: 50 }] })).toEqual([]);
+  });
+
+  it('should report every invalid field with its path', () => {
+    expect(orderSchema.validate({ kind: 'stop', mint: 'not-a-key', legs: [{ percentage: 50 }, { percentage: 150 }] })).toEqual([
+      { path: 'kind', message: "kind must be either 'market' or 'limit'" },
+      { path: 'mint', message: 'Invalid mint: not-a-key, must be a valid public key' },
+      { path: 'legs[1].percentage', message: 'legs[1].percentage must be at most 100' },
+    ]);
+  });
+
+  it('should treat missing, null and empty values as missing required fields', () => {
+    expect(orderSchema.validate({ kind: 'market', mint: '', legs: null })).toEqual([
+      { path: 'mint', message: 'mint is required' },
+      { path: 'legs', message: 'legs is required' },
+    ]);
+  });
+
+  it('should check conditional requirements once the fields are valid', () => {
+    expect(orderSchema.validate({ kind: 'limit', mint: MINT, legs: [{ percentage: 50 }] })).toEqual([
+      { path: 'price', message: 'price is required when kind is limit' },
+    ]);
+  });
+
+  it('should require exactly one of mutually exclusive fields', () => {
+    const sourceSchema = schema.object({
+      hopMap: schema.array(schema.string()).optional(),
+      checkpointKey: schema.string().optional(),
+    }).requireExactlyOne(['hopMap', 'checkpointKey']);
+
+    expect(sourceSchema.validate({ checkpointKey: 'hopper-1' })).toEqual([]);
+    expect(sourceSchema.validate({})).toEqual([{ path: '', message: 'Exactly one of hopMap or checkpointKey is required' }]);
+    expect(sourceSchema.validate({ hopMap: [], checkpointKey: 'hopper-1' })).toHaveLength(1);
+  });
+
+  it('should report refinements on the given field', () => {
+    const totalSchema = schema.object({ parts: schema.array(schema.number()) })
+      .refine(({ parts }) => (parts.reduce((total, part) => total + part, 0) > 100 ? 'parts cannot exceed 100' : undefined), 'parts');
+
+    expect(totalSchema.validate({ parts: [60, 50] })).toEqual([{ path: 'parts', message: 'parts cannot exceed 100' }]);
+  });
+
+  it('should throw a ValidationError carrying the issues on assert', () => {
+    const error = (() => {
+      try {
+        orderSchema.assert({ kind: 'market', legs: [] });
+      } catch (caught) {
+        return caught;
+      }
+      return undefined;
+    })();
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      message: 'mint is required; legs must contain at least 1 item',
+      issues: [
+        { path: 'mint', message: 'mint is required' },
+        { path: 'legs', message: 'legs must contain at least 1 item' },
+      ],
+    });
+  });
+
+  it('should export as JSON Schema', () => {
+    expect(toJsonSchema(orderSchema, 'Order')).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: 'Order',
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: ['market', 'limit'] },
+        mint: { type: 'string', minLength: 1, pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$' },
+        price: { type: 'number', exclusiveMinimum: 0 },
+        legs: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: { percentage: { type: 'number', minimum: 0, maximum: 100 } },
+            required: ['percentage'],
+          },
+        },
+        memo: { type: 'string', minLength: 1, description: 'Shown in the explorer' },
+      },
+      required: ['kind', 'mint', 'legs'],
+      allOf: [{ if: { properties: { kind: { const: 'limit' } }, required: ['kind'] }, then: { required: ['price'] } }],
+    });
+  });
+
+  it('should leave fields that cannot be written as JSON out of the JSON Schema', () => {
+    const signerSchema = schema.object({
+      name: schema.string(),
+      signer: schema.custom((value): value is Date => value instanceof Date, 'a date'),
+    });
+
+    expect(signerSchema.toJsonSchema()).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 } },
+      required: ['name'],
+    });
+    expect(signerSchema.validate({ name: 'a', signer: 'today' })).toEqual([{ path: 'signer', message: 'signer must be a date' }]);
+  });
+
+  describe('parse', () => {
+    it('should convert numeric strings and leave out null optional fields', () => {
+      expect(orderSchema.parse({ kind: 'limit', mint: MINT, price: ' 1.5e2 ', legs: [{ percentage: '25' }], memo: null })).toEqual({
+        success: true,
+        value: { kind: 'limit', mint: MINT, price: 150, legs: [{ percentage: 25 }] },
+      });
+    });
+
+    it('should not convert strings that are not numbers', () => {
+      expect(orderSchema.parse({ kind: 'market', mint: MINT, legs: [{ percentage: '0x10' }] })).toEqual({
+        success: false,
+        issues: [{ path: 'legs[0].percentage', message: 'legs[0].percentage must be a valid number' }],
+      });
+    });
+
+    it('should reject unknown fields, including nested ones', () => {
+      expect(orderSchema.parse({ kind: 'market', mint: MINT, legs: [{ percentage: 25, mint: MINT }], slippage: 50 })).toEqual({
+        success: false,
+        issues: [
+          { path: 'legs[0].mint', message: 'Unknown field legs[0].mint' },
+          { path: 'slippage', message: 'Unknown field slippage' },
+        ],
+      });
+    });
+
+    it('should leave the value it was given unchanged', () => {
+      const value = { kind: 'market', mint: MINT, legs: [{ percentage: '25' }] };
+      orderSchema.parse(value);
+
+      expect(value.legs[0]?.percentage).toBe('25');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Utility functions for cancelling work with an AbortSignal
+ */
+
+/**
+ * Creates the error thrown when an operation is aborted
+ * @param signal - The aborted signal; a string or Error reason becomes the message
+ * @returns An Error named 'AbortError'
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason;
+  const message = reason instanceof Error ? reason.message : typeof reason === 'string' ? reason : 'Operation aborted';
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ * @param signal - Optional signal to check
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Checks if an error was raised by an aborted operation
+ * @param error - The error to check
+ * @returns True for abort errors
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Waits for a delay, rejecting early with an AbortError if the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cuts the wait short
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
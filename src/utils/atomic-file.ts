@@ -0,0 +1,62 @@
+/**
+ * Utility functions for crash-safe file persistence
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+
+let tempCounter = 0;
+
+/**
+ * Write a file atomically: data goes to a temporary file in the same
+ * directory which is then renamed over the target, so readers never see a
+ * partially written file
+ * @param filePath - Destination file path
+ * @param data - File contents
+ * @param mode - Optional permissions for the file, e.g. 0o600 for files holding secrets
+ */
+export async function writeFileAtomic(filePath: string, data: string, mode?: number): Promise<void> {
+    const directory = path.dirname(filePath);
+    const tempPath = path.join(directory, `.${path.basename(filePath)}.${process.pid}.${++tempCounter}.tmp`);
+
+    await fs.mkdir(directory, { recursive: true });
+
+    try {
+        const handle = await fs.open(tempPath, 'w', mode);
+        try {
+            await handle.writeFile(data, 'utf8');
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Read and parse a JSON file
+ * @param filePath - File path
+ * @param fallback - Value to return when the file does not exist
+ * @returns Parsed file contents, or the fallback
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+    let contents: string;
+
+    try {
+        contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return fallback;
+        }
+        throw error;
+    }
+
+    try {
+        return JSON.parse(contents) as T;
+    } catch (error) {
+        throw new Error(`Failed to parse JSON file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
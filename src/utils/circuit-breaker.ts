@@ -0,0 +1,245 @@
+/**
+ * Circuit breakers for external APIs such as Jupiter, Raydium, the Helius
+ * enhanced API and the metadata uploaders
+ */
+
+import { isAbortError } from './abort';
+import { CircuitOpenError, isRetryableError, ValidationError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit, default 5
+  cooldownMs?: number; // How long the circuit stays open before a probe call is let through, default 30000
+  isFailure?: (error: Error) => boolean; // Errors that count against the endpoint, default isRetryableError
+  onStateChange?: (snapshot: CircuitBreakerSnapshot, previous: CircuitState) => void;
+  now?: () => number; // Source of the current time, default Date.now
+}
+
+/**
+ * Breaker state, as exposed for monitoring
+ */
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  rejectedCalls: number; // Calls failed fast while open
+  lastError?: string;
+  openedAt?: number; // Epoch ms of the last time the circuit opened
+  nextProbeAt?: number; // Epoch ms from which a probe call is let through, while open
+}
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<Omit<CircuitBreakerOptions, 'onStateChange'>> = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+  isFailure: error => isRetryableError(error),
+  now: Date.now,
+};
+
+/**
+ * Guards calls to one endpoint. After failureThreshold consecutive failures the
+ * circuit opens and calls fail fast with CircuitOpenError. Once cooldownMs has
+ * passed it half-opens and lets a single probe call through: success closes
+ * the circuit, failure opens it for another cooldown.
+ *
+ * Only errors accepted by isFailure count; a request the endpoint rejected as
+ * invalid shows that it is up. Aborted calls are ignored.
+ */
+export class CircuitBreaker {
+  public readonly name: string;
+  private readonly options: Required<Omit<CircuitBreakerOptions, 'onStateChange'>>;
+  private readonly onStateChange?: CircuitBreakerOptions['onStateChange'];
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private rejectedCalls = 0;
+  private lastError?: string;
+  private openedAt?: number;
+  private probeInFlight = false;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    const { onStateChange, ...rest } = options;
+    this.name = name;
+    this.options = {
+      ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+      ...Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)),
+    };
+    this.onStateChange = onStateChange;
+
+    if (!Number.isInteger(this.options.failureThreshold) || this.options.failureThreshold < 1) {
+      throw new ValidationError('failureThreshold must be a positive integer');
+    }
+    if (this.options.cooldownMs < 0) {
+      throw new ValidationError('cooldownMs must not be negative');
+    }
+  }
+
+  /**
+   * Gets the current state; an open circuit whose cooldown has passed reports half_open
+   * @returns The state
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && this.options.now() >= this.nextProbeAt()) {
+      this.transition('half_open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Checks whether calls currently fail fast, so that callers can skip to a fallback
+   * @returns True while the circuit is open, or half-open with its probe call in flight
+   */
+  isOpen(): boolean {
+    const state = this.getState();
+    return state === 'open' || (state === 'half_open' && this.probeInFlight);
+  }
+
+  /**
+   * Runs a call to the endpoint through the breaker
+   * @param operation - The call
+   * @returns The call's result
+   * @throws CircuitOpenError without making the call while the circuit is open
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.isOpen()) {
+      this.rejectedCalls++;
+      throw new CircuitOpenError(this.name, Math.max(0, this.nextProbeAt() - this.options.now()));
+    }
+
+    const isProbe = this.state === 'half_open';
+    if (isProbe) {
+      this.probeInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      if (!isAbortError(error)) {
+        if (this.options.isFailure(error)) {
+          this.recordFailure(error);
+        } else {
+          this.recordSuccess();
+        }
+      }
+      throw caught;
+    } finally {
+      if (isProbe) {
+        this.probeInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Closes the circuit and clears the failure count
+   */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.probeInFlight = false;
+    this.transition('closed');
+  }
+
+  /**
+   * Gets the breaker's state and counters for monitoring
+   * @returns A copy of the current state
+   */
+  getSnapshot(): CircuitBreakerSnapshot {
+    this.getState();
+    return this.buildSnapshot();
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.openedAt = undefined;
+      this.transition('closed');
+    }
+  }
+
+  private recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error.message;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = this.options.now();
+      this.transition('open');
+    }
+  }
+
+  private nextProbeAt(): number {
+    return (this.openedAt ?? 0) + this.options.cooldownMs;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    if (previous !== state) {
+      this.onStateChange?.(this.buildSnapshot(), previous);
+    }
+  }
+
+  private buildSnapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      rejectedCalls: this.rejectedCalls,
+      lastError: this.lastError,
+      openedAt: this.openedAt,
+      nextProbeAt: this.state === 'open' ? this.nextProbeAt() : undefined,
+    };
+  }
+}
+
+/**
+ * Breakers keyed by endpoint name, so that every client of an endpoint shares one
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly defaults: CircuitBreakerOptions;
+
+  constructor(defaults: CircuitBreakerOptions = {}) {
+    this.defaults = defaults;
+  }
+
+  /**
+   * Gets the breaker for an endpoint, creating it on first use
+   * @param name - The endpoint name, e.g. 'jupiter'
+   * @param options - Options for a breaker created by this call, over the registry's defaults
+   * @returns The endpoint's breaker
+   */
+  get(name: string, options: CircuitBreakerOptions = {}): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, { ...this.defaults, ...options });
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Gets the state of every breaker for monitoring
+   * @returns One snapshot per endpoint
+   */
+  getSnapshots(): CircuitBreakerSnapshot[] {
+    return [...this.breakers.values()].map(breaker => breaker.getSnapshot());
+  }
+
+  /**
+   * Closes every breaker
+   */
+  reset(): void {
+    this.breakers.forEach(breaker => breaker.reset());
+  }
+}
+
+/**
+ * Breakers shared by the swap protocols and clients unless they are given their own
+ */
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -0,0 +1,266 @@
+/**
+ * Typed errors thrown by clients and delegates
+ */
+
+import { isAbortError } from './abort';
+
+export const ERROR_CODES = {
+  VALIDATION: 'VALIDATION_ERROR',
+  CONFIGURATION: 'CONFIGURATION_ERROR',
+  INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+  RPC: 'RPC_ERROR',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SLIPPAGE_EXCEEDED: 'SLIPPAGE_EXCEEDED',
+  BLOCKHASH_EXPIRED: 'BLOCKHASH_EXPIRED',
+  TRANSACTION_FAILED: 'TRANSACTION_FAILED',
+  TRANSACTION_PENDING: 'TRANSACTION_PENDING',
+  PROTOCOL: 'PROTOCOL_ERROR',
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
+} as const;
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+/**
+ * Options shared by every framework error
+ */
+export interface FrameworkErrorOptions {
+  cause?: unknown; // The underlying error, if this one wraps it
+  details?: Record<string, unknown>; // Structured context, e.g. the RPC method
+}
+
+/**
+ * Base class of all framework errors. The code is stable across releases;
+ * retryable tells whether the same operation may succeed if tried again.
+ */
+export class FrameworkError extends Error {
+  public readonly code: ErrorCode;
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, code: ErrorCode, retryable: boolean, options: FrameworkErrorOptions = {}) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = retryable;
+    this.cause = options.cause;
+    this.details = options.details;
+  }
+
+  toJSON(): { name: string; code: ErrorCode; message: string; retryable: boolean; details?: Record<string, unknown> } {
+    return { name: this.name, code: this.code, message: this.message, retryable: this.retryable, details: this.details };
+  }
+}
+
+/**
+ * One invalid field, as reported by schema validation
+ */
+export interface ValidationIssue {
+  path: string; // e.g. 'allocations[0].percentage'; empty for the value as a whole
+  message: string;
+}
+
+/**
+ * Invalid options or parameters; retrying cannot help
+ */
+export class ValidationError extends FrameworkError {
+  public readonly issues: ValidationIssue[]; // Every invalid field, when validated against a schema
+
+  constructor(message: string, options: FrameworkErrorOptions & { issues?: ValidationIssue[] } = {}) {
+    super(message, ERROR_CODES.VALIDATION, false, options);
+    this.issues = options.issues ?? [];
+  }
+}
+
+/**
+ * A missing dependency or registration, e.g. a delegate built without its client
+ */
+export class ConfigurationError extends FrameworkError {
+  constructor(message: string, options?: FrameworkErrorOptions) {
+    super(message, ERROR_CODES.CONFIGURATION, false, options);
+  }
+}
+
+/**
+ * The wallet holds too little SOL or tokens for the operation
+ */
+export class InsufficientFundsError extends FrameworkError {
+  constructor(message: string, options?: FrameworkErrorOptions) {
+    super(message, ERROR_CODES.INSUFFICIENT_FUNDS, false, options);
+  }
+}
+
+/**
+ * A failed RPC or HTTP request. Network failures, timeouts and server errors
+ * are retryable; errors the node returns for the request itself are not.
+ */
+export class RpcError extends FrameworkError {
+  public readonly status?: number; // HTTP status, if a response was received
+
+  constructor(message: string, options: FrameworkErrorOptions & { retryable?: boolean; status?: number } = {}) {
+    super(message, ERROR_CODES.RPC, options.retryable ?? true, options);
+    this.status = options.status;
+  }
+}
+
+/**
+ * The provider rejected the request with HTTP 429
+ */
+export class RateLimitError extends FrameworkError {
+  public readonly retryAfterMs?: number; // From the Retry-After header, if sent
+
+  constructor(message: string, options: FrameworkErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, ERROR_CODES.RATE_LIMITED, true, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The price moved beyond the allowed slippage before the swap landed
+ */
+export class SlippageError extends FrameworkError {
+  constructor(message: string, options?: FrameworkErrorOptions) {
+    super(message, ERROR_CODES.SLIPPAGE_EXCEEDED, false, options);
+  }
+}
+
+/**
+ * The transaction's blockhash expired before it landed; it can be rebuilt and sent again
+ */
+export class BlockhashExpiredError extends FrameworkError {
+  constructor(message: string, options?: FrameworkErrorOptions) {
+    super(message, ERROR_CODES.BLOCKHASH_EXPIRED, true, options);
+  }
+}
+
+/**
+ * The transaction landed but failed on chain
+ */
+export class TransactionFailedError extends FrameworkError {
+  public readonly signature?: string;
+
+  constructor(message: string, options: FrameworkErrorOptions & { signature?: string } = {}) {
+    super(message, ERROR_CODES.TRANSACTION_FAILED, false, options);
+    this.signature = options.signature;
+  }
+}
+
+/**
+ * A sent transaction is not final yet; try again once it has landed or expired
+ */
+export class TransactionPendingError extends FrameworkError {
+  public readonly signature: string;
+
+  constructor(message: string, signature: string, options?: FrameworkErrorOptions) {
+    super(message, ERROR_CODES.TRANSACTION_PENDING, true, options);
+    this.signature = signature;
+  }
+}
+
+/**
+ * A swap protocol, launchpad or metadata service could not complete the operation
+ */
+export class ProtocolError extends FrameworkError {
+  public readonly protocol: string;
+
+  constructor(message: string, protocol: string, options: FrameworkErrorOptions & { retryable?: boolean } = {}) {
+    super(message, ERROR_CODES.PROTOCOL, options.retryable ?? false, options);
+    this.protocol = protocol;
+  }
+}
+
+/**
+ * The endpoint's circuit breaker is open after repeated failures, so the call
+ * was not made. Not retryable: retrying before the cooldown ends fails the same
+ * way, so callers should fall back to another provider or try again later.
+ */
+export class CircuitOpenError extends FrameworkError {
+  public readonly endpoint: string;
+  public readonly retryAfterMs: number; // Until the breaker lets a probe call through
+
+  constructor(endpoint: string, retryAfterMs: number, options?: FrameworkErrorOptions) {
+    super(`Circuit breaker for ${endpoint} is open; retry in ${retryAfterMs}ms`, ERROR_CODES.CIRCUIT_OPEN, false, {
+      ...options,
+      details: { endpoint, retryAfterMs, ...options?.details },
+    });
+    this.endpoint = endpoint;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Checks whether a request that failed with this HTTP status may succeed if sent again
+ * @param status - The HTTP status
+ * @returns True for rate limits, timeouts and server errors
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Creates the error for an unsuccessful HTTP response: a RateLimitError for 429,
+ * otherwise an RpcError that is retryable for timeouts and server errors
+ * @param message - The error message
+ * @param status - The HTTP status
+ * @param retryAfter - The Retry-After header in seconds, if sent
+ * @returns The error to throw
+ */
+export function createHttpError(message: string, status: number, retryAfter?: string | null): RateLimitError | RpcError {
+  if (status === 429) {
+    const seconds = Number(retryAfter);
+    const retryAfterMs = retryAfter && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+    return new RateLimitError(message, { retryAfterMs, details: { status } });
+  }
+  return new RpcError(message, { status, retryable: isRetryableStatus(status) });
+}
+
+const RATE_LIMIT_PATTERN = /\b429\b|too many requests|rate limit/i;
+const BLOCKHASH_EXPIRED_PATTERN = /blockhash not found|block height exceeded|blockhash.*expired/i;
+const SLIPPAGE_PATTERN = /slippage|0x1771/i;
+const INSUFFICIENT_FUNDS_PATTERN = /insufficient (funds|lamports|balance)/i;
+const NETWORK_PATTERN = /timed out|timeout|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|fetch failed|network/i;
+
+/**
+ * Classifies an error thrown by a library, such as web3.js or fetch, by its message
+ * @param error - The error to classify
+ * @returns The matching framework error wrapping it, or undefined if none matches
+ */
+export function classifyError(error: unknown): FrameworkError | undefined {
+  if (error instanceof FrameworkError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const options = { cause: error };
+
+  if (RATE_LIMIT_PATTERN.test(message)) {
+    return new RateLimitError(message, options);
+  }
+  if (BLOCKHASH_EXPIRED_PATTERN.test(message)) {
+    return new BlockhashExpiredError(message, options);
+  }
+  if (SLIPPAGE_PATTERN.test(message)) {
+    return new SlippageError(message, options);
+  }
+  if (INSUFFICIENT_FUNDS_PATTERN.test(message)) {
+    return new InsufficientFundsError(message, options);
+  }
+  if (NETWORK_PATTERN.test(message)) {
+    return new RpcError(message, options);
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether an operation that failed with this error may succeed if tried again.
+ * Aborts never are; errors that cannot be classified are assumed to be transient.
+ * @param error - The error to check
+ * @returns True if the operation may be retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+  return classifyError(error)?.retryable ?? true;
+}
@@ -0,0 +1,83 @@
+/**
+ * Logger implementations and per-run structured log fields
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Logger } from '../solana/types';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to every log entry written within a run
+ */
+export interface LogFields {
+  delegateType?: string;
+  taskId?: string;
+  pipelineRunId?: string;
+  pipelineStepId?: string;
+  [key: string]: unknown;
+}
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const logFieldsStorage = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Logger that discards everything, e.g. for tests
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Creates a logger writing to the console. Info entries go to console.log.
+ * @param minLevel - Entries below this level are dropped
+ * @returns The console logger
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'debug'): Logger {
+  const write = (level: LogLevel, method: (...args: any[]) => void) => (message: string, data?: any) => {
+    if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[minLevel]) {
+      return;
+    }
+    if (data === undefined) {
+      method(message);
+    } else {
+      method(message, data);
+    }
+  };
+
+  return {
+    debug: write('debug', (...args) => console.debug(...args)),
+    info: write('info', (...args) => console.log(...args)),
+    warn: write('warn', (...args) => console.warn(...args)),
+    error: write('error', (...args) => console.error(...args)),
+  };
+}
+
+/**
+ * Default logger of delegates and swap protocols
+ */
+export const consoleLogger: Logger = createConsoleLogger();
+
+/**
+ * Runs a function with log fields that delegates and swap protocols add to
+ * every entry they log while it runs, including from nested async work.
+ * Fields of an enclosing call are kept unless overridden.
+ * @param fields - Fields to attach, e.g. a task id
+ * @param fn - The function to run
+ * @returns The function's result
+ */
+export function withLogFields<T>(fields: LogFields, fn: () => T): T {
+  return logFieldsStorage.run({ ...logFieldsStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Gets the log fields of the current run
+ * @returns The active fields, empty outside withLogFields
+ */
+export function getLogFields(): LogFields {
+  return logFieldsStorage.getStore() ?? {};
+}
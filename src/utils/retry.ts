@@ -0,0 +1,140 @@
+/**
+ * Retry policy shared by delegates, swap protocols and clients
+ */
+
+import { abortableDelay, throwIfAborted } from './abort';
+import { isRetryableError, RateLimitError, ValidationError } from './errors';
+
+/**
+ * Source of the waits between attempts; tests inject one that resolves immediately
+ */
+export interface Clock {
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Clock that waits in real time
+ */
+export const systemClock: Clock = {
+  sleep: abortableDelay,
+};
+
+/**
+ * A failed attempt, as reported to onFailedAttempt
+ */
+export interface FailedAttempt {
+  attempt: number; // 1-based
+  maxAttempts: number;
+  error: Error;
+  retryable: boolean; // Whether shouldRetry accepted the error
+  willRetry: boolean; // False for the last attempt and errors that are not retryable
+  delayMs: number; // Wait before the next attempt, 0 if none follows
+}
+
+export interface RetryPolicyOptions {
+  maxAttempts?: number; // Including the first attempt, default 3
+  baseDelayMs?: number; // Wait after the first failure, doubled after each further one, default 1000
+  maxDelayMs?: number; // Upper bound of any wait, default 30000
+  jitter?: number; // Fraction of each wait that is randomised, 0 (none) to 1 (full), default 0
+  shouldRetry?: (error: Error, attempt: number) => boolean; // Default isRetryableError
+  clock?: Clock; // Default systemClock
+  random?: () => number; // Source of jitter, default Math.random
+}
+
+/**
+ * Per-call options of RetryPolicy.execute
+ */
+export interface RetryExecuteOptions extends RetryPolicyOptions {
+  signal?: AbortSignal; // Once aborted no further attempt starts and the wait ends early
+  onFailedAttempt?: (failure: FailedAttempt) => void;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryPolicyOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0,
+  shouldRetry: error => isRetryableError(error),
+  clock: systemClock,
+  random: Math.random,
+};
+
+/**
+ * Runs operations with exponential backoff. A policy is immutable; derive
+ * variants with withOptions or override options for a single execute call.
+ */
+export class RetryPolicy {
+  public readonly options: Readonly<Required<RetryPolicyOptions>>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...definedOptions(options) };
+
+    if (!Number.isInteger(this.options.maxAttempts) || this.options.maxAttempts < 1) {
+      throw new ValidationError('maxAttempts must be a positive integer');
+    }
+    if (this.options.jitter < 0 || this.options.jitter > 1) {
+      throw new ValidationError('jitter must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Creates a policy with some options replaced
+   * @param overrides - Options to replace; undefined values are ignored
+   * @returns The new policy
+   */
+  withOptions(overrides: RetryPolicyOptions): RetryPolicy {
+    return new RetryPolicy({ ...this.options, ...definedOptions(overrides) });
+  }
+
+  /**
+   * Computes the wait after a failed attempt. A rate limit's Retry-After is
+   * honoured when longer, and every wait is capped at maxDelayMs.
+   * @param attempt - The attempt that failed, 1-based
+   * @param error - The error it failed with
+   * @returns The wait in milliseconds
+   */
+  getDelay(attempt: number, error?: Error): number {
+    const { baseDelayMs, maxDelayMs, jitter, random } = this.options;
+    const backoff = Math.min(baseDelayMs * Math.pow(2, attempt - 1), maxDelayMs);
+    const delay = backoff * (1 - jitter * random());
+    const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs ?? 0 : 0;
+    return Math.round(Math.min(Math.max(delay, retryAfterMs), maxDelayMs));
+  }
+
+  /**
+   * Runs an operation until it succeeds, fails with an error that is not
+   * retryable, or runs out of attempts
+   * @param operation - The operation, given the 1-based attempt number
+   * @param options - Overrides for this call, an abort signal and a failure hook
+   * @returns The operation's result
+   */
+  async execute<T>(operation: (attempt: number) => Promise<T>, options: RetryExecuteOptions = {}): Promise<T> {
+    const { signal, onFailedAttempt, ...overrides } = options;
+    const policy = Object.values(definedOptions(overrides)).length > 0 ? this.withOptions(overrides) : this;
+    const { maxAttempts, shouldRetry, clock } = policy.options;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+
+      try {
+        return await operation(attempt);
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error(String(caught));
+        const retryable = shouldRetry(error, attempt);
+        const willRetry = retryable && attempt < maxAttempts;
+        const delayMs = willRetry ? policy.getDelay(attempt, error) : 0;
+
+        onFailedAttempt?.({ attempt, maxAttempts, error, retryable, willRetry, delayMs });
+
+        if (!willRetry) {
+          throw error;
+        }
+        await clock.sleep(delayMs, signal);
+      }
+    }
+  }
+}
+
+function definedOptions(options: RetryPolicyOptions): RetryPolicyOptions {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
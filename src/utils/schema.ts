@@ -0,0 +1,503 @@
+/**
+ * Declarative schemas: one description of a value validates it at runtime,
+ * types it at compile time and exports as JSON Schema
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { ValidationError, ValidationIssue } from './errors';
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * The TypeScript type a schema validates
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = { [key: string]: Schema<unknown> };
+
+type RequiredKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? never : K }[keyof S];
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+export type ObjectType<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+/**
+ * The outcome of parsing an untrusted value
+ */
+export type ParseResult<T> = { success: true; value: T } | { success: false; issues: ValidationIssue[] };
+
+export abstract class Schema<T> {
+  declare readonly output: T; // Carries the validated type; never set at runtime
+  public description?: string;
+
+  /**
+   * Checks a value and records what is wrong with it
+   * @param value - The value to check
+   * @param path - Where the value sits in the validated object, e.g. 'allocations[0]'
+   * @param issues - Receives one issue per invalid field
+   */
+  abstract check(value: unknown, path: string, issues: ValidationIssue[]): void;
+
+  /**
+   * Describes the schema as JSON Schema (draft-07)
+   * @returns The JSON Schema, or undefined for values that cannot be written as JSON
+   */
+  abstract toJsonSchema(): JsonSchema | undefined;
+
+  /**
+   * Converts an untrusted value towards the schema before it is checked
+   * @param value - The value to convert
+   * @param path - Where the value sits in the parsed object
+   * @param issues - Receives issues that checking the value would not find, e.g. unknown fields
+   * @returns The converted value; the value itself by default
+   */
+  normalize(value: unknown, path: string, issues: ValidationIssue[]): unknown;
+  normalize(value: unknown): unknown {
+    return value;
+  }
+
+  /**
+   * Sets the description shown with the field, e.g. as a form hint
+   */
+  describe(description: string): this {
+    this.description = description;
+    return this;
+  }
+
+  /**
+   * Allows the value to be left out
+   */
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * Validates a value
+   * @param value - The value to validate
+   * @returns Every issue found; empty if the value is valid
+   */
+  validate(value: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    this.check(value, '', issues);
+    return issues;
+  }
+
+  /**
+   * Validates a value and throws if it is invalid
+   * @param value - The value to validate
+   * @throws ValidationError listing every issue, with the messages joined into its message
+   */
+  assert(value: unknown): void {
+    const issues = this.validate(value);
+    if (issues.length > 0) {
+      throw new ValidationError(issues.map(issue => issue.message).join('; '), { issues, details: { issues } });
+    }
+  }
+
+  /**
+   * Parses an untrusted value, e.g. from a JSON request body. Unlike validate,
+   * numeric strings are converted to numbers, null leaves out optional fields
+   * and fields the schema does not know are rejected.
+   * @param value - The value to parse
+   * @returns The parsed value, or every issue found
+   */
+  parse(value: unknown): ParseResult<T> {
+    const issues: ValidationIssue[] = [];
+    const normalized = this.normalize(value, '', issues);
+    this.check(normalized, '', issues);
+    return issues.length > 0 ? { success: false, issues } : { success: true, value: normalized as T };
+  }
+
+  protected withDescription(jsonSchema: JsonSchema): JsonSchema {
+    return this.description ? { ...jsonSchema, description: this.description } : jsonSchema;
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(public readonly inner: Schema<T>) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (value !== undefined) {
+      this.inner.check(value, path, issues);
+    }
+  }
+
+  override normalize(value: unknown, path: string, issues: ValidationIssue[]): unknown {
+    return value === undefined || value === null ? undefined : this.inner.normalize(value, path, issues);
+  }
+
+  toJsonSchema(): JsonSchema | undefined {
+    const jsonSchema = this.inner.toJsonSchema();
+    return jsonSchema && this.withDescription(jsonSchema);
+  }
+}
+
+export interface StringSchemaOptions {
+  minLength?: number; // Default 1
+  format?: 'publicKey' | 'base58'; // A Solana address, or base58 data such as a secret key
+}
+
+const NUMERIC_STRING_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const BASE58_PATTERN = '^[1-9A-HJ-NP-Za-km-z]+$';
+const PUBLIC_KEY_PATTERN = '^[1-9A-HJ-NP-Za-km-z]{32,44}$';
+
+export class StringSchema extends Schema<string> {
+  constructor(private readonly options: StringSchemaOptions = {}) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    const label = labelOf(path);
+    const { minLength = 1, format } = this.options;
+
+    if (typeof value !== 'string' || (value.length === 0 && minLength > 0)) {
+      issues.push({ path, message: `${label} must be a non-empty string` });
+    } else if (value.length < minLength) {
+      issues.push({ path, message: `${label} must be at least ${minLength} characters` });
+    } else if (format === 'publicKey' && !isPublicKey(value)) {
+      issues.push({ path, message: `Invalid ${label}: ${value}, must be a valid public key` });
+    } else if (format === 'base58' && !isBase58(value)) {
+      // The value may be a secret, so it is left out of the message
+      issues.push({ path, message: `Invalid ${label}, must be base58-encoded` });
+    }
+  }
+
+  toJsonSchema(): JsonSchema {
+    const { minLength = 1, format } = this.options;
+    const pattern = format === 'publicKey' ? PUBLIC_KEY_PATTERN : format === 'base58' ? BASE58_PATTERN : undefined;
+    return this.withDescription({ type: 'string', minLength, ...(pattern && { pattern }) });
+  }
+}
+
+export interface NumberSchemaOptions {
+  min?: number;
+  max?: number;
+  greaterThan?: number; // Exclusive minimum
+  integer?: boolean;
+}
+
+export class NumberSchema extends Schema<number> {
+  constructor(private readonly options: NumberSchemaOptions = {}) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    const label = labelOf(path);
+    const { min, max, greaterThan, integer } = this.options;
+
+    if (typeof value !== 'number' || isNaN(value)) {
+      issues.push({ path, message: `${label} must be a valid number` });
+    } else if (integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `${label} must be a whole number` });
+    } else if (min !== undefined && value < min) {
+      issues.push({ path, message: `${label} must be at least ${min}` });
+    } else if (greaterThan !== undefined && value <= greaterThan) {
+      issues.push({ path, message: `${label} must be greater than ${greaterThan}` });
+    } else if (max !== undefined && value > max) {
+      issues.push({ path, message: `${label} must be at most ${max}` });
+    }
+  }
+
+  override normalize(value: unknown): unknown {
+    return typeof value === 'string' && NUMERIC_STRING_PATTERN.test(value.trim()) ? Number(value) : value;
+  }
+
+  toJsonSchema(): JsonSchema {
+    const { min, max, greaterThan, integer } = this.options;
+    return this.withDescription({
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(greaterThan !== undefined && { exclusiveMinimum: greaterThan }),
+      ...(max !== undefined && { maximum: max }),
+    });
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `${labelOf(path)} must be true or false` });
+    }
+  }
+
+  toJsonSchema(): JsonSchema {
+    return this.withDescription({ type: 'boolean' });
+  }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+  constructor(public readonly values: readonly T[]) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!this.values.includes(value as T)) {
+      const quoted = this.values.map(allowed => `'${allowed}'`);
+      const allowed = quoted.length === 1
+        ? quoted[0]
+        : `${quoted.length === 2 ? 'either' : 'one of'} ${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`;
+      issues.push({ path, message: `${labelOf(path)} must be ${allowed}` });
+    }
+  }
+
+  toJsonSchema(): JsonSchema {
+    return this.withDescription(this.values.length === 1 ? { const: this.values[0] } : { type: 'string', enum: [...this.values] });
+  }
+}
+
+export interface ArraySchemaOptions {
+  minItems?: number;
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(public readonly items: Schema<T>, private readonly options: ArraySchemaOptions = {}) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    const { minItems } = this.options;
+
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `${labelOf(path)} must be an array` });
+      return;
+    }
+    if (minItems !== undefined && value.length < minItems) {
+      issues.push({ path, message: `${labelOf(path)} must contain at least ${minItems} ${minItems === 1 ? 'item' : 'items'}` });
+      return;
+    }
+    value.forEach((item, index) => this.items.check(item, `${path}[${index}]`, issues));
+  }
+
+  override normalize(value: unknown, path: string, issues: ValidationIssue[]): unknown {
+    return Array.isArray(value) ? value.map((item, index) => this.items.normalize(item, `${path}[${index}]`, issues)) : value;
+  }
+
+  toJsonSchema(): JsonSchema | undefined {
+    const items = this.items.toJsonSchema();
+    if (!items) {
+      return undefined;
+    }
+    const { minItems } = this.options;
+    return this.withDescription({ type: 'array', items, ...(minItems !== undefined && { minItems }) });
+  }
+}
+
+/**
+ * A rule across several fields, checked once every field is valid on its own
+ */
+interface ObjectRule<T> {
+  check(value: T, path: string, issues: ValidationIssue[]): void;
+  jsonSchema?: JsonSchema; // Added to the object's allOf, if the rule can be written as JSON Schema
+}
+
+export class ObjectSchema<S extends Shape> extends Schema<ObjectType<S>> {
+  private readonly rules: ObjectRule<ObjectType<S>>[] = [];
+
+  constructor(public readonly shape: S) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      issues.push({ path, message: `${labelOf(path)} must be an object` });
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const fieldIssues: ValidationIssue[] = [];
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const fieldPath = joinPath(path, key);
+      const fieldValue = record[key];
+      if (!(schema instanceof OptionalSchema) && (fieldValue === undefined || fieldValue === null || fieldValue === '')) {
+        fieldIssues.push({ path: fieldPath, message: `${fieldPath} is required` });
+      } else {
+        schema.check(fieldValue, fieldPath, fieldIssues);
+      }
+    }
+
+    issues.push(...fieldIssues);
+    if (fieldIssues.length === 0) {
+      this.rules.forEach(rule => rule.check(value as ObjectType<S>, path, issues));
+    }
+  }
+
+  override normalize(value: unknown, path: string, issues: ValidationIssue[]): unknown {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return value;
+    }
+
+    const normalized: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const fieldPath = joinPath(path, key);
+      const schema = this.shape[key];
+      if (!schema) {
+        issues.push({ path: fieldPath, message: `Unknown field ${fieldPath}` });
+        continue;
+      }
+      const normalizedValue = schema.normalize(fieldValue, fieldPath, issues);
+      if (normalizedValue !== undefined) {
+        normalized[key] = normalizedValue;
+      }
+    }
+    return normalized;
+  }
+
+  toJsonSchema(): JsonSchema {
+    const properties: JsonSchema = {};
+    const required: string[] = [];
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const property = schema.toJsonSchema();
+      if (property) {
+        properties[key] = property;
+        if (!(schema instanceof OptionalSchema)) {
+          required.push(key);
+        }
+      }
+    }
+
+    const allOf = this.rules.flatMap(rule => (rule.jsonSchema ? [rule.jsonSchema] : []));
+    return this.withDescription({
+      type: 'object',
+      properties,
+      required,
+      ...(allOf.length > 0 && { allOf }),
+    });
+  }
+
+  /**
+   * Requires fields while another field has a given value
+   * @param field - The field the requirement depends on
+   * @param equals - The value that makes the fields required
+   * @param fields - The fields that become required
+   */
+  requireWhen<K extends keyof ObjectType<S> & string>(field: K, equals: ObjectType<S>[K], fields: (keyof ObjectType<S> & string)[]): this {
+    this.rules.push({
+      check: (value, path, issues) => {
+        if (value[field] !== equals) {
+          return;
+        }
+        for (const required of fields) {
+          const requiredValue = value[required];
+          if (requiredValue === undefined || requiredValue === null || requiredValue === '') {
+            const requiredPath = joinPath(path, required);
+            issues.push({ path: requiredPath, message: `${requiredPath} is required when ${field} is ${String(equals)}` });
+          }
+        }
+      },
+      jsonSchema: {
+        if: { properties: { [field]: { const: equals } }, required: [field] },
+        then: { required: fields },
+      },
+    });
+    return this;
+  }
+
+  /**
+   * Requires exactly one of some fields to be set
+   * @param fields - The mutually exclusive fields
+   */
+  requireExactlyOne(fields: (keyof ObjectType<S> & string)[]): this {
+    this.rules.push({
+      check: (value, path, issues) => {
+        const set = fields.filter(field => value[field] !== undefined);
+        if (set.length !== 1) {
+          issues.push({ path, message: `Exactly one of ${fields.join(' or ')} is required` });
+        }
+      },
+      jsonSchema: { oneOf: fields.map(field => ({ required: [field] })) },
+    });
+    return this;
+  }
+
+  /**
+   * Adds a rule that JSON Schema cannot express; it only runs at runtime
+   * @param check - Returns the message if the value breaks the rule
+   * @param field - The field to report the issue on; the object itself if omitted
+   */
+  refine(check: (value: ObjectType<S>) => string | undefined, field?: keyof ObjectType<S> & string): this {
+    this.rules.push({
+      check: (value, path, issues) => {
+        const message = check(value);
+        if (message) {
+          issues.push({ path: field ? joinPath(path, field) : path, message });
+        }
+      },
+    });
+    return this;
+  }
+}
+
+/**
+ * A value checked by a function, such as a class instance
+ */
+export class CustomSchema<T> extends Schema<T> {
+  constructor(private readonly isValid: (value: unknown) => boolean, private readonly expected: string) {
+    super();
+  }
+
+  check(value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (!this.isValid(value)) {
+      issues.push({ path, message: `${labelOf(path)} must be ${this.expected}` });
+    }
+  }
+
+  toJsonSchema(): undefined {
+    return undefined;
+  }
+}
+
+/**
+ * Schema builders
+ */
+export const schema = {
+  string: (options?: StringSchemaOptions) => new StringSchema(options),
+  number: (options?: NumberSchemaOptions) => new NumberSchema(options),
+  boolean: () => new BooleanSchema(),
+  literal: <const T extends string>(value: T) => new EnumSchema<T>([value]),
+  enum: <const T extends string>(values: readonly T[]) => new EnumSchema<T>(values),
+  array: <T>(items: Schema<T>, options?: ArraySchemaOptions) => new ArraySchema<T>(items, options),
+  object: <S extends Shape>(shape: S) => new ObjectSchema<S>(shape),
+  custom: <T>(isValid: (value: unknown) => value is T, expected: string) => new CustomSchema<T>(isValid, expected),
+};
+
+/**
+ * Exports a schema as a standalone JSON Schema document
+ * @param valueSchema - The schema to export
+ * @param title - The document's title, e.g. the delegate type
+ * @returns The JSON Schema, with its $schema and title set
+ */
+export function toJsonSchema(valueSchema: Schema<unknown>, title?: string): JsonSchema {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    ...(title && { title }),
+    ...valueSchema.toJsonSchema(),
+  };
+}
+
+function labelOf(path: string): string {
+  return path || 'value';
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isBase58(value: string): boolean {
+  try {
+    bs58.decode(value);
+    return true;
+  } catch {
+    return false;
+  }
+}